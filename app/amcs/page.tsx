@@ -22,24 +22,52 @@ import {
   X,
   ChevronDown,
   Trash2,
+  Printer,
+  RefreshCw,
+  BellRing,
+  History,
 } from 'lucide-react';
 import { format, differenceInDays } from 'date-fns';
 import { AMCFormModal } from '@/components/amcs/amc-form-modal';
-import { CustomDropdown } from '@/components/ui/custom-dropdown';
+import { AMCRenewalModal } from '@/components/amcs/amc-renewal-modal';
+import { PaymentRemindersModal } from '@/components/amcs/payment-reminders-modal';
+import { ClientSendMailModal } from '@/components/clients/client-send-mail-modal';
 import {
   apiClient,
+  fetchAllPages,
   AMCStatisticsResponse,
   AMCExpiringCountResponse,
   BackendAMCListItem,
   BackendAMCListResponse,
   BackendAMCDetail,
   BackendAMCBilling,
+  BackendAMCActivity,
   BackendClientListItem,
   BackendClientListResponse,
 } from '@/lib/api';
 import { useDebounce } from 'use-debounce';
 import { ProtectedRoute } from '@/components/auth/protected-route';
-import { showAlert, showDeleteConfirm } from '@/lib/sweetalert';
+import { useAuth } from '@/components/providers/auth-provider';
+import { showAlert, showConfirm, showDeleteConfirm } from '@/lib/sweetalert';
+import { fetchCompanyBankAccount } from '@/lib/bank-payments';
+import { ExportMenu } from '@/components/ui/export-menu';
+import { ExportColumn, ExportFormat, exportAllPages, exportFileName } from '@/lib/export';
+import { BillingAlignment, generateBillingSchedule } from '@/lib/amc-billing';
+import { AMC_SAC_CODE, printInvoice } from '@/lib/invoice';
+import { RenewalQuote, loadRenewalQuotes } from '@/lib/amc-renewal';
+import { mapBackendClientDetailToFrontend } from '@/lib/clients';
+
+const amcExportColumns: ExportColumn<BackendAMCListItem>[] = [
+  { header: 'AMC Number', value: (amc) => amc.amc_number },
+  { header: 'Client', value: (amc) => amc.client_name },
+  { header: 'Start Date', type: 'date', value: (amc) => amc.start_date },
+  { header: 'End Date', type: 'date', value: (amc) => amc.end_date },
+  { header: 'Status', value: (amc) => amc.status },
+  { header: 'Billing Cycle', value: (amc) => amc.billing_cycle },
+  { header: 'Amount', type: 'currency', value: (amc) => amc.amount },
+  { header: 'Days Until Expiry', type: 'number', value: (amc) => amc.days_until_expiry },
+  { header: 'Created On', type: 'date', value: (amc) => amc.created_at },
+];
 
 /**
  * Map backend AMC list item to frontend AMC type
@@ -129,6 +157,8 @@ function mapBackendClientToFrontendForAMC(backendClient: BackendClientListItem):
 }
 
 function AMCsPageContent() {
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission('amcs', 'write');
   const searchParams = useSearchParams();
   const router = useRouter();
 
@@ -142,6 +172,12 @@ function AMCsPageContent() {
 
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedSearchQuery] = useDebounce(searchQuery, 500);
+
+  // Pre-fill the search from ?search= (links from global search)
+  useEffect(() => {
+    const search = searchParams.get('search');
+    if (search) setSearchQuery(search);
+  }, [searchParams]);
   const [statusFilter, setStatusFilter] = useState('all');
   const [billingCycleFilter, setBillingCycleFilter] = useState('all');
   const [expiryFilter, setExpiryFilter] = useState<number | null>(null);
@@ -150,10 +186,13 @@ function AMCsPageContent() {
   const [isAMCModalOpen, setIsAMCModalOpen] = useState(false);
   const [selectedAMC, setSelectedAMC] = useState<AMC | null>(null);
   const [showBillingModal, setShowBillingModal] = useState(false);
-  const [showEmailModal, setShowEmailModal] = useState(false);
   const [billingAMC, setBillingAMC] = useState<AMC | null>(null);
   const [emailAMC, setEmailAMC] = useState<AMC | null>(null);
+  const [emailClient, setEmailClient] = useState<Client | null>(null);
   const [billingAMCDetail, setBillingAMCDetail] = useState<BackendAMCDetail | null>(null);
+  const [renewalAMC, setRenewalAMC] = useState<AMC | null>(null);
+  const [renewalQuotes, setRenewalQuotes] = useState<Record<string, RenewalQuote>>({});
+  const [showRemindersModal, setShowRemindersModal] = useState(false);
 
   // Fetch statistics
   const fetchStatistics = useCallback(async () => {
@@ -177,6 +216,16 @@ function AMCsPageContent() {
     }
   }, []);
 
+  // Fetch pending renewal quotes
+  const fetchRenewalQuotes = useCallback(async () => {
+    try {
+      setRenewalQuotes(await loadRenewalQuotes());
+    } catch (err: any) {
+      console.error('Failed to fetch renewal quotes:', err);
+      // Only the "Quote sent" badges are missing
+    }
+  }, []);
+
   // Fetch clients for form modal
   const fetchClients = useCallback(async () => {
     try {
@@ -189,36 +238,41 @@ function AMCsPageContent() {
     }
   }, []);
 
+  // Build list params from the current filters (shared by fetch and export)
+  const getListParams = useCallback(() => {
+    const params: {
+      search?: string;
+      status?: 'Pending' | 'Active' | 'Expired' | 'Canceled';
+      billing_cycle?: 'Monthly' | 'Quarterly' | 'Half-yearly' | 'Yearly';
+      expiring_days?: number;
+      page?: number;
+    } = {};
+
+    if (debouncedSearchQuery) {
+      params.search = debouncedSearchQuery;
+    }
+
+    if (statusFilter !== 'all') {
+      params.status = statusFilter as 'Pending' | 'Active' | 'Expired' | 'Canceled';
+    }
+
+    if (billingCycleFilter !== 'all') {
+      params.billing_cycle = billingCycleFilter as 'Monthly' | 'Quarterly' | 'Half-yearly' | 'Yearly';
+    }
+
+    if (expiryFilter !== null) {
+      params.expiring_days = expiryFilter;
+    }
+
+    return params;
+  }, [debouncedSearchQuery, statusFilter, billingCycleFilter, expiryFilter]);
+
   // Fetch AMCs
   const fetchAMCs = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     try {
-      const params: {
-        search?: string;
-        status?: 'Pending' | 'Active' | 'Expired' | 'Canceled';
-        billing_cycle?: 'Monthly' | 'Quarterly' | 'Half-yearly' | 'Yearly';
-        expiring_days?: number;
-        page?: number;
-      } = {};
-
-      if (debouncedSearchQuery) {
-        params.search = debouncedSearchQuery;
-      }
-
-      if (statusFilter !== 'all') {
-        params.status = statusFilter as 'Pending' | 'Active' | 'Expired' | 'Canceled';
-      }
-
-      if (billingCycleFilter !== 'all') {
-        params.billing_cycle = billingCycleFilter as 'Monthly' | 'Quarterly' | 'Half-yearly' | 'Yearly';
-      }
-
-      if (expiryFilter !== null) {
-        params.expiring_days = expiryFilter;
-      }
-
-      const response: BackendAMCListResponse = await apiClient.getAMCs(params);
+      const response: BackendAMCListResponse = await apiClient.getAMCs(getListParams());
       const mappedAMCs = response.results.map(mapBackendAMCToFrontend);
       setAmcs(mappedAMCs);
     } catch (err: any) {
@@ -227,13 +281,22 @@ function AMCsPageContent() {
     } finally {
       setIsLoading(false);
     }
-  }, [debouncedSearchQuery, statusFilter, billingCycleFilter, expiryFilter]);
+  }, [getListParams]);
+
+  // Export every AMC matching the current filters (all pages)
+  const handleExport = (exportFormat: ExportFormat) =>
+    exportAllPages((page) => apiClient.getAMCs({ ...getListParams(), page }), amcExportColumns, {
+      fileName: exportFileName('amcs'),
+      format: exportFormat,
+      sheetName: 'AMCs',
+    });
 
   useEffect(() => {
     fetchStatistics();
     fetchExpiringCount();
     fetchClients();
-  }, [fetchStatistics, fetchExpiringCount, fetchClients]);
+    fetchRenewalQuotes();
+  }, [fetchStatistics, fetchExpiringCount, fetchClients, fetchRenewalQuotes]);
 
   useEffect(() => {
     fetchAMCs();
@@ -376,6 +439,17 @@ function AMCsPageContent() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [searchParams]);
 
+  // Open the renewal modal from ?renew=<amc_number> (expiring AMCs on the dashboard)
+  const renewParam = searchParams.get('renew');
+  useEffect(() => {
+    if (!renewParam || !canWrite) return;
+    const match = amcs.find((a) => a.amc_number === renewParam);
+    if (match) {
+      setRenewalAMC(match);
+      router.replace('/amcs');
+    }
+  }, [renewParam, amcs, canWrite, router]);
+
   const handleEditAMC = async (amc: AMC) => {
     try {
       // Fetch full AMC details
@@ -389,6 +463,16 @@ function AMCsPageContent() {
     }
   };
 
+  const handleEmailAMC = async (amc: AMC) => {
+    try {
+      setEmailClient(mapBackendClientDetailToFrontend(await apiClient.getClient(amc.client_id)));
+      setEmailAMC(amc);
+    } catch (err: any) {
+      console.error('Failed to load client:', err);
+      showAlert('Error', err.message || 'Failed to load the client.', 'error');
+    }
+  };
+
   const handleDeleteAMC = async (amcId: number) => {
     const confirmed = await showDeleteConfirm('this AMC');
     if (confirmed) {
@@ -490,13 +574,27 @@ function AMCsPageContent() {
               Manage Annual Maintenance Contracts and billing
             </p>
           </div>
-          <button 
-            onClick={handleNewAMC}
-            className="flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
-          >
-            <Plus className="h-4 w-4" />
-            New AMC
-          </button>
+          <div className="flex items-center gap-2">
+            <ExportMenu onExport={handleExport} />
+            {canWrite && (
+              <button
+                onClick={() => setShowRemindersModal(true)}
+                className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+              >
+                <BellRing className="h-4 w-4" />
+                Reminders
+              </button>
+            )}
+            {canWrite && (
+              <button 
+                onClick={handleNewAMC}
+                className="flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
+              >
+                <Plus className="h-4 w-4" />
+                New AMC
+              </button>
+            )}
+          </div>
         </div>
 
         {/* Alert Banner - Show only if expiringCount > 0 */}
@@ -706,7 +804,7 @@ function AMCsPageContent() {
                 ? 'Get started by creating your first AMC contract'
                 : 'Try adjusting your search or filters'}
             </p>
-            {amcs.length === 0 && (
+            {canWrite && amcs.length === 0 && (
               <button
                 onClick={handleNewAMC}
                 className="mt-4 inline-flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
@@ -789,6 +887,11 @@ function AMCsPageContent() {
                         >
                           {amc.status}
                         </span>
+                        {renewalQuotes[String(amc.id)] && (
+                          <span className="ml-1 inline-flex rounded-full bg-sky-100 px-2 py-1 text-xs font-semibold text-sky-800 dark:bg-sky-900/30 dark:text-sky-400">
+                            Renewal Quoted
+                          </span>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                           {daysToEnd >= 0 ? (
@@ -812,30 +915,40 @@ function AMCsPageContent() {
                           >
                             <Eye className="h-4 w-4" />
                           </button>
+                          {canWrite && (
+                            <button
+                              onClick={() => handleEditAMC(amc)}
+                              className="rounded p-1 text-gray-600 hover:bg-gray-100 hover:text-gray-900 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-white"
+                              title="Edit AMC"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </button>
+                          )}
+                          {canWrite && amc.status !== 'Canceled' && (
+                            <button
+                              onClick={() => setRenewalAMC(amc)}
+                              className="rounded p-1 text-gray-600 hover:bg-gray-100 hover:text-gray-900 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-white"
+                              title="Renew AMC"
+                            >
+                              <RefreshCw className="h-4 w-4" />
+                            </button>
+                          )}
                           <button
-                            onClick={() => handleEditAMC(amc)}
-                            className="rounded p-1 text-gray-600 hover:bg-gray-100 hover:text-gray-900 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-white"
-                            title="Edit AMC"
-                          >
-                            <Edit className="h-4 w-4" />
-                          </button>
-                          <button
-                            onClick={() => {
-                              setEmailAMC(amc);
-                              setShowEmailModal(true);
-                            }}
+                            onClick={() => handleEmailAMC(amc)}
                             className="rounded p-1 text-gray-600 hover:bg-gray-100 hover:text-gray-900 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-white"
                             title="Send Email"
                           >
                             <Mail className="h-4 w-4" />
                           </button>
-                          <button
-                            onClick={() => handleDeleteAMC(amc.id)}
-                            className="rounded p-1 text-red-600 hover:bg-red-100 hover:text-red-900 dark:text-red-400 dark:hover:bg-red-900/30 dark:hover:text-red-300"
-                            title="Delete AMC"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </button>
+                          {canWrite && (
+                            <button
+                              onClick={() => handleDeleteAMC(amc.id)}
+                              className="rounded p-1 text-red-600 hover:bg-red-100 hover:text-red-900 dark:text-red-400 dark:hover:bg-red-900/30 dark:hover:text-red-300"
+                              title="Delete AMC"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -859,6 +972,22 @@ function AMCsPageContent() {
           clients={clients}
         />
 
+        {/* Renewal Modal */}
+        <AMCRenewalModal
+          isOpen={!!renewalAMC}
+          onClose={() => setRenewalAMC(null)}
+          amc={renewalAMC}
+          onRenewed={() => {
+            fetchAMCs();
+            fetchStatistics();
+            fetchExpiringCount();
+            fetchRenewalQuotes();
+          }}
+        />
+
+        {/* Payment Reminders Modal */}
+        <PaymentRemindersModal isOpen={showRemindersModal} onClose={() => setShowRemindersModal(false)} />
+
         {/* Billing Details Modal */}
         {showBillingModal && billingAMC && billingAMCDetail && (
           <AMCBillingModal
@@ -890,21 +1019,16 @@ function AMCsPageContent() {
           />
         )}
 
-        {/* Email Template Modal */}
-        {showEmailModal && emailAMC && (
-          <EmailTemplateModal
-            amc={emailAMC}
-            onClose={() => {
-              setShowEmailModal(false);
-              setEmailAMC(null);
-            }}
-            onSend={(template, message) => {
-              showAlert('Info', 'Email sending functionality will be implemented in the backend API.', 'info');
-              setShowEmailModal(false);
-              setEmailAMC(null);
-            }}
-          />
-        )}
+        {/* Send Email Modal */}
+        <ClientSendMailModal
+          isOpen={!!emailAMC}
+          onClose={() => {
+            setEmailAMC(null);
+            setEmailClient(null);
+          }}
+          client={emailClient}
+          context={emailAMC ? { amcId: emailAMC.id } : undefined}
+        />
       </div>
     </DashboardLayout>
   );
@@ -939,10 +1063,104 @@ function AMCBillingModal({
   onClose: () => void;
   onUpdateBilling: (billingId: number, updates: Partial<AMCBilling>) => void;
 }) {
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission('amcs', 'write');
+
   const totalAmount = billings.reduce((sum, b) => sum + b.amount, 0);
   const paidAmount = billings.filter((b) => b.paid).reduce((sum, b) => sum + b.amount, 0);
   const outstandingAmount = totalAmount - paidAmount;
 
+  const [alignment, setAlignment] = useState<BillingAlignment>('contract');
+  const [printingBillId, setPrintingBillId] = useState<number | null>(null);
+  const [activities, setActivities] = useState<BackendAMCActivity[]>([]);
+  const [mailBill, setMailBill] = useState<AMCBilling | null>(null);
+  const [mailClient, setMailClient] = useState<Client | null>(null);
+  const schedule = generateBillingSchedule(amc, { alignment, billings });
+  const scheduleTotal = schedule.reduce((sum, period) => sum + period.amount, 0);
+
+  const handlePrintInvoice = async (bill: AMCBilling) => {
+    try {
+      setPrintingBillId(bill.id);
+      const [settings, client] = await Promise.all([
+        apiClient.getSystemSettings(),
+        apiClient.getClient(amc.client_id),
+      ]);
+      const bank = await fetchCompanyBankAccount(settings);
+      if (!bank) {
+        const proceed = await showConfirm(
+          'No Company Bank Account',
+          'Choose the company account on the Bank Accounts page to print payment details on invoices. Print this invoice without bank details?',
+          'Print Anyway',
+          'Cancel'
+        );
+        if (!proceed) return;
+      }
+      const clientAddress = [client.address, client.city, client.pin_code].filter(Boolean).join(', ');
+
+      await printInvoice({
+        invoiceNumber: bill.bill_number,
+        invoiceDate: (bill.bill_date || bill.period_from).slice(0, 10),
+        supplier: {
+          name: settings.company_name,
+          address: settings.company_address,
+          gstin: settings.gst_number,
+          pan: settings.pan_number,
+          email: settings.company_email,
+          phone: settings.company_phone,
+        },
+        recipient: {
+          name: client.full_name || amc.client_name || '',
+          address: clientAddress,
+          state: client.state,
+          pan: client.pan_number,
+          email: client.email,
+          phone: client.phone_number,
+        },
+        items: [
+          {
+            description: `Annual Maintenance Contract ${amc.amc_number} (${amc.billing_cycle}) for the period ${format(
+              new Date(bill.period_from),
+              'dd MMM yyyy'
+            )} to ${format(new Date(bill.period_to), 'dd MMM yyyy')}`,
+            sac: AMC_SAC_CODE,
+            amount: bill.amount,
+          },
+        ],
+        bank: bank
+          ? {
+              accountName: bank.account_holder_name || bank.profile_name,
+              bankName: bank.bank_name,
+              accountNumber: bank.account_number,
+              ifsc: bank.ifsc_code,
+              branch: bank.branch,
+            }
+          : null,
+        notes: bill.notes,
+      });
+    } catch (err: any) {
+      console.error('Failed to generate invoice:', err);
+      showAlert('Error', err.message || 'Failed to generate invoice.', 'error');
+    } finally {
+      setPrintingBillId(null);
+    }
+  };
+
+  const handleEmailBill = async (bill: AMCBilling) => {
+    try {
+      setMailClient(mapBackendClientDetailToFrontend(await apiClient.getClient(amc.client_id)));
+      setMailBill(bill);
+    } catch (err: any) {
+      console.error('Failed to load client:', err);
+      showAlert('Error', err.message || 'Failed to load the client.', 'error');
+    }
+  };
+
+  useEffect(() => {
+    fetchAllPages((page) => apiClient.getAMCActivities({ amc: amc.id, page }))
+      .then(setActivities)
+      .catch((err) => console.error('Failed to load AMC activity:', err));
+  }, [amc.id]);
+
   const handleTogglePaid = async (billing: AMCBilling) => {
     const newPaidStatus = !billing.paid;
     const updates: Partial<AMCBilling> = {
@@ -1054,16 +1272,41 @@ function AMCBillingModal({
                       )}
                     </td>
                     <td className="px-4 py-3">
-                      <button
-                        onClick={() => handleTogglePaid(bill)}
-                        className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
-                          bill.paid
-                            ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 hover:bg-red-200 dark:hover:bg-red-900/50'
-                            : 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 hover:bg-green-200 dark:hover:bg-green-900/50'
-                        }`}
-                      >
-                        {bill.paid ? 'Mark Pending' : 'Mark Paid'}
-                      </button>
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => handlePrintInvoice(bill)}
+                          disabled={printingBillId === bill.id}
+                          className="inline-flex items-center gap-1 px-3 py-1 text-xs font-medium rounded-md bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 hover:bg-blue-200 dark:hover:bg-blue-900/50 transition-colors disabled:opacity-50"
+                          title="Print GST invoice"
+                        >
+                          {printingBillId === bill.id ? (
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                          ) : (
+                            <Printer className="h-3 w-3" />
+                          )}
+                          Invoice
+                        </button>
+                        <button
+                          onClick={() => handleEmailBill(bill)}
+                          className="inline-flex items-center gap-1 px-3 py-1 text-xs font-medium rounded-md bg-sky-100 dark:bg-sky-900/30 text-sky-700 dark:text-sky-400 hover:bg-sky-200 dark:hover:bg-sky-900/50 transition-colors"
+                          title="Email the client about this bill"
+                        >
+                          <Mail className="h-3 w-3" />
+                          Email
+                        </button>
+                        {canWrite && (
+                          <button
+                            onClick={() => handleTogglePaid(bill)}
+                            className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                              bill.paid
+                                ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 hover:bg-red-200 dark:hover:bg-red-900/50'
+                                : 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 hover:bg-green-200 dark:hover:bg-green-900/50'
+                            }`}
+                          >
+                            {bill.paid ? 'Mark Pending' : 'Mark Paid'}
+                          </button>
+                        )}
+                      </div>
                     </td>
                   </tr>
                 ))}
@@ -1077,149 +1320,146 @@ function AMCBillingModal({
               <p className="mt-4 text-gray-500 dark:text-gray-400">No billing records found</p>
             </div>
           )}
-        </div>
 
-        <div className="border-t dark:border-gray-800 p-6 flex justify-end">
-          <button
-            onClick={onClose}
-            className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
-          >
-            Close
-          </button>
-        </div>
-      </div>
-    </div>
-  );
-}
-
-function EmailTemplateModal({
-  amc,
-  onClose,
-  onSend,
-}: {
-  amc: AMC;
-  onClose: () => void;
-  onSend: (template: string, message: string) => void;
-}) {
-  const [selectedTemplate, setSelectedTemplate] = useState('');
-  const [emailMessage, setEmailMessage] = useState('');
-
-  const emailTemplates = [
-    {
-      id: 'renewal_reminder',
-      name: 'AMC Renewal Reminder',
-      subject: 'AMC Renewal Due - {{amc_number}}',
-      placeholders: ['{{client_name}}', '{{amc_number}}', '{{end_date}}', '{{amount}}'],
-    },
-    {
-      id: 'payment_reminder',
-      name: 'Payment Reminder',
-      subject: 'Payment Due for AMC - {{amc_number}}',
-      placeholders: ['{{client_name}}', '{{amc_number}}', '{{outstanding_amount}}', '{{due_date}}'],
-    },
-    {
-      id: 'service_notification',
-      name: 'Service Notification',
-      subject: 'Scheduled Service - {{amc_number}}',
-      placeholders: ['{{client_name}}', '{{amc_number}}', '{{service_date}}', '{{location}}'],
-    },
-  ];
-
-  const handleTemplateChange = (templateId: string) => {
-    setSelectedTemplate(templateId);
-    const template = emailTemplates.find((t) => t.id === templateId);
-    if (template) {
-      setEmailMessage(
-        `Dear {{client_name}},\n\nThis is regarding your AMC contract {{amc_number}}.\n\n[Your message here]\n\nBest regards,\nElectrocom Team`
-      );
-    }
-  };
-
-  return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
-      <div className="bg-white dark:bg-gray-900 rounded-lg shadow-xl w-full max-w-2xl">
-        <div className="border-b dark:border-gray-800 p-6 flex items-center justify-between">
+          {/* Billing Schedule Preview */}
           <div>
-            <h2 className="text-2xl font-semibold text-gray-900 dark:text-white">Send Email</h2>
-            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-              To: {amc.client_name} - {amc.amc_number}
-            </p>
-          </div>
-          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
-            <X className="h-6 w-6" />
-          </button>
-        </div>
-
-        <div className="p-6 space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Email Template
-            </label>
-            <CustomDropdown
-              value={selectedTemplate}
-              onChange={(value) => handleTemplateChange(value)}
-              options={[
-                { value: 'renewal_reminder', label: 'AMC Renewal Reminder' },
-                { value: 'payment_reminder', label: 'Payment Reminder' },
-                { value: 'service_notification', label: 'Service Notification' },
-              ]}
-              placeholder="Select a template"
-            />
-          </div>
-
-          {selectedTemplate && (
-            <>
-              <div className="bg-sky-50 dark:bg-sky-900/20 rounded-lg p-4">
-                <p className="text-sm font-medium text-sky-900 dark:text-sky-300 mb-2">
-                  Available Placeholders:
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Billing Schedule</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {amc.billing_cycle} billing of ₹{amc.amount.toLocaleString()} per year, partial periods pro-rated by day
                 </p>
-                <div className="flex flex-wrap gap-2">
-                  {emailTemplates
-                    .find((t) => t.id === selectedTemplate)
-                    ?.placeholders.map((placeholder) => (
-                    <code
-                      key={placeholder}
-                      className="px-2 py-1 bg-white dark:bg-gray-800 border border-sky-200 dark:border-sky-800 rounded text-xs font-mono text-sky-700 dark:text-sky-400"
-                    >
-                      {placeholder}
-                    </code>
-                  ))}
-                </div>
               </div>
+              <div className="inline-flex rounded-lg border dark:border-gray-700 overflow-hidden text-sm">
+                {(['contract', 'financial-year'] as BillingAlignment[]).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setAlignment(option)}
+                    className={`px-3 py-1.5 transition-colors ${
+                      alignment === option
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800'
+                    }`}
+                  >
+                    {option === 'contract' ? 'Contract Dates' : 'Financial Year'}
+                  </button>
+                ))}
+              </div>
+            </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Message
-                </label>
-                <textarea
-                  value={emailMessage}
-                  onChange={(e) => setEmailMessage(e.target.value)}
-                  rows={10}
-                  className="w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-white focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
-                  placeholder="Type your message here..."
-                />
+            {schedule.length > 0 ? (
+              <div className="border dark:border-gray-700 rounded-lg overflow-hidden">
+                <table className="w-full">
+                  <thead className="bg-gray-50 dark:bg-gray-800">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500 dark:text-gray-400">#</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500 dark:text-gray-400">
+                        Period
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500 dark:text-gray-400">
+                        Days
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500 dark:text-gray-400">
+                        Amount
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500 dark:text-gray-400">
+                        Bill
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {schedule.map((period) => (
+                      <tr key={period.index} className="hover:bg-gray-50 dark:hover:bg-gray-800">
+                        <td className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">{period.index}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                          {format(new Date(period.period_from), 'dd MMM yyyy')} -{' '}
+                          {format(new Date(period.period_to), 'dd MMM yyyy')}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                          {period.days}
+                          {period.is_prorated && (
+                            <span className="ml-1 text-xs text-gray-400 dark:text-gray-500">/ {period.full_period_days}</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm font-semibold text-gray-900 dark:text-white">
+                          ₹{period.amount.toLocaleString()}
+                          {period.is_prorated && (
+                            <span className="ml-2 inline-flex items-center rounded-full bg-yellow-100 dark:bg-yellow-900/30 px-2 py-0.5 text-xs font-medium text-yellow-800 dark:text-yellow-400">
+                              Pro-rated
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          {period.billing ? (
+                            <span className="text-gray-900 dark:text-white">{period.billing.bill_number}</span>
+                          ) : (
+                            <span className="text-gray-400">Not billed</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot className="bg-gray-50 dark:bg-gray-800">
+                    <tr>
+                      <td colSpan={3} className="px-4 py-3 text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Contract Total ({schedule.length} {schedule.length === 1 ? 'period' : 'periods'})
+                      </td>
+                      <td colSpan={2} className="px-4 py-3 text-sm font-bold text-gray-900 dark:text-white">
+                        ₹{scheduleTotal.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                      </td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                A schedule cannot be generated for this AMC. Check its dates and amount.
+              </p>
+            )}
+          </div>
+
+          {/* Activity History */}
+          {activities.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">History</h3>
+              <div className="border dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+                {activities.map((activity) => (
+                  <div key={activity.id} className="flex items-start gap-3 px-4 py-3">
+                    {activity.type === 'Reminder Sent' ? (
+                      <BellRing className="mt-0.5 h-4 w-4 flex-shrink-0 text-orange-500" />
+                    ) : (
+                      <History className="mt-0.5 h-4 w-4 flex-shrink-0 text-gray-400" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 dark:text-white">{activity.description}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {activity.type} · {format(new Date(activity.created_at), 'dd MMM yyyy, hh:mm a')}
+                        {activity.performed_by_username && ` · ${activity.performed_by_username}`}
+                      </p>
+                    </div>
+                  </div>
+                ))}
               </div>
-            </>
+            </div>
           )}
         </div>
 
-        <div className="border-t dark:border-gray-800 p-6 flex justify-end gap-3">
+        <div className="border-t dark:border-gray-800 p-6 flex justify-end">
           <button
             onClick={onClose}
             className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
           >
-            Cancel
-          </button>
-          <button
-            onClick={() => selectedTemplate && onSend(selectedTemplate, emailMessage)}
-            disabled={!selectedTemplate}
-            className="px-4 py-2 bg-sky-500 text-white rounded-lg hover:bg-sky-600 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            <Mail className="h-4 w-4 inline mr-2" />
-            Send Email
+            Close
           </button>
         </div>
       </div>
+
+      <ClientSendMailModal
+        isOpen={!!mailBill}
+        onClose={() => setMailBill(null)}
+        client={mailClient}
+        context={mailBill ? { amcId: amc.id, billId: mailBill.id } : undefined}
+      />
     </div>
   );
 }
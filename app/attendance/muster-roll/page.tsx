@@ -0,0 +1,363 @@
+"use client";
+
+import { useState, useEffect, useMemo, useCallback, Suspense } from "react";
+import Link from "next/link";
+import { AlertCircle, ArrowLeft, ChevronLeft, ChevronRight, Inbox, Loader2, Printer, Search, Users } from "lucide-react";
+import { addMonths, format, isToday, startOfMonth } from "date-fns";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { ProtectedRoute } from "@/components/auth/protected-route";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CustomDropdown } from "@/components/ui/custom-dropdown";
+import { apiClient, fetchAllPages, BackendProjectListItem } from "@/lib/api";
+import {
+  MUSTER_CODE_LABELS,
+  MusterCode,
+  MusterRoll,
+  RegisterEstablishment,
+  loadContractorRegister,
+  loadMusterRoll,
+  loadProjectWorkmen,
+  printContractorRegister,
+  printMusterRoll,
+  printWorkmenRegister,
+} from "@/lib/muster-roll";
+import { showAlert } from "@/lib/sweetalert";
+
+const CODE_STYLES: Record<MusterCode, string> = {
+  P: "text-green-700 dark:text-green-400",
+  A: "font-semibold text-red-600 dark:text-red-400",
+  HD: "text-yellow-700 dark:text-yellow-400",
+  L: "text-blue-700 dark:text-blue-400",
+  H: "text-gray-500 dark:text-gray-400",
+  "": "text-gray-300 dark:text-gray-600",
+};
+
+/**
+ * Register header details: the company as contractor and, when a project is chosen,
+ * the project as the work and its client as principal employer
+ */
+async function loadEstablishment(projectId: number | null): Promise<RegisterEstablishment> {
+  const settings = await apiClient.getSystemSettings();
+  const establishment: RegisterEstablishment = {
+    contractor_name: settings.company_name,
+    contractor_address: settings.company_address,
+  };
+  if (!projectId) return establishment;
+
+  const project = await apiClient.getProject(projectId);
+  const client = project.client ? await apiClient.getClient(project.client) : null;
+  const clientAddress = client ? [client.address, client.city, client.state, client.pin_code].filter(Boolean).join(", ") : "";
+  return {
+    ...establishment,
+    establishment: project.tender_name,
+    work_nature: project.name,
+    work_location: clientAddress,
+    principal_employer: client?.full_name || undefined,
+    principal_employer_address: clientAddress,
+  };
+}
+
+function MusterRollPageContent() {
+  const [currentMonth, setCurrentMonth] = useState(startOfMonth(new Date()));
+  const [roll, setRoll] = useState<MusterRoll | null>(null);
+  const [projects, setProjects] = useState<BackendProjectListItem[]>([]);
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRoll = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setRoll(await loadMusterRoll(currentMonth));
+    } catch (err: any) {
+      console.error("Error loading muster roll:", err);
+      setError(err.message || "Failed to load muster roll");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentMonth]);
+
+  useEffect(() => {
+    fetchRoll();
+  }, [fetchRoll]);
+
+  useEffect(() => {
+    fetchAllPages((page) => apiClient.getProjects({ page }))
+      .then(setProjects)
+      .catch((err) => console.error("Error fetching projects:", err));
+  }, []);
+
+  const filteredRows = useMemo(() => {
+    if (!roll) return [];
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return roll.rows;
+    return roll.rows.filter(
+      (row) => row.name.toLowerCase().includes(query) || row.employee_code.toLowerCase().includes(query)
+    );
+  }, [roll, searchQuery]);
+
+  const summary = useMemo(() => {
+    const rows = roll?.rows || [];
+    return {
+      workmen: rows.length,
+      daysWorked: rows.reduce((sum, row) => sum + row.totals.days_worked, 0),
+      absences: rows.reduce((sum, row) => sum + row.totals.absent, 0),
+      leaves: rows.reduce((sum, row) => sum + row.totals.leaves, 0),
+    };
+  }, [roll]);
+
+  const runPrint = async (print: () => Promise<void>) => {
+    try {
+      setIsPrinting(true);
+      await print();
+    } catch (err: any) {
+      console.error("Failed to print register:", err);
+      showAlert("Print Failed", err.message || "Could not generate the register.", "error");
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  const handlePrintMusterRoll = () =>
+    runPrint(async () => {
+      if (!roll) return;
+      await printMusterRoll(roll, await loadEstablishment(projectId));
+    });
+
+  const handlePrintContractors = () =>
+    runPrint(async () => {
+      const [entries, establishment] = await Promise.all([loadContractorRegister(), loadEstablishment(null)]);
+      await printContractorRegister(entries, establishment);
+    });
+
+  const handlePrintWorkmen = () =>
+    runPrint(async () => {
+      if (!projectId) return;
+      const [workers, establishment] = await Promise.all([loadProjectWorkmen(projectId), loadEstablishment(projectId)]);
+      if (workers.length === 0) {
+        showAlert("No Workmen", "No contract workers are deployed on this project.", "info");
+        return;
+      }
+      await printWorkmenRegister(workers, establishment, `Form-XIII-${establishment.work_nature || projectId}`);
+    });
+
+  return (
+    <DashboardLayout title="Muster Roll" breadcrumbs={["Home", "People", "Attendance", "Muster Roll"]}>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <Link
+              href="/attendance"
+              className="mb-2 inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Attendance
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Muster Roll</h1>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Monthly attendance register and contract labour registers (Form XII / XIII) for inspections
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" onClick={handlePrintContractors} disabled={isPrinting}>
+              <Printer className="mr-2 h-4 w-4" />
+              Form XII
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handlePrintWorkmen}
+              disabled={isPrinting || !projectId}
+              title={projectId ? undefined : "Select a project to print its register of workmen"}
+            >
+              <Printer className="mr-2 h-4 w-4" />
+              Form XIII
+            </Button>
+            <Button onClick={handlePrintMusterRoll} disabled={isPrinting || isLoading || !roll}>
+              {isPrinting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Printer className="mr-2 h-4 w-4" />}
+              Print Muster Roll
+            </Button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-4 rounded-lg bg-white p-4 shadow dark:bg-gray-800">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setCurrentMonth((prev) => addMonths(prev, -1))}
+              className="rounded-lg p-2 text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700"
+            >
+              <ChevronLeft className="h-5 w-5" />
+            </button>
+            <h2 className="w-40 text-center text-lg font-semibold text-gray-900 dark:text-white">
+              {format(currentMonth, "MMMM yyyy")}
+            </h2>
+            <button
+              onClick={() => setCurrentMonth((prev) => addMonths(prev, 1))}
+              className="rounded-lg p-2 text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700"
+            >
+              <ChevronRight className="h-5 w-5" />
+            </button>
+          </div>
+          <div className="relative min-w-[200px] flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            <Input
+              placeholder="Search by name or code..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <CustomDropdown
+            value={projectId ? projectId.toString() : ""}
+            onChange={(value) => setProjectId(value ? parseInt(value) : null)}
+            options={[
+              { value: "", label: "All Projects" },
+              ...projects.map((project) => ({ value: project.id.toString(), label: project.name })),
+            ]}
+            placeholder="Project (for register header)"
+            containerClassName="w-64"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <Loader2 className="h-8 w-8 animate-spin text-sky-600" />
+          </div>
+        ) : error ? (
+          <div className="flex items-center gap-2 rounded-lg bg-red-50 p-4 text-sm text-red-700 dark:bg-red-900/20 dark:text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        ) : roll ? (
+          <>
+            {/* Stats Cards */}
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <div className="rounded-lg bg-white p-6 shadow dark:bg-gray-800">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Workmen</p>
+                    <p className="mt-2 text-3xl font-bold text-gray-900 dark:text-white">{summary.workmen}</p>
+                  </div>
+                  <Users className="h-8 w-8 text-sky-500" />
+                </div>
+              </div>
+              <div className="rounded-lg bg-white p-6 shadow dark:bg-gray-800">
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Man-Days Worked</p>
+                <p className="mt-2 text-3xl font-bold text-green-600 dark:text-green-400">{summary.daysWorked}</p>
+              </div>
+              <div className="rounded-lg bg-white p-6 shadow dark:bg-gray-800">
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Absences</p>
+                <p className="mt-2 text-3xl font-bold text-red-600 dark:text-red-400">{summary.absences}</p>
+              </div>
+              <div className="rounded-lg bg-white p-6 shadow dark:bg-gray-800">
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Leaves</p>
+                <p className="mt-2 text-3xl font-bold text-blue-600 dark:text-blue-400">{summary.leaves}</p>
+              </div>
+            </div>
+
+            {/* Register */}
+            <div className="overflow-x-auto rounded-lg bg-white shadow dark:bg-gray-800">
+              {filteredRows.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-16 text-gray-500 dark:text-gray-400">
+                  <Inbox className="mb-2 h-10 w-10" />
+                  No employees found
+                </div>
+              ) : (
+                <table className="min-w-full text-xs">
+                  <thead className="bg-gray-50 dark:bg-gray-900">
+                    <tr>
+                      <th className="sticky left-0 z-10 bg-gray-50 px-3 py-2 text-left font-medium text-gray-600 dark:bg-gray-900 dark:text-gray-400">
+                        Employee
+                      </th>
+                      {roll.days.map((day) => {
+                        const holiday = roll.holidays[format(day, "yyyy-MM-dd")];
+                        return (
+                          <th
+                            key={day.toISOString()}
+                            title={holiday}
+                            className={`w-8 px-1 py-2 text-center font-medium ${
+                              holiday || day.getDay() === 0
+                                ? "bg-gray-200 text-gray-500 dark:bg-gray-700 dark:text-gray-400"
+                                : "text-gray-600 dark:text-gray-400"
+                            } ${isToday(day) ? "text-sky-600 dark:text-sky-400" : ""}`}
+                          >
+                            {format(day, "d")}
+                            <div className="font-normal">{format(day, "EEEEE")}</div>
+                          </th>
+                        );
+                      })}
+                      {["P", "A", "HD", "L", "H", "Worked"].map((label) => (
+                        <th key={label} className="px-2 py-2 text-center font-medium text-gray-600 dark:text-gray-400">
+                          {label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {filteredRows.map((row) => (
+                      <tr key={row.employee_id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                        <td className="sticky left-0 z-10 whitespace-nowrap bg-white px-3 py-2 dark:bg-gray-800">
+                          <div className="font-medium text-gray-900 dark:text-white">{row.name}</div>
+                          <div className="text-gray-500 dark:text-gray-400">
+                            {row.employee_code}
+                            {row.designation ? ` · ${row.designation}` : ""}
+                          </div>
+                        </td>
+                        {row.days.map((code, index) => (
+                          <td key={index} className={`px-1 py-2 text-center ${CODE_STYLES[code]}`}>
+                            {code || "·"}
+                          </td>
+                        ))}
+                        <td className="px-2 py-2 text-center text-gray-900 dark:text-white">{row.totals.present}</td>
+                        <td className="px-2 py-2 text-center text-gray-900 dark:text-white">{row.totals.absent}</td>
+                        <td className="px-2 py-2 text-center text-gray-900 dark:text-white">{row.totals.half_days}</td>
+                        <td className="px-2 py-2 text-center text-gray-900 dark:text-white">{row.totals.leaves}</td>
+                        <td className="px-2 py-2 text-center text-gray-900 dark:text-white">{row.totals.holidays}</td>
+                        <td className="px-2 py-2 text-center font-semibold text-gray-900 dark:text-white">
+                          {row.totals.days_worked}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {/* Legend */}
+            <div className="flex flex-wrap gap-4 text-xs text-gray-500 dark:text-gray-400">
+              {(Object.keys(MUSTER_CODE_LABELS) as Exclude<MusterCode, "">[]).map((code) => (
+                <span key={code}>
+                  <span className={`font-semibold ${CODE_STYLES[code]}`}>{code}</span> = {MUSTER_CODE_LABELS[code]}
+                </span>
+              ))}
+              <span>· = Sunday, before joining or still to come</span>
+            </div>
+          </>
+        ) : null}
+      </div>
+    </DashboardLayout>
+  );
+}
+
+export default function MusterRollPage() {
+  return (
+    <ProtectedRoute>
+      <Suspense
+        fallback={
+          <DashboardLayout title="Muster Roll">
+            <div className="flex items-center justify-center min-h-screen">
+              <div className="text-gray-500">Loading...</div>
+            </div>
+          </DashboardLayout>
+        }
+      >
+        <MusterRollPageContent />
+      </Suspense>
+    </ProtectedRoute>
+  );
+}
@@ -2,18 +2,44 @@
 
 import { useState, useMemo, useEffect, useCallback, Suspense } from "react";
 import { useSearchParams } from "next/navigation";
+import Link from "next/link";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Calendar, Search, Check, X as XIcon, ChevronLeft, ChevronRight, Download, CheckCircle, XCircle, Clock, Edit2, Loader2, Inbox, Trash2, ChevronDown, Eye, MapPin } from "lucide-react";
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, subMonths, parseISO } from "date-fns";
+import { Calendar, Search, Check, X as XIcon, ChevronLeft, ChevronRight, CheckCircle, XCircle, Clock, Edit2, Loader2, Inbox, Trash2, ChevronDown, Eye, MapPin, ClipboardList, Timer } from "lucide-react";
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, subMonths, parseISO, getDay } from "date-fns";
 import { showConfirm, showSuccess, showDeleteConfirm, showAlert } from "@/lib/sweetalert";
-import { apiClient, AttendanceStatisticsResponse, BackendAttendanceListItem, AttendanceDetail, AttendanceCreateData, BackendEmployeeListItem, EmployeeListResponse, EmployeeDetail } from "@/lib/api";
+import { apiClient, isQueuedOffline, AttendanceStatisticsResponse, BackendAttendanceListItem, AttendanceDetail, AttendanceCreateData, BackendEmployeeListItem, EmployeeListResponse, EmployeeDetail } from "@/lib/api";
 import { useDebounce } from "use-debounce";
 import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/components/providers/auth-provider";
 import { DatePicker } from "@/components/ui/date-picker";
 import { CustomDropdown } from "@/components/ui/custom-dropdown";
+import { ExportMenu } from "@/components/ui/export-menu";
+import { ExportColumn, ExportFormat, exportAllPages } from "@/lib/export";
+import { LocationAddress } from "@/components/ui/location-address";
+import {
+  AttendanceGeofenceResult,
+  GeofenceCheck,
+  GeofenceStatus,
+  canAutoApprove,
+  checkAttendanceGeofence,
+  checkAttendanceRecords,
+  describeGeofenceCheck,
+  formatDistance,
+  resolveAttendanceSite,
+} from "@/lib/geofence";
+import { ShiftSettingsModal } from "@/components/attendance/shift-settings-modal";
+import {
+  DailyHours,
+  ShiftConfig,
+  computeDailyHours,
+  fetchShiftConfig,
+  formatMinutes,
+  formatShiftTime,
+  getEmployeeShift,
+} from "@/lib/shifts";
 
 type ApprovalStatus = "Pending" | "Approved" | "Rejected";
 
@@ -27,11 +53,31 @@ type AttendanceRecord = {
   approval_status: ApprovalStatus;
   check_in?: string;
   check_out?: string;
+  check_in_time?: string | null;
+  check_out_time?: string | null;
   check_in_selfie_url?: string | null;
   notes?: string;
   rejection_reason?: string;
 };
 
+const attendanceExportColumns: ExportColumn<BackendAttendanceListItem>[] = [
+  { header: "Date", type: "date", value: (a) => a.attendance_date },
+  { header: "Employee Code", value: (a) => a.employee_code },
+  { header: "Employee", value: (a) => a.employee_name },
+  { header: "Status", value: (a) => a.attendance_status },
+  { header: "Check In", value: (a) => (a.check_in_time ? format(parseISO(a.check_in_time), "h:mm a") : "") },
+  { header: "Check Out", value: (a) => (a.check_out_time ? format(parseISO(a.check_out_time), "h:mm a") : "") },
+  { header: "Approval Status", value: (a) => a.approval_status },
+  { header: "Notes", value: (a) => a.notes },
+];
+
+// Why bulk approval holds records back, in the order they are listed
+const HELD_FOR_REVIEW_REASONS: { status: GeofenceStatus; reason: string }[] = [
+  { status: "outside", reason: "checked in outside the site geofence" },
+  { status: "no-location", reason: "have no check-in location to compare with the site" },
+  { status: "unchecked", reason: "could not be checked against their site" },
+];
+
 type Employee = {
   id: number;
   name: string;
@@ -53,13 +99,34 @@ function mapBackendAttendanceListItemToFrontend(backendAttendance: BackendAttend
     approval_status: backendAttendance.approval_status as ApprovalStatus,
     check_in: backendAttendance.check_in_time ? format(parseISO(backendAttendance.check_in_time), 'h:mm a') : undefined,
     check_out: backendAttendance.check_out_time ? format(parseISO(backendAttendance.check_out_time), 'h:mm a') : undefined,
+    check_in_time: backendAttendance.check_in_time,
+    check_out_time: backendAttendance.check_out_time,
     check_in_selfie_url: backendAttendance.check_in_selfie_url || null,
     notes: backendAttendance.notes || undefined,
   };
 }
 
+/**
+ * Hours worked, lateness and overtime of a record against the employee's shift (Sunday work is all overtime)
+ */
+function getRecordHours(record: AttendanceRecord, config: ShiftConfig): DailyHours {
+  return computeDailyHours(
+    {
+      attendance_date: record.date,
+      attendance_status: record.status === "Half Day" ? "Half-Day" : record.status,
+      check_in_time: record.check_in_time ?? null,
+      check_out_time: record.check_out_time ?? null,
+    },
+    getEmployeeShift(config, record.employee_id),
+    config.overtime,
+    getDay(parseISO(record.date)) !== 0
+  );
+}
+
 function AttendancePageContent() {
   const searchParams = useSearchParams();
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission("attendance", "write");
   const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
   const [statistics, setStatistics] = useState<AttendanceStatisticsResponse | null>(null);
   const [employees, setEmployees] = useState<Employee[]>([]);
@@ -71,7 +138,6 @@ function AttendancePageContent() {
   const [approvalFilter, setApprovalFilter] = useState<ApprovalStatus | "All">("All");
   const [showApprovalDropdown, setShowApprovalDropdown] = useState(false);
   const [showMarkModal, setShowMarkModal] = useState(false);
-  const [showExportModal, setShowExportModal] = useState(false);
   const [showBulkPresentModal, setShowBulkPresentModal] = useState(false);
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [attendanceDetail, setAttendanceDetail] = useState<AttendanceDetail | null>(null);
@@ -85,6 +151,8 @@ function AttendancePageContent() {
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [fullSizeImage, setFullSizeImage] = useState<string | null>(null);
+  const [shiftConfig, setShiftConfig] = useState<ShiftConfig | null>(null);
+  const [showShiftModal, setShowShiftModal] = useState(false);
 
   const monthStart = startOfMonth(currentMonth);
   const monthEnd = endOfMonth(currentMonth);
@@ -122,6 +190,30 @@ function AttendancePageContent() {
     }
   }, []);
 
+  /**
+   * Build list params from the current filters (shared by fetch and export)
+   */
+  const getListParams = useCallback(() => {
+    const params: any = {
+      month: currentMonth.getMonth() + 1,
+      year: currentMonth.getFullYear(),
+    };
+    
+    if (debouncedSearch) {
+      params.search = debouncedSearch;
+    }
+    
+    if (selectedDate) {
+      params.date = selectedDate;
+    }
+    
+    if (approvalFilter !== "All") {
+      params.approval_status = approvalFilter;
+    }
+
+    return params;
+  }, [currentMonth, debouncedSearch, selectedDate, approvalFilter]);
+
   /**
    * Fetch attendance records from backend
    */
@@ -129,25 +221,7 @@ function AttendancePageContent() {
     setIsLoading(true);
     setError(null);
     try {
-      const params: any = {
-        month: currentMonth.getMonth() + 1,
-        year: currentMonth.getFullYear(),
-        page: currentPage,
-      };
-      
-      if (debouncedSearch) {
-        params.search = debouncedSearch;
-      }
-      
-      if (selectedDate) {
-        params.date = selectedDate;
-      }
-      
-      if (approvalFilter !== "All") {
-        params.approval_status = approvalFilter;
-      }
-
-      const response = await apiClient.getAttendanceRecords(params);
+      const response = await apiClient.getAttendanceRecords({ ...getListParams(), page: currentPage });
       const mappedAttendance = response.results.map(mapBackendAttendanceListItemToFrontend);
       setAttendance(mappedAttendance);
       setTotalPages(Math.ceil(response.count / 20));
@@ -158,7 +232,17 @@ function AttendancePageContent() {
     } finally {
       setIsLoading(false);
     }
-  }, [currentMonth, debouncedSearch, selectedDate, approvalFilter, currentPage]);
+  }, [getListParams, currentPage]);
+
+  /**
+   * Export every attendance record for the displayed month and filters (all pages)
+   */
+  const handleExport = (exportFormat: ExportFormat) =>
+    exportAllPages((page) => apiClient.getAttendanceRecords({ ...getListParams(), page }), attendanceExportColumns, {
+      fileName: `attendance-${format(currentMonth, "yyyy-MM")}`,
+      format: exportFormat,
+      sheetName: "Attendance",
+    });
 
   // Close filter dropdowns when clicking outside
   useEffect(() => {
@@ -177,9 +261,10 @@ function AttendancePageContent() {
 
   const approvalFilterOptions = ['All', 'Pending', 'Approved', 'Rejected'];
 
-  // Fetch employees on mount
+  // Fetch employees and shift settings on mount
   useEffect(() => {
     fetchEmployees();
+    fetchShiftConfig().then(setShiftConfig);
   }, [fetchEmployees]);
 
   // Fetch statistics when selected date changes (including initial mount)
@@ -254,12 +339,41 @@ function AttendancePageContent() {
     if (!confirmed) return;
 
     try {
-      await apiClient.bulkApproveAttendance({
-        attendance_ids: selectedAttendanceRecords,
-        approval_status: "Approved",
-      });
-      await showSuccess(`Successfully approved ${selectedAttendanceRecords.length} attendance record(s)`);
-      setSelectedAttendanceRecords([]);
+      // Records outside their site's geofence, or that can't be checked, are held back for individual review
+      const results = await checkAttendanceRecords(selectedAttendanceRecords);
+      const approvableIds = results.filter((result) => canAutoApprove(result.check)).map((result) => result.id);
+      const held = results.filter((result) => !canAutoApprove(result.check));
+
+      if (approvableIds.length > 0) {
+        await apiClient.bulkApproveAttendance({
+          attendance_ids: approvableIds,
+          approval_status: "Approved",
+        });
+      }
+
+      if (held.length > 0) {
+        const describeHeld = ({ id, record, check }: AttendanceGeofenceResult) => {
+          const row = attendance.find((item) => item.id === id);
+          const name = record?.employee_name || row?.employee_name || `Record #${id}`;
+          const date = record?.attendance_date || row?.date;
+          return `${name}${date ? ` (${format(new Date(date), "dd MMM")})` : ""}: ${describeGeofenceCheck(check)}`;
+        };
+        const heldGroups = HELD_FOR_REVIEW_REASONS.map(({ status, reason }) => {
+          const group = held.filter(({ check }) => check.status === status);
+          return group.length > 0 ? `${group.length} record(s) ${reason}: ${group.map(describeHeld).join("; ")}.` : "";
+        })
+          .filter(Boolean)
+          .join(" ");
+        await showAlert(
+          "Some Records Held for Review",
+          `Approved ${approvableIds.length} record(s). ${held.length} record(s) were not approved. ${heldGroups}`,
+          "warning"
+        );
+      } else {
+        await showSuccess(`Successfully approved ${approvableIds.length} attendance record(s)`);
+      }
+      // Keep held records selected so they can be reviewed and approved individually
+      setSelectedAttendanceRecords(held.map(({ id }) => id));
       setSelectedEmployees([]);
       fetchAttendance();
       fetchStatistics();
@@ -269,9 +383,18 @@ function AttendancePageContent() {
   };
 
   const handleApprove = async (record: AttendanceRecord) => {
+    const [{ check }] = await checkAttendanceRecords([record.id]);
+    const geofenceWarning = canAutoApprove(check)
+      ? ""
+      : check.status === "outside"
+      ? ` Check-in is outside the site geofence: ${describeGeofenceCheck(check)}.`
+      : check.status === "no-location"
+      ? ` No check-in location was captured, so it can't be compared with the geofence of ${check.site?.label}.`
+      : ` ${describeGeofenceCheck(check)}.`;
+
     const confirmed = await showConfirm(
-      "Approve Attendance",
-      `Approve attendance for ${record.employee_name} on ${format(new Date(record.date), "dd MMM yyyy")}?`,
+      check.status === "outside" ? "Approve Outside Geofence?" : geofenceWarning ? "Approve Without Geofence Check?" : "Approve Attendance",
+      `Approve attendance for ${record.employee_name} on ${format(new Date(record.date), "dd MMM yyyy")}?${geofenceWarning}`,
       "Approve",
       "Cancel"
     );
@@ -408,12 +531,13 @@ function AttendancePageContent() {
         notes: record.notes,
       };
 
-      if (editingRecord) {
-        await apiClient.updateAttendance(editingRecord.id, attendanceData);
-        await showSuccess("Attendance updated successfully");
+      const saved = editingRecord
+        ? await apiClient.updateAttendance(editingRecord.id, attendanceData)
+        : await apiClient.createAttendance(attendanceData);
+      if (isQueuedOffline(saved)) {
+        await showSuccess("Saved offline", saved.message);
       } else {
-        await apiClient.createAttendance(attendanceData);
-        await showSuccess("Attendance marked successfully");
+        await showSuccess(editingRecord ? "Attendance updated successfully" : "Attendance marked successfully");
       }
       
       setShowMarkModal(false);
@@ -436,14 +560,29 @@ function AttendancePageContent() {
             <p className="text-gray-500 dark:text-gray-400">Track daily attendance and approvals for employees</p>
           </div>
           <div className="flex gap-2">
-            <Button variant="secondary" onClick={() => setShowExportModal(true)}>
-              <Download className="h-4 w-4 mr-2" />
-              Export Report
-            </Button>
-            <Button onClick={() => { setEditingRecord(null); setShowMarkModal(true); }}>
-              <Calendar className="h-4 w-4 mr-2" />
-              Mark Attendance
-            </Button>
+            <Link
+              href="/attendance/muster-roll"
+              className="inline-flex items-center gap-2 rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+            >
+              <ClipboardList className="h-4 w-4" />
+              Muster Roll
+            </Link>
+            {canWrite && (
+              <button
+                onClick={() => setShowShiftModal(true)}
+                className="inline-flex items-center gap-2 rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+              >
+                <Timer className="h-4 w-4" />
+                Shifts
+              </button>
+            )}
+            <ExportMenu onExport={handleExport} />
+            {canWrite && (
+              <Button onClick={() => { setEditingRecord(null); setShowMarkModal(true); }}>
+                <Calendar className="h-4 w-4 mr-2" />
+                Mark Attendance
+              </Button>
+            )}
           </div>
         </div>
 
@@ -600,13 +739,15 @@ function AttendancePageContent() {
               >
                 Clear Selection
               </Button>
-              <Button
-                size="sm"
-                onClick={handleBulkApprove}
-              >
-                <Check className="h-4 w-4 mr-2" />
-                Bulk Approve
-              </Button>
+              {canWrite && (
+                <Button
+                  size="sm"
+                  onClick={handleBulkApprove}
+                >
+                  <Check className="h-4 w-4 mr-2" />
+                  Bulk Approve
+                </Button>
+              )}
             </div>
           </div>
         )}
@@ -654,6 +795,9 @@ function AttendancePageContent() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
                       Check Out
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                      Hours
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
                       Notes
                     </th>
@@ -668,7 +812,7 @@ function AttendancePageContent() {
                 <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
                   {isLoading ? (
                     <tr>
-                      <td colSpan={10} className="px-6 py-8 text-center">
+                      <td colSpan={11} className="px-6 py-8 text-center">
                         <div className="flex items-center justify-center">
                           <Loader2 className="h-6 w-6 animate-spin text-sky-600" />
                           <span className="ml-2 text-gray-500 dark:text-gray-400">Loading attendance records...</span>
@@ -677,7 +821,7 @@ function AttendancePageContent() {
                     </tr>
                   ) : attendance.length === 0 ? (
                     <tr>
-                      <td colSpan={10} className="px-6 py-8 text-center">
+                      <td colSpan={11} className="px-6 py-8 text-center">
                         <div className="flex flex-col items-center justify-center">
                           <Inbox className="h-12 w-12 text-gray-400 mb-4" />
                           <p className="text-gray-500 dark:text-gray-400">No attendance records found</p>
@@ -688,6 +832,7 @@ function AttendancePageContent() {
                   ) : (
                     attendance.map((record) => {
                       const employee = activeEmployees.find(emp => emp.id === record.employee_id);
+                      const hours = shiftConfig ? getRecordHours(record, shiftConfig) : null;
                       return (
                         <tr key={record.id} className="hover:bg-gray-50 dark:hover:bg-gray-800/50">
                           <td className="px-6 py-4">
@@ -756,6 +901,22 @@ function AttendancePageContent() {
                         <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
                           {record.check_out || "-"}
                         </td>
+                        <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
+                          {hours?.worked_minutes != null ? formatMinutes(hours.worked_minutes) : "-"}
+                          {hours && (hours.late_minutes > 0 || hours.early_exit_minutes > 0 || hours.overtime_minutes > 0) && (
+                            <div className="mt-1 flex flex-col text-xs">
+                              {hours.late_minutes > 0 && (
+                                <span className="text-amber-600 dark:text-amber-400">Late {formatMinutes(hours.late_minutes)}</span>
+                              )}
+                              {hours.early_exit_minutes > 0 && (
+                                <span className="text-amber-600 dark:text-amber-400">Left {formatMinutes(hours.early_exit_minutes)} early</span>
+                              )}
+                              {hours.overtime_minutes > 0 && (
+                                <span className="text-sky-600 dark:text-sky-400">OT {formatMinutes(hours.overtime_minutes)}</span>
+                              )}
+                            </div>
+                          )}
+                        </td>
                         <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
                           {record.notes || "-"}
                         </td>
@@ -774,7 +935,7 @@ function AttendancePageContent() {
                         </td>
                         <td className="px-6 py-4">
                           <div className="flex items-center justify-center gap-2">
-                            {record.approval_status === "Pending" ? (
+                            {canWrite && record.approval_status === "Pending" ? (
                               <>
                                 <Button
                                   variant="ghost"
@@ -805,24 +966,28 @@ function AttendancePageContent() {
                             >
                               <Eye className="h-4 w-4" />
                             </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleEdit(record)}
-                              className="text-sky-600 hover:text-sky-700 hover:bg-sky-50 dark:hover:bg-sky-900/20"
-                              title="Edit"
-                            >
-                              <Edit2 className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleDelete(record)}
-                              className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
-                              title="Delete"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
+                            {canWrite && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleEdit(record)}
+                                className="text-sky-600 hover:text-sky-700 hover:bg-sky-50 dark:hover:bg-sky-900/20"
+                                title="Edit"
+                              >
+                                <Edit2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {canWrite && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(record)}
+                                className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+                                title="Delete"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -887,13 +1052,6 @@ function AttendancePageContent() {
         />
       )}
 
-      {showExportModal && (
-        <ExportReportModal
-          onClose={() => setShowExportModal(false)}
-          attendance={attendance}
-        />
-      )}
-
       {showBulkPresentModal && (
         <BulkMarkPresentModal
           employees={activeEmployees.filter(emp => selectedEmployees.includes(emp.id))}
@@ -915,8 +1073,7 @@ function AttendancePageContent() {
                 };
 
                 try {
-                  await apiClient.createAttendance(attendanceData);
-                  return true;
+                  return isQueuedOffline(await apiClient.createAttendance(attendanceData)) ? "queued" : true;
                 } catch (err) {
                   console.error(`Failed to mark attendance for employee ${empId}:`, err);
                   return false;
@@ -924,9 +1081,13 @@ function AttendancePageContent() {
               });
 
               const results = await Promise.all(promises);
-              const successCount = results.filter(r => r === true).length;
+              const successCount = results.filter(r => r === true || r === "queued").length;
+              const queuedCount = results.filter(r => r === "queued").length;
               
-              await showSuccess(`Marked ${successCount} employee${successCount > 1 ? 's' : ''} as present`);
+              await showSuccess(
+                `Marked ${successCount} employee${successCount > 1 ? 's' : ''} as present`,
+                queuedCount > 0 ? `${queuedCount} saved on this device will sync when the connection returns.` : undefined
+              );
               setSelectedEmployees([]);
               setShowBulkPresentModal(false);
               fetchAttendance();
@@ -969,6 +1130,7 @@ function AttendancePageContent() {
       {showDetailModal && (
         <AttendanceDetailModal
           detail={attendanceDetail}
+          shiftConfig={shiftConfig}
           isLoading={isLoadingDetail}
           onClose={() => {
             setShowDetailModal(false);
@@ -977,6 +1139,16 @@ function AttendancePageContent() {
         />
       )}
 
+      {showShiftModal && (
+        <ShiftSettingsModal
+          onClose={() => setShowShiftModal(false)}
+          onSaved={(config) => {
+            setShiftConfig(config);
+            setShowShiftModal(false);
+          }}
+        />
+      )}
+
       {/* Full Size Image Modal */}
       {fullSizeImage && (
         <div
@@ -1006,18 +1178,18 @@ function AttendancePageContent() {
 
 function AttendanceDetailModal({
   detail,
+  shiftConfig,
   isLoading,
   onClose,
 }: {
   detail: AttendanceDetail | null;
+  shiftConfig: ShiftConfig | null;
   isLoading: boolean;
   onClose: () => void;
 }) {
   const [employeePhoto, setEmployeePhoto] = useState<string | null>(null);
   const [fullSizeImage, setFullSizeImage] = useState<string | null>(null);
-  const [checkInAddress, setCheckInAddress] = useState<string | null>(null);
-  const [checkOutAddress, setCheckOutAddress] = useState<string | null>(null);
-  const [isLoadingAddress, setIsLoadingAddress] = useState(false);
+  const [geofence, setGeofence] = useState<GeofenceCheck | null>(null);
 
   useEffect(() => {
     const fetchEmployeePhoto = async () => {
@@ -1036,97 +1208,20 @@ function AttendanceDetailModal({
     }
   }, [detail]);
 
-  // Reverse geocoding to convert coordinates to human-readable address
+  // Compare the check-in against the assigned project's site
   useEffect(() => {
-    const reverseGeocode = async (lat: string | null, lng: string | null): Promise<string | null> => {
-      if (!lat || !lng) return null;
-
-      try {
-        // Using OpenStreetMap Nominatim (free, no API key required)
-        const response = await fetch(
-          `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}&zoom=18&addressdetails=1`,
-          {
-            headers: {
-              'User-Agent': 'Electrocom-ERP/1.0' // Required by Nominatim
-            }
-          }
-        );
-
-        if (!response.ok) return null;
-
-        const data = await response.json();
-        if (data && data.address) {
-          const address = data.address;
-          const parts: string[] = [];
-
-          // Build address in a readable format
-          if (address.road || address.street) {
-            parts.push(address.road || address.street);
-          }
-          if (address.house_number) {
-            parts.push(address.house_number);
-          }
-          if (address.suburb || address.neighbourhood) {
-            parts.push(address.suburb || address.neighbourhood);
-          }
-          if (address.city || address.town || address.village) {
-            parts.push(address.city || address.town || address.village);
-          }
-          if (address.state) {
-            parts.push(address.state);
-          }
-          if (address.postcode) {
-            parts.push(address.postcode);
-          }
-          if (address.country) {
-            parts.push(address.country);
-          }
-
-          return parts.length > 0 ? parts.join(', ') : data.display_name || null;
-        }
-
-        return data.display_name || null;
-      } catch (err) {
-        console.error('Reverse geocoding error:', err);
-        return null;
-      }
+    setGeofence(null);
+    if (!detail) return;
+
+    let isCancelled = false;
+    resolveAttendanceSite(detail)
+      .then((site) => {
+        if (!isCancelled) setGeofence(checkAttendanceGeofence(detail, site));
+      })
+      .catch((err) => console.error("Failed to resolve attendance site:", err));
+    return () => {
+      isCancelled = true;
     };
-
-    const fetchAddresses = async () => {
-      if (!detail) return;
-
-      setIsLoadingAddress(true);
-      try {
-        // Fetch check-in address
-        if (detail.check_in_location_latitude && detail.check_in_location_longitude) {
-          const address = await reverseGeocode(
-            detail.check_in_location_latitude,
-            detail.check_in_location_longitude
-          );
-          setCheckInAddress(address);
-        }
-
-        // Fetch check-out address
-        if (detail.check_out_location_latitude && detail.check_out_location_longitude) {
-          const address = await reverseGeocode(
-            detail.check_out_location_latitude,
-            detail.check_out_location_longitude
-          );
-          setCheckOutAddress(address);
-        }
-      } catch (err) {
-        console.error('Error fetching addresses:', err);
-      } finally {
-        setIsLoadingAddress(false);
-      }
-    };
-
-    if (detail) {
-      fetchAddresses();
-    } else {
-      setCheckInAddress(null);
-      setCheckOutAddress(null);
-    }
   }, [detail]);
 
   const formatDateTime = (dateTimeString: string | null) => {
@@ -1176,6 +1271,12 @@ function AttendanceDetailModal({
     }
   };
 
+  const shift = detail && shiftConfig ? getEmployeeShift(shiftConfig, detail.employee) : null;
+  const hours =
+    detail && shift && shiftConfig
+      ? computeDailyHours(detail, shift, shiftConfig.overtime, getDay(parseISO(detail.attendance_date)) !== 0)
+      : null;
+
   const openGoogleMaps = (lat: string | null, lng: string | null, location: string | null) => {
     if (lat && lng) {
       window.open(`https://www.google.com/maps?q=${lat},${lng}`, '_blank');
@@ -1245,6 +1346,83 @@ function AttendanceDetailModal({
                 </div>
               </div>
 
+              {/* Site Geofence */}
+              {geofence && geofence.status !== "no-site" && (
+                <div
+                  className={`rounded-lg p-4 ${
+                    geofence.status === "inside"
+                      ? "bg-green-50 dark:bg-green-900/20"
+                      : "bg-orange-50 dark:bg-orange-900/20"
+                  }`}
+                >
+                  <div className="flex items-start gap-2">
+                    <MapPin
+                      className={`mt-0.5 h-4 w-4 flex-shrink-0 ${
+                        geofence.status === "inside"
+                          ? "text-green-600 dark:text-green-400"
+                          : "text-orange-600 dark:text-orange-400"
+                      }`}
+                    />
+                    <div>
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">
+                        {geofence.status === "inside"
+                          ? "Checked in at site"
+                          : geofence.status === "outside"
+                          ? "Checked in outside site geofence"
+                          : "Check-in location not captured"}
+                      </p>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">{describeGeofenceCheck(geofence)}</p>
+                      {geofence.check_out_distance_meters !== undefined && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          Check-out: {formatDistance(geofence.check_out_distance_meters)} from site
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Shift & Hours */}
+              {shift && hours && detail.check_in_time && (
+                <div className="rounded-lg bg-gray-50 p-4 dark:bg-gray-900/50">
+                  <div className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white">
+                    <Timer className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+                    {shift.name} shift · {formatShiftTime(shift.startTime)} - {formatShiftTime(shift.endTime)}
+                    <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                      ({shift.graceMinutes} min grace)
+                    </span>
+                  </div>
+                  <div className="mt-3 grid grid-cols-2 gap-4 md:grid-cols-4">
+                    <div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">Hours Worked</p>
+                      <p className="text-sm font-medium dark:text-gray-200">
+                        {hours.worked_minutes != null ? formatMinutes(hours.worked_minutes) : "Not checked out"}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">Late Arrival</p>
+                      <p className={`text-sm font-medium ${hours.late_minutes > 0 ? "text-amber-600 dark:text-amber-400" : "dark:text-gray-200"}`}>
+                        {hours.late_minutes > 0 ? formatMinutes(hours.late_minutes) : "On time"}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">Early Exit</p>
+                      <p className={`text-sm font-medium ${hours.early_exit_minutes > 0 ? "text-amber-600 dark:text-amber-400" : "dark:text-gray-200"}`}>
+                        {hours.early_exit_minutes > 0 ? formatMinutes(hours.early_exit_minutes) : "-"}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">Overtime</p>
+                      <p className={`text-sm font-medium ${hours.overtime_minutes > 0 ? "text-sky-600 dark:text-sky-400" : "dark:text-gray-200"}`}>
+                        {hours.overtime_minutes > 0
+                          ? `${formatMinutes(hours.overtime_minutes)} @ ${shiftConfig?.overtime.multiplier}x`
+                          : "-"}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Check In Section */}
               {detail.check_in_time && (
                 <div className="border-t dark:border-gray-700 pt-4">
@@ -1259,30 +1437,24 @@ function AttendanceDetailModal({
                         <div>
                           <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Location</label>
                           <div className="mt-1 flex items-center gap-2">
-                            {isLoadingAddress ? (
-                              <div className="flex items-center gap-2">
-                                <Loader2 className="h-3 w-3 animate-spin text-gray-400" />
-                                <p className="text-sm text-gray-400 dark:text-gray-500">Loading address...</p>
-                              </div>
-                            ) : (
-                              <>
-                                <p className="text-sm dark:text-gray-200">
-                                  {checkInAddress || detail.check_in_location}
-                                </p>
-                                {(detail.check_in_location_latitude || detail.check_in_location_longitude) && (
-                                  <button
-                                    onClick={() => openGoogleMaps(
-                                      detail.check_in_location_latitude,
-                                      detail.check_in_location_longitude,
-                                      detail.check_in_location
-                                    )}
-                                    className="text-sky-600 hover:text-sky-700 dark:text-sky-400"
-                                    title="View on Google Maps"
-                                  >
-                                    <MapPin className="h-4 w-4" />
-                                  </button>
+                            <LocationAddress
+                              latitude={detail.check_in_location_latitude}
+                              longitude={detail.check_in_location_longitude}
+                              fallback={detail.check_in_location}
+                              className="text-sm dark:text-gray-200"
+                            />
+                            {(detail.check_in_location_latitude || detail.check_in_location_longitude) && (
+                              <button
+                                onClick={() => openGoogleMaps(
+                                  detail.check_in_location_latitude,
+                                  detail.check_in_location_longitude,
+                                  detail.check_in_location
                                 )}
-                              </>
+                                className="text-sky-600 hover:text-sky-700 dark:text-sky-400"
+                                title="View on Google Maps"
+                              >
+                                <MapPin className="h-4 w-4" />
+                              </button>
                             )}
                           </div>
                         </div>
@@ -1324,30 +1496,24 @@ function AttendanceDetailModal({
                         <div>
                           <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Location</label>
                           <div className="mt-1 flex items-center gap-2">
-                            {isLoadingAddress ? (
-                              <div className="flex items-center gap-2">
-                                <Loader2 className="h-3 w-3 animate-spin text-gray-400" />
-                                <p className="text-sm text-gray-400 dark:text-gray-500">Loading address...</p>
-                              </div>
-                            ) : (
-                              <>
-                                <p className="text-sm dark:text-gray-200">
-                                  {checkOutAddress || detail.check_out_location}
-                                </p>
-                                {(detail.check_out_location_latitude || detail.check_out_location_longitude) && (
-                                  <button
-                                    onClick={() => openGoogleMaps(
-                                      detail.check_out_location_latitude,
-                                      detail.check_out_location_longitude,
-                                      detail.check_out_location
-                                    )}
-                                    className="text-sky-600 hover:text-sky-700 dark:text-sky-400"
-                                    title="View on Google Maps"
-                                  >
-                                    <MapPin className="h-4 w-4" />
-                                  </button>
+                            <LocationAddress
+                              latitude={detail.check_out_location_latitude}
+                              longitude={detail.check_out_location_longitude}
+                              fallback={detail.check_out_location}
+                              className="text-sm dark:text-gray-200"
+                            />
+                            {(detail.check_out_location_latitude || detail.check_out_location_longitude) && (
+                              <button
+                                onClick={() => openGoogleMaps(
+                                  detail.check_out_location_latitude,
+                                  detail.check_out_location_longitude,
+                                  detail.check_out_location
                                 )}
-                              </>
+                                className="text-sky-600 hover:text-sky-700 dark:text-sky-400"
+                                title="View on Google Maps"
+                              >
+                                <MapPin className="h-4 w-4" />
+                              </button>
                             )}
                           </div>
                         </div>
@@ -1688,131 +1854,6 @@ function MarkAttendanceModal({
   );
 }
 
-function ExportReportModal({
-  onClose,
-  attendance,
-}: {
-  onClose: () => void;
-  attendance: AttendanceRecord[];
-}) {
-  const currentYear = new Date().getFullYear();
-  const [exportMonth, setExportMonth] = useState(new Date().getMonth() + 1);
-  const [exportYear, setExportYear] = useState(currentYear);
-
-  const months = [
-    { value: 1, label: "January" },
-    { value: 2, label: "February" },
-    { value: 3, label: "March" },
-    { value: 4, label: "April" },
-    { value: 5, label: "May" },
-    { value: 6, label: "June" },
-    { value: 7, label: "July" },
-    { value: 8, label: "August" },
-    { value: 9, label: "September" },
-    { value: 10, label: "October" },
-    { value: 11, label: "November" },
-    { value: 12, label: "December" },
-  ];
-
-  const years = Array.from({ length: 7 }, (_, i) => currentYear - 3 + i);
-
-  const handleExport = () => {
-    const filteredRecords = attendance.filter(record => {
-      const recordDate = new Date(record.date);
-      return recordDate.getMonth() + 1 === exportMonth && recordDate.getFullYear() === exportYear;
-    });
-
-    const escapeCSV = (value: string) => {
-      if (value.includes(",") || value.includes('"') || value.includes("\n")) {
-        return `"${value.replace(/"/g, '""')}"`;
-      }
-      return value;
-    };
-
-    const csvContent = [
-      ["Date", "Employee", "Status", "Check In", "Check Out", "Notes", "Approval Status", "Approved By"].join(","),
-      ...filteredRecords.map(record => [
-        record.date,
-        escapeCSV(record.employee_name),
-        record.status,
-        record.check_in || "",
-        record.check_out || "",
-        escapeCSV(record.notes || ""),
-        record.approval_status,
-        "" // approved_by not available in AttendanceRecord
-      ].join(","))
-    ].join("\n");
-
-    const blob = new Blob([csvContent], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `attendance-${exportYear}-${String(exportMonth).padStart(2, "0")}.csv`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-
-    showSuccess("Report exported successfully");
-    onClose();
-  };
-
-  return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md">
-        <div className="flex items-center justify-between p-6 border-b dark:border-gray-700">
-          <h2 className="text-xl font-semibold dark:text-white">Export Attendance Report</h2>
-          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200">
-            <XIcon className="h-5 w-5" />
-          </button>
-        </div>
-
-        <div className="p-6 space-y-4">
-          <div>
-            <label className="block text-sm font-medium mb-2 dark:text-gray-200">Month</label>
-            <select
-              value={exportMonth}
-              onChange={(e) => setExportMonth(Number(e.target.value))}
-              className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 py-2 text-sm dark:text-gray-200"
-            >
-              {months.map(month => (
-                <option key={month.value} value={month.value}>
-                  {month.label}
-                </option>
-              ))}
-            </select>
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium mb-2 dark:text-gray-200">Year</label>
-            <select
-              value={exportYear}
-              onChange={(e) => setExportYear(Number(e.target.value))}
-              className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 py-2 text-sm dark:text-gray-200"
-            >
-              {years.map(year => (
-                <option key={year} value={year}>
-                  {year}
-                </option>
-              ))}
-            </select>
-          </div>
-
-          <div className="flex justify-end gap-3 pt-4">
-            <Button type="button" variant="secondary" onClick={onClose}>
-              Cancel
-            </Button>
-            <Button onClick={handleExport}>
-              <Download className="h-4 w-4 mr-2" />
-              Export CSV
-            </Button>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
-
 function BulkMarkPresentModal({
   employees,
   isSaving,
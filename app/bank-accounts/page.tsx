@@ -5,11 +5,12 @@ import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Edit, Trash2, X, Building2, CreditCard, Search, Loader2 } from "lucide-react";
+import { Plus, Edit, Trash2, X, Building2, CreditCard, Search, Loader2, Star } from "lucide-react";
 import { showDeleteConfirm, showSuccess, showError } from "@/lib/sweetalert";
 import { apiClient, BackendBankAccountListItem, BankAccountDetail, BankAccountCreateData, BackendEmployeeListItem, EmployeeListResponse } from "@/lib/api";
 import { useDebounce } from "use-debounce";
 import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/components/providers/auth-provider";
 
 /**
  * Map backend bank account list item to frontend BankAccount type
@@ -39,6 +40,8 @@ function mapBackendBankAccountListItemToFrontend(backendAccount: BackendBankAcco
 }
 
 function BankAccountsPageContent() {
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission("bank-accounts", "write");
   const [accounts, setAccounts] = useState<BackendBankAccountListItem[]>([]);
   const [employees, setEmployees] = useState<BackendEmployeeListItem[]>([]);
   const [showModal, setShowModal] = useState(false);
@@ -50,6 +53,7 @@ function BankAccountsPageContent() {
   const [isSaving, setIsSaving] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
+  const [companyAccountId, setCompanyAccountId] = useState<number | null>(null);
 
   /**
    * Fetch employees for profile selection
@@ -91,9 +95,22 @@ function BankAccountsPageContent() {
     }
   }, [debouncedSearch, currentPage]);
 
+  /**
+   * Fetch the company account (printed on invoices and debited for bulk payments)
+   */
+  const fetchCompanyAccount = useCallback(async () => {
+    try {
+      const settings = await apiClient.getSystemSettings();
+      setCompanyAccountId(settings.primary_bank_account);
+    } catch (err: any) {
+      console.error('Error fetching company bank account:', err);
+    }
+  }, []);
+
   useEffect(() => {
     fetchEmployees();
-  }, [fetchEmployees]);
+    fetchCompanyAccount();
+  }, [fetchEmployees, fetchCompanyAccount]);
 
   useEffect(() => {
     fetchBankAccounts();
@@ -112,6 +129,16 @@ function BankAccountsPageContent() {
     }
   };
 
+  const handleSetCompanyAccount = async (id: number) => {
+    try {
+      await apiClient.updateSystemSettings({ primary_bank_account: id });
+      setCompanyAccountId(id);
+      showSuccess("Success", "Company account updated. It is printed on invoices and preselected for bulk payments.");
+    } catch (err: any) {
+      showError("Error", err.message || "Failed to set the company account");
+    }
+  };
+
   const handleSave = async (accountData: BankAccountCreateData & { id?: number }) => {
     setIsSaving(true);
     try {
@@ -155,15 +182,17 @@ function BankAccountsPageContent() {
             <h2 className="text-2xl font-bold">Bank Account Management</h2>
             <p className="text-gray-500 dark:text-gray-400">Employee bank accounts for payments</p>
           </div>
-          <Button
-            onClick={() => {
-              setSelectedAccount(null);
-              setShowModal(true);
-            }}
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Add Account
-          </Button>
+          {canWrite && (
+            <Button
+              onClick={() => {
+                setSelectedAccount(null);
+                setShowModal(true);
+              }}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Account
+            </Button>
+          )}
         </div>
 
         {/* Search Bar */}
@@ -197,7 +226,7 @@ function BankAccountsPageContent() {
                 ? "Try adjusting your search query"
                 : "Get started by adding your first bank account"}
             </p>
-            {!searchQuery && (
+            {canWrite && !searchQuery && (
               <Button className="mt-4" onClick={() => setShowModal(true)}>
                 <Plus className="h-4 w-4 mr-2" />
                 Add Bank Account
@@ -223,6 +252,7 @@ function BankAccountsPageContent() {
                           <div className="flex items-center gap-2">
                             <h3 className="text-lg font-semibold">{mappedAccount.bank_name}</h3>
                             <Badge variant="secondary">{mappedAccount.profile_name}</Badge>
+                            {account.id === companyAccountId && <Badge variant="success">Company Account</Badge>}
                           </div>
                           <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
                             {mappedAccount.account_holder_name}
@@ -238,24 +268,38 @@ function BankAccountsPageContent() {
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => {
-                            setSelectedAccount(account);
-                            setShowModal(true);
-                          }}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDelete(account.id)}
-                          className="text-red-600"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        {canWrite && account.id !== companyAccountId && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Use as company account"
+                            onClick={() => handleSetCompanyAccount(account.id)}
+                          >
+                            <Star className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canWrite && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              setSelectedAccount(account);
+                              setShowModal(true);
+                            }}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canWrite && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(account.id)}
+                            className="text-red-600"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -0,0 +1,310 @@
+"use client";
+
+import { useState, useEffect, useMemo, useCallback, Suspense } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { AlertCircle, ArrowLeft, Inbox, Loader2, Mail, Printer, Search } from "lucide-react";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { ProtectedRoute } from "@/components/auth/protected-route";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ExportMenu } from "@/components/ui/export-menu";
+import { ClientSendMailModal } from "@/components/clients/client-send-mail-modal";
+import type { Client } from "@/types";
+import { apiClient } from "@/lib/api";
+import { fetchAMCsWithBillings, formatReportValue } from "@/lib/reports";
+import {
+  AGEING_BUCKETS,
+  AMCWithBillings,
+  ReceivablesAgeingRow,
+  buildClientStatement,
+  buildReceivablesAgeing,
+  fetchStatementCompany,
+  getStatementPlaceholderValues,
+  printClientStatement,
+  printReceivablesAgeing,
+  sumAgeing,
+} from "@/lib/client-statement";
+import { mapBackendClientDetailToFrontend } from "@/lib/clients";
+import { ExportColumn, ExportFormat, exportFileName, exportRows } from "@/lib/export";
+import { formatDate } from "@/lib/date-utils";
+import { showAlert } from "@/lib/sweetalert";
+
+const ageingExportColumns: ExportColumn<ReceivablesAgeingRow>[] = [
+  { header: "Client", value: (r) => r.client_name },
+  { header: "Unpaid Bills", type: "number", value: (r) => r.unpaid_bills },
+  { header: "Oldest Bill", type: "date", value: (r) => r.oldest_bill_date },
+  ...AGEING_BUCKETS.map(
+    (bucket): ExportColumn<ReceivablesAgeingRow> => ({
+      header: bucket.label,
+      type: "currency",
+      value: (r) => r.ageing[bucket.key],
+    })
+  ),
+  { header: "Total Outstanding", type: "currency", value: (r) => r.outstanding },
+];
+
+function ReceivablesAgeingPageContent() {
+  const [amcs, setAmcs] = useState<AMCWithBillings[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [mailClient, setMailClient] = useState<Client | null>(null);
+  const [loadingClientId, setLoadingClientId] = useState<number | null>(null);
+  const asOf = format(new Date(), "yyyy-MM-dd");
+
+  const fetchReceivables = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setAmcs(await fetchAMCsWithBillings());
+    } catch (err: any) {
+      console.error("Error loading receivables:", err);
+      setError(err.message || "Failed to load receivables");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReceivables();
+  }, [fetchReceivables]);
+
+  const rows = useMemo(() => buildReceivablesAgeing(amcs), [amcs]);
+
+  const filteredRows = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return query ? rows.filter((row) => row.client_name.toLowerCase().includes(query)) : rows;
+  }, [rows, searchQuery]);
+
+  const totals = useMemo(() => sumAgeing(rows), [rows]);
+  const totalOutstanding = rows.reduce((sum, row) => sum + row.outstanding, 0);
+
+  const mailPlaceholders = useMemo(
+    () => (mailClient ? getStatementPlaceholderValues(buildClientStatement(mailClient.id, mailClient.name, amcs)) : undefined),
+    [mailClient, amcs]
+  );
+
+  const runPrint = async (print: () => Promise<void>) => {
+    try {
+      setIsPrinting(true);
+      await print();
+    } catch (err: any) {
+      console.error("Failed to print:", err);
+      showAlert("Print Failed", err.message || "Could not generate the document.", "error");
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  const handlePrintReport = () =>
+    runPrint(async () => printReceivablesAgeing(filteredRows, await fetchStatementCompany(), asOf));
+
+  const handlePrintStatement = (row: ReceivablesAgeingRow) =>
+    runPrint(async () =>
+      printClientStatement(buildClientStatement(row.client_id, row.client_name, amcs), await fetchStatementCompany())
+    );
+
+  const handleEmail = async (row: ReceivablesAgeingRow) => {
+    try {
+      setLoadingClientId(row.client_id);
+      setMailClient(mapBackendClientDetailToFrontend(await apiClient.getClient(row.client_id)));
+    } catch (err: any) {
+      console.error("Failed to load client:", err);
+      showAlert("Error", err.message || "Failed to load client details.", "error");
+    } finally {
+      setLoadingClientId(null);
+    }
+  };
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    exportRows(filteredRows, ageingExportColumns, {
+      fileName: exportFileName("receivables-ageing"),
+      format: exportFormat,
+      sheetName: "Ageing",
+    });
+    return filteredRows.length;
+  };
+
+  return (
+    <DashboardLayout title="Receivables Ageing" breadcrumbs={["Home", "Clients", "Receivables Ageing"]}>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <Link
+              href="/clients"
+              className="mb-2 inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Clients
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Receivables Ageing</h1>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Unpaid AMC bills by client, bucketed by days since the bill date (as on {formatDate(asOf)})
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <ExportMenu onExport={handleExport} disabled={isLoading || filteredRows.length === 0} />
+            <Button onClick={handlePrintReport} disabled={isPrinting || isLoading}>
+              {isPrinting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Printer className="mr-2 h-4 w-4" />}
+              Print Report
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <Loader2 className="h-8 w-8 animate-spin text-sky-600" />
+          </div>
+        ) : error ? (
+          <div className="flex items-center gap-2 rounded-lg bg-red-50 p-4 text-sm text-red-700 dark:bg-red-900/20 dark:text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        ) : (
+          <>
+            {/* Stats Cards */}
+            <div className="grid grid-cols-2 gap-4 lg:grid-cols-5">
+              {AGEING_BUCKETS.map((bucket) => (
+                <div key={bucket.key} className="rounded-lg bg-white p-6 shadow dark:bg-gray-800">
+                  <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{bucket.label}</p>
+                  <p
+                    className={`mt-2 text-2xl font-bold ${
+                      bucket.maxDays > 60 ? "text-red-600 dark:text-red-400" : "text-gray-900 dark:text-white"
+                    }`}
+                  >
+                    {formatReportValue(totals[bucket.key], "currency")}
+                  </p>
+                </div>
+              ))}
+              <div className="rounded-lg bg-white p-6 shadow dark:bg-gray-800">
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Total Outstanding</p>
+                <p className="mt-2 text-2xl font-bold text-sky-600 dark:text-sky-400">
+                  {formatReportValue(totalOutstanding, "currency")}
+                </p>
+              </div>
+            </div>
+
+            {/* Filters */}
+            <div className="rounded-lg bg-white p-4 shadow dark:bg-gray-800">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                <Input
+                  placeholder="Search by client..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+            </div>
+
+            {/* Ageing Table */}
+            <div className="overflow-x-auto rounded-lg bg-white shadow dark:bg-gray-800">
+              {filteredRows.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-16 text-gray-500 dark:text-gray-400">
+                  <Inbox className="mb-2 h-10 w-10" />
+                  {rows.length === 0 ? "No outstanding AMC bills" : "No clients match the search"}
+                </div>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200 text-sm dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-900">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Client</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Bills</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Oldest Bill</th>
+                      {AGEING_BUCKETS.map((bucket) => (
+                        <th
+                          key={bucket.key}
+                          className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500 dark:text-gray-400"
+                        >
+                          {bucket.label}
+                        </th>
+                      ))}
+                      <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Total</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {filteredRows.map((row) => (
+                      <tr key={row.client_id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                        <td className="whitespace-nowrap px-4 py-3 font-medium text-gray-900 dark:text-white">{row.client_name}</td>
+                        <td className="px-4 py-3 text-right text-gray-600 dark:text-gray-300">{row.unpaid_bills}</td>
+                        <td className="whitespace-nowrap px-4 py-3 text-gray-600 dark:text-gray-300">{formatDate(row.oldest_bill_date)}</td>
+                        {AGEING_BUCKETS.map((bucket) => (
+                          <td
+                            key={bucket.key}
+                            className={`whitespace-nowrap px-4 py-3 text-right ${
+                              row.ageing[bucket.key] > 0 && bucket.maxDays > 60
+                                ? "font-medium text-red-600 dark:text-red-400"
+                                : "text-gray-600 dark:text-gray-300"
+                            }`}
+                          >
+                            {row.ageing[bucket.key] > 0 ? formatReportValue(row.ageing[bucket.key], "currency") : "-"}
+                          </td>
+                        ))}
+                        <td className="whitespace-nowrap px-4 py-3 text-right font-semibold text-gray-900 dark:text-white">
+                          {formatReportValue(row.outstanding, "currency")}
+                        </td>
+                        <td className="whitespace-nowrap px-4 py-3 text-right">
+                          <div className="flex items-center justify-end gap-1">
+                            <button
+                              onClick={() => handlePrintStatement(row)}
+                              disabled={isPrinting}
+                              title="Print statement of account"
+                              className="rounded-lg p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-700 disabled:opacity-50 dark:text-gray-400 dark:hover:bg-gray-700"
+                            >
+                              <Printer className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleEmail(row)}
+                              disabled={loadingClientId === row.client_id}
+                              title="Email statement to client"
+                              className="rounded-lg p-2 text-sky-600 hover:bg-sky-50 disabled:opacity-50 dark:text-sky-400 dark:hover:bg-sky-900/20"
+                            >
+                              {loadingClientId === row.client_id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Mail className="h-4 w-4" />
+                              )}
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      <ClientSendMailModal
+        isOpen={!!mailClient}
+        onClose={() => setMailClient(null)}
+        client={mailClient}
+        placeholderDefaults={mailPlaceholders}
+      />
+    </DashboardLayout>
+  );
+}
+
+export default function ReceivablesAgeingPage() {
+  return (
+    <ProtectedRoute>
+      <Suspense
+        fallback={
+          <DashboardLayout title="Receivables Ageing">
+            <div className="flex items-center justify-center min-h-screen">
+              <div className="text-gray-500">Loading...</div>
+            </div>
+          </DashboardLayout>
+        }
+      >
+        <ReceivablesAgeingPageContent />
+      </Suspense>
+    </ProtectedRoute>
+  );
+}
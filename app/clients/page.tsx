@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback, Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import Image from "next/image";
+import Link from "next/link";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { ClientFormModal } from "@/components/clients/client-form-modal";
 import { ClientSendMailModal } from "@/components/clients/client-send-mail-modal";
@@ -24,19 +25,36 @@ import {
   AlertCircle,
   Inbox,
   ChevronDown,
+  Hourglass,
 } from "lucide-react";
 import type { Client } from "@/types";
 import { format } from "date-fns";
 import { showDeleteConfirm, showConfirm, showAlert } from "@/lib/sweetalert";
 import {
   apiClient,
+  fetchAllPages,
   ClientStatisticsResponse,
   BackendClientListItem,
   BackendClientListResponse,
-  BackendClientDetail,
 } from "@/lib/api";
 import { useDebounce } from "use-debounce";
 import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/components/providers/auth-provider";
+import { ExportMenu } from "@/components/ui/export-menu";
+import { ExportColumn, ExportFormat, exportRows, exportFileName } from "@/lib/export";
+import { mapBackendClientDetailToFrontend } from "@/lib/clients";
+
+const clientExportColumns: ExportColumn<Client>[] = [
+  { header: "Name", value: (c) => c.name },
+  { header: "Business Name", value: (c) => c.business_name },
+  { header: "Contact Person", value: (c) => c.primary_contact_name },
+  { header: "Contact Email", value: (c) => c.primary_contact_email },
+  { header: "Contact Phone", value: (c) => c.primary_contact_phone },
+  { header: "City", value: (c) => c.city },
+  { header: "State", value: (c) => c.state },
+  { header: "Active AMC", value: (c) => (c.amc_count > 0 ? "Yes" : "No") },
+  { header: "Created On", type: "date", value: (c) => c.created_at },
+];
 
 /**
  * Map backend client list item to frontend Client type
@@ -69,37 +87,9 @@ function mapBackendClientToFrontend(
   };
 }
 
-/**
- * Map backend client detail to frontend Client type
- */
-function mapBackendClientDetailToFrontend(
-  backendClient: BackendClientDetail
-): Client {
-  return {
-    id: backendClient.id,
-    name: backendClient.full_name || `${backendClient.first_name || ''} ${backendClient.last_name || ''}`.trim() || 'Client',
-    business_name: undefined,
-    address: backendClient.address || "",
-    city: backendClient.city || "",
-    state: backendClient.state || "",
-    pin_code: backendClient.pin_code || "",
-    country: backendClient.country || "India",
-    primary_contact_name: backendClient.primary_contact_name || backendClient.full_name || `${backendClient.first_name || ''} ${backendClient.last_name || ''}`.trim(),
-    primary_contact_email: backendClient.email || "",
-    primary_contact_phone: backendClient.phone_number || "",
-    secondary_contact: undefined,
-    notes: backendClient.notes || undefined,
-    tags: [],
-    amc_count: 0, // Would need to fetch separately
-    open_projects: 0, // Would need to fetch separately
-    outstanding_amount: 0, // Would need to fetch separately
-    last_activity: backendClient.updated_at || backendClient.created_at,
-    created_at: backendClient.created_at,
-    updated_at: backendClient.updated_at,
-  };
-}
-
 function ClientsPageContent() {
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission("clients", "write");
   const searchParams = useSearchParams();
   const router = useRouter();
 
@@ -112,6 +102,12 @@ function ClientsPageContent() {
   const [viewMode, setViewMode] = useState<"grid" | "table">("table");
   const [searchQuery, setSearchQuery] = useState("");
   const [debouncedSearchQuery] = useDebounce(searchQuery, 500);
+
+  // Pre-fill the search from ?search= (links from global search)
+  useEffect(() => {
+    const search = searchParams.get("search");
+    if (search) setSearchQuery(search);
+  }, [searchParams]);
   const [selectedCity, setSelectedCity] = useState<string>("all");
   const [selectedState, setSelectedState] = useState<string>("all");
   const [hasActiveAMC, setHasActiveAMC] = useState<string>("all");
@@ -141,28 +137,33 @@ function ClientsPageContent() {
     }
   }, []);
 
+  // Build list params from the current filters (shared by fetch and export)
+  const getListParams = useCallback(() => {
+    const params: {
+      search?: string;
+      has_active_amc?: boolean;
+      page?: number;
+    } = {};
+
+    if (debouncedSearchQuery) {
+      params.search = debouncedSearchQuery;
+    }
+
+    if (hasActiveAMC === "yes") {
+      params.has_active_amc = true;
+    } else if (hasActiveAMC === "no") {
+      params.has_active_amc = false;
+    }
+
+    return params;
+  }, [debouncedSearchQuery, hasActiveAMC]);
+
   // Fetch clients
   const fetchClients = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     try {
-      const params: {
-        search?: string;
-        has_active_amc?: boolean;
-        page?: number;
-      } = {};
-
-      if (debouncedSearchQuery) {
-        params.search = debouncedSearchQuery;
-      }
-
-      if (hasActiveAMC === "yes") {
-        params.has_active_amc = true;
-      } else if (hasActiveAMC === "no") {
-        params.has_active_amc = false;
-      }
-
-      const response: BackendClientListResponse = await apiClient.getClients(params);
+      const response: BackendClientListResponse = await apiClient.getClients(getListParams());
       const mappedClients = response.results.map((backendClient) =>
         mapBackendClientToFrontend(backendClient, statistics || undefined)
       );
@@ -173,7 +174,7 @@ function ClientsPageContent() {
     } finally {
       setIsLoading(false);
     }
-  }, [debouncedSearchQuery, hasActiveAMC, statistics]);
+  }, [getListParams, statistics]);
 
   useEffect(() => {
     fetchStatistics();
@@ -218,14 +219,28 @@ function ClientsPageContent() {
     { value: "no", label: "No Active AMC" },
   ];
 
-  // Filter clients (client-side filtering for city, state, tags)
-  const filteredClients = clients.filter((client) => {
+  // Client-side filtering for city, state, tags
+  const matchesLocalFilters = (client: Client) => {
     const matchesCity = selectedCity === "all" || !client.city || client.city === selectedCity;
     const matchesState = selectedState === "all" || !client.state || client.state === selectedState;
     const matchesTag = selectedTag === "all" || client.tags.length === 0 || client.tags.includes(selectedTag);
 
     return matchesCity && matchesState && matchesTag;
-  });
+  };
+
+  const filteredClients = clients.filter(matchesLocalFilters);
+
+  // Export every client matching the current filters (all pages)
+  const handleExport = async (exportFormat: ExportFormat) => {
+    const allClients = await fetchAllPages((page) => apiClient.getClients({ ...getListParams(), page }));
+    const rows = allClients.map((c) => mapBackendClientToFrontend(c)).filter(matchesLocalFilters);
+    exportRows(rows, clientExportColumns, {
+      fileName: exportFileName("clients"),
+      format: exportFormat,
+      sheetName: "Clients",
+    });
+    return rows.length;
+  };
 
   // Handlers
   const handleCreateClient = () => {
@@ -288,6 +303,9 @@ function ClientsPageContent() {
           state?: string;
           pin_code?: string;
           country?: string;
+          site_latitude?: string;
+          site_longitude?: string;
+          site_radius_meters?: number;
         } = {
           first_name: name, // Client Name -> first_name in User model
         };
@@ -320,6 +338,11 @@ function ClientsPageContent() {
         if (clientData.country?.trim()) {
           backendData.country = clientData.country.trim();
         }
+        if (clientData.site_latitude?.trim() && clientData.site_longitude?.trim()) {
+          backendData.site_latitude = clientData.site_latitude.trim();
+          backendData.site_longitude = clientData.site_longitude.trim();
+          backendData.site_radius_meters = clientData.site_radius_meters;
+        }
 
         await apiClient.createClient(backendData);
         showAlert("Success", "Client created successfully.", "success");
@@ -340,6 +363,9 @@ function ClientsPageContent() {
           state: string;
           pin_code: string;
           country: string;
+          site_latitude: string;
+          site_longitude: string;
+          site_radius_meters: number | null;
         }> = {};
 
         // CRITICAL: Client Name -> first_name in User model
@@ -357,6 +383,10 @@ function ClientsPageContent() {
         if (clientData.state !== undefined) backendData.state = clientData.state;
         if (clientData.pin_code !== undefined) backendData.pin_code = clientData.pin_code;
         if (clientData.country !== undefined) backendData.country = clientData.country;
+        // Always sent so that clearing the site location removes the geofence
+        backendData.site_latitude = clientData.site_latitude?.trim() || "";
+        backendData.site_longitude = clientData.site_longitude?.trim() || "";
+        backendData.site_radius_meters = clientData.site_radius_meters ?? null;
 
         await apiClient.updateClient(editingClient.id, backendData);
         showAlert("Success", "Client updated successfully.", "success");
@@ -459,29 +489,10 @@ function ClientsPageContent() {
 
   const handleBulkExportCSV = () => {
     const selectedClientData = clients.filter((c) => selectedClients.has(c.id));
-    const csv = [
-      ["Name", "Business Name", "City", "State", "Contact Email", "Contact Phone", "AMC Count", "Outstanding"],
-      ...selectedClientData.map((c) => [
-        c.name,
-        c.business_name || "",
-        c.city || "",
-        c.state || "",
-        c.primary_contact_email,
-        c.primary_contact_phone,
-        c.amc_count.toString(),
-        c.outstanding_amount.toString(),
-      ]),
-    ]
-      .map((row) => row.join(","))
-      .join("\n");
-
-    const blob = new Blob([csv], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `clients-export-${format(new Date(), "yyyy-MM-dd")}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
+    exportRows(selectedClientData, clientExportColumns, {
+      fileName: exportFileName("clients-export"),
+      format: "csv",
+    });
   };
 
   const handleBulkEmail = async () => {
@@ -575,13 +586,25 @@ function ClientsPageContent() {
               Manage your client directory
             </p>
           </div>
-          <button
-            onClick={handleCreateClient}
-            className="inline-flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
-          >
-            <Plus className="h-4 w-4" />
-            New Client
-          </button>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/clients/ageing"
+              className="inline-flex items-center gap-2 rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+            >
+              <Hourglass className="h-4 w-4" />
+              Receivables Ageing
+            </Link>
+            <ExportMenu onExport={handleExport} />
+            {canWrite && (
+              <button
+                onClick={handleCreateClient}
+                className="inline-flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
+              >
+                <Plus className="h-4 w-4" />
+                New Client
+              </button>
+            )}
+          </div>
         </div>
 
         {/* Quick Stats */}
@@ -837,13 +860,15 @@ function ClientsPageContent() {
                   <Mail className="h-4 w-4" />
                   Send Email
                 </button>
-                <button
-                  onClick={handleBulkDelete}
-                  className="inline-flex items-center gap-2 rounded-lg border border-red-300 bg-white px-3 py-1.5 text-sm font-medium text-red-700 hover:bg-red-50 dark:border-red-900 dark:bg-gray-800 dark:text-red-400 dark:hover:bg-red-900/20"
-                >
-                  <Trash2 className="h-4 w-4" />
-                  Delete
-                </button>
+                {canWrite && (
+                  <button
+                    onClick={handleBulkDelete}
+                    className="inline-flex items-center gap-2 rounded-lg border border-red-300 bg-white px-3 py-1.5 text-sm font-medium text-red-700 hover:bg-red-50 dark:border-red-900 dark:bg-gray-800 dark:text-red-400 dark:hover:bg-red-900/20"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Delete
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -861,7 +886,7 @@ function ClientsPageContent() {
                 ? "Get started by adding your first client"
                 : "Try adjusting your search or filters"}
             </p>
-            {clients.length === 0 && (
+            {canWrite && clients.length === 0 && (
             <button
               onClick={handleCreateClient}
               className="mt-4 inline-flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
@@ -975,20 +1000,24 @@ function ClientsPageContent() {
                     >
                       <Eye className="h-4 w-4" />
                     </button>
-                    <button
-                      onClick={() => handleEditClient(client)}
-                      className="rounded-lg border border-gray-300 p-2 text-gray-400 hover:bg-gray-100 hover:text-sky-600 dark:border-gray-600 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-sky-400"
-                      title="Edit"
-                    >
-                      <Edit className="h-4 w-4" />
-                    </button>
-                    <button
-                      onClick={() => handleDeleteClient(client.id)}
-                      className="rounded-lg border border-gray-300 p-2 text-gray-400 hover:bg-gray-100 hover:text-red-600 dark:border-gray-600 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-red-400"
-                      title="Delete"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
+                    {canWrite && (
+                      <button
+                        onClick={() => handleEditClient(client)}
+                        className="rounded-lg border border-gray-300 p-2 text-gray-400 hover:bg-gray-100 hover:text-sky-600 dark:border-gray-600 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-sky-400"
+                        title="Edit"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </button>
+                    )}
+                    {canWrite && (
+                      <button
+                        onClick={() => handleDeleteClient(client.id)}
+                        className="rounded-lg border border-gray-300 p-2 text-gray-400 hover:bg-gray-100 hover:text-red-600 dark:border-gray-600 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-red-400"
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
                   </div>
                 </div>
               );
@@ -1133,20 +1162,24 @@ function ClientsPageContent() {
                           >
                             <Eye className="h-4 w-4" />
                           </button>
-                          <button
-                            onClick={() => handleEditClient(client)}
-                            className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-sky-600 dark:hover:bg-gray-700 dark:hover:text-sky-400"
-                            title="Edit"
-                          >
-                            <Edit className="h-4 w-4" />
-                          </button>
-                          <button
-                            onClick={() => handleDeleteClient(client.id)}
-                            className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-600 dark:hover:bg-gray-700 dark:hover:text-red-400"
-                            title="Delete"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </button>
+                          {canWrite && (
+                            <button
+                              onClick={() => handleEditClient(client)}
+                              className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-sky-600 dark:hover:bg-gray-700 dark:hover:text-sky-400"
+                              title="Edit"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </button>
+                          )}
+                          {canWrite && (
+                            <button
+                              onClick={() => handleDeleteClient(client.id)}
+                              className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-600 dark:hover:bg-gray-700 dark:hover:text-red-400"
+                              title="Delete"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
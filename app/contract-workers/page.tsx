@@ -13,6 +13,7 @@ import { showDeleteConfirm, showAlert, showSuccess } from "@/lib/sweetalert";
 import { apiClient, ContractWorkerStatisticsResponse, BackendContractWorkerListItem, ContractWorkerDetail, ContractWorkerCreateData, BulkUploadContractWorkerResponse, BackendProjectListItem } from "@/lib/api";
 import { useDebounce } from "use-debounce";
 import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/components/providers/auth-provider";
 
 type ContractWorker = {
   id: number;
@@ -133,6 +134,8 @@ function mapBackendContractWorkerDetailToFrontend(backendWorker: ContractWorkerD
 }
 
 function ContractWorkersPageContent() {
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission("contract-workers", "write");
   const searchParams = useSearchParams();
   const router = useRouter();
   
@@ -146,6 +149,12 @@ function ContractWorkersPageContent() {
   
   const [searchQuery, setSearchQuery] = useState("");
   const [debouncedSearchQuery] = useDebounce(searchQuery, 500);
+
+  // Pre-fill the search from ?search= (links from global search)
+  useEffect(() => {
+    const search = searchParams.get("search");
+    if (search) setSearchQuery(search);
+  }, [searchParams]);
   const [workerTypeFilter, setWorkerTypeFilter] = useState<string>("all");
   const [availabilityFilter, setAvailabilityFilter] = useState<string>("all");
   const [showWorkerTypeDropdown, setShowWorkerTypeDropdown] = useState(false);
@@ -382,19 +391,21 @@ function ContractWorkersPageContent() {
             <h2 className="text-2xl font-bold">Contract Worker Management</h2>
             <p className="text-gray-500 dark:text-gray-400">Manage contract workers and bulk imports</p>
           </div>
-          <div className="flex gap-2">
-            <Button variant="outline" onClick={() => setShowBulkImport(true)}>
-              <Upload className="h-4 w-4 mr-2" />
-              Bulk Import
-            </Button>
-            <Button onClick={() => {
-              setSelectedWorker(null);
-              setShowModal(true);
-            }}>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Worker
-            </Button>
-          </div>
+          {canWrite && (
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setShowBulkImport(true)}>
+                <Upload className="h-4 w-4 mr-2" />
+                Bulk Import
+              </Button>
+              <Button onClick={() => {
+                setSelectedWorker(null);
+                setShowModal(true);
+              }}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Worker
+              </Button>
+            </div>
+          )}
         </div>
 
         {/* Statistics Tiles */}
@@ -552,24 +563,26 @@ function ContractWorkersPageContent() {
             <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
               Get started by adding your first contract worker or bulk importing workers
             </p>
-            <div className="mt-4 flex gap-2 justify-center">
-              <Button
-                onClick={() => setShowBulkImport(true)}
-                variant="outline"
-              >
-                <Upload className="h-4 w-4 mr-2" />
-                Bulk Import
-              </Button>
-              <Button
-                onClick={() => {
-                  setSelectedWorker(null);
-                  setShowModal(true);
-                }}
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Add Worker
-              </Button>
-            </div>
+            {canWrite && (
+              <div className="mt-4 flex gap-2 justify-center">
+                <Button
+                  onClick={() => setShowBulkImport(true)}
+                  variant="outline"
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  Bulk Import
+                </Button>
+                <Button
+                  onClick={() => {
+                    setSelectedWorker(null);
+                    setShowModal(true);
+                  }}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Worker
+                </Button>
+              </div>
+            )}
           </div>
         ) : (
           <div className="bg-white dark:bg-gray-900 rounded-lg border overflow-hidden">
@@ -657,23 +670,27 @@ function ContractWorkersPageContent() {
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleEdit(worker)}
-                          title="Edit"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDelete(worker.id)}
-                          className="text-red-600"
-                          title="Delete"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        {canWrite && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEdit(worker)}
+                            title="Edit"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canWrite && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(worker.id)}
+                            className="text-red-600"
+                            title="Delete"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -5,6 +5,7 @@ import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/components/providers/auth-provider";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -20,8 +21,11 @@ import {
 } from "lucide-react";
 import { apiClient, DashboardStatsResponse } from "@/lib/api";
 import { formatDate, formatTimeAgo } from "@/lib/date-utils";
+import { runScheduledReminders } from "@/lib/payment-reminders";
+import { showAlert } from "@/lib/sweetalert";
 
 function DashboardContent() {
+  const { hasPermission } = useAuth();
   const router = useRouter();
   const [stats, setStats] = useState<DashboardStatsResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -45,6 +49,24 @@ function DashboardContent() {
     fetchDashboardData();
   }, []);
 
+  // Payment reminders are sent from the first dashboard visit of the day when auto-send is enabled
+  const canWriteAMCs = hasPermission("amcs", "write");
+  useEffect(() => {
+    if (!canWriteAMCs) return;
+    runScheduledReminders()
+      .then((result) => {
+        if (!result || (result.sent === 0 && result.failed.length === 0)) return;
+        showAlert(
+          "Payment Reminders",
+          result.failed.length > 0
+            ? `${result.sent} sent. Not sent: ${result.failed.join("; ")}`
+            : `${result.sent} payment ${result.sent === 1 ? "reminder" : "reminders"} sent.`,
+          result.failed.length > 0 ? "warning" : "info"
+        );
+      })
+      .catch((err) => console.error("Failed to run payment reminders:", err));
+  }, [canWriteAMCs]);
+
   const statsTiles = stats
     ? [
     {
@@ -166,11 +188,25 @@ function DashboardContent() {
                           Expires: {formatDate(amc.amc_expiry_date)}
                       </p>
                     </div>
-                    <Badge
-                        variant={amc.expiry_count_days <= 7 ? "danger" : "warning"}
-                    >
-                        {amc.expiry_count_days} {amc.expiry_count_days === 1 ? "day" : "days"}
-                    </Badge>
+                    <div className="flex flex-col items-end gap-2">
+                      <Badge
+                          variant={amc.expiry_count_days <= 7 ? "danger" : "warning"}
+                      >
+                          {amc.expiry_count_days} {amc.expiry_count_days === 1 ? "day" : "days"}
+                      </Badge>
+                      {hasPermission("amcs", "write") && (
+                        <button
+                          onClick={() =>
+                            router.push(
+                              `/amcs?search=${encodeURIComponent(amc.amc_number)}&renew=${encodeURIComponent(amc.amc_number)}`
+                            )
+                          }
+                          className="text-xs font-medium text-sky-600 hover:text-sky-700 dark:text-sky-400"
+                        >
+                          Renew
+                        </button>
+                      )}
+                    </div>
                   </div>
                 ))}
                   <Button
@@ -251,34 +287,42 @@ function DashboardContent() {
           </CardHeader>
           <CardContent>
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-              <Button
-                className="h-20 flex-col gap-2"
-                onClick={() => router.push("/clients?action=new")}
-              >
-                <Plus className="h-5 w-5" />
-                New Client
-              </Button>
-              <Button
-                className="h-20 flex-col gap-2"
-                onClick={() => router.push("/amcs?action=new")}
-              >
-                <Plus className="h-5 w-5" />
-                New AMC
-              </Button>
-              <Button
-                className="h-20 flex-col gap-2"
-                onClick={() => router.push("/tenders?action=new")}
-              >
-                <Plus className="h-5 w-5" />
-                New Tender
-              </Button>
-              <Button
-                className="h-20 flex-col gap-2"
-                onClick={() => router.push("/tasks?action=new")}
-              >
-                <Plus className="h-5 w-5" />
-                New Task
-              </Button>
+              {hasPermission("clients", "write") && (
+                <Button
+                  className="h-20 flex-col gap-2"
+                  onClick={() => router.push("/clients?action=new")}
+                >
+                  <Plus className="h-5 w-5" />
+                  New Client
+                </Button>
+              )}
+              {hasPermission("amcs", "write") && (
+                <Button
+                  className="h-20 flex-col gap-2"
+                  onClick={() => router.push("/amcs?action=new")}
+                >
+                  <Plus className="h-5 w-5" />
+                  New AMC
+                </Button>
+              )}
+              {hasPermission("tenders", "write") && (
+                <Button
+                  className="h-20 flex-col gap-2"
+                  onClick={() => router.push("/tenders?action=new")}
+                >
+                  <Plus className="h-5 w-5" />
+                  New Tender
+                </Button>
+              )}
+              {hasPermission("tasks", "write") && (
+                <Button
+                  className="h-20 flex-col gap-2"
+                  onClick={() => router.push("/tasks?action=new")}
+                >
+                  <Plus className="h-5 w-5" />
+                  New Task
+                </Button>
+              )}
             </div>
           </CardContent>
         </Card>
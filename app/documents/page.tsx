@@ -1,10 +1,14 @@
 'use client';
 
-import { useState, useEffect, useCallback, Fragment } from 'react';
+import { useState, useEffect, useCallback, Fragment, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { DashboardLayout } from '@/components/layout/dashboard-layout';
+import { ProtectedRoute } from '@/components/auth/protected-route';
+import { useAuth } from '@/components/providers/auth-provider';
 import { UploadTemplateModal } from '@/components/documents/upload-template-modal';
 import { VersionHistoryModal } from '@/components/documents/version-history-modal';
 import { PreviewModal } from '@/components/documents/preview-modal';
+import { GenerateDocumentModal } from '@/components/documents/generate-document-modal';
 import {
   apiClient,
   DocumentTemplate,
@@ -29,9 +33,10 @@ import {
   Loader2,
   Inbox,
   AlertCircle,
+  FileOutput,
 } from 'lucide-react';
 import { format } from 'date-fns';
-import { showDeleteConfirm, showAlert } from '@/lib/sweetalert';
+import { showDeleteConfirm, showAlert, showConfirm } from '@/lib/sweetalert';
 import { formatDate, formatTimeAgo } from '@/lib/date-utils';
 
 type ViewMode = 'grid' | 'table';
@@ -53,7 +58,10 @@ function mapVersionToFrontend(version: DocumentTemplateVersion, templateId: numb
   };
 }
 
-export default function DocumentsPage() {
+function DocumentsPageContent() {
+  const searchParams = useSearchParams();
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission('documents', 'write');
   const [templates, setTemplates] = useState<DocumentTemplate[]>([]);
   const [firms, setFirms] = useState<Firm[]>([]);
   const [viewMode, setViewMode] = useState<ViewMode>('table');
@@ -68,6 +76,7 @@ export default function DocumentsPage() {
   const [selectedTemplate, setSelectedTemplate] = useState<DocumentTemplate | null>(null);
   const [selectedVersion, setSelectedVersion] = useState<any | null>(null);
   const [uploadingForTemplate, setUploadingForTemplate] = useState<DocumentTemplate | null>(null);
+  const [generatingTemplate, setGeneratingTemplate] = useState<DocumentTemplate | null>(null);
   const [expandedVersions, setExpandedVersions] = useState<Record<number, boolean>>({});
   const [selectedTemplates, setSelectedTemplates] = useState<Set<number>>(new Set());
   const [showBulkActions, setShowBulkActions] = useState(false);
@@ -75,6 +84,12 @@ export default function DocumentsPage() {
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Pre-fill the search from ?search= (links from global search)
+  useEffect(() => {
+    const search = searchParams.get('search');
+    if (search) setSearchQuery(search);
+  }, [searchParams]);
+
   const categories = ['all', 'Work Order', 'Experience Certificate', 'Tender Document', 'Affidavit', 'AMC', 'Invoice', 'Contract', 'Report', 'Other'];
 
   // Fetch documents from backend
@@ -270,6 +285,26 @@ export default function DocumentsPage() {
     }
   };
 
+  const handleSetPublished = async (templateId: number, versionId: number) => {
+    const confirmed = await showConfirm(
+      'Publish Version?',
+      'This version will replace the currently published version of the template.',
+      'Publish',
+      'Cancel'
+    );
+    if (!confirmed) return;
+
+    try {
+      const updated = await apiClient.publishDocumentVersion(templateId, versionId);
+      setSelectedTemplate(updated);
+      await showAlert('Success', 'Version published successfully', 'success');
+      await fetchDocuments();
+    } catch (err: any) {
+      console.error('Publish error:', err);
+      await showAlert('Publish Failed', err.message || 'Failed to publish version', 'error');
+    }
+  };
+
   const handleDelete = async (templateId: number) => {
       const confirmed = await showDeleteConfirm('this template and all its versions');
     if (!confirmed) return;
@@ -413,6 +448,7 @@ export default function DocumentsPage() {
               Manage templates for AMCs, Tenders, Invoices, and more
             </p>
           </div>
+          {canWrite && (
           <button
             onClick={() => setUploadModalOpen(true)}
             disabled={isUploading}
@@ -430,6 +466,7 @@ export default function DocumentsPage() {
               </>
             )}
           </button>
+          )}
         </div>
 
         {error && (
@@ -593,9 +630,11 @@ export default function DocumentsPage() {
             <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
               {searchQuery || selectedCategory !== 'all' || selectedFirm !== 'all'
                 ? 'Try adjusting your search or filters'
-                : 'Get started by uploading your first template'}
+                : canWrite
+                  ? 'Get started by uploading your first template'
+                  : 'No templates have been uploaded yet'}
             </p>
-            {!searchQuery && selectedCategory === 'all' && selectedFirm === 'all' && (
+            {canWrite && !searchQuery && selectedCategory === 'all' && selectedFirm === 'all' && (
             <button
               onClick={() => setUploadModalOpen(true)}
               className="mt-4 inline-flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
@@ -681,6 +720,15 @@ export default function DocumentsPage() {
                       >
                         <Eye className="h-4 w-4" />
                       </button>
+                      {canWrite && template.published_version?.file_type === 'docx' && (
+                        <button
+                          onClick={() => setGeneratingTemplate(template)}
+                          className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-sky-600 dark:hover:bg-gray-700 dark:hover:text-sky-400"
+                          title="Generate"
+                        >
+                          <FileOutput className="h-4 w-4" />
+                        </button>
+                      )}
                       <button
                         onClick={() => handleDownload(template.id)}
                         className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-sky-600 dark:hover:bg-gray-700 dark:hover:text-sky-400"
@@ -688,13 +736,15 @@ export default function DocumentsPage() {
                       >
                         <Download className="h-4 w-4" />
                       </button>
-                      <button
-                        onClick={() => handleDelete(template.id)}
-                        className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-600 dark:hover:bg-gray-700 dark:hover:text-red-400"
-                        title="Delete"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
+                      {canWrite && (
+                        <button
+                          onClick={() => handleDelete(template.id)}
+                          className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-600 dark:hover:bg-gray-700 dark:hover:text-red-400"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
                     </div>
                   </div>
 
@@ -848,6 +898,15 @@ export default function DocumentsPage() {
                             >
                               <Eye className="h-4 w-4" />
                             </button>
+                            {canWrite && template.published_version?.file_type === 'docx' && (
+                              <button
+                                onClick={() => setGeneratingTemplate(template)}
+                                className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-sky-600 dark:hover:bg-gray-700 dark:hover:text-sky-400"
+                                title="Generate"
+                              >
+                                <FileOutput className="h-4 w-4" />
+                              </button>
+                            )}
                             <button
                               onClick={() => handleDownload(template.id)}
                               className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-sky-600 dark:hover:bg-gray-700 dark:hover:text-sky-400"
@@ -855,13 +914,15 @@ export default function DocumentsPage() {
                             >
                               <Download className="h-4 w-4" />
                             </button>
-                            <button
-                              onClick={() => handleDelete(template.id)}
-                              className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-600 dark:hover:bg-gray-700 dark:hover:text-red-400"
-                              title="Delete"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </button>
+                            {canWrite && (
+                              <button
+                                onClick={() => handleDelete(template.id)}
+                                className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-600 dark:hover:bg-gray-700 dark:hover:text-red-400"
+                                title="Delete"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -945,22 +1006,38 @@ export default function DocumentsPage() {
             setSelectedTemplate(null);
           }}
           templateTitle={selectedTemplate.title}
-          versions={(selectedTemplate.versions || []).map((v) => mapVersionToFrontend(v, selectedTemplate.id))}
-          onSetPublished={(versionId) => {
-            // Note: Backend doesn't support changing published version yet
-            showAlert('Info', 'Changing published version will be available soon', 'info');
-          }}
+          versions={(selectedTemplate.versions || []).map((v) => ({
+            ...mapVersionToFrontend(v, selectedTemplate.id),
+            file_url: apiClient.getPreviewVersionUrl(selectedTemplate.id, v.id),
+          }))}
           onDownload={(versionId) => handleDownload(selectedTemplate.id, versionId)}
           onPreview={(versionId) => handlePreview(selectedTemplate.id, versionId)}
-          onDelete={(versionId) => {
-            // Note: Backend doesn't support deleting individual versions yet
-            showAlert('Info', 'Deleting individual versions will be available soon', 'info');
-          }}
-          onUploadNewVersion={() => {
-            setVersionModalOpen(false);
-            setUploadingForTemplate(selectedTemplate);
-            setUploadModalOpen(true);
-          }}
+          onSetPublished={canWrite ? (versionId) => handleSetPublished(selectedTemplate.id, versionId) : undefined}
+          onDelete={
+            canWrite
+              ? () => {
+                  // Note: Backend doesn't support deleting individual versions yet
+                  showAlert('Info', 'Deleting individual versions will be available soon', 'info');
+                }
+              : undefined
+          }
+          onUploadNewVersion={
+            canWrite
+              ? () => {
+                  setVersionModalOpen(false);
+                  setUploadingForTemplate(selectedTemplate);
+                  setUploadModalOpen(true);
+                }
+              : undefined
+          }
+        />
+      )}
+
+      {generatingTemplate && (
+        <GenerateDocumentModal
+          isOpen={!!generatingTemplate}
+          onClose={() => setGeneratingTemplate(null)}
+          template={generatingTemplate}
         />
       )}
 
@@ -980,3 +1057,21 @@ export default function DocumentsPage() {
     </DashboardLayout>
   );
 }
+
+export default function DocumentsPage() {
+  return (
+    <ProtectedRoute>
+      <Suspense
+        fallback={
+          <DashboardLayout title="Document Management">
+            <div className="flex items-center justify-center min-h-screen">
+              <div className="text-gray-500">Loading...</div>
+            </div>
+          </DashboardLayout>
+        }
+      >
+        <DocumentsPageContent />
+      </Suspense>
+    </ProtectedRoute>
+  );
+}
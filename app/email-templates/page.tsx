@@ -1,17 +1,34 @@
 "use client";
 
-import { useState, useEffect, useCallback, Suspense } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef, Suspense } from "react";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Search, Plus, Eye, Edit, Send, Trash2, Copy, X, Loader2, Inbox } from "lucide-react";
+import { RichTextEditor, RichTextEditorHandle, RICH_TEXT_CONTENT_CLASS } from "@/components/ui/rich-text-editor";
+import { Search, Plus, Eye, Edit, Send, Trash2, Copy, X, Loader2, Inbox, FlaskConical, AlertCircle } from "lucide-react";
 import { EmailTemplate } from "@/types";
 import { showDeleteConfirm, showSuccess, showError, showAlert } from "@/lib/sweetalert";
 import { apiClient, BackendEmailTemplateListItem, EmailTemplateDetail, EmailTemplateCreateData, EmailTemplateSendRequest } from "@/lib/api";
 import { useDebounce } from "use-debounce";
 import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/components/providers/auth-provider";
 import { DatePicker } from "@/components/ui/date-picker";
 import { format } from "date-fns";
+import {
+  OTHER_PLACEHOLDERS,
+  extractPlaceholders,
+  findMissingPlaceholders,
+  formatMissingPlaceholders,
+  getSamplePlaceholderValues,
+  renderTemplate,
+  sendTestEmail,
+} from "@/lib/email-templates";
+import {
+  PLACEHOLDER_CATALOGUE,
+  PLACEHOLDER_FILTER_EXAMPLES,
+  loadPlaceholderContext,
+  resolvePlaceholders,
+} from "@/lib/email-placeholders";
 
 /**
  * Map backend email template list item to frontend EmailTemplate type
@@ -41,10 +58,8 @@ function mapBackendTemplateDetailToFrontend(backendTemplate: EmailTemplateDetail
       .map(p => p.replace(/[{}]/g, '').trim())
       .filter(p => p.length > 0);
   } else {
-    // Extract placeholders from body if not provided
-    const placeholderRegex = /\{\{(\w+)\}\}/g;
-    const matches = backendTemplate.body.matchAll(placeholderRegex);
-    placeholders = Array.from(matches, m => m[1]);
+    // Extract placeholders from the subject and body if not provided
+    placeholders = extractPlaceholders(backendTemplate.subject, backendTemplate.body);
   }
 
   return {
@@ -59,6 +74,8 @@ function mapBackendTemplateDetailToFrontend(backendTemplate: EmailTemplateDetail
 }
 
 function EmailTemplatesPageContent() {
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission("email-templates", "write");
   const [templates, setTemplates] = useState<EmailTemplate[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [debouncedSearch] = useDebounce(searchQuery, 500);
@@ -167,11 +184,8 @@ function EmailTemplatesPageContent() {
   }) => {
     setIsSaving(true);
     try {
-      // Extract placeholders from body
-      const placeholderRegex = /\{\{(\w+)\}\}/g;
-      const matches = templateData.body.matchAll(placeholderRegex);
-      const extractedPlaceholders = Array.from(matches, m => m[1]);
-      const uniquePlaceholders = [...new Set(extractedPlaceholders)];
+      // Extract placeholders from subject and body
+      const uniquePlaceholders = extractPlaceholders(templateData.subject, templateData.body);
 
       const createData: EmailTemplateCreateData = {
         name: templateData.name,
@@ -223,15 +237,17 @@ function EmailTemplatesPageContent() {
               className="pl-9"
             />
           </div>
-          <Button
-            onClick={() => {
-              setSelectedTemplate(null);
-              setShowEditor(true);
-            }}
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Create Template
-          </Button>
+          {canWrite && (
+            <Button
+              onClick={() => {
+                setSelectedTemplate(null);
+                setShowEditor(true);
+              }}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Create Template
+            </Button>
+          )}
         </div>
 
         {isLoading ? (
@@ -299,14 +315,16 @@ function EmailTemplatesPageContent() {
                       >
                         <Eye className="h-4 w-4" />
                       </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleEdit(template)}
-                        title="Edit"
-                      >
-                        <Edit className="h-4 w-4" />
-                      </Button>
+                      {canWrite && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleEdit(template)}
+                          title="Edit"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="sm"
@@ -316,15 +334,17 @@ function EmailTemplatesPageContent() {
                       >
                         <Send className="h-4 w-4" />
                       </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleDelete(template.id)}
-                        title="Delete"
-                        className="text-red-600 hover:text-red-700"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                      {canWrite && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(template.id)}
+                          title="Delete"
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -415,6 +435,7 @@ function TemplateEditor({
   const [name, setName] = useState(template?.name || "");
   const [subject, setSubject] = useState(template?.subject || "");
   const [body, setBody] = useState(template?.body || "");
+  const editorRef = useRef<RichTextEditorHandle>(null);
 
   useEffect(() => {
     if (template) {
@@ -428,39 +449,37 @@ function TemplateEditor({
     }
   }, [template]);
 
-  const availablePlaceholders = [
-    "client_name", "client_id", "contact_name", "contact_email", "contact_phone",
-    "amc_number", "period_from", "period_to", "amount", "due_date",
-    "employee_name", "task_id", "task_description", "location", "deadline",
-    "company_name", "company_email", "company_phone",
-  ];
+  const usedPlaceholders = useMemo(() => extractPlaceholders(subject, body), [subject, body]);
+  const sampleValues = useMemo(() => getSamplePlaceholderValues(usedPlaceholders), [usedPlaceholders]);
+  const placeholdersWithoutSample = usedPlaceholders.filter((placeholder) => !sampleValues[placeholder]);
+  const hasUnsavedChanges =
+    !!template && (name !== template.name || subject !== template.subject || body !== template.body);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    // Extract placeholders from body
-    const placeholderRegex = /\{\{(\w+)\}\}/g;
-    const matches = body.matchAll(placeholderRegex);
-    const usedPlaceholders = Array.from(matches, m => m[1]);
-    const uniquePlaceholders = [...new Set(usedPlaceholders)];
-    
+
+    // The editor leaves markup such as <br> behind when emptied
+    if (!body.replace(/<[^>]*>|&nbsp;/g, "").trim()) {
+      showAlert("Validation Error", "Please enter the email body", "error");
+      return;
+    }
+
     await onSave({
       id: template?.id,
       name,
       subject,
       body,
-      placeholders: uniquePlaceholders,
+      placeholders: usedPlaceholders,
     });
   };
 
   const insertPlaceholder = (placeholder: string) => {
-    const newText = `{{${placeholder}}}`;
-    setBody(body + newText);
+    editorRef.current?.insertText(`{{${placeholder}}}`);
   };
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
-      <div className="bg-white dark:bg-gray-900 rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+      <div className="bg-white dark:bg-gray-900 rounded-lg shadow-xl w-full max-w-7xl max-h-[90vh] overflow-hidden flex flex-col">
         <div className="flex items-center justify-between p-6 border-b dark:border-gray-800">
           <h2 className="text-xl font-semibold">
             {template ? "Edit Template" : "Create Template"}
@@ -476,7 +495,7 @@ function TemplateEditor({
 
         <div className="flex-1 overflow-y-auto">
           <div className="flex">
-            <form onSubmit={handleSubmit} className="flex-1 p-6 space-y-4">
+            <form onSubmit={handleSubmit} className="flex-1 min-w-0 p-6 space-y-4">
               <div>
                 <label className="block text-sm font-medium mb-2">
                   Template Name <span className="text-red-500">*</span>
@@ -505,20 +524,24 @@ function TemplateEditor({
 
               <div>
                 <label className="block text-sm font-medium mb-2">
-                  Email Body (HTML) <span className="text-red-500">*</span>
+                  Email Body <span className="text-red-500">*</span>
                 </label>
-                <textarea
+                <RichTextEditor
+                  ref={editorRef}
                   value={body}
-                  onChange={(e) => setBody(e.target.value)}
-                  rows={15}
-                  required
+                  onChange={setBody}
+                  placeholder="Dear {{client_name}},"
                   disabled={isSaving}
-                  className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-sky-500"
-                  placeholder="<p>Dear {{client_name}},</p>"
                 />
               </div>
 
               <div className="flex justify-end gap-3 pt-4">
+                {template && (
+                  <SendTestButton
+                    template={template}
+                    disabledReason={hasUnsavedChanges ? "Save your changes before sending a test" : undefined}
+                  />
+                )}
                 <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
                   Cancel
                 </Button>
@@ -535,24 +558,77 @@ function TemplateEditor({
               </div>
             </form>
 
-            <div className="w-64 border-l dark:border-gray-800 p-6 bg-gray-50 dark:bg-gray-800/50">
-              <h3 className="font-semibold mb-3">Placeholders</h3>
+            <div className="w-96 flex-shrink-0 border-l dark:border-gray-800 p-6 space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">Live Preview</h3>
+                <span className="text-xs text-gray-500">With sample values</span>
+              </div>
+              <div className="rounded-lg border dark:border-gray-700 overflow-hidden">
+                <div className="px-4 py-2 border-b dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 text-sm break-words">
+                  <span className="text-gray-500">Subject:</span> {renderTemplate(subject, sampleValues)}
+                </div>
+                <div
+                  className={`p-4 text-sm break-words ${RICH_TEXT_CONTENT_CLASS}`}
+                  dangerouslySetInnerHTML={{ __html: renderTemplate(body, sampleValues, { html: true }) }}
+                />
+              </div>
+              {placeholdersWithoutSample.length > 0 && (
+                <div className="flex gap-2 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 p-3 text-xs text-yellow-800 dark:text-yellow-400">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                  <span>
+                    {placeholdersWithoutSample.map((placeholder) => `{{${placeholder}}}`).join(", ")}{" "}
+                    {placeholdersWithoutSample.length === 1 ? "has" : "have"} no sample value. Every placeholder must
+                    be given a value when the email is sent.
+                  </span>
+                </div>
+              )}
+            </div>
+
+            <div className="w-64 flex-shrink-0 border-l dark:border-gray-800 p-6 bg-gray-50 dark:bg-gray-800/50">
+              <h3 className="font-semibold mb-1">Placeholders</h3>
               <p className="text-xs text-gray-500 mb-4">
-                Click to insert
+                Click to insert at the cursor. Record fields are filled in automatically when sending from a
+                client, AMC or tender.
               </p>
-              <div className="space-y-1">
-                {availablePlaceholders.map((placeholder) => (
-                  <button
-                    key={placeholder}
-                    type="button"
-                    onClick={() => insertPlaceholder(placeholder)}
-                    disabled={isSaving}
-                    className="w-full text-left text-xs px-2 py-1.5 rounded bg-white dark:bg-gray-900 hover:bg-sky-50 dark:hover:bg-sky-950/30 border dark:border-gray-700 flex items-center justify-between group"
-                  >
-                    <span className="font-mono text-[10px]">{`{{${placeholder}}}`}</span>
-                    <Copy className="h-3 w-3 opacity-0 group-hover:opacity-100" />
-                  </button>
+              <div className="space-y-4">
+                {[
+                  ...PLACEHOLDER_CATALOGUE.map(({ entity, label, fields }) => ({
+                    label,
+                    placeholders: fields.map((field) => ({ name: `${entity}.${field.field}`, title: field.label })),
+                  })),
+                  { label: "Other", placeholders: OTHER_PLACEHOLDERS.map((name) => ({ name, title: name })) },
+                ].map((group) => (
+                  <div key={group.label}>
+                    <p className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">{group.label}</p>
+                    <div className="space-y-1">
+                      {group.placeholders.map((placeholder) => (
+                        <button
+                          key={placeholder.name}
+                          type="button"
+                          title={placeholder.title}
+                          // Keep the cursor position in the editor
+                          onMouseDown={(e) => e.preventDefault()}
+                          onClick={() => insertPlaceholder(placeholder.name)}
+                          disabled={isSaving}
+                          className="w-full text-left text-xs px-2 py-1.5 rounded bg-white dark:bg-gray-900 hover:bg-sky-50 dark:hover:bg-sky-950/30 border dark:border-gray-700 flex items-center justify-between group"
+                        >
+                          <span className="font-mono text-[10px]">{`{{${placeholder.name}}}`}</span>
+                          <Copy className="h-3 w-3 opacity-0 group-hover:opacity-100" />
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                 ))}
+                <div>
+                  <p className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Formatting</p>
+                  <div className="space-y-1 text-[10px] text-gray-500 dark:text-gray-400">
+                    {PLACEHOLDER_FILTER_EXAMPLES.map(({ example, result }) => (
+                      <p key={example}>
+                        <span className="font-mono text-gray-700 dark:text-gray-300">{example}</span> → {result}
+                      </p>
+                    ))}
+                  </div>
+                </div>
               </div>
             </div>
           </div>
@@ -562,32 +638,53 @@ function TemplateEditor({
   );
 }
 
-function TemplatePreview({ template, onClose }: { template: EmailTemplate; onClose: () => void }) {
-  const sampleData: Record<string, string> = {
-    client_name: "TechCorp Solutions",
-    client_id: "123",
-    contact_name: "John Doe",
-    contact_email: "john@techcorp.com",
-    contact_phone: "+91 1234567890",
-    amc_number: "AMC-2025-042",
-    period_from: "2025-01-01",
-    period_to: "2025-03-31",
-    amount: "25,000",
-    due_date: "2025-04-15",
-    employee_name: "Rajesh Kumar",
-    task_id: "TASK-247",
-    task_description: "Network Setup",
-    location: "Andheri West",
-    deadline: "2025-01-15",
-    company_name: "Electrocom Pvt Ltd",
-    company_email: "info@electrocom.com",
-    company_phone: "+91 9876543210",
+/**
+ * Sends the saved template to the signed-in user with sample placeholder values
+ */
+function SendTestButton({ template, disabledReason }: { template: EmailTemplate; disabledReason?: string }) {
+  const { user } = useAuth();
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSendTest = async () => {
+    if (!user?.email) {
+      showAlert("No Email Address", "Your account has no email address to send the test to.", "warning");
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      const response = await sendTestEmail(template, user.email);
+      if (response.errors && response.errors.length > 0) {
+        showAlert("Test Email Sent (with issues)", `❌ Errors:\n${response.errors.join("\n")}`, "error");
+      } else if (response.warning) {
+        showAlert("Test Email Sent (with warning)", `⚠️ Warning: ${response.warning}`, "warning");
+      } else {
+        showSuccess("Test Email Sent", `A test of "${template.name}" was sent to ${user.email} with sample values`);
+      }
+    } catch (err: any) {
+      console.error("Failed to send test email:", err);
+      showError("Error", err.message || "Failed to send test email");
+    } finally {
+      setIsSending(false);
+    }
   };
 
-  let previewBody = template.body;
-  Object.entries(sampleData).forEach(([key, value]) => {
-    previewBody = previewBody.replace(new RegExp(`\\{\\{${key}\\}\\}`, "g"), value);
-  });
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      onClick={handleSendTest}
+      disabled={isSending || !!disabledReason}
+      title={disabledReason || (user?.email ? `Send a test to ${user.email}` : undefined)}
+    >
+      {isSending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FlaskConical className="h-4 w-4 mr-2" />}
+      Send Test to Me
+    </Button>
+  );
+}
+
+function TemplatePreview({ template, onClose }: { template: EmailTemplate; onClose: () => void }) {
+  const sampleValues = getSamplePlaceholderValues(extractPlaceholders(template.subject, template.body));
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
@@ -595,7 +692,9 @@ function TemplatePreview({ template, onClose }: { template: EmailTemplate; onClo
         <div className="flex items-center justify-between p-6 border-b dark:border-gray-800">
           <div>
             <h2 className="text-xl font-semibold">{template.name}</h2>
-            <p className="text-sm text-gray-500 mt-1">Subject: {template.subject}</p>
+            <p className="text-sm text-gray-500 mt-1">
+              Subject: {renderTemplate(template.subject, sampleValues)}
+            </p>
           </div>
           <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
             <X className="h-5 w-5" />
@@ -604,9 +703,17 @@ function TemplatePreview({ template, onClose }: { template: EmailTemplate; onClo
 
         <div className="flex-1 overflow-y-auto p-6">
           <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-6">
-            <div dangerouslySetInnerHTML={{ __html: previewBody }} />
+            <div
+              className={RICH_TEXT_CONTENT_CLASS}
+              dangerouslySetInnerHTML={{ __html: renderTemplate(template.body, sampleValues, { html: true }) }}
+            />
           </div>
         </div>
+
+        <div className="flex items-center justify-between gap-3 p-6 border-t dark:border-gray-800">
+          <p className="text-xs text-gray-500">Shown with sample placeholder values</p>
+          <SendTestButton template={template} />
+        </div>
       </div>
     </div>
   );
@@ -619,16 +726,35 @@ function SendEmailModal({ template, onClose }: { template: EmailTemplate; onClos
   const [placeholderValues, setPlaceholderValues] = useState<Record<string, string>>({});
   const [isSending, setIsSending] = useState(false);
 
-  // Initialize placeholder values from template
+  // Every placeholder in the subject and body must be given a value
+  const placeholders = useMemo(() => extractPlaceholders(template.subject, template.body), [template]);
+
+  // Initialize placeholder values from template; company fields such as {{company.gst_number}} fill themselves
   useEffect(() => {
-    if (template.placeholders && template.placeholders.length > 0) {
-      const initialValues: Record<string, string> = {};
-      template.placeholders.forEach(placeholder => {
-        initialValues[placeholder] = "";
-      });
-      setPlaceholderValues(initialValues);
-    }
-  }, [template]);
+    const initialValues: Record<string, string> = {};
+    placeholders.forEach(placeholder => {
+      initialValues[placeholder] = "";
+    });
+    setPlaceholderValues(initialValues);
+
+    let cancelled = false;
+    loadPlaceholderContext({})
+      .then((context) => {
+        if (cancelled) return;
+        const resolved = resolvePlaceholders(placeholders, context);
+        setPlaceholderValues(prev => {
+          const next = { ...prev };
+          Object.entries(resolved).forEach(([key, value]) => {
+            if (!next[key]) next[key] = value;
+          });
+          return next;
+        });
+      })
+      .catch((err) => console.error("Failed to load company details:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [placeholders]);
 
   // Validate email addresses
   const validateEmails = (emailString: string): boolean => {
@@ -657,6 +783,12 @@ function SendEmailModal({ template, onClose }: { template: EmailTemplate; onClos
       return;
     }
 
+    const missingPlaceholders = findMissingPlaceholders(template, placeholderValues);
+    if (missingPlaceholders.length > 0) {
+      showAlert("Validation Error", formatMissingPlaceholders(missingPlaceholders), "error");
+      return;
+    }
+
     // Validate scheduled date/time if provided
     let scheduled_at: string | null = null;
     if (scheduleDate) {
@@ -682,18 +814,15 @@ function SendEmailModal({ template, onClose }: { template: EmailTemplate; onClos
     setIsSending(true);
 
     try {
-      // Prepare placeholder values - only include non-empty values
       const validPlaceholderValues: Record<string, string> = {};
-      Object.keys(placeholderValues).forEach(key => {
-        if (placeholderValues[key] && placeholderValues[key].trim()) {
-          validPlaceholderValues[key] = placeholderValues[key].trim();
-        }
+      placeholders.forEach(key => {
+        validPlaceholderValues[key] = placeholderValues[key].trim();
       });
 
       const sendData: EmailTemplateSendRequest = {
         recipients: recipients.trim(),
         scheduled_at: scheduled_at || null,
-        placeholder_values: Object.keys(validPlaceholderValues).length > 0 ? validPlaceholderValues : undefined,
+        placeholder_values: placeholders.length > 0 ? validPlaceholderValues : undefined,
       };
 
       const response = await apiClient.sendEmailUsingTemplate(template.id, sendData);
@@ -774,13 +903,13 @@ function SendEmailModal({ template, onClose }: { template: EmailTemplate; onClos
               </p>
             </div>
 
-            {template.placeholders && template.placeholders.length > 0 && (
+            {placeholders.length > 0 && (
               <div>
                 <label className="block text-sm font-medium mb-2">
-                  Placeholder Values (Optional)
+                  Placeholder Values <span className="text-red-500">*</span>
                 </label>
                 <div className="space-y-2">
-                  {template.placeholders.map((placeholder) => (
+                  {placeholders.map((placeholder) => (
                     <div key={placeholder}>
                       <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
                         {`{{${placeholder}}}`}
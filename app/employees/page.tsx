@@ -8,11 +8,13 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { DatePicker } from "@/components/ui/date-picker";
 import { CustomDropdown } from "@/components/ui/custom-dropdown";
-import { Plus, Search, Mail, Phone, MapPin, Edit, Trash2, X, User, Briefcase, Loader2, Inbox, Eye, Calendar, CreditCard, FileText, Building2, MapPin as MapPinIcon, Globe, Award, DollarSign, IdCard, ChevronDown } from "lucide-react";
+import { Plus, Search, Mail, Phone, MapPin, Edit, Trash2, X, User, Briefcase, Loader2, Inbox, Eye, Calendar, CreditCard, FileText, Building2, MapPin as MapPinIcon, Globe, Award, DollarSign, IdCard, ChevronDown, CalendarOff } from "lucide-react";
 import { showDeleteConfirm, showAlert, showSuccess } from "@/lib/sweetalert";
 import { apiClient, EmployeeStatisticsResponse, BackendEmployeeListItem, EmployeeDetail, EmployeeCreateData } from "@/lib/api";
 import { useDebounce } from "use-debounce";
 import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/components/providers/auth-provider";
+import { LeaveBalances } from "@/components/leave/leave-balances";
 
 type Employee = {
   id: number;
@@ -121,6 +123,8 @@ function mapBackendEmployeeDetailToFrontend(backendEmployee: EmployeeDetail): Em
 }
 
 function EmployeesPageContent() {
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission("employees", "write");
   const searchParams = useSearchParams();
   const router = useRouter();
   
@@ -133,6 +137,12 @@ function EmployeesPageContent() {
   
   const [searchQuery, setSearchQuery] = useState("");
   const [debouncedSearchQuery] = useDebounce(searchQuery, 500);
+
+  // Pre-fill the search from ?search= (links from global search)
+  useEffect(() => {
+    const search = searchParams.get("search");
+    if (search) setSearchQuery(search);
+  }, [searchParams]);
   const [designationFilter, setDesignationFilter] = useState<string>("all");
   const [availabilityFilter, setAvailabilityFilter] = useState<string>("all");
   const [showDesignationDropdown, setShowDesignationDropdown] = useState(false);
@@ -393,13 +403,15 @@ function EmployeesPageContent() {
             <h2 className="text-2xl font-bold">Employee Management</h2>
             <p className="text-gray-500 dark:text-gray-400">Manage employee records and profiles</p>
           </div>
-          <Button onClick={() => {
-            setSelectedEmployee(null);
-            setShowModal(true);
-          }}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Employee
-          </Button>
+          {canWrite && (
+            <Button onClick={() => {
+              setSelectedEmployee(null);
+              setShowModal(true);
+            }}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Employee
+            </Button>
+          )}
         </div>
 
         {/* Statistics Tiles */}
@@ -557,16 +569,18 @@ function EmployeesPageContent() {
             <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
               Get started by adding your first employee
             </p>
-            <Button
-              onClick={() => {
-                setSelectedEmployee(null);
-                setShowModal(true);
-              }}
-              className="mt-4"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Add Employee
-            </Button>
+            {canWrite && (
+              <Button
+                onClick={() => {
+                  setSelectedEmployee(null);
+                  setShowModal(true);
+                }}
+                className="mt-4"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Employee
+              </Button>
+            )}
           </div>
         ) : (
           <div className="bg-white dark:bg-gray-900 rounded-lg border overflow-hidden">
@@ -650,23 +664,27 @@ function EmployeesPageContent() {
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleEdit(employee)}
-                          title="Edit"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDelete(employee.id)}
-                          className="text-red-600"
-                          title="Delete"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        {canWrite && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEdit(employee)}
+                            title="Edit"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canWrite && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(employee.id)}
+                            className="text-red-600"
+                            title="Delete"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -926,6 +944,15 @@ function EmployeeViewModalComponent({
               </div>
             </div>
           </div>
+
+          {/* Leave Balances */}
+          <div className="space-y-4">
+            <h4 className="text-lg font-semibold flex items-center gap-2">
+              <CalendarOff className="h-5 w-5" />
+              Leave Balances ({new Date().getFullYear()})
+            </h4>
+            <LeaveBalances employeeId={employee.id} joiningDate={employee.joining_date} />
+          </div>
         </div>
       </div>
     </div>
@@ -11,7 +11,9 @@ import { showDeleteConfirm, showSuccess, showError } from "@/lib/sweetalert";
 import { apiClient, HolidayCalendarStatisticsResponse, BackendHolidayCalendarListItem, HolidayCalendarDetail, HolidayCalendarCreateData } from "@/lib/api";
 import { useDebounce } from "use-debounce";
 import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/components/providers/auth-provider";
 import { DatePicker } from "@/components/ui/date-picker";
+import { isOptionalHoliday } from "@/lib/working-days";
 
 /**
  * Map backend holiday type to frontend type
@@ -65,6 +67,8 @@ function mapBackendHolidayListItemToFrontend(backendHoliday: BackendHolidayCalen
 }
 
 function HolidayCalendarPageContent() {
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission("holiday-calendar", "write");
   const [holidays, setHolidays] = useState<BackendHolidayCalendarListItem[]>([]);
   const [statistics, setStatistics] = useState<HolidayCalendarStatisticsResponse | null>(null);
   const [showModal, setShowModal] = useState(false);
@@ -200,15 +204,17 @@ function HolidayCalendarPageContent() {
             <h2 className="text-2xl font-bold">Holiday Calendar</h2>
             <p className="text-gray-500 dark:text-gray-400">Manage holidays and leave calendar</p>
           </div>
-          <Button
-            onClick={() => {
-              setSelectedHoliday(null);
-              setShowModal(true);
-            }}
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Add Holiday
-          </Button>
+          {canWrite && (
+            <Button
+              onClick={() => {
+                setSelectedHoliday(null);
+                setShowModal(true);
+              }}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Holiday
+            </Button>
+          )}
         </div>
 
         {/* Statistics Tiles */}
@@ -297,7 +303,7 @@ function HolidayCalendarPageContent() {
                 ? "Get started by adding your first holiday"
                 : `No ${filterType} holidays found`}
             </p>
-            {filterType === "all" && (
+            {canWrite && filterType === "all" && (
               <Button className="mt-4" onClick={() => setShowModal(true)}>
                 <Plus className="h-4 w-4 mr-2" />
                 Add Holiday
@@ -345,24 +351,28 @@ function HolidayCalendarPageContent() {
                         </td>
                         <td className="px-6 py-4 text-right">
                           <div className="flex items-center justify-end gap-2">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => {
-                                setSelectedHoliday(holiday);
-                                setShowModal(true);
-                              }}
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleDelete(holiday.id)}
-                              className="text-red-600"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
+                            {canWrite && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => {
+                                  setSelectedHoliday(holiday);
+                                  setShowModal(true);
+                                }}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {canWrite && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(holiday.id)}
+                                className="text-red-600"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -431,6 +441,7 @@ function HolidayModal({
     name: holiday?.name || "",
     date: holiday?.date || format(new Date(), "yyyy-MM-dd"),
     type: holiday ? mapBackendTypeToFrontend(holiday.type) : ("Public" as 'Public' | 'Optional' | 'Restricted'),
+    is_optional: holiday ? isOptionalHoliday(holiday) : false,
   });
 
   useEffect(() => {
@@ -439,12 +450,14 @@ function HolidayModal({
         name: holiday.name,
         date: holiday.date,
         type: mapBackendTypeToFrontend(holiday.type),
+        is_optional: isOptionalHoliday(holiday),
       });
     } else {
       setFormData({
         name: "",
         date: format(new Date(), "yyyy-MM-dd"),
         type: "Public",
+        is_optional: false,
       });
     }
   }, [holiday]);
@@ -468,6 +481,7 @@ function HolidayModal({
       name: formData.name,
       date: formData.date,
       type: mapFrontendTypeToBackend(formData.type),
+      is_optional: formData.is_optional,
     };
 
     await onSave(holidayData);
@@ -520,7 +534,10 @@ function HolidayModal({
             <label className="block text-sm font-medium mb-2">Type</label>
             <select
               value={formData.type}
-              onChange={(e) => setFormData({ ...formData, type: e.target.value as 'Public' | 'Optional' | 'Restricted' })}
+              onChange={(e) => {
+                const type = e.target.value as 'Public' | 'Optional' | 'Restricted';
+                setFormData({ ...formData, type, is_optional: type === "Optional" });
+              }}
               disabled={isSaving}
               className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
             >
@@ -529,6 +546,21 @@ function HolidayModal({
               <option value="Restricted">Restricted</option>
             </select>
           </div>
+          <label className="flex items-start gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={formData.is_optional}
+              onChange={(e) => setFormData({ ...formData, is_optional: e.target.checked })}
+              disabled={isSaving}
+              className="mt-0.5 h-4 w-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+            />
+            <span>
+              Optional holiday
+              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                Not a day off for everyone; employees pick it as leave against their optional holiday quota
+              </span>
+            </span>
+          </label>
 
           <div className="flex justify-end gap-3 pt-4">
             <Button type="button" variant="secondary" onClick={onClose} disabled={isSaving}>
@@ -0,0 +1,644 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo, Suspense } from "react";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { CalendarOff, Check, Loader2, Plus, Search, Settings, X, Ban } from "lucide-react";
+import { useDebounce } from "use-debounce";
+import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/components/providers/auth-provider";
+import { LeaveRequestModal } from "@/components/leave/leave-request-modal";
+import { LeaveTypesModal } from "@/components/leave/leave-types-modal";
+import {
+  apiClient,
+  fetchAllPages,
+  isQueuedOffline,
+  BackendEmployeeListItem,
+  BackendLeaveRequest,
+  BackendLeaveType,
+  LeaveRequestStatus,
+} from "@/lib/api";
+import {
+  computeLeaveBalances,
+  createLeaveAttendance,
+  formatLeaveDays,
+  formatLeavePeriod,
+} from "@/lib/leave";
+import { getCompanyHolidayDates } from "@/lib/working-days";
+import { showConfirm, showError, showSuccess, showWarning } from "@/lib/sweetalert";
+
+const STATUS_VARIANTS: Record<LeaveRequestStatus, "default" | "success" | "warning" | "danger" | "secondary"> = {
+  Pending: "warning",
+  Approved: "success",
+  Rejected: "danger",
+  Cancelled: "secondary",
+};
+
+function LeavePageContent() {
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission("leave", "write");
+  const [activeTab, setActiveTab] = useState<"requests" | "balances">("requests");
+  const [requests, setRequests] = useState<BackendLeaveRequest[]>([]);
+  const [leaveTypes, setLeaveTypes] = useState<BackendLeaveType[]>([]);
+  const [employees, setEmployees] = useState<BackendEmployeeListItem[]>([]);
+  const [yearRequests, setYearRequests] = useState<BackendLeaveRequest[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch] = useDebounce(searchQuery, 500);
+  const [filterStatus, setFilterStatus] = useState<string>("all");
+  const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingBalances, setIsLoadingBalances] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [processingId, setProcessingId] = useState<number | null>(null);
+  const [showRequestModal, setShowRequestModal] = useState(false);
+  const [showTypesModal, setShowTypesModal] = useState(false);
+
+  const activeLeaveTypes = useMemo(() => leaveTypes.filter((type) => type.is_active), [leaveTypes]);
+
+  const fetchLeaveTypes = useCallback(async () => {
+    try {
+      setLeaveTypes(await fetchAllPages((page) => apiClient.getLeaveTypes({ page })));
+    } catch (err: any) {
+      console.error("Error fetching leave types:", err);
+    }
+  }, []);
+
+  const fetchEmployees = useCallback(async () => {
+    try {
+      setEmployees(await fetchAllPages((page) => apiClient.getEmployees({ page })));
+    } catch (err: any) {
+      console.error("Error fetching employees:", err);
+    }
+  }, []);
+
+  /**
+   * Fetch one page of leave requests for the Requests tab
+   */
+  const fetchRequests = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await apiClient.getLeaveRequests({
+        search: debouncedSearch || undefined,
+        status: filterStatus !== "all" ? (filterStatus as LeaveRequestStatus) : undefined,
+        year: selectedYear,
+        page: currentPage,
+      });
+      setRequests(response.results);
+      setTotalPages(Math.ceil(response.count / 20));
+    } catch (err: any) {
+      console.error("Error fetching leave requests:", err);
+      setError(err.message || "Failed to fetch leave requests");
+      setRequests([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [debouncedSearch, filterStatus, selectedYear, currentPage]);
+
+  /**
+   * Fetch every request in the selected and previous year, for stats and balances
+   */
+  const fetchYearRequests = useCallback(async () => {
+    setIsLoadingBalances(true);
+    try {
+      const [current, previous] = await Promise.all([
+        fetchAllPages((page) => apiClient.getLeaveRequests({ year: selectedYear, page })),
+        fetchAllPages((page) => apiClient.getLeaveRequests({ year: selectedYear - 1, page })),
+      ]);
+      setYearRequests([...current, ...previous]);
+    } catch (err: any) {
+      console.error("Error fetching leave balances:", err);
+    } finally {
+      setIsLoadingBalances(false);
+    }
+  }, [selectedYear]);
+
+  useEffect(() => {
+    fetchLeaveTypes();
+    fetchEmployees();
+  }, [fetchLeaveTypes, fetchEmployees]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  useEffect(() => {
+    fetchYearRequests();
+  }, [fetchYearRequests]);
+
+  const refresh = () => {
+    fetchRequests();
+    fetchYearRequests();
+  };
+
+  const stats = useMemo(() => {
+    const inYear = yearRequests.filter((request) => request.start_date.startsWith(`${selectedYear}-`));
+    return {
+      pending: inYear.filter((request) => request.status === "Pending").length,
+      approved: inYear.filter((request) => request.status === "Approved").length,
+      daysTaken: inYear
+        .filter((request) => request.status === "Approved")
+        .reduce((sum, request) => sum + (parseFloat(request.days) || 0), 0),
+    };
+  }, [yearRequests, selectedYear]);
+
+  const balanceRows = useMemo(
+    () =>
+      employees.map((employee) => ({
+        employee,
+        balances: computeLeaveBalances(
+          activeLeaveTypes,
+          yearRequests.filter((request) => request.employee === employee.id),
+          selectedYear,
+          employee.joining_date
+        ),
+      })),
+    [employees, activeLeaveTypes, yearRequests, selectedYear]
+  );
+
+  const handleApprove = async (request: BackendLeaveRequest) => {
+    const confirmed = await showConfirm(
+      "Approve Leave",
+      `Approve ${formatLeaveDays(parseFloat(request.days) || 0)} of ${request.leave_type_name} for ${request.employee_name}? Leave will be marked on the attendance register.`,
+      "Approve",
+      "Cancel"
+    );
+    if (!confirmed) return;
+
+    setProcessingId(request.id);
+    try {
+      const approved = await apiClient.approveLeaveRequest(request.id);
+      if (isQueuedOffline(approved)) {
+        await showWarning(
+          "Approval saved offline",
+          `${approved.message} Mark the leave on the Attendance page once it has synced.`
+        );
+        refresh();
+        return;
+      }
+      const year = parseInt(approved.start_date.slice(0, 4));
+      const holidays = await fetchAllPages((page) => apiClient.getHolidays({ year, page }));
+      const result = await createLeaveAttendance(approved, getCompanyHolidayDates(holidays));
+      if (result.failed.length > 0) {
+        await showWarning(
+          "Leave approved",
+          `Attendance could not be marked for ${result.failed.join(", ")}. Attendance may already be recorded on these dates; update them from the Attendance page.`
+        );
+      } else if (result.queued > 0) {
+        await showWarning(
+          "Leave approved",
+          `${result.queued} attendance record(s) were saved offline; approve them on the Attendance page once they sync.`
+        );
+      } else {
+        await showSuccess("Leave approved", `${result.created} attendance record(s) marked as leave`);
+      }
+      refresh();
+    } catch (err: any) {
+      await showError("Error", err.message || "Failed to approve leave request");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleReject = async (request: BackendLeaveRequest) => {
+    const { default: Swal } = await import("sweetalert2");
+
+    const result = await Swal.fire({
+      title: "Reject Leave",
+      text: "Enter rejection reason:",
+      icon: "warning",
+      input: "text",
+      inputPlaceholder: "Reason for rejection",
+      showCancelButton: true,
+      confirmButtonText: "Reject",
+      cancelButtonText: "Cancel",
+      inputValidator: (value) => {
+        if (!value) {
+          return "Please enter a reason";
+        }
+        return null;
+      },
+      background: "#1f2937",
+      color: "#f3f4f6",
+      confirmButtonColor: "#ef4444",
+      cancelButtonColor: "#6b7280",
+    });
+
+    if (!result.isConfirmed || !result.value) return;
+
+    setProcessingId(request.id);
+    try {
+      await apiClient.rejectLeaveRequest(request.id, result.value as string);
+      await showSuccess("Leave request rejected");
+      refresh();
+    } catch (err: any) {
+      await showError("Error", err.message || "Failed to reject leave request");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleCancel = async (request: BackendLeaveRequest) => {
+    const confirmed = await showConfirm(
+      "Cancel Leave Request",
+      request.status === "Approved"
+        ? "The days return to the balance. Leave already marked on the attendance register is not removed."
+        : "The request will be withdrawn.",
+      "Cancel Request",
+      "Keep"
+    );
+    if (!confirmed) return;
+
+    setProcessingId(request.id);
+    try {
+      await apiClient.cancelLeaveRequest(request.id);
+      await showSuccess("Leave request cancelled");
+      refresh();
+    } catch (err: any) {
+      await showError("Error", err.message || "Failed to cancel leave request");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <DashboardLayout title="Leave" breadcrumbs={["Home", "Leave"]}>
+      <div className="space-y-6">
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+            <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold">Leave Management</h2>
+            <p className="text-gray-500 dark:text-gray-400">Leave requests, approvals and balances</p>
+          </div>
+          {canWrite && (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setShowTypesModal(true)}
+                className="inline-flex items-center gap-2 rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+              >
+                <Settings className="h-4 w-4" />
+                Leave Types
+              </button>
+              <Button onClick={() => setShowRequestModal(true)} disabled={activeLeaveTypes.length === 0}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Request
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Statistics Tiles */}
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="bg-white dark:bg-gray-900 rounded-lg border p-4">
+            <div className="text-sm text-gray-500 dark:text-gray-400">Pending Requests</div>
+            <div className="text-2xl font-bold mt-1 text-yellow-600">
+              {isLoadingBalances ? <Loader2 className="h-5 w-5 animate-spin inline" /> : stats.pending}
+            </div>
+          </div>
+          <div className="bg-white dark:bg-gray-900 rounded-lg border p-4">
+            <div className="text-sm text-gray-500 dark:text-gray-400">Approved Requests</div>
+            <div className="text-2xl font-bold mt-1 text-green-600">
+              {isLoadingBalances ? <Loader2 className="h-5 w-5 animate-spin inline" /> : stats.approved}
+            </div>
+          </div>
+          <div className="bg-white dark:bg-gray-900 rounded-lg border p-4">
+            <div className="text-sm text-gray-500 dark:text-gray-400">Days Taken ({selectedYear})</div>
+            <div className="text-2xl font-bold mt-1 text-blue-600">
+              {isLoadingBalances ? <Loader2 className="h-5 w-5 animate-spin inline" /> : stats.daysTaken}
+            </div>
+          </div>
+        </div>
+
+        {/* Tabs */}
+        <div className="border-b border-gray-200 dark:border-gray-700">
+          <nav className="-mb-px flex gap-6">
+            {(["requests", "balances"] as const).map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`border-b-2 px-1 py-3 text-sm font-medium ${
+                  activeTab === tab
+                    ? "border-sky-500 text-sky-600 dark:text-sky-400"
+                    : "border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+                }`}
+              >
+                {tab === "requests" ? "Requests" : "Balances"}
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        {/* Search and Filters */}
+        <div className="flex items-center gap-4 flex-wrap">
+          {activeTab === "requests" && (
+            <>
+              <div className="relative flex-1 min-w-[200px]">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-500" />
+                <Input
+                  type="search"
+                  placeholder="Search by employee..."
+                  value={searchQuery}
+                  onChange={(e) => {
+                    setSearchQuery(e.target.value);
+                    setCurrentPage(1);
+                  }}
+                  className="pl-9"
+                />
+              </div>
+              <select
+                value={filterStatus}
+                onChange={(e) => {
+                  setFilterStatus(e.target.value);
+                  setCurrentPage(1);
+                }}
+                className="rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm"
+              >
+                <option value="all">All Status</option>
+                <option value="Pending">Pending</option>
+                <option value="Approved">Approved</option>
+                <option value="Rejected">Rejected</option>
+                <option value="Cancelled">Cancelled</option>
+              </select>
+            </>
+          )}
+          <select
+            value={selectedYear}
+            onChange={(e) => {
+              setSelectedYear(parseInt(e.target.value));
+              setCurrentPage(1);
+            }}
+            className="rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm"
+          >
+            {Array.from({ length: 5 }, (_, i) => new Date().getFullYear() - 2 + i).map((year) => (
+              <option key={year} value={year}>
+                {year}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {activeTab === "requests" ? (
+          isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-sky-600" />
+              <span className="ml-2 text-gray-500 dark:text-gray-400">Loading leave requests...</span>
+            </div>
+          ) : requests.length === 0 ? (
+            <div className="text-center py-12 bg-white dark:bg-gray-900 rounded-lg border">
+              <CalendarOff className="h-12 w-12 mx-auto text-gray-400 dark:text-gray-600" />
+              <h3 className="mt-4 text-lg font-medium">No leave requests found</h3>
+              <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                {activeLeaveTypes.length === 0
+                  ? "Set up leave types before recording leave requests"
+                  : filterStatus === "all"
+                  ? `No leave requests in ${selectedYear}`
+                  : `No ${filterStatus.toLowerCase()} leave requests in ${selectedYear}`}
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="bg-white dark:bg-gray-900 rounded-lg border overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-800">
+                  <thead className="bg-gray-50 dark:bg-gray-800/50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                        Employee
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                        Leave Type
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                        Period
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                        Days
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                        Status
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
+                    {requests.map((request) => (
+                      <tr key={request.id} className="hover:bg-gray-50 dark:hover:bg-gray-800/50">
+                        <td className="px-6 py-4">
+                          <div className="font-medium">{request.employee_name}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">{request.employee_code}</div>
+                        </td>
+                        <td className="px-6 py-4">
+                          <div>{request.leave_type_name}</div>
+                          {request.optional_holiday_name && (
+                            <div className="text-xs text-gray-500 dark:text-gray-400">{request.optional_holiday_name}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          <div>{formatLeavePeriod(request)}</div>
+                          {request.reason && (
+                            <div className="max-w-xs truncate text-xs text-gray-500 dark:text-gray-400" title={request.reason}>
+                              {request.reason}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          {formatLeaveDays(parseFloat(request.days) || 0)}
+                          {request.is_half_day && (
+                            <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">(half day)</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          <Badge variant={STATUS_VARIANTS[request.status]}>{request.status}</Badge>
+                          {request.status === "Rejected" && request.rejection_reason && (
+                            <div className="mt-1 text-xs text-red-600 dark:text-red-400">{request.rejection_reason}</div>
+                          )}
+                          {request.status === "Approved" && request.approved_by_username && (
+                            <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                              by {request.approved_by_username}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          {canWrite && (
+                            <div className="flex items-center justify-end gap-2">
+                              {processingId === request.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin text-sky-600" />
+                              ) : (
+                                <>
+                                  {request.status === "Pending" && (
+                                    <>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => handleApprove(request)}
+                                        className="text-green-600"
+                                        title="Approve"
+                                      >
+                                        <Check className="h-4 w-4" />
+                                      </Button>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => handleReject(request)}
+                                        className="text-red-600"
+                                        title="Reject"
+                                      >
+                                        <X className="h-4 w-4" />
+                                      </Button>
+                                    </>
+                                  )}
+                                  {(request.status === "Pending" || request.status === "Approved") && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => handleCancel(request)}
+                                      title="Cancel request"
+                                    >
+                                      <Ban className="h-4 w-4" />
+                                    </Button>
+                                  )}
+                                </>
+                              )}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between px-4 py-3 bg-white dark:bg-gray-900 rounded-lg border">
+                  <div className="text-sm text-gray-500 dark:text-gray-400">
+                    Page {currentPage} of {totalPages}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCurrentPage((prev) => Math.max(1, prev - 1))}
+                      disabled={currentPage === 1 || isLoading}
+                    >
+                      Previous
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCurrentPage((prev) => Math.min(totalPages, prev + 1))}
+                      disabled={currentPage === totalPages || isLoading}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )
+        ) : isLoadingBalances ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-sky-600" />
+            <span className="ml-2 text-gray-500 dark:text-gray-400">Loading balances...</span>
+          </div>
+        ) : activeLeaveTypes.length === 0 || employees.length === 0 ? (
+          <div className="text-center py-12 bg-white dark:bg-gray-900 rounded-lg border">
+            <CalendarOff className="h-12 w-12 mx-auto text-gray-400 dark:text-gray-600" />
+            <h3 className="mt-4 text-lg font-medium">No balances to show</h3>
+            <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+              {activeLeaveTypes.length === 0 ? "Set up leave types to track balances" : "No employees found"}
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white dark:bg-gray-900 rounded-lg border overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-800">
+              <thead className="bg-gray-50 dark:bg-gray-800/50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                    Employee
+                  </th>
+                  {activeLeaveTypes.map((type) => (
+                    <th
+                      key={type.id}
+                      className="px-6 py-3 text-center text-xs font-medium text-gray-500 dark:text-gray-400 uppercase"
+                      title={type.name}
+                    >
+                      {type.code}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
+                {balanceRows.map(({ employee, balances }) => (
+                  <tr key={employee.id} className="hover:bg-gray-50 dark:hover:bg-gray-800/50">
+                    <td className="px-6 py-4">
+                      <div className="font-medium">{employee.full_name || employee.employee_code}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{employee.employee_code}</div>
+                    </td>
+                    {balances.map((balance) => (
+                      <td key={balance.leave_type.id} className="px-6 py-4 text-center">
+                        <div
+                          className={`font-semibold ${
+                            balance.available < 0 ? "text-red-600 dark:text-red-400" : "text-gray-900 dark:text-white"
+                          }`}
+                        >
+                          {balance.available}
+                        </div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {balance.used} / {balance.entitled + balance.carried_forward} used
+                          {balance.pending > 0 && `, ${balance.pending} pending`}
+                        </div>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showRequestModal && (
+        <LeaveRequestModal
+          employees={employees}
+          leaveTypes={activeLeaveTypes}
+          onClose={() => setShowRequestModal(false)}
+          onSaved={() => {
+            setShowRequestModal(false);
+            refresh();
+          }}
+        />
+      )}
+
+      {showTypesModal && (
+        <LeaveTypesModal
+          leaveTypes={leaveTypes}
+          onClose={() => setShowTypesModal(false)}
+          onChanged={() => {
+            fetchLeaveTypes();
+            fetchYearRequests();
+          }}
+        />
+      )}
+    </DashboardLayout>
+  );
+}
+
+export default function LeavePage() {
+  return (
+    <ProtectedRoute>
+      <Suspense fallback={<DashboardLayout title="Leave"><div className="flex items-center justify-center h-64"><Loader2 className="h-8 w-8 animate-spin text-sky-600" /></div></DashboardLayout>}>
+        <LeavePageContent />
+      </Suspense>
+    </ProtectedRoute>
+  );
+}
@@ -78,8 +78,9 @@ const getNotificationIcon = (type: string) => {
 
 function NotificationsPageContent() {
   const searchParams = useSearchParams();
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   const isOwner = user?.is_superuser || false; // Check if user is owner/superuser
+  const canWrite = hasPermission("notifications", "write");
   const [notifications, setNotifications] = useState<NotificationRecord[]>([]);
   const [statistics, setStatistics] = useState<NotificationStatisticsResponse | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
@@ -361,7 +362,7 @@ function NotificationsPageContent() {
           </div>
 
           <div className="flex items-center gap-2">
-            {statistics && statistics.unread_count > 0 && viewMode === "received" && (
+            {canWrite && statistics && statistics.unread_count > 0 && viewMode === "received" && (
               <Button
                 variant="outline"
                 size="sm"
@@ -384,13 +385,15 @@ function NotificationsPageContent() {
                 Delete Selected ({selectedNotifications.length})
               </Button>
             )}
-            <Button
-              onClick={() => setShowCreateModal(true)}
-              size="sm"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Create Notification
-            </Button>
+            {canWrite && (
+              <Button
+                onClick={() => setShowCreateModal(true)}
+                size="sm"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Create Notification
+              </Button>
+            )}
           </div>
         </div>
 
@@ -679,7 +682,7 @@ function NotificationsPageContent() {
 
                         <div className="flex items-center gap-2 flex-shrink-0">
                           {/* Only show mark as read for received notifications */}
-                          {viewMode === "received" && !notification.is_read && (
+                          {canWrite && viewMode === "received" && !notification.is_read && (
                             <Button
                               variant="ghost"
                               size="sm"
@@ -689,7 +692,7 @@ function NotificationsPageContent() {
                               <Check className="h-4 w-4" />
                             </Button>
                           )}
-                          {viewMode === "scheduled" ? (
+                          {!canWrite ? null : viewMode === "scheduled" ? (
                             <Button
                               variant="ghost"
                               size="sm"
@@ -5,15 +5,19 @@ import { useSearchParams } from "next/navigation";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Search, Upload, Download, CheckCircle, X, Calendar, Loader2, Inbox, Trash2, ChevronDown, Eye } from "lucide-react";
+import { Search, Upload, Download, CheckCircle, X, Calendar, Loader2, Inbox, Trash2, ChevronDown, Eye, Landmark } from "lucide-react";
 import { showDeleteConfirm, showSuccess, showError, showAlert, showConfirm } from "@/lib/sweetalert";
 import { format } from "date-fns";
-import * as XLSX from "xlsx";
-import { apiClient, PaymentTrackerStatisticsResponse, BackendPaymentTrackerListItem, PaymentTrackerListResponse, PaymentTrackerUploadResponse } from "@/lib/api";
+import { apiClient, fetchAllPages, PaymentTrackerStatisticsResponse, BackendPaymentTrackerListItem, PaymentTrackerListResponse, PaymentTrackerUploadResponse } from "@/lib/api";
 import { useDebounce } from "use-debounce";
 import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/components/providers/auth-provider";
 import { DatePicker } from "@/components/ui/date-picker";
 import { CustomDropdown } from "@/components/ui/custom-dropdown";
+import { ExportMenu } from "@/components/ui/export-menu";
+import { ExportColumn, ExportFormat, exportRows } from "@/lib/export";
+import { BankPaymentModal } from "@/components/payments/bank-payment-modal";
+import { BulkPaymentItem } from "@/lib/bank-payments";
 
 interface ContractWorkerPayment {
   id: number;
@@ -64,8 +68,24 @@ const months = [
   "July", "August", "September", "October", "November", "December"
 ];
 
+const paymentExportColumns: ExportColumn<ContractWorkerPayment>[] = [
+  { header: "Period", value: (p) => `${p.month} ${p.year}` },
+  { header: "Place of Work", value: (p) => p.placeOfWork },
+  { header: "Worker Name", value: (p) => p.workerName },
+  { header: "Mobile Number", value: (p) => p.mobileNumber },
+  { header: "Net Salary Payable", type: "currency", value: (p) => p.netSalaryPayable },
+  { header: "Bank Name", value: (p) => p.bankName },
+  { header: "Bank Account Number", value: (p) => p.bankAccountNumber },
+  { header: "IFSC Code", value: (p) => p.ifscCode },
+  { header: "Payment Status", value: (p) => p.paymentStatus },
+  { header: "Payment Completion Date", type: "date", value: (p) => p.paymentCompletionDate },
+  { header: "Payment Mode", value: (p) => p.paymentMode },
+];
+
 function PaymentsPageContent() {
   const searchParams = useSearchParams();
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission("payments", "write");
   const currentDate = new Date();
   const currentMonthNum = currentDate.getMonth() + 1;
   const currentYear = currentDate.getFullYear();
@@ -90,6 +110,7 @@ function PaymentsPageContent() {
   const [showPageSizeDropdown, setShowPageSizeDropdown] = useState(false);
   const [showViewModal, setShowViewModal] = useState(false);
   const [viewPayment, setViewPayment] = useState<ContractWorkerPayment | null>(null);
+  const [bankPaymentTab, setBankPaymentTab] = useState<"generate" | "reconcile" | null>(null);
   const [isLoadingView, setIsLoadingView] = useState(false);
 
   const years = useMemo(() => {
@@ -138,22 +159,28 @@ function PaymentsPageContent() {
   /**
    * Fetch payment records from backend
    */
+  const getListParams = useCallback(() => {
+    const params: any = {
+      month: selectedMonth,
+      year: selectedYear,
+    };
+    
+    if (debouncedSearch) {
+      params.search = debouncedSearch;
+    }
+
+    return params;
+  }, [selectedMonth, selectedYear, debouncedSearch]);
+
   const fetchPayments = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     try {
-      const params: any = {
-        month: selectedMonth,
-        year: selectedYear,
+      const response: PaymentTrackerListResponse = await apiClient.getPaymentTrackerRecords({
+        ...getListParams(),
         page: currentPage,
         page_size: pageSize,
-      };
-      
-      if (debouncedSearch) {
-        params.search = debouncedSearch;
-      }
-
-      const response: PaymentTrackerListResponse = await apiClient.getPaymentTrackerRecords(params);
+      });
       const mappedPayments = response.results.map(mapBackendPaymentTrackerToFrontend);
       setPayments(mappedPayments);
       setTotalPages(Math.ceil(response.count / pageSize));
@@ -164,7 +191,7 @@ function PaymentsPageContent() {
     } finally {
       setIsLoading(false);
     }
-  }, [selectedMonth, selectedYear, debouncedSearch, currentPage, pageSize]);
+  }, [getListParams, currentPage, pageSize]);
 
   // Fetch statistics and payments on mount and when filters change
   useEffect(() => {
@@ -243,26 +270,54 @@ function PaymentsPageContent() {
     }
 
     const selectedData = payments.filter(p => selectedPayments.has(p.id));
-    const exportData = selectedData.map(p => ({
-      "Place of Work": p.placeOfWork,
-      "Worker Name": p.workerName,
-      "Mobile Number": p.mobileNumber,
-      "Net Salary Payable": p.netSalaryPayable,
-      "Bank Name": p.bankName,
-      "Bank Account Number": p.bankAccountNumber,
-      "IFSC Code": p.ifscCode,
-      "Payment Status": p.paymentStatus,
-      "Payment Completion Date": p.paymentCompletionDate ? format(new Date(p.paymentCompletionDate), "dd/MM/yyyy") : "-",
-      "Payment Mode": p.paymentMode || "-",
-    }));
-
-    const ws = XLSX.utils.json_to_sheet(exportData);
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, "Payments");
-    XLSX.writeFile(wb, `Contract_Worker_Payments_${months[selectedMonth - 1]}_${selectedYear}.xlsx`);
+    exportRows(selectedData, paymentExportColumns, {
+      fileName: `Contract_Worker_Payments_${months[selectedMonth - 1]}_${selectedYear}`,
+      format: "xlsx",
+      sheetName: "Payments",
+    });
     showSuccess("Exported Successfully", `${selectedPayments.size} payment records exported`);
   };
 
+  // Export every payment record for the selected month and search (all pages)
+  const handleExport = async (exportFormat: ExportFormat) => {
+    const records = await fetchAllPages((page) =>
+      apiClient.getPaymentTrackerRecords({ ...getListParams(), page })
+    );
+    exportRows(records.map(mapBackendPaymentTrackerToFrontend), paymentExportColumns, {
+      fileName: `Contract_Worker_Payments_${months[selectedMonth - 1]}_${selectedYear}`,
+      format: exportFormat,
+      sheetName: "Payments",
+    });
+    return records.length;
+  };
+
+  /**
+   * Selected pending payments with the bank details from the uploaded sheet
+   */
+  const loadSelectedPaymentItems = useCallback(
+    async (): Promise<BulkPaymentItem[]> =>
+      payments
+        .filter((p) => selectedPayments.has(p.id) && p.paymentStatus !== "Paid")
+        .map((p) => ({
+          id: p.id,
+          source: "payment-tracker",
+          beneficiary_name: p.workerName,
+          account_number: p.bankAccountNumber,
+          ifsc_code: p.ifscCode,
+          bank_name: p.bankName,
+          amount: p.netSalaryPayable,
+        })),
+    [payments, selectedPayments]
+  );
+
+  const handleGenerateBankFile = () => {
+    if (!payments.some((p) => selectedPayments.has(p.id) && p.paymentStatus !== "Paid")) {
+      showError("No Pending Payments", "Please select at least one pending payment");
+      return;
+    }
+    setBankPaymentTab("generate");
+  };
+
   const handleBulkMarkPaid = () => {
     if (selectedPayments.size === 0) {
       showError("No Selection", "Please select at least one payment to mark as paid");
@@ -413,10 +468,19 @@ function PaymentsPageContent() {
               </div>
             )}
           </div>
-          <Button onClick={() => setShowUploadModal(true)}>
-            <Upload className="h-4 w-4 mr-2" />
-            Upload Sheet
-          </Button>
+          <ExportMenu onExport={handleExport} />
+          {canWrite && (
+            <Button variant="outline" onClick={() => setBankPaymentTab("reconcile")}>
+              <Landmark className="h-4 w-4 mr-2" />
+              Reconcile Bank File
+            </Button>
+          )}
+          {canWrite && (
+            <Button onClick={() => setShowUploadModal(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Upload Sheet
+            </Button>
+          )}
         </div>
 
         {selectedPayments.size > 0 && (
@@ -430,10 +494,18 @@ function PaymentsPageContent() {
                   <Download className="h-4 w-4 mr-2" />
                   Export Selected
                 </Button>
-                <Button size="sm" onClick={handleBulkMarkPaid}>
-                  <CheckCircle className="h-4 w-4 mr-2" />
-                  Mark as Paid
-                </Button>
+                {canWrite && (
+                  <Button variant="outline" size="sm" onClick={handleGenerateBankFile}>
+                    <Landmark className="h-4 w-4 mr-2" />
+                    Bank File
+                  </Button>
+                )}
+                {canWrite && (
+                  <Button size="sm" onClick={handleBulkMarkPaid}>
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Mark as Paid
+                  </Button>
+                )}
               </div>
             </div>
           </div>
@@ -561,13 +633,15 @@ function PaymentsPageContent() {
                         >
                           <Eye className="h-4 w-4" />
                         </button>
-                        <button
-                          onClick={() => handleDelete(payment)}
-                          className="rounded p-1 text-red-600 hover:bg-red-50 hover:text-red-900 dark:text-red-400 dark:hover:bg-red-900/30"
-                          title="Delete"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
+                        {canWrite && (
+                          <button
+                            onClick={() => handleDelete(payment)}
+                            className="rounded p-1 text-red-600 hover:bg-red-50 hover:text-red-900 dark:text-red-400 dark:hover:bg-red-900/30"
+                            title="Delete"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -647,6 +721,22 @@ function PaymentsPageContent() {
         />
       )}
 
+      {bankPaymentTab && (
+        <BankPaymentModal
+          isOpen={!!bankPaymentTab}
+          initialTab={bankPaymentTab}
+          loadItems={bankPaymentTab === "generate" ? loadSelectedPaymentItems : undefined}
+          remarks={`Wages ${months[selectedMonth - 1].substring(0, 3)} ${selectedYear}`}
+          onClose={() => setBankPaymentTab(null)}
+          onReconciled={() => {
+            setBankPaymentTab(null);
+            setSelectedPayments(new Set());
+            fetchPayments();
+            fetchStatistics();
+          }}
+        />
+      )}
+
       {showViewModal && viewPayment && (
         <ViewPaymentModal
           payment={viewPayment}
@@ -5,7 +5,6 @@ import { useSearchParams } from "next/navigation";
 import {
   IndianRupee,
   Users,
-  Download,
   FileText,
   Check,
   Eye,
@@ -19,17 +18,38 @@ import {
   Inbox,
   Trash2,
   ChevronDown,
+  Calculator,
+  Landmark,
 } from "lucide-react";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { PayrollRecord, PaymentStatus, PaymentMode } from "@/types";
 import { format } from "date-fns";
 import { PayslipModal } from "@/components/payroll/payslip-modal";
 import { MarkPaidModal } from "@/components/payroll/mark-paid-modal";
+import { PayrollDraftModal } from "@/components/payroll/payroll-draft-modal";
+import { BankPaymentModal } from "@/components/payments/bank-payment-modal";
+import { fetchPayrollPaymentItems } from "@/lib/bank-payments";
 import { showSuccess, showError, showDeleteConfirm, showAlert, showConfirm } from "@/lib/sweetalert";
 import { apiClient, PayrollStatisticsResponse, BackendPayrollListItem, PayrollDetail, PayrollCreateData, BackendEmployeeListItem, EmployeeListResponse } from "@/lib/api";
 import { useDebounce } from "use-debounce";
 import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/components/providers/auth-provider";
 import { DatePicker } from "@/components/ui/date-picker";
+import { ExportMenu } from "@/components/ui/export-menu";
+import { ExportColumn, ExportFormat, exportAllPages } from "@/lib/export";
+
+const payrollExportColumns: ExportColumn<BackendPayrollListItem>[] = [
+  { header: "Employee Code", value: (p) => p.employee_code },
+  { header: "Employee", value: (p) => p.employee_name },
+  { header: "Period From", type: "date", value: (p) => p.period_from },
+  { header: "Period To", type: "date", value: (p) => p.period_to },
+  { header: "Working Days", type: "number", value: (p) => p.working_days },
+  { header: "Present", type: "number", value: (p) => p.days_present },
+  { header: "Net Amount", type: "currency", value: (p) => p.net_amount },
+  { header: "Status", value: (p) => p.payroll_status },
+  { header: "Payment Mode", value: (p) => p.payment_mode },
+  { header: "Payment Date", type: "date", value: (p) => p.payment_date },
+];
 
 /**
  * Map backend payroll list item to frontend PayrollRecord type
@@ -76,6 +96,7 @@ function mapBackendPayrollListItemToFrontend(backendPayroll: BackendPayrollListI
  */
 function mapBackendPayrollDetailToFrontend(backendPayroll: PayrollDetail): PayrollRecord {
   const netAmount = parseFloat(backendPayroll.net_amount) || 0;
+  const computation = backendPayroll.computation_details;
   
   return {
     id: backendPayroll.id,
@@ -87,9 +108,10 @@ function mapBackendPayrollDetailToFrontend(backendPayroll: PayrollDetail): Payro
     working_days: backendPayroll.working_days,
     days_present: backendPayroll.days_present,
     days_absent: backendPayroll.working_days - backendPayroll.days_present,
-    base_salary: netAmount,
-    gross_amount: netAmount,
-    deductions: 0,
+    base_salary: computation?.base_salary ?? netAmount,
+    gross_amount: computation?.gross_amount ?? netAmount,
+    deductions: computation?.total_deductions ?? 0,
+    deduction_details: computation?.deductions.map((d) => `${d.name}: ₹${d.amount}`).join(', ') || undefined,
     net_amount: netAmount,
     payment_status: backendPayroll.payroll_status === 'Paid' ? 'Paid' : 'Pending' as PaymentStatus,
     payment_date: backendPayroll.payment_date || undefined,
@@ -98,7 +120,7 @@ function mapBackendPayrollDetailToFrontend(backendPayroll: PayrollDetail): Payro
     notes: backendPayroll.notes || undefined,
     created_at: backendPayroll.created_at,
     updated_at: backendPayroll.updated_at,
-    computation_details: {
+    computation_details: computation || {
       base_salary: netAmount,
       working_days: backendPayroll.working_days,
       days_present: backendPayroll.days_present,
@@ -119,6 +141,8 @@ const months = [
 
 function PayrollPageContent() {
   const searchParams = useSearchParams();
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission("payroll", "write");
   const currentDate = new Date();
   const currentMonthNum = currentDate.getMonth() + 1;
   const currentYear = currentDate.getFullYear();
@@ -137,6 +161,8 @@ function PayrollPageContent() {
   const [showMarkPaidModal, setShowMarkPaidModal] = useState(false);
   const [showBulkMarkPaidModal, setShowBulkMarkPaidModal] = useState(false);
   const [showCreatePayrollModal, setShowCreatePayrollModal] = useState(false);
+  const [showDraftModal, setShowDraftModal] = useState(false);
+  const [bankPaymentTab, setBankPaymentTab] = useState<"generate" | "reconcile" | null>(null);
   const [showEditPayrollSlideOver, setShowEditPayrollSlideOver] = useState(false);
   const [editingPayroll, setEditingPayroll] = useState<PayrollRecord | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -205,6 +231,26 @@ function PayrollPageContent() {
     }
   }, []);
 
+  /**
+   * Build list params from the current filters (shared by fetch and export)
+   */
+  const getListParams = useCallback(() => {
+    const params: any = {
+      month: selectedMonth,
+      year: selectedYear,
+    };
+    
+    if (debouncedSearch) {
+      params.search = debouncedSearch;
+    }
+    
+    if (statusFilter !== "all") {
+      params.payment_status = statusFilter;
+    }
+
+    return params;
+  }, [selectedMonth, selectedYear, debouncedSearch, statusFilter]);
+
   /**
    * Fetch payroll records from backend
    */
@@ -212,21 +258,7 @@ function PayrollPageContent() {
     setIsLoading(true);
     setError(null);
     try {
-      const params: any = {
-        month: selectedMonth,
-        year: selectedYear,
-        page: currentPage,
-      };
-      
-      if (debouncedSearch) {
-        params.search = debouncedSearch;
-      }
-      
-      if (statusFilter !== "all") {
-        params.payment_status = statusFilter;
-      }
-
-      const response = await apiClient.getPayrollRecords(params);
+      const response = await apiClient.getPayrollRecords({ ...getListParams(), page: currentPage });
       const mappedPayroll = response.results.map(mapBackendPayrollListItemToFrontend);
       setPayrollRecords(mappedPayroll);
       setTotalPages(Math.ceil(response.count / 20));
@@ -237,7 +269,7 @@ function PayrollPageContent() {
     } finally {
       setIsLoading(false);
     }
-  }, [selectedMonth, selectedYear, debouncedSearch, statusFilter, currentPage]);
+  }, [getListParams, currentPage]);
 
   // Fetch statistics and employees on mount
   useEffect(() => {
@@ -376,6 +408,26 @@ function PayrollPageContent() {
     }
   };
 
+  /**
+   * Bank details of the selected pending payroll rows for the bulk payment file
+   */
+  const loadSelectedPaymentItems = useCallback(
+    () =>
+      fetchPayrollPaymentItems(
+        payrollRecords.filter((record) => selectedRecords.includes(record.id) && record.payment_status !== "Paid")
+      ),
+    [payrollRecords, selectedRecords]
+  );
+
+  const handleGenerateBankFile = () => {
+    const hasPending = payrollRecords.some((record) => selectedRecords.includes(record.id) && record.payment_status !== "Paid");
+    if (!hasPending) {
+      showError("No Pending Payroll", "Please select at least one pending payroll entry");
+      return;
+    }
+    setBankPaymentTab("generate");
+  };
+
   const handleBulkMarkPaid = () => {
     if (selectedRecords.length === 0) {
       showError("No Selection", "Please select at least one employee to mark as paid");
@@ -384,45 +436,15 @@ function PayrollPageContent() {
     setShowBulkMarkPaidModal(true);
   };
 
-  const handleExportCSV = () => {
-    if (payrollRecords.length === 0) {
-      showError("No Data", "No payroll records to export");
-      return;
-    }
-
-    const escapeCSV = (value: any) => {
-      const str = String(value);
-      if (str.includes(",") || str.includes('"') || str.includes("\n")) {
-        return `"${str.replace(/"/g, '""')}"`;
-      }
-      return str;
-    };
-
-    const headers = ["Period", "Employee", "Working Days", "Present", "Net Amount", "Status", "Payment Mode", "Payment Date"];
-    const rows = payrollRecords.map((record) => [
-      format(new Date(record.period_start), "MMM yyyy"),
-      record.employee_name,
-      record.working_days,
-      record.days_present,
-      record.net_amount,
-      record.payment_status,
-      record.payment_mode || "-",
-      record.payment_date ? format(new Date(record.payment_date), "dd/MM/yyyy") : "-",
-    ]);
-
-    const csvContent = [
-      headers.map(escapeCSV).join(","),
-      ...rows.map((row) => row.map(escapeCSV).join(",")),
-    ].join("\n");
-
-    const blob = new Blob([csvContent], { type: "text/csv" });
-    const url = window.URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `payroll-${months[selectedMonth - 1]}-${selectedYear}.csv`;
-    link.click();
-    window.URL.revokeObjectURL(url);
-  };
+  /**
+   * Export every payroll record for the selected month and filters (all pages)
+   */
+  const handleExport = (exportFormat: ExportFormat) =>
+    exportAllPages((page) => apiClient.getPayrollRecords({ ...getListParams(), page }), payrollExportColumns, {
+      fileName: `payroll-${months[selectedMonth - 1]}-${selectedYear}`,
+      format: exportFormat,
+      sheetName: "Payroll",
+    });
 
   const getStatusColor = (status: PaymentStatus) => {
     switch (status) {
@@ -600,23 +622,37 @@ function PayrollPageContent() {
           </div>
 
           <div className="flex gap-2">
-            <button
-              onClick={handleExportCSV}
-              className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700"
-            >
-              <Download className="h-4 w-4" />
-              Export CSV
-            </button>
-            <button
-              onClick={() => {
-                setEditingPayroll(null);
-                setShowCreatePayrollModal(true);
-              }}
-              className="inline-flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
-            >
-              <Plus className="h-4 w-4" />
-              Add Payroll
-            </button>
+            <ExportMenu onExport={handleExport} />
+            {canWrite && (
+              <button
+                onClick={() => setBankPaymentTab("reconcile")}
+                className="inline-flex items-center gap-2 rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+              >
+                <Landmark className="h-4 w-4" />
+                Reconcile Bank File
+              </button>
+            )}
+            {canWrite && (
+              <button
+                onClick={() => setShowDraftModal(true)}
+                className="inline-flex items-center gap-2 rounded-lg border border-sky-500 px-4 py-2 text-sm font-medium text-sky-600 hover:bg-sky-50 dark:text-sky-400 dark:hover:bg-sky-900/20"
+              >
+                <Calculator className="h-4 w-4" />
+                Generate from Attendance
+              </button>
+            )}
+            {canWrite && (
+              <button
+                onClick={() => {
+                  setEditingPayroll(null);
+                  setShowCreatePayrollModal(true);
+                }}
+                className="inline-flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
+              >
+                <Plus className="h-4 w-4" />
+                Add Payroll
+              </button>
+            )}
           </div>
         </div>
 
@@ -639,13 +675,24 @@ function PayrollPageContent() {
               <p className="text-sm text-blue-900 dark:text-blue-200">
                 {selectedRecords.length} employee{selectedRecords.length > 1 ? "s" : ""} selected
               </p>
-              <button
-                onClick={handleBulkMarkPaid}
-                className="inline-flex items-center gap-2 rounded-lg bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700"
-              >
-                <Check className="h-4 w-4" />
-                Mark as Paid
-              </button>
+              {canWrite && (
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleGenerateBankFile}
+                    className="inline-flex items-center gap-2 rounded-lg border border-sky-500 px-4 py-2 text-sm font-medium text-sky-600 hover:bg-sky-50 dark:text-sky-400 dark:hover:bg-sky-900/20"
+                  >
+                    <Landmark className="h-4 w-4" />
+                    Bank File
+                  </button>
+                  <button
+                    onClick={handleBulkMarkPaid}
+                    className="inline-flex items-center gap-2 rounded-lg bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700"
+                  >
+                    <Check className="h-4 w-4" />
+                    Mark as Paid
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -746,23 +793,25 @@ function PayrollPageContent() {
                         >
                           <Eye className="h-4 w-4" />
                         </button>
-                        <button
-                          onClick={async () => {
-                            try {
-                              const payrollDetail = await apiClient.getPayrollRecord(record.id);
-                              const mappedPayroll = mapBackendPayrollDetailToFrontend(payrollDetail);
-                              setEditingPayroll(mappedPayroll);
-                              setShowEditPayrollSlideOver(true);
-                            } catch (err: any) {
-                              await showAlert("Error", err.message || "Failed to fetch payroll details");
-                            }
-                          }}
-                          className="rounded p-1 text-sky-600 hover:bg-sky-50 hover:text-sky-900 dark:text-sky-400 dark:hover:bg-sky-900/30"
-                          title="Edit Payroll"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </button>
-                        {record.payment_status === "Pending" && (
+                        {canWrite && (
+                          <button
+                            onClick={async () => {
+                              try {
+                                const payrollDetail = await apiClient.getPayrollRecord(record.id);
+                                const mappedPayroll = mapBackendPayrollDetailToFrontend(payrollDetail);
+                                setEditingPayroll(mappedPayroll);
+                                setShowEditPayrollSlideOver(true);
+                              } catch (err: any) {
+                                await showAlert("Error", err.message || "Failed to fetch payroll details");
+                              }
+                            }}
+                            className="rounded p-1 text-sky-600 hover:bg-sky-50 hover:text-sky-900 dark:text-sky-400 dark:hover:bg-sky-900/30"
+                            title="Edit Payroll"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                        )}
+                        {canWrite && record.payment_status === "Pending" && (
                           <button
                             onClick={() => handleMarkPaid(record)}
                             className="rounded p-1 text-green-600 hover:bg-green-50 hover:text-green-900 dark:text-green-400 dark:hover:bg-green-900/30"
@@ -771,13 +820,15 @@ function PayrollPageContent() {
                             <Check className="h-4 w-4" />
                           </button>
                         )}
-                        <button
-                          onClick={() => handleDelete(record)}
-                          className="rounded p-1 text-red-600 hover:bg-red-50 hover:text-red-900 dark:text-red-400 dark:hover:bg-red-900/30"
-                          title="Delete"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
+                        {canWrite && (
+                          <button
+                            onClick={() => handleDelete(record)}
+                            className="rounded p-1 text-red-600 hover:bg-red-50 hover:text-red-900 dark:text-red-400 dark:hover:bg-red-900/30"
+                            title="Delete"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -842,6 +893,38 @@ function PayrollPageContent() {
         onSubmit={handleBulkMarkPaidSubmit}
       />
 
+      {/* Bank Bulk Payment Modal */}
+      {bankPaymentTab && (
+        <BankPaymentModal
+          isOpen={!!bankPaymentTab}
+          initialTab={bankPaymentTab}
+          loadItems={bankPaymentTab === "generate" ? loadSelectedPaymentItems : undefined}
+          remarks={`Salary ${months[selectedMonth - 1].substring(0, 3)} ${selectedYear}`}
+          onClose={() => setBankPaymentTab(null)}
+          onReconciled={() => {
+            setBankPaymentTab(null);
+            setSelectedRecords([]);
+            fetchPayroll();
+            fetchStatistics();
+          }}
+        />
+      )}
+
+      {/* Generate Payroll Draft Modal */}
+      {showDraftModal && (
+        <PayrollDraftModal
+          isOpen={showDraftModal}
+          month={selectedMonth}
+          year={selectedYear}
+          onClose={() => setShowDraftModal(false)}
+          onCreated={() => {
+            setShowDraftModal(false);
+            fetchPayroll();
+            fetchStatistics();
+          }}
+        />
+      )}
+
       {/* Create Payroll Modal */}
       {showCreatePayrollModal && (
         <CreatePayrollModal
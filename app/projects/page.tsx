@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback, Suspense } from "react";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import Image from "next/image";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Button } from "@/components/ui/button";
@@ -36,8 +36,11 @@ import {
 import { showDeleteConfirm, showAlert } from "@/lib/sweetalert";
 import { useDebounce } from "use-debounce";
 import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/components/providers/auth-provider";
 import { format } from "date-fns";
 import { DatePicker } from "@/components/ui/date-picker";
+import { SiteLocationFields, SiteLocationValue } from "@/components/ui/site-location-fields";
+import { validateSiteLocation } from "@/lib/geofence";
 
 type ProjectWithNames = Project & { tender_name?: string };
 
@@ -73,11 +76,17 @@ function mapBackendProjectDetailToFrontend(backendProject: BackendProjectDetail)
     status: backendProject.status,
     created_at: backendProject.created_at,
     updated_at: backendProject.updated_at,
+    site_latitude: backendProject.site_latitude || undefined,
+    site_longitude: backendProject.site_longitude || undefined,
+    site_radius_meters: backendProject.site_radius_meters ?? undefined,
   };
 }
 
 function ProjectsPageContent() {
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission("projects", "write");
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [projects, setProjects] = useState<ProjectWithNames[]>([]);
   const [statistics, setStatistics] = useState<ProjectStatisticsResponse | null>(null);
   const [tenders, setTenders] = useState<BackendTenderListItem[]>([]);
@@ -87,6 +96,12 @@ function ProjectsPageContent() {
 
   const [searchQuery, setSearchQuery] = useState("");
   const [debouncedSearchQuery] = useDebounce(searchQuery, 500);
+
+  // Pre-fill the search from ?search= (links from global search)
+  useEffect(() => {
+    const search = searchParams.get("search");
+    if (search) setSearchQuery(search);
+  }, [searchParams]);
   const [statusFilter, setStatusFilter] = useState<string>("All");
   const [showStatusDropdown, setShowStatusDropdown] = useState(false);
   const [showModal, setShowModal] = useState(false);
@@ -289,6 +304,9 @@ function ProjectsPageContent() {
         start_date: projectData.start_date,
         end_date: projectData.end_date,
         status: projectData.status || "Planned",
+        site_latitude: projectData.site_latitude || null,
+        site_longitude: projectData.site_longitude || null,
+        site_radius_meters: projectData.site_radius_meters ?? null,
       };
 
       if (selectedProject) {
@@ -414,15 +432,17 @@ function ProjectsPageContent() {
               Manage project pipeline and track project status
             </p>
           </div>
-          <Button
-            onClick={() => {
-              setSelectedProject(null);
-              setShowModal(true);
-            }}
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Create Project
-          </Button>
+          {canWrite && (
+            <Button
+              onClick={() => {
+                setSelectedProject(null);
+                setShowModal(true);
+              }}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Create Project
+            </Button>
+          )}
         </div>
 
         {/* Stats Cards */}
@@ -640,16 +660,18 @@ function ProjectsPageContent() {
             <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
               Get started by creating your first project
             </p>
-            <Button
-              onClick={() => {
-            setSelectedProject(null);
-            setShowModal(true);
-              }}
-              className="mt-4"
-            >
-            <Plus className="h-4 w-4 mr-2" />
-            Create Project
-          </Button>
+            {canWrite && (
+              <Button
+                onClick={() => {
+                  setSelectedProject(null);
+                  setShowModal(true);
+                }}
+                className="mt-4"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Create Project
+              </Button>
+            )}
         </div>
         ) : (
         <div className="grid gap-4">
@@ -709,23 +731,27 @@ function ProjectsPageContent() {
                   >
                     <Eye className="h-4 w-4" />
                   </Button>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                        onClick={() => handleEditProject(project)}
-                    title="Edit"
-                  >
-                    <Edit className="h-4 w-4" />
-                  </Button>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleDelete(project.id)}
-                    title="Delete"
-                        className="text-red-600 hover:text-red-700"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  {canWrite && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                          onClick={() => handleEditProject(project)}
+                      title="Edit"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {canWrite && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(project.id)}
+                      title="Delete"
+                          className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
               </div>
             </div>
@@ -776,6 +802,11 @@ function ProjectModal({
   const [status, setStatus] = useState<
     "Planned" | "In Progress" | "On Hold" | "Completed" | "Canceled"
   >(project?.status || "Planned");
+  const [site, setSite] = useState<SiteLocationValue>({
+    latitude: project?.site_latitude || "",
+    longitude: project?.site_longitude || "",
+    radius: project?.site_radius_meters?.toString() || "",
+  });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [tenderSearch, setTenderSearch] = useState("");
   const [showTenderDropdown, setShowTenderDropdown] = useState(false);
@@ -817,6 +848,11 @@ function ProjectModal({
       setStartDate(project.start_date ? format(new Date(project.start_date), "yyyy-MM-dd") : undefined);
       setEndDate(project.end_date ? format(new Date(project.end_date), "yyyy-MM-dd") : undefined);
       setStatus(project.status || "Planned");
+      setSite({
+        latitude: project.site_latitude || "",
+        longitude: project.site_longitude || "",
+        radius: project.site_radius_meters?.toString() || "",
+      });
       // Set tender search to tender name when editing
       const selectedTender = tenders.find(t => t.id === project.tender_id);
       setTenderSearch(selectedTender ? selectedTender.name : "");
@@ -827,6 +863,7 @@ function ProjectModal({
       setStartDate(undefined);
       setEndDate(undefined);
       setStatus("Planned");
+      setSite({ latitude: "", longitude: "", radius: "" });
       setTenderSearch("");
     }
     setErrors({});
@@ -858,6 +895,11 @@ function ProjectModal({
       newErrors.endDate = "End date must be after or equal to start date";
     }
 
+    const siteError = validateSiteLocation(site.latitude, site.longitude, site.radius);
+    if (siteError) {
+      newErrors.site = siteError;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -876,6 +918,9 @@ function ProjectModal({
       start_date: startDate || "",
       end_date: endDate || "",
       status,
+      site_latitude: site.latitude.trim() || undefined,
+      site_longitude: site.longitude.trim() || undefined,
+      site_radius_meters: site.radius.trim() ? Math.round(parseFloat(site.radius)) : undefined,
     };
 
     try {
@@ -889,7 +934,7 @@ function ProjectModal({
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
-      <div className="bg-white dark:bg-gray-900 rounded-lg shadow-xl w-full max-w-lg">
+      <div className="bg-white dark:bg-gray-900 rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between p-6 border-b dark:border-gray-800">
           <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
             {project ? "Edit Project" : "Create Project"}
@@ -1076,6 +1121,13 @@ function ProjectModal({
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
+              Site Location
+            </label>
+            <SiteLocationFields value={site} onChange={setSite} error={errors.site} />
+          </div>
+
           <div className="flex justify-end gap-3 pt-4">
             <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
               Cancel
@@ -1,56 +1,42 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { FileText, Download, BarChart3, TrendingUp, FileSpreadsheet, X } from "lucide-react";
+import { CustomDropdown } from "@/components/ui/custom-dropdown";
+import { DatePicker } from "@/components/ui/date-picker";
+import { FileText, Download, BarChart3, TrendingUp, FileSpreadsheet, X, Loader2, Inbox } from "lucide-react";
 import { showAlert } from "@/lib/sweetalert";
+import { useAuth } from "@/components/providers/auth-provider";
+import { ProtectedRoute } from "@/components/auth/protected-route";
+import { apiClient, fetchAllPages, BackendClientListItem, BackendFirmListItem } from "@/lib/api";
+import {
+  REPORT_DEFINITIONS,
+  REPORT_DATE_RANGE_OPTIONS,
+  ReportDefinition,
+  ReportDateRange,
+  GeneratedReport,
+  generateReport,
+  formatReportValue,
+} from "@/lib/reports";
+import { ExportColumn, ExportFormat, exportRows } from "@/lib/export";
 
-const reportTypes = [
-  {
-    id: "amc-billing",
-    title: "AMC Billing Summary",
-    description: "Overview of AMC billing and outstanding receivables",
-    icon: FileText,
-    color: "text-blue-600",
-  },
-  {
-    id: "payroll",
-    title: "Payroll Summary",
-    description: "Monthly payroll costs and employee payments",
-    icon: BarChart3,
-    color: "text-green-600",
-  },
-  {
-    id: "tasks",
-    title: "Tasks by Employee",
-    description: "Employee productivity and task completion metrics",
-    icon: TrendingUp,
-    color: "text-sky-600",
-  },
-  {
-    id: "tender",
-    title: "Tender Pipeline",
-    description: "Tender status, success rate, and bid analysis",
-    icon: FileSpreadsheet,
-    color: "text-purple-600",
-  },
-  {
-    id: "outstanding",
-    title: "Outstanding Receivables",
-    description: "Pending payments and aging analysis",
-    icon: FileText,
-    color: "text-red-600",
-  },
-];
+const reportStyles: Record<ReportDefinition["type"], { icon: typeof FileText; color: string }> = {
+  "AMC Billing Summary": { icon: FileText, color: "text-blue-600" },
+  "Payroll Summary": { icon: BarChart3, color: "text-green-600" },
+  "Tasks by Employee": { icon: TrendingUp, color: "text-sky-600" },
+  "Tender Pipeline": { icon: FileSpreadsheet, color: "text-purple-600" },
+  "Outstanding Receivables": { icon: FileText, color: "text-red-600" },
+};
 
-export default function ReportsPage() {
+function ReportsPageContent() {
+  const { hasPermission } = useAuth();
   const [showReportModal, setShowReportModal] = useState(false);
-  const [selectedReport, setSelectedReport] = useState<string | null>(null);
+  const [selectedReport, setSelectedReport] = useState<ReportDefinition | null>(null);
 
-  const handleGenerateReport = (reportId: string) => {
-    setSelectedReport(reportId);
+  const handleGenerateReport = (report: ReportDefinition) => {
+    setSelectedReport(report);
     setShowReportModal(true);
   };
 
@@ -65,18 +51,18 @@ export default function ReportsPage() {
         </div>
 
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {reportTypes.map((report) => {
-            const Icon = report.icon;
+          {REPORT_DEFINITIONS.filter((report) => hasPermission(report.module)).map((report) => {
+            const Icon = reportStyles[report.type].icon;
             return (
               <Card
-                key={report.id}
+                key={report.type}
                 className="hover:shadow-lg transition-shadow cursor-pointer"
-                onClick={() => handleGenerateReport(report.id)}
+                onClick={() => handleGenerateReport(report)}
               >
                 <CardHeader>
                   <div className="flex items-center gap-3">
-                    <Icon className={`h-6 w-6 ${report.color}`} />
-                    <CardTitle className="text-lg">{report.title}</CardTitle>
+                    <Icon className={`h-6 w-6 ${reportStyles[report.type].color}`} />
+                    <CardTitle className="text-lg">{report.type}</CardTitle>
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -88,7 +74,7 @@ export default function ReportsPage() {
                     variant="outline"
                     onClick={(e) => {
                       e.stopPropagation();
-                      handleGenerateReport(report.id);
+                      handleGenerateReport(report);
                     }}
                   >
                     Generate Report
@@ -102,7 +88,7 @@ export default function ReportsPage() {
 
       {showReportModal && selectedReport && (
         <ReportModal
-          reportId={selectedReport}
+          report={selectedReport}
           onClose={() => setShowReportModal(false)}
         />
       )}
@@ -110,30 +96,96 @@ export default function ReportsPage() {
   );
 }
 
-function ReportModal({ reportId, onClose }: { reportId: string; onClose: () => void }) {
-  const report = reportTypes.find((r) => r.id === reportId);
-  const [format, setFormat] = useState("pdf");
-  const [dateRange, setDateRange] = useState("this-month");
-
-  const handleExport = async () => {
-    await showAlert(
-      "Report Generated!",
-      `Report: ${report?.title}\nFormat: ${format.toUpperCase()}\nDate Range: ${dateRange}\n\nThis feature will be integrated with backend APIs to generate real reports.`,
-      "success"
-    );
-    onClose();
+export default function ReportsPage() {
+  return (
+    <ProtectedRoute>
+      <ReportsPageContent />
+    </ProtectedRoute>
+  );
+}
+
+function ReportModal({ report, onClose }: { report: ReportDefinition; onClose: () => void }) {
+  const { user } = useAuth();
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("xlsx");
+  const [dateRange, setDateRange] = useState<ReportDateRange>("this-month");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [clientId, setClientId] = useState("");
+  const [firmId, setFirmId] = useState("");
+  const [clients, setClients] = useState<BackendClientListItem[]>([]);
+  const [firms, setFirms] = useState<BackendFirmListItem[]>([]);
+  const [result, setResult] = useState<GeneratedReport | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Load filter options needed by this report
+  useEffect(() => {
+    if (report.filters.includes("client")) {
+      fetchAllPages((page) => apiClient.getClients({ page }))
+        .then(setClients)
+        .catch((err) => console.error("Failed to fetch clients:", err));
+    }
+    if (report.filters.includes("firm")) {
+      fetchAllPages((page) => apiClient.getFirms({ page }))
+        .then(setFirms)
+        .catch((err) => console.error("Failed to fetch firms:", err));
+    }
+  }, [report]);
+
+  const handleGenerate = async () => {
+    if (dateRange === "custom" && (!dateFrom || !dateTo)) {
+      await showAlert("Missing Dates", "Please select both a start and end date for the custom range.", "warning");
+      return;
+    }
+
+    setIsGenerating(true);
+    try {
+      const generated = await generateReport(
+        report.type,
+        {
+          dateRange,
+          dateFrom: dateFrom || undefined,
+          dateTo: dateTo || undefined,
+          clientId: clientId ? parseInt(clientId) : undefined,
+          firmId: firmId ? parseInt(firmId) : undefined,
+        },
+        user?.username || "Unknown"
+      );
+      setResult(generated);
+    } catch (err: any) {
+      console.error("Failed to generate report:", err);
+      await showAlert("Error", err.message || "Failed to generate report.", "error");
+    } finally {
+      setIsGenerating(false);
+    }
   };
 
-  // Empty data - reports will be fetched from backend APIs when implemented
-  const data: any[] = [];
+  const handleExport = () => {
+    if (!result || result.data.length === 0) return;
+
+    const columns: ExportColumn<Record<string, any>>[] = result.columns.map((column) => ({
+      header: column.label,
+      type: column.type === "percent" ? "number" : column.type,
+      value: (row) => row[column.key],
+    }));
+    const totalsRow: Record<string, any> = {};
+    result.columns.forEach((column, index) => {
+      totalsRow[column.key] = index === 0 ? "Total" : result.totals[column.key];
+    });
+
+    exportRows([...result.data, totalsRow], columns, {
+      fileName: `${report.type.replace(/\s+/g, "_")}_${result.period.from}_${result.period.to}`,
+      format: exportFormat,
+      sheetName: report.type,
+    });
+  };
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
-      <div className="bg-white dark:bg-gray-900 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+      <div className="bg-white dark:bg-gray-900 rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
         <div className="flex items-center justify-between p-6 border-b dark:border-gray-800">
           <div>
-            <h2 className="text-xl font-semibold">{report?.title}</h2>
-            <p className="text-sm text-gray-500 mt-1">{report?.description}</p>
+            <h2 className="text-xl font-semibold">{report.type}</h2>
+            <p className="text-sm text-gray-500 mt-1">{report.description}</p>
           </div>
           <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
             <X className="h-5 w-5" />
@@ -145,66 +197,137 @@ function ReportModal({ reportId, onClose }: { reportId: string; onClose: () => v
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium mb-2">Date Range</label>
-                <select
+                <CustomDropdown
                   value={dateRange}
-                  onChange={(e) => setDateRange(e.target.value)}
-                  className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
-                >
-                  <option value="this-month">This Month</option>
-                  <option value="last-month">Last Month</option>
-                  <option value="this-quarter">This Quarter</option>
-                  <option value="last-quarter">Last Quarter</option>
-                  <option value="this-year">This Year</option>
-                  <option value="custom">Custom Range</option>
-                </select>
+                  onChange={(value) => setDateRange(value as ReportDateRange)}
+                  options={REPORT_DATE_RANGE_OPTIONS}
+                />
               </div>
 
               <div>
                 <label className="block text-sm font-medium mb-2">Export Format</label>
-                <select
-                  value={format}
-                  onChange={(e) => setFormat(e.target.value)}
-                  className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
-                >
-                  <option value="pdf">PDF</option>
-                  <option value="csv">CSV</option>
-                  <option value="excel">Excel</option>
-                </select>
+                <CustomDropdown
+                  value={exportFormat}
+                  onChange={(value) => setExportFormat(value as ExportFormat)}
+                  options={[
+                    { value: "xlsx", label: "Excel" },
+                    { value: "csv", label: "CSV" },
+                  ]}
+                />
               </div>
+
+              {dateRange === "custom" && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">From</label>
+                    <DatePicker value={dateFrom} onChange={setDateFrom} maxDate={dateTo || undefined} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">To</label>
+                    <DatePicker value={dateTo} onChange={setDateTo} minDate={dateFrom || undefined} />
+                  </div>
+                </>
+              )}
+
+              {report.filters.includes("client") && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Client</label>
+                  <CustomDropdown
+                    value={clientId}
+                    onChange={setClientId}
+                    options={[
+                      { value: "", label: "All Clients" },
+                      ...clients.map((client) => ({ value: client.id.toString(), label: client.full_name })),
+                    ]}
+                    placeholder="All Clients"
+                  />
+                </div>
+              )}
+
+              {report.filters.includes("firm") && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Firm</label>
+                  <CustomDropdown
+                    value={firmId}
+                    onChange={setFirmId}
+                    options={[
+                      { value: "", label: "All Firms" },
+                      ...firms.map((firm) => ({ value: firm.id.toString(), label: firm.firm_name })),
+                    ]}
+                    placeholder="All Firms"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleGenerate} disabled={isGenerating}>
+                {isGenerating ? <Loader2 className="h-4 w-4 animate-spin" /> : <BarChart3 className="h-4 w-4" />}
+                {isGenerating ? "Generating..." : "Generate"}
+              </Button>
             </div>
 
             <div>
-              <h3 className="font-semibold mb-3">Report Preview</h3>
+              <h3 className="font-semibold mb-3">
+                Report Preview
+                {result && (
+                  <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">{result.name}</span>
+                )}
+              </h3>
               <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 overflow-x-auto">
-                {data.length === 0 ? (
+                {!result ? (
+                  <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+                    <p>Choose the filters above and click Generate to build the report.</p>
+                  </div>
+                ) : result.data.length === 0 ? (
                   <div className="text-center py-8 text-gray-500 dark:text-gray-400">
-                    <p>Report preview will be available once backend integration is complete.</p>
-                    <p className="text-sm mt-2">This feature will fetch real data from the API.</p>
+                    <Inbox className="mx-auto h-10 w-10 mb-2" />
+                    <p>No data found for the selected filters.</p>
                   </div>
                 ) : (
                   <table className="min-w-full text-sm">
                     <thead>
                       <tr className="border-b dark:border-gray-700">
-                        {Object.keys(data[0] || {}).map((key) => (
-                          <th key={key} className="text-left p-2 font-medium capitalize">
-                            {key.replace("_", " ")}
+                        {result.columns.map((column) => (
+                          <th
+                            key={column.key}
+                            className={`p-2 font-medium ${column.type === "text" || column.type === "date" ? "text-left" : "text-right"}`}
+                          >
+                            {column.label}
                           </th>
                         ))}
                       </tr>
                     </thead>
                     <tbody>
-                      {data.map((row: any, idx) => (
+                      {result.data.map((row, idx) => (
                         <tr key={idx} className="border-b dark:border-gray-700">
-                          {Object.values(row).map((value: any, i) => (
-                            <td key={i} className="p-2">
-                              {typeof value === "number" && value > 1000
-                                ? `₹${value.toLocaleString()}`
-                                : value}
+                          {result.columns.map((column) => (
+                            <td
+                              key={column.key}
+                              className={`p-2 ${column.type === "text" || column.type === "date" ? "text-left" : "text-right"}`}
+                            >
+                              {formatReportValue(row[column.key], column.type)}
                             </td>
                           ))}
                         </tr>
                       ))}
                     </tbody>
+                    <tfoot>
+                      <tr className="font-semibold">
+                        {result.columns.map((column, index) => (
+                          <td
+                            key={column.key}
+                            className={`p-2 ${column.type === "text" || column.type === "date" ? "text-left" : "text-right"}`}
+                          >
+                            {index === 0
+                              ? "Total"
+                              : result.totals[column.key] !== undefined
+                                ? formatReportValue(result.totals[column.key], column.type)
+                                : ""}
+                          </td>
+                        ))}
+                      </tr>
+                    </tfoot>
                   </table>
                 )}
               </div>
@@ -216,9 +339,9 @@ function ReportModal({ reportId, onClose }: { reportId: string; onClose: () => v
           <Button variant="outline" onClick={onClose}>
             Cancel
           </Button>
-          <Button onClick={handleExport}>
+          <Button onClick={handleExport} disabled={!result || result.data.length === 0}>
             <Download className="h-4 w-4 mr-2" />
-            Export {format.toUpperCase()}
+            Export {exportFormat === "csv" ? "CSV" : "Excel"}
           </Button>
         </div>
       </div>
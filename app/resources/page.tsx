@@ -12,6 +12,20 @@ import { showDeleteConfirm, showError, showSuccess, showAlert, showConfirm } fro
 import { apiClient, StockStatisticsResponse, BackendStockListItem, StockListResponse, StockDetail, StockCreateData } from "@/lib/api";
 import { useDebounce } from "use-debounce";
 import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/components/providers/auth-provider";
+import { ExportMenu } from "@/components/ui/export-menu";
+import { ExportColumn, ExportFormat, exportAllPages, exportFileName } from "@/lib/export";
+
+const stockExportColumns: ExportColumn<BackendStockListItem>[] = [
+  { header: "Name", value: (s) => s.name },
+  { header: "Unit of Measure", value: (s) => s.unit_of_measure },
+  { header: "Quantity", type: "number", value: (s) => s.quantity },
+  { header: "Unit Price", type: "currency", value: (s) => s.price },
+  { header: "Stock Value", type: "currency", value: (s) => (parseFloat(s.quantity) || 0) * (parseFloat(s.price) || 0) },
+  { header: "Min Threshold", type: "number", value: (s) => s.min_threshold },
+  { header: "Description", value: (s) => s.description },
+  { header: "Last Updated", type: "date", value: (s) => s.updated_at },
+];
 
 /**
  * Map backend stock list item to frontend Resource type
@@ -31,6 +45,8 @@ function mapBackendStockToFrontend(backendStock: BackendStockListItem): Resource
 }
 
 function ResourcesPageContent() {
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission("resources", "write");
   const searchParams = useSearchParams();
   const [resources, setResources] = useState<Resource[]>([]);
   const [statistics, setStatistics] = useState<StockStatisticsResponse | null>(null);
@@ -86,6 +102,16 @@ function ResourcesPageContent() {
     }
   }, [debouncedSearch, currentPage]);
 
+  /**
+   * Export every stock item matching the search (all pages)
+   */
+  const handleExport = (exportFormat: ExportFormat) =>
+    exportAllPages(
+      (page) => apiClient.getStocks({ search: debouncedSearch || undefined, page }),
+      stockExportColumns,
+      { fileName: exportFileName("stock"), format: exportFormat, sheetName: "Stock" }
+    );
+
   // Fetch statistics and resources on mount and when filters change
   useEffect(() => {
     fetchStatistics();
@@ -210,13 +236,18 @@ function ResourcesPageContent() {
               className="pl-9"
             />
           </div>
-          <Button onClick={() => {
-            setSelectedResource(null);
-            setShowModal(true);
-          }}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Resource
-          </Button>
+          <div className="flex items-center gap-2">
+            <ExportMenu onExport={handleExport} />
+            {canWrite && (
+              <Button onClick={() => {
+                setSelectedResource(null);
+                setShowModal(true);
+              }}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Resource
+              </Button>
+            )}
+          </div>
         </div>
 
         <div className="bg-white dark:bg-gray-900 rounded-lg border overflow-hidden">
@@ -308,7 +339,7 @@ function ResourcesPageContent() {
                         </td>
                         <td className="px-6 py-4 text-right">
                           <div className="flex items-center justify-end gap-2">
-                            {resource.stock_count !== undefined && (
+                            {canWrite && resource.stock_count !== undefined && (
                               <Button
                                 variant="ghost"
                                 size="sm"
@@ -322,26 +353,30 @@ function ResourcesPageContent() {
                                 Adjust
                               </Button>
                             )}
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => {
-                                setSelectedResource(resource);
-                                setShowModal(true);
-                              }}
-                              title="Edit"
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleDelete(resource)}
-                              title="Delete"
-                              className="text-red-600"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
+                            {canWrite && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => {
+                                  setSelectedResource(resource);
+                                  setShowModal(true);
+                                }}
+                                title="Edit"
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {canWrite && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(resource)}
+                                title="Delete"
+                                className="text-red-600"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -9,6 +9,7 @@ import { Search, TrendingUp, Package, IndianRupee, AlertCircle, Loader2, Inbox }
 import { apiClient, TaskResourcesStatisticsResponse, BackendTaskResourceListItem, TaskResourcesListResponse, BackendTaskResourceBreakdown } from "@/lib/api";
 import { useDebounce } from "use-debounce";
 import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/components/providers/auth-provider";
 import { showError } from "@/lib/sweetalert";
 
 type TaskResourceSummary = {
@@ -55,6 +56,8 @@ const months = [
 
 function TaskResourcesPageContent() {
   const searchParams = useSearchParams();
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission("task-resources", "write");
   const currentDate = new Date();
   const currentMonthNum = currentDate.getMonth() + 1;
   const currentYear = currentDate.getFullYear();
@@ -175,10 +178,12 @@ function TaskResourcesPageContent() {
             <h2 className="text-2xl font-bold">Task Resource Consumption</h2>
             <p className="text-gray-500 dark:text-gray-400">Track resource usage per task for cost analysis</p>
           </div>
-          <Button onClick={handleGenerateReport} disabled={taskResources.length === 0}>
-            <Package className="h-4 w-4 mr-2" />
-            Resource Report
-          </Button>
+          {canWrite && (
+            <Button onClick={handleGenerateReport} disabled={taskResources.length === 0}>
+              <Package className="h-4 w-4 mr-2" />
+              Resource Report
+            </Button>
+          )}
         </div>
 
         {/* Statistics Tiles */}
@@ -26,10 +26,13 @@ import {
   Loader2,
   Inbox,
   Trash2,
+  List,
+  Columns3,
 } from "lucide-react";
 import { Task, TaskStatus, TaskResource, TaskPriority, TaskAttachment, TaskActivity } from "@/types";
 import { format } from "date-fns";
 import { TaskDetailSlideOver } from "@/components/tasks/task-detail-slide-over";
+import { TaskBoard } from "@/components/tasks/task-board";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { showSuccess, showError, showDeleteConfirm, showAlert, showConfirm } from "@/lib/sweetalert";
 import {
@@ -43,12 +46,15 @@ import {
   BackendProjectListItem,
   BackendClientListItem,
   BackendEmployeeListItem,
+  fetchAllPages,
 } from "@/lib/api";
 import { useDebounce } from "use-debounce";
 import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/components/providers/auth-provider";
 import { DatePicker } from "@/components/ui/date-picker";
 
 type PeriodFilter = "today" | "this_week" | "this_month" | "all";
+type ViewMode = "table" | "board";
 
 /**
  * Map backend task list item to frontend Task type
@@ -177,6 +183,8 @@ function mapBackendTaskActivityToFrontend(backendActivity: BackendTaskActivity,
 }
 
 function TaskHubPageContent() {
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission("tasks", "write");
   const searchParams = useSearchParams();
   const router = useRouter();
   
@@ -193,6 +201,12 @@ function TaskHubPageContent() {
   
   const [searchQuery, setSearchQuery] = useState("");
   const [debouncedSearchQuery] = useDebounce(searchQuery, 500);
+
+  // Pre-fill the search from ?search= (links from global search)
+  useEffect(() => {
+    const search = searchParams.get("search");
+    if (search) setSearchQuery(search);
+  }, [searchParams]);
   const [statusFilter, setStatusFilter] = useState<TaskStatus | "all">("all");
   const [approvalStatusFilter, setApprovalStatusFilter] = useState<'pending' | 'approved' | 'rejected' | "all">("all");
   const [projectFilter, setProjectFilter] = useState<string>("all");
@@ -209,6 +223,9 @@ function TaskHubPageContent() {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
+  const [viewMode, setViewMode] = useState<ViewMode>("table");
+  const [boardTasks, setBoardTasks] = useState<Task[]>([]);
+  const [isBoardLoading, setIsBoardLoading] = useState(false);
 
   // Fetch statistics
   const fetchStatistics = useCallback(async () => {
@@ -352,6 +369,40 @@ function TaskHubPageContent() {
     }
   }, [currentPage, debouncedSearchQuery, projectFilter, statusFilter, approvalStatusFilter, periodFilter, projects]); // Include projects array for project filter lookup
 
+  // Fetch every task for the board (columns replace the status filters; project/period/search still apply)
+  const fetchBoardTasks = useCallback(async () => {
+    setIsBoardLoading(true);
+    try {
+      const project = projectFilter !== "all" ? projects.find((p) => p.name === projectFilter) : undefined;
+      const results = await fetchAllPages((page) =>
+        apiClient.getTasks({
+          page,
+          search: debouncedSearchQuery || undefined,
+          project: project?.id,
+          date_filter: periodFilter,
+        })
+      );
+      setBoardTasks(results.map(mapBackendTaskListItemToFrontend));
+    } catch (err: any) {
+      console.error("[Tasks Page] Failed to fetch board tasks:", err);
+      showAlert("Error", err.message || "Failed to load the task board.", "error");
+    } finally {
+      setIsBoardLoading(false);
+    }
+  }, [debouncedSearchQuery, projectFilter, periodFilter, projects]);
+
+  useEffect(() => {
+    if (viewMode === "board") {
+      fetchBoardTasks();
+    }
+  }, [viewMode, fetchBoardTasks]);
+
+  // Refresh the table, and the board when it is showing
+  const refreshTasks = useCallback(async () => {
+    await fetchTasks();
+    if (viewMode === "board") await fetchBoardTasks();
+  }, [viewMode, fetchTasks, fetchBoardTasks]);
+
   // Close filter dropdowns when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -522,7 +573,7 @@ function TaskHubPageContent() {
       }
 
       // Refresh tasks and resources
-      await fetchTasks();
+      await refreshTasks();
       await fetchStatistics();
       
       showSuccess("Task updated successfully!");
@@ -539,7 +590,7 @@ function TaskHubPageContent() {
     try {
       await apiClient.approveTask(task.id);
       showSuccess("Task approved successfully!");
-      await fetchTasks();
+      await refreshTasks();
       await fetchStatistics();
       closeTaskDetail();
     } catch (err: any) {
@@ -552,7 +603,7 @@ function TaskHubPageContent() {
     try {
       await apiClient.rejectTask(task.id, reason);
       showSuccess("Task rejected successfully!");
-      await fetchTasks();
+      await refreshTasks();
       await fetchStatistics();
       closeTaskDetail();
     } catch (err: any) {
@@ -561,6 +612,32 @@ function TaskHubPageContent() {
     }
   };
 
+  /**
+   * Move a task between board columns
+   * Approve/reject go through their own endpoints; moving back into the workflow resets approval
+   */
+  const handleMoveTask = async (task: Task, to: TaskStatus, reason?: string) => {
+    try {
+      if (to === "Approved") {
+        await apiClient.approveTask(task.id);
+      } else if (to === "Rejected") {
+        await apiClient.rejectTask(task.id, reason);
+      } else {
+        const status = to === "Open" ? "Draft" : to === "In Progress" ? "In Progress" : "Completed";
+        await apiClient.updateTask(task.id, {
+          status,
+          ...(task.approval_status && task.approval_status !== "pending" ? { approval_status: "pending" as const } : {}),
+        });
+      }
+    } catch (err: any) {
+      console.error("Failed to move task:", err);
+      showAlert("Update Failed", err.message || "An error occurred while updating the task.", "error");
+    } finally {
+      await refreshTasks();
+      await fetchStatistics();
+    }
+  };
+
   const handleBulkApprove = async () => {
     if (selectedTasks.length === 0) {
       showAlert("No Selection", "Please select at least one task to approve.", "info");
@@ -636,7 +713,7 @@ function TaskHubPageContent() {
       try {
         await apiClient.deleteTask(taskId);
         showSuccess("Task deleted successfully!");
-        await fetchTasks();
+        await refreshTasks();
         await fetchStatistics();
       } catch (err: any) {
         console.error("Failed to delete task:", err);
@@ -680,6 +757,16 @@ function TaskHubPageContent() {
     return tasks.filter(t => t.approval_status === 'pending').length;
   }, [statistics, tasks]);
 
+  // Column counts on the board; statistics only cover the period, so other filters fall back to card counts
+  const boardColumnCounts = useMemo((): Partial<Record<TaskStatus, number>> => {
+    if (!statistics || debouncedSearchQuery || projectFilter !== "all") return {};
+    return {
+      "In Progress": statistics.in_progress,
+      Completed: statistics.pending_approval,
+      Approved: statistics.approved_tasks,
+    };
+  }, [statistics, debouncedSearchQuery, projectFilter]);
+
   const toggleTaskExpand = (taskId: number) => {
     setExpandedTaskId(expandedTaskId === taskId ? null : taskId);
   };
@@ -835,13 +922,15 @@ function TaskHubPageContent() {
             <Download className="h-4 w-4" />
             Export
           </button>
-          <button
-            onClick={() => setShowCreateModal(true)}
-            className="inline-flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
-          >
-            <Plus className="h-4 w-4" />
-            Create Task
-          </button>
+          {canWrite && (
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="inline-flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
+            >
+              <Plus className="h-4 w-4" />
+              Create Task
+            </button>
+          )}
         </div>
 
         {/* Period Controls */}
@@ -997,7 +1086,7 @@ function TaskHubPageContent() {
               </div>
             )}
           </div>
-          <div className="relative status-filter-dropdown-container">
+          <div className={`relative status-filter-dropdown-container ${viewMode === "board" ? "hidden" : ""}`}>
             <button
               type="button"
               onClick={() => setShowStatusDropdown(!showStatusDropdown)}
@@ -1063,7 +1152,7 @@ function TaskHubPageContent() {
               </div>
             )}
           </div>
-          <div className="relative approval-status-filter-dropdown-container">
+          <div className={`relative approval-status-filter-dropdown-container ${viewMode === "board" ? "hidden" : ""}`}>
             <button
               type="button"
               onClick={() => setShowApprovalStatusDropdown(!showApprovalStatusDropdown)}
@@ -1119,36 +1208,66 @@ function TaskHubPageContent() {
               </div>
             )}
           </div>
+          <div className="flex overflow-hidden rounded-lg border border-gray-300 dark:border-gray-600">
+            <button
+              onClick={() => setViewMode("table")}
+              title="Table view"
+              className={`border-r border-gray-300 p-2 transition-colors dark:border-gray-600 ${
+                viewMode === "table"
+                  ? "bg-sky-500 text-white"
+                  : "bg-white text-gray-600 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700"
+              }`}
+            >
+              <List className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setViewMode("board")}
+              title="Board view"
+              className={`p-2 transition-colors ${
+                viewMode === "board"
+                  ? "bg-sky-500 text-white"
+                  : "bg-white text-gray-600 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700"
+              }`}
+            >
+              <Columns3 className="h-4 w-4" />
+            </button>
+          </div>
         </div>
 
         {/* Bulk Actions Bar */}
-        {selectedTasks.length > 0 && (
+        {viewMode === "table" && selectedTasks.length > 0 && (
           <div className="sticky top-0 z-10 flex items-center justify-between rounded-lg border border-sky-300 bg-sky-50 p-4 dark:border-sky-700 dark:bg-sky-900/20">
             <p className="text-sm font-medium text-sky-900 dark:text-sky-300">
               {selectedTasks.length} task{selectedTasks.length > 1 ? "s" : ""} selected
             </p>
             <div className="flex gap-2">
-              <button
-                onClick={handleBulkAssign}
-                className="inline-flex items-center gap-2 rounded-lg border border-sky-300 bg-white px-3 py-1.5 text-sm font-medium text-sky-700 hover:bg-sky-50 dark:border-sky-600 dark:bg-gray-800 dark:text-sky-400 dark:hover:bg-gray-700"
-              >
-                <UserPlus className="h-4 w-4" />
-                Assign
-              </button>
-              <button
-                onClick={handleBulkApprove}
-                className="inline-flex items-center gap-2 rounded-lg bg-sky-500 px-3 py-1.5 text-sm font-medium text-white hover:bg-sky-600"
-              >
-                <Check className="h-4 w-4" />
-                Mark Approved
-              </button>
-              <button
-                onClick={handleBulkDelete}
-                className="inline-flex items-center gap-2 rounded-lg bg-red-500 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-600"
-              >
-                <Trash2 className="h-4 w-4" />
-                Delete
-              </button>
+              {canWrite && (
+                <button
+                  onClick={handleBulkAssign}
+                  className="inline-flex items-center gap-2 rounded-lg border border-sky-300 bg-white px-3 py-1.5 text-sm font-medium text-sky-700 hover:bg-sky-50 dark:border-sky-600 dark:bg-gray-800 dark:text-sky-400 dark:hover:bg-gray-700"
+                >
+                  <UserPlus className="h-4 w-4" />
+                  Assign
+                </button>
+              )}
+              {canWrite && (
+                <button
+                  onClick={handleBulkApprove}
+                  className="inline-flex items-center gap-2 rounded-lg bg-sky-500 px-3 py-1.5 text-sm font-medium text-white hover:bg-sky-600"
+                >
+                  <Check className="h-4 w-4" />
+                  Mark Approved
+                </button>
+              )}
+              {canWrite && (
+                <button
+                  onClick={handleBulkDelete}
+                  className="inline-flex items-center gap-2 rounded-lg bg-red-500 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-600"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Delete
+                </button>
+              )}
               <button
                 onClick={() => setSelectedTasks([])}
                 className="text-sm text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200"
@@ -1159,8 +1278,17 @@ function TaskHubPageContent() {
           </div>
         )}
 
-        {/* Task Table */}
-        {tasks.length === 0 ? (
+        {/* Task Board / Table */}
+        {viewMode === "board" ? (
+          <TaskBoard
+            tasks={boardTasks}
+            columnCounts={boardColumnCounts}
+            canWrite={canWrite}
+            isLoading={isBoardLoading}
+            onOpenTask={openTaskDetail}
+            onMoveTask={handleMoveTask}
+          />
+        ) : tasks.length === 0 ? (
           <div className="rounded-lg border-2 border-dashed border-gray-300 p-12 text-center dark:border-gray-700">
             <Inbox className="mx-auto h-12 w-12 text-gray-400 dark:text-gray-600" />
             <h3 className="mt-4 text-lg font-medium text-gray-900 dark:text-white">
@@ -1169,13 +1297,15 @@ function TaskHubPageContent() {
             <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
               Get started by creating your first task
             </p>
-            <button
-              onClick={() => setShowCreateModal(true)}
-              className="mt-4 inline-flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
-            >
-              <Plus className="h-4 w-4" />
-              Create Task
-            </button>
+            {canWrite && (
+              <button
+                onClick={() => setShowCreateModal(true)}
+                className="mt-4 inline-flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
+              >
+                <Plus className="h-4 w-4" />
+                Create Task
+              </button>
+            )}
           </div>
         ) : (
           <div className="overflow-hidden rounded-lg bg-white shadow dark:bg-gray-800">
@@ -1331,23 +1461,27 @@ function TaskHubPageContent() {
                           >
                             <Eye className="h-4 w-4" />
                           </button>
-                          <button
-                            onClick={() => {
-                              setIsEditMode(true);
-                              openTaskDetail(task);
-                            }}
-                            className="rounded p-1 text-gray-600 hover:bg-gray-100 hover:text-gray-900 dark:text-gray-400 dark:hover:bg-gray-600 dark:hover:text-white"
-                            title="Edit Task"
-                          >
-                            <Edit className="h-4 w-4" />
-                          </button>
-                          <button
-                            onClick={() => handleDeleteTask(task.id)}
-                            className="rounded p-1 text-red-600 hover:bg-red-50 hover:text-red-700 dark:text-red-400 dark:hover:bg-red-900/20"
-                            title="Delete"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </button>
+                          {canWrite && (
+                            <button
+                              onClick={() => {
+                                setIsEditMode(true);
+                                openTaskDetail(task);
+                              }}
+                              className="rounded p-1 text-gray-600 hover:bg-gray-100 hover:text-gray-900 dark:text-gray-400 dark:hover:bg-gray-600 dark:hover:text-white"
+                              title="Edit Task"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </button>
+                          )}
+                          {canWrite && (
+                            <button
+                              onClick={() => handleDeleteTask(task.id)}
+                              className="rounded p-1 text-red-600 hover:bg-red-50 hover:text-red-700 dark:text-red-400 dark:hover:bg-red-900/20"
+                              title="Delete"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -1416,7 +1550,7 @@ function TaskHubPageContent() {
               // Refresh tasks and statistics
               // Note: The task will appear in the list based on the current period filter
               // If the task deadline is not in the current period, it may not appear until the filter is changed
-              await Promise.all([fetchTasks(), fetchStatistics()]);
+              await Promise.all([refreshTasks(), fetchStatistics()]);
             } catch (err: any) {
               console.error("Failed to create task:", err);
               showAlert("Create Failed", err.message || "An error occurred during task creation.", "error");
@@ -1454,6 +1588,8 @@ function TaskViewModal({
   task: Task;
   onClose: () => void;
 }) {
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission("tasks", "write");
   const [taskDetail, setTaskDetail] = useState<BackendTaskDetail | null>(null);
   const [attachments, setAttachments] = useState<TaskAttachment[]>([]);
   const [resources, setResources] = useState<TaskResource[]>([]);
@@ -1606,7 +1742,7 @@ function TaskViewModal({
               <button
                 type="button"
                 onClick={() => setShowApprovalDropdown(!showApprovalDropdown)}
-                disabled={isSaving}
+                disabled={isSaving || !canWrite}
                 className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm text-left text-gray-900 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white flex items-center justify-between"
               >
                 <span className="capitalize">{currentApprovalStatus}</span>
@@ -19,6 +19,7 @@ import {
   Download,
   Trash2,
   Loader2,
+  Mail,
 } from "lucide-react";
 import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
@@ -33,7 +34,9 @@ import {
 import { CheckCircle } from "lucide-react";
 import { showDeleteConfirm, showAlert, showConfirm } from "@/lib/sweetalert";
 import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/components/providers/auth-provider";
 import { format } from "date-fns";
+import { ClientSendMailModal } from "@/components/clients/client-send-mail-modal";
 
 /**
  * Map backend tender detail to frontend Tender type
@@ -84,6 +87,8 @@ function mapBackendTenderDetailToFinancials(backendTender: BackendTenderDetail):
 }
 
 function TenderDetailPageContent() {
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission("tenders", "write");
   const params = useParams();
   const router = useRouter();
   const tenderId = parseInt(params.id as string, 10);
@@ -98,6 +103,7 @@ function TenderDetailPageContent() {
   const [isUploading, setIsUploading] = useState(false);
   const [backendTenderDetail, setBackendTenderDetail] = useState<BackendTenderDetail | null>(null);
   const [isMarkingEMD, setIsMarkingEMD] = useState(false);
+  const [mailRecipient, setMailRecipient] = useState<{ name: string; email: string } | null>(null);
 
   const [expandedSections, setExpandedSections] = useState({
     financials: true,
@@ -185,6 +191,26 @@ function TenderDetailPageContent() {
     fileInput.click();
   };
 
+  // Tender emails go to the firm the tender was filed under
+  const handleSendEmail = async () => {
+    if (!backendTenderDetail?.firm) {
+      showAlert("No Firm", "Link a firm to this tender to email it.", "warning");
+      return;
+    }
+    try {
+      const firm = await apiClient.getFirm(backendTenderDetail.firm);
+      const email = firm.official_email || firm.firm_owner_email;
+      if (!email) {
+        showAlert("No Email Address", `${firm.firm_name} has no email address.`, "warning");
+        return;
+      }
+      setMailRecipient({ name: firm.firm_name, email });
+    } catch (err: any) {
+      console.error("Failed to load firm:", err);
+      showAlert("Error", err.message || "Failed to load the firm.", "error");
+    }
+  };
+
   const toggleSection = (section: keyof typeof expandedSections) => {
     setExpandedSections((prev) => ({
       ...prev,
@@ -351,14 +377,23 @@ function TenderDetailPageContent() {
                 </div>
               </div>
 
-              {/* Edit Button */}
-              <div className="mt-6">
+              {/* Actions */}
+              <div className="mt-6 flex gap-3">
+                {canWrite && (
+                  <button
+                    onClick={() => router.push(`/tenders?edit=${tender.id}`)}
+                    className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700"
+                  >
+                    <Edit className="h-4 w-4" />
+                    Edit Tender
+                  </button>
+                )}
                 <button
-                  onClick={() => router.push(`/tenders?edit=${tender.id}`)}
+                  onClick={handleSendEmail}
                   className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700"
                 >
-                  <Edit className="h-4 w-4" />
-                  Edit Tender
+                  <Mail className="h-4 w-4" />
+                  Send Email
                 </button>
               </div>
             </div>
@@ -494,7 +529,7 @@ function TenderDetailPageContent() {
                 )}
 
                 {/* Mark EMD Collected Button */}
-                {tender && 
+                {canWrite && tender &&
                  (tender.status === "Lost" || tender.status === "Closed") && 
                  !backendTenderDetail?.emd_collected && (
                   <div className="mt-4 flex justify-end">
@@ -635,25 +670,27 @@ function TenderDetailPageContent() {
           </button>
           {expandedSections.documents && (
             <div className="border-t border-gray-200 p-6 dark:border-gray-700">
-              <div className="mb-4">
-                <button
-                  onClick={handleAttachDocument}
-                  disabled={isUploading}
-                  className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed dark:border-gray-600 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700"
-                >
-                  {isUploading ? (
-                    <>
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                      Uploading...
-                    </>
-                  ) : (
-                    <>
-                      <Plus className="h-4 w-4" />
-                      Attach Documents
-                    </>
-                  )}
-                </button>
-              </div>
+              {canWrite && (
+                <div className="mb-4">
+                  <button
+                    onClick={handleAttachDocument}
+                    disabled={isUploading}
+                    className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed dark:border-gray-600 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700"
+                  >
+                    {isUploading ? (
+                      <>
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Uploading...
+                      </>
+                    ) : (
+                      <>
+                        <Plus className="h-4 w-4" />
+                        Attach Documents
+                      </>
+                    )}
+                  </button>
+                </div>
+              )}
               <div className="space-y-3">
                 {documents.length === 0 ? (
                   <div className="rounded-lg border-2 border-dashed border-gray-300 p-8 text-center dark:border-gray-700">
@@ -688,13 +725,15 @@ function TenderDetailPageContent() {
                         >
                           <Download className="h-4 w-4" />
                         </button>
-                        <button
-                          onClick={() => handleDeleteDocument(doc.id)}
-                          className="rounded p-1 text-red-600 hover:bg-red-50 hover:text-red-900 dark:text-red-400 dark:hover:bg-red-900/30 dark:hover:text-red-300"
-                          title="Delete document"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
+                        {canWrite && (
+                          <button
+                            onClick={() => handleDeleteDocument(doc.id)}
+                            className="rounded p-1 text-red-600 hover:bg-red-50 hover:text-red-900 dark:text-red-400 dark:hover:bg-red-900/30 dark:hover:text-red-300"
+                            title="Delete document"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
                       </div>
                     </div>
                   ))
@@ -760,6 +799,14 @@ function TenderDetailPageContent() {
           )}
         </div>
       </div>
+
+      <ClientSendMailModal
+        isOpen={!!mailRecipient}
+        onClose={() => setMailRecipient(null)}
+        client={null}
+        recipient={mailRecipient || undefined}
+        context={{ tenderId }}
+      />
     </DashboardLayout>
   );
 }
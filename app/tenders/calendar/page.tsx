@@ -0,0 +1,425 @@
+"use client";
+
+import { useState, useEffect, useMemo, useCallback, Suspense } from "react";
+import Link from "next/link";
+import {
+  ChevronLeft,
+  ChevronRight,
+  AlertCircle,
+  IndianRupee,
+  Clock,
+  Lock,
+  Loader2,
+  Inbox,
+  CheckCircle,
+  ArrowLeft,
+} from "lucide-react";
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/components/providers/auth-provider";
+import { apiClient } from "@/lib/api";
+import {
+  FirmDepositSummary,
+  TenderCalendarEvent,
+  TenderEventStatus,
+  TenderEventType,
+  fetchTenderCalendarData,
+} from "@/lib/tender-calendar";
+import { showAlert, showConfirm } from "@/lib/sweetalert";
+
+const EVENT_TYPE_LABELS: Record<TenderEventType, string> = {
+  submission: "Submission",
+  "emd-refund": "EMD Refund",
+  "sd-refund": "SD Refund",
+  dd: "Demand Draft",
+};
+
+const EVENT_TYPE_STYLES: Record<TenderEventType, string> = {
+  submission: "bg-sky-100 text-sky-800 dark:bg-sky-900/30 dark:text-sky-300",
+  "emd-refund": "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300",
+  "sd-refund": "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300",
+  dd: "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300",
+};
+
+const STATUS_STYLES: Record<TenderEventStatus, string> = {
+  overdue: "bg-red-100 text-red-800 ring-1 ring-red-400 dark:bg-red-900/40 dark:text-red-300 dark:ring-red-700",
+  "due-soon": "",
+  upcoming: "",
+  done: "opacity-60 line-through",
+};
+
+function formatINR(amount: number): string {
+  return `₹${amount.toLocaleString("en-IN", { maximumFractionDigits: 0 })}`;
+}
+
+function TenderCalendarPageContent() {
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission("tenders", "write");
+
+  const [events, setEvents] = useState<TenderCalendarEvent[]>([]);
+  const [firms, setFirms] = useState<FirmDepositSummary[]>([]);
+  const [currentMonth, setCurrentMonth] = useState(startOfMonth(new Date()));
+  const [typeFilter, setTypeFilter] = useState<TenderEventType | "all">("all");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch tenders with deposits and build the calendar
+   */
+  const fetchCalendar = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await fetchTenderCalendarData();
+      setEvents(data.events);
+      setFirms(data.firms);
+    } catch (err: any) {
+      console.error("Error fetching tender calendar:", err);
+      setError(err.message || "Failed to load tender calendar");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCalendar();
+  }, [fetchCalendar]);
+
+  const filteredEvents = useMemo(
+    () => (typeFilter === "all" ? events : events.filter((event) => event.type === typeFilter)),
+    [events, typeFilter]
+  );
+
+  const calendarDays = useMemo(
+    () =>
+      eachDayOfInterval({
+        start: startOfWeek(startOfMonth(currentMonth)),
+        end: endOfWeek(endOfMonth(currentMonth)),
+      }),
+    [currentMonth]
+  );
+
+  const eventsByDate = useMemo(() => {
+    const map = new Map<string, TenderCalendarEvent[]>();
+    filteredEvents.forEach((event) => {
+      map.set(event.date, [...(map.get(event.date) || []), event]);
+    });
+    return map;
+  }, [filteredEvents]);
+
+  const overdueEvents = events.filter((event) => event.status === "overdue");
+  const dueSoonEvents = events.filter((event) => event.status === "due-soon");
+  const totalLocked = firms.reduce((sum, firm) => sum + firm.total_locked, 0);
+  const totalOverdue = firms.reduce((sum, firm) => sum + firm.overdue_amount, 0);
+
+  const handleMarkEMDCollected = async (event: TenderCalendarEvent) => {
+    const confirmed = await showConfirm(
+      "Mark EMD as Collected",
+      `Are you sure you want to mark EMD as collected for tender "${event.tender_name}"?`,
+      "question"
+    );
+    if (!confirmed) return;
+
+    try {
+      await apiClient.markTenderEMDCollected(event.tender_id);
+      showAlert("Success", "EMD marked as collected successfully!", "success");
+      fetchCalendar();
+    } catch (err: any) {
+      console.error("Failed to mark EMD as collected:", err);
+      showAlert("Error", err.message || "Failed to mark EMD as collected.", "error");
+    }
+  };
+
+  return (
+    <DashboardLayout title="Tender Calendar" breadcrumbs={["Home", "Tenders", "Calendar"]}>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <Link
+              href="/tenders"
+              className="mb-2 inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Tenders
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Tender Calendar</h1>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Submission deadlines, EMD and security deposit refunds, and demand drafts across all tenders
+            </p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <Loader2 className="h-8 w-8 animate-spin text-sky-600" />
+          </div>
+        ) : error ? (
+          <div className="flex items-center gap-2 rounded-lg bg-red-50 p-4 text-sm text-red-700 dark:bg-red-900/20 dark:text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        ) : (
+          <>
+            {/* Stats Cards */}
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <div className="rounded-lg bg-white p-6 shadow dark:bg-gray-800">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Locked in Deposits</p>
+                    <p className="mt-2 text-3xl font-bold text-gray-900 dark:text-white">{formatINR(totalLocked)}</p>
+                  </div>
+                  <Lock className="h-8 w-8 text-sky-500" />
+                </div>
+              </div>
+              <div className="rounded-lg bg-white p-6 shadow dark:bg-gray-800">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Overdue Refunds</p>
+                    <p className="mt-2 text-3xl font-bold text-red-600 dark:text-red-400">{formatINR(totalOverdue)}</p>
+                  </div>
+                  <AlertCircle className="h-8 w-8 text-red-500" />
+                </div>
+              </div>
+              <div className="rounded-lg bg-white p-6 shadow dark:bg-gray-800">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Overdue Items</p>
+                    <p className="mt-2 text-3xl font-bold text-gray-900 dark:text-white">{overdueEvents.length}</p>
+                  </div>
+                  <Clock className="h-8 w-8 text-amber-500" />
+                </div>
+              </div>
+              <div className="rounded-lg bg-white p-6 shadow dark:bg-gray-800">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Due This Week</p>
+                    <p className="mt-2 text-3xl font-bold text-gray-900 dark:text-white">{dueSoonEvents.length}</p>
+                  </div>
+                  <IndianRupee className="h-8 w-8 text-green-500" />
+                </div>
+              </div>
+            </div>
+
+            {/* Overdue refunds */}
+            {overdueEvents.length > 0 && (
+              <div className="rounded-lg border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-900/20">
+                <h2 className="mb-3 text-sm font-semibold uppercase tracking-wider text-red-800 dark:text-red-300">
+                  Overdue
+                </h2>
+                <ul className="divide-y divide-red-200 dark:divide-red-800">
+                  {overdueEvents.map((event) => (
+                    <li key={event.key} className="flex items-center justify-between py-2">
+                      <div className="text-sm">
+                        <Link href={`/tenders/${event.tender_id}`} className="font-medium text-gray-900 hover:underline dark:text-white">
+                          {event.tender_name}
+                        </Link>
+                        <span className="ml-2 text-gray-500 dark:text-gray-400">
+                          {event.reference_number} · {event.firm_name}
+                        </span>
+                        <div className="text-red-700 dark:text-red-400">
+                          {event.label} since {format(parseISO(event.date), "dd MMM yyyy")}
+                          {event.amount ? ` · ${formatINR(event.amount)}` : ""}
+                        </div>
+                      </div>
+                      {canWrite && event.type === "emd-refund" && (
+                        <button
+                          onClick={() => handleMarkEMDCollected(event)}
+                          className="inline-flex items-center gap-1 rounded-md bg-green-100 px-3 py-1 text-xs font-medium text-green-700 hover:bg-green-200 dark:bg-green-900/30 dark:text-green-400 dark:hover:bg-green-900/50"
+                        >
+                          <CheckCircle className="h-3 w-3" />
+                          Mark Collected
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Calendar */}
+            <div className="rounded-lg bg-white p-6 shadow dark:bg-gray-800">
+              <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setCurrentMonth((prev) => addMonths(prev, -1))}
+                    className="rounded-lg p-2 text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700"
+                  >
+                    <ChevronLeft className="h-5 w-5" />
+                  </button>
+                  <h2 className="w-40 text-center text-lg font-semibold text-gray-900 dark:text-white">
+                    {format(currentMonth, "MMMM yyyy")}
+                  </h2>
+                  <button
+                    onClick={() => setCurrentMonth((prev) => addMonths(prev, 1))}
+                    className="rounded-lg p-2 text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700"
+                  >
+                    <ChevronRight className="h-5 w-5" />
+                  </button>
+                  <button
+                    onClick={() => setCurrentMonth(startOfMonth(new Date()))}
+                    className="rounded-lg border border-gray-300 px-3 py-1 text-sm text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+                  >
+                    Today
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {(["all", "submission", "emd-refund", "sd-refund", "dd"] as const).map((type) => (
+                    <button
+                      key={type}
+                      onClick={() => setTypeFilter(type)}
+                      className={`rounded-full px-3 py-1 text-xs font-medium ${
+                        typeFilter === type
+                          ? "bg-sky-600 text-white"
+                          : type === "all"
+                          ? "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+                          : EVENT_TYPE_STYLES[type]
+                      }`}
+                    >
+                      {type === "all" ? "All" : EVENT_TYPE_LABELS[type]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-7 gap-2">
+                {["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map((day) => (
+                  <div key={day} className="p-2 text-center text-sm font-medium text-gray-500 dark:text-gray-400">
+                    {day}
+                  </div>
+                ))}
+                {calendarDays.map((day) => {
+                  const dayEvents = eventsByDate.get(format(day, "yyyy-MM-dd")) || [];
+                  return (
+                    <div
+                      key={day.toISOString()}
+                      className={`min-h-[100px] rounded-lg border p-2 dark:border-gray-700 ${
+                        isSameMonth(day, currentMonth) ? "" : "bg-gray-50 dark:bg-gray-900/50"
+                      }`}
+                    >
+                      <div
+                        className={`mb-1 text-sm font-medium ${
+                          isToday(day)
+                            ? "inline-flex h-6 w-6 items-center justify-center rounded-full bg-sky-600 text-white"
+                            : isSameMonth(day, currentMonth)
+                            ? "text-gray-900 dark:text-gray-200"
+                            : "text-gray-400 dark:text-gray-600"
+                        }`}
+                      >
+                        {format(day, "d")}
+                      </div>
+                      <div className="space-y-1">
+                        {dayEvents.map((event) => (
+                          <Link
+                            key={event.key}
+                            href={`/tenders/${event.tender_id}`}
+                            title={`${event.tender_name} (${event.reference_number}) · ${event.firm_name}${
+                              event.amount ? ` · ${formatINR(event.amount)}` : ""
+                            }`}
+                            className={`block truncate rounded px-1.5 py-0.5 text-xs ${
+                              event.status === "overdue" ? STATUS_STYLES.overdue : `${EVENT_TYPE_STYLES[event.type]} ${STATUS_STYLES[event.status]}`
+                            }`}
+                          >
+                            {event.label}: {event.tender_name}
+                          </Link>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Locked deposits per firm */}
+            <div className="overflow-hidden rounded-lg bg-white shadow dark:bg-gray-800">
+              <div className="border-b border-gray-200 px-6 py-4 dark:border-gray-700">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Deposits Locked per Firm</h2>
+              </div>
+              {firms.length === 0 ? (
+                <div className="py-12 text-center">
+                  <Inbox className="mx-auto h-12 w-12 text-gray-400" />
+                  <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">No money is locked in deposits</p>
+                </div>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-900">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        Firm
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        Tenders
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        EMD Locked
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        Security Deposits
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        Total Locked
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        Overdue
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {firms.map((firm) => (
+                      <tr key={firm.firm_id ?? "none"} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                        <td className="px-6 py-4 text-sm font-medium text-gray-900 dark:text-white">{firm.firm_name}</td>
+                        <td className="px-6 py-4 text-right text-sm text-gray-600 dark:text-gray-400">{firm.tender_count}</td>
+                        <td className="px-6 py-4 text-right text-sm text-gray-900 dark:text-white">{formatINR(firm.emd_locked)}</td>
+                        <td className="px-6 py-4 text-right text-sm text-gray-900 dark:text-white">{formatINR(firm.sd_locked)}</td>
+                        <td className="px-6 py-4 text-right text-sm font-semibold text-gray-900 dark:text-white">
+                          {formatINR(firm.total_locked)}
+                        </td>
+                        <td
+                          className={`px-6 py-4 text-right text-sm font-medium ${
+                            firm.overdue_amount > 0 ? "text-red-600 dark:text-red-400" : "text-gray-400"
+                          }`}
+                        >
+                          {firm.overdue_amount > 0 ? formatINR(firm.overdue_amount) : "-"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
+
+export default function TenderCalendarPage() {
+  return (
+    <ProtectedRoute>
+      <Suspense
+        fallback={
+          <DashboardLayout title="Tender Calendar">
+            <div className="flex items-center justify-center min-h-screen">
+              <div className="text-gray-500">Loading...</div>
+            </div>
+          </DashboardLayout>
+        }
+      >
+        <TenderCalendarPageContent />
+      </Suspense>
+    </ProtectedRoute>
+  );
+}
@@ -33,7 +33,27 @@ import {
 import { showDeleteConfirm, showConfirm, showAlert } from "@/lib/sweetalert";
 import { useDebounce } from "use-debounce";
 import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/components/providers/auth-provider";
 import { format } from "date-fns";
+import { ExportMenu } from "@/components/ui/export-menu";
+import { ExportColumn, ExportFormat, exportAllPages, exportFileName } from "@/lib/export";
+
+const tenderExportColumns: ExportColumn<BackendTenderListItem>[] = [
+  { header: "Reference Number", value: (t) => t.reference_number },
+  { header: "Name", value: (t) => t.name },
+  { header: "Firm", value: (t) => t.firm_name },
+  { header: "Status", value: (t) => t.status },
+  { header: "Filed Date", type: "date", value: (t) => t.filed_date },
+  { header: "Start Date", type: "date", value: (t) => t.start_date },
+  { header: "End Date", type: "date", value: (t) => t.end_date },
+  { header: "Estimated Value", type: "currency", value: (t) => t.estimated_value },
+  { header: "Total EMD", type: "currency", value: (t) => t.total_emd_cost },
+  { header: "Pending EMD", type: "currency", value: (t) => t.pending_emd_amount },
+  { header: "EMD Collected", value: (t) => (t.emd_collected ? "Yes" : "No") },
+  { header: "EMD Collected Date", type: "date", value: (t) => t.emd_collected_date },
+  { header: "Security Deposit 1", type: "currency", value: (t) => t.security_deposit_1 },
+  { header: "Security Deposit 2", type: "currency", value: (t) => t.security_deposit_2 },
+];
 
 /**
  * Map backend tender list item to frontend Tender type
@@ -106,6 +126,8 @@ function mapBackendTenderDetailToFinancials(backendTender: BackendTenderDetail):
 }
 
 function TendersPageContent() {
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission("tenders", "write");
   const searchParams = useSearchParams();
   const router = useRouter();
   const [tenders, setTenders] = useState<Tender[]>([]);
@@ -152,27 +174,32 @@ function TendersPageContent() {
     }
   }, []);
 
+  // Build list params from the current filters (shared by fetch and export)
+  const getListParams = useCallback(() => {
+    const params: {
+      search?: string;
+      status?: "Draft" | "Filed" | "Awarded" | "Lost" | "Closed";
+      pending_emds?: boolean;
+      firm?: number;
+      page?: number;
+    } = {};
+
+    if (debouncedSearchQuery) params.search = debouncedSearchQuery;
+    if (statusFilter !== "All") {
+      params.status = statusFilter as "Draft" | "Filed" | "Awarded" | "Lost" | "Closed";
+    }
+    if (emdFilter) params.pending_emds = true;
+    if (firmFilter) params.firm = parseInt(firmFilter, 10);
+
+    return params;
+  }, [debouncedSearchQuery, statusFilter, emdFilter, firmFilter]);
+
   // Fetch tenders
   const fetchTenders = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     try {
-      const params: {
-        search?: string;
-        status?: "Draft" | "Filed" | "Awarded" | "Lost" | "Closed";
-        pending_emds?: boolean;
-        firm?: number;
-        page?: number;
-      } = { page: currentPage };
-
-      if (debouncedSearchQuery) params.search = debouncedSearchQuery;
-      if (statusFilter !== "All") {
-        params.status = statusFilter as "Draft" | "Filed" | "Awarded" | "Lost" | "Closed";
-      }
-      if (emdFilter) params.pending_emds = true;
-      if (firmFilter) params.firm = parseInt(firmFilter, 10);
-
-      const response = await apiClient.getTenders(params);
+      const response = await apiClient.getTenders({ ...getListParams(), page: currentPage });
       setBackendTenders(response.results); // Store backend data with emd_collected status
       setTenders(response.results.map(mapBackendTenderListItemToFrontend));
       setTotalPages(Math.ceil(response.count / 20)); // Assuming 20 items per page
@@ -182,7 +209,15 @@ function TendersPageContent() {
     } finally {
       setIsLoading(false);
     }
-  }, [currentPage, debouncedSearchQuery, statusFilter, emdFilter, firmFilter]);
+  }, [currentPage, getListParams]);
+
+  // Export every tender matching the current filters (all pages)
+  const handleExport = (exportFormat: ExportFormat) =>
+    exportAllPages((page) => apiClient.getTenders({ ...getListParams(), page }), tenderExportColumns, {
+      fileName: exportFileName("tenders"),
+      format: exportFormat,
+      sheetName: "Tenders",
+    });
 
   useEffect(() => {
     fetchStatistics();
@@ -476,13 +511,25 @@ function TendersPageContent() {
               Manage tender pipeline, EMD, security deposits, and documents
             </p>
           </div>
-          <button
-            onClick={handleNewTender}
-            className="inline-flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
-          >
-            <Plus className="h-4 w-4" />
-            New Tender
-          </button>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/tenders/calendar"
+              className="inline-flex items-center gap-2 rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+            >
+              <Calendar className="h-4 w-4" />
+              Deposit Calendar
+            </Link>
+            <ExportMenu onExport={handleExport} />
+            {canWrite && (
+              <button
+                onClick={handleNewTender}
+                className="inline-flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
+              >
+                <Plus className="h-4 w-4" />
+                New Tender
+              </button>
+            )}
+          </div>
         </div>
 
         {/* Stats Cards */}
@@ -853,6 +900,7 @@ function TendersPageContent() {
                             {(tender.status === "Closed" || tender.status === "Lost") && (() => {
                               const backendTender = backendTenders.find((bt) => bt.id === tender.id);
                               const isEMDCollected = backendTender?.emd_collected || false;
+                              if (!isEMDCollected && !canWrite) return null;
                               return !isEMDCollected ? (
                                 <button
                                   onClick={() => handleMarkEMDCollected(tender.id)}
@@ -875,20 +923,24 @@ function TendersPageContent() {
                             >
                               <Eye className="h-4 w-4" />
                             </Link>
-                            <button
-                              onClick={() => handleEditTender(tender)}
-                              className="rounded p-1 text-gray-600 hover:bg-gray-100 hover:text-gray-900 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-white"
-                              title="Edit Tender"
-                            >
-                              <Edit className="h-4 w-4" />
-                            </button>
-                            <button
-                              onClick={() => handleDeleteTender(tender)}
-                              className="rounded p-1 text-gray-600 hover:bg-gray-100 hover:text-red-600 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-red-400"
-                              title="Delete Tender"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </button>
+                            {canWrite && (
+                              <button
+                                onClick={() => handleEditTender(tender)}
+                                className="rounded p-1 text-gray-600 hover:bg-gray-100 hover:text-gray-900 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-white"
+                                title="Edit Tender"
+                              >
+                                <Edit className="h-4 w-4" />
+                              </button>
+                            )}
+                            {canWrite && (
+                              <button
+                                onClick={() => handleDeleteTender(tender)}
+                                className="rounded p-1 text-gray-600 hover:bg-gray-100 hover:text-red-600 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-red-400"
+                                title="Delete Tender"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -980,13 +1032,15 @@ function TendersPageContent() {
                               View
                             </button>
                           </Link>
-                          <button
-                            onClick={() => handleEditTender(tender)}
-                            className="flex-1 rounded bg-gray-50 px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100 dark:bg-gray-700 dark:text-gray-400 dark:hover:bg-gray-600"
-                            title="Edit"
-                          >
-                            Edit
-                          </button>
+                          {canWrite && (
+                            <button
+                              onClick={() => handleEditTender(tender)}
+                              className="flex-1 rounded bg-gray-50 px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100 dark:bg-gray-700 dark:text-gray-400 dark:hover:bg-gray-600"
+                              title="Edit"
+                            >
+                              Edit
+                            </button>
+                          )}
                         </div>
                       </div>
                     );
@@ -1013,13 +1067,15 @@ function TendersPageContent() {
             <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
               Get started by creating your first tender
             </p>
-            <button
-              onClick={handleNewTender}
-              className="mt-4 inline-flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
-            >
-              <Plus className="h-4 w-4" />
-              New Tender
-            </button>
+            {canWrite && (
+              <button
+                onClick={handleNewTender}
+                className="mt-4 inline-flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
+              >
+                <Plus className="h-4 w-4" />
+                New Tender
+              </button>
+            )}
           </div>
         )}
 
@@ -0,0 +1,363 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { X, Loader2, Mail, RefreshCw, CheckCircle, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { AMC, Client } from '@/types';
+import { apiClient } from '@/lib/api';
+import { DatePicker } from '@/components/ui/date-picker';
+import { ClientSendMailModal } from '@/components/clients/client-send-mail-modal';
+import { mapBackendClientDetailToFrontend } from '@/lib/clients';
+import {
+  RenewalProposal,
+  RenewalQuote,
+  acceptRenewal,
+  applyEscalation,
+  discardRenewalQuote,
+  fetchAMCRenewalSettings,
+  loadRenewalQuotes,
+  getRenewalPlaceholderValues,
+  proposeRenewal,
+  saveDefaultEscalation,
+  saveRenewalQuote,
+} from '@/lib/amc-renewal';
+import { showAlert, showConfirm } from '@/lib/sweetalert';
+
+interface AMCRenewalModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  amc: AMC | null;
+  onRenewed: () => void; // Called after the successor AMC is created or the quote changes
+}
+
+export function AMCRenewalModal({ isOpen, onClose, amc, onRenewed }: AMCRenewalModalProps) {
+  const [proposal, setProposal] = useState<RenewalProposal | null>(null);
+  const [quote, setQuote] = useState<RenewalQuote | null>(null);
+  const [defaultEscalation, setDefaultEscalation] = useState(0);
+  const [saveAsDefault, setSaveAsDefault] = useState(false);
+  const [client, setClient] = useState<Client | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [sendMailOpen, setSendMailOpen] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !amc) {
+      setProposal(null);
+      setQuote(null);
+      setClient(null);
+      setSaveAsDefault(false);
+      return;
+    }
+
+    setIsLoading(true);
+    Promise.all([
+      fetchAMCRenewalSettings(),
+      loadRenewalQuotes().catch(() => ({} as Record<string, RenewalQuote>)),
+      apiClient.getClient(amc.client_id).catch(() => null),
+    ])
+      .then(([settings, quotes, clientDetail]) => {
+        const savedQuote = quotes[String(amc.id)] || null;
+        setQuote(savedQuote);
+        setDefaultEscalation(settings.defaultEscalationPercent);
+        setProposal(savedQuote || proposeRenewal(amc, settings.defaultEscalationPercent));
+        setClient(clientDetail ? mapBackendClientDetailToFrontend(clientDetail) : null);
+      })
+      .finally(() => setIsLoading(false));
+  }, [isOpen, amc]);
+
+  const placeholderDefaults = useMemo(
+    () => (amc && proposal ? getRenewalPlaceholderValues(amc, proposal) : undefined),
+    [amc, proposal]
+  );
+
+  if (!isOpen || !amc) return null;
+
+  const handleEscalationChange = (value: string) => {
+    if (!proposal) return;
+    const percent = parseFloat(value);
+    setProposal({
+      ...proposal,
+      escalation_percent: isNaN(percent) ? 0 : percent,
+      amount: applyEscalation(amc.amount, isNaN(percent) ? 0 : percent),
+    });
+  };
+
+  const validate = (): boolean => {
+    if (!proposal?.amc_number.trim()) {
+      showAlert('Error', 'AMC number is required for the renewal.', 'error');
+      return false;
+    }
+    if (!proposal.start_date || !proposal.end_date || proposal.end_date <= proposal.start_date) {
+      showAlert('Error', 'The renewal end date must be after its start date.', 'error');
+      return false;
+    }
+    return true;
+  };
+
+  const persistDefaultEscalation = async () => {
+    if (saveAsDefault && proposal && proposal.escalation_percent !== defaultEscalation) {
+      await saveDefaultEscalation(proposal.escalation_percent);
+    }
+  };
+
+  const handleQuoteSent = async () => {
+    if (!proposal) return;
+    const newQuote: RenewalQuote = {
+      ...proposal,
+      amc_id: amc.id,
+      quoted_at: new Date().toISOString(),
+      quoted_to: client?.primary_contact_email || '',
+    };
+    try {
+      await saveRenewalQuote(newQuote);
+      await persistDefaultEscalation();
+      setQuote(newQuote);
+      onRenewed();
+    } catch (err: any) {
+      console.error('Failed to save renewal quote:', err);
+      showAlert('Error', err.message || 'The quote was sent but could not be saved.', 'error');
+    }
+  };
+
+  const handleDiscardQuote = async () => {
+    const confirmed = await showConfirm('Discard Quote?', 'The client has not accepted this renewal quote.', 'Discard', 'Keep');
+    if (!confirmed) return;
+    setIsSaving(true);
+    try {
+      await discardRenewalQuote(amc.id);
+      setQuote(null);
+      setProposal(proposeRenewal(amc, defaultEscalation));
+      onRenewed();
+    } catch (err: any) {
+      console.error('Failed to discard renewal quote:', err);
+      showAlert('Error', err.message || 'Failed to discard the quote.', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    if (!proposal || !validate()) return;
+    const confirmed = await showConfirm(
+      'Renew AMC?',
+      `${proposal.amc_number} will be created for ₹${proposal.amount.toLocaleString('en-IN')} and ${amc.amc_number} will be marked Expired.`,
+      'Renew',
+      'Cancel'
+    );
+    if (!confirmed) return;
+
+    setIsSaving(true);
+    try {
+      const successor = await acceptRenewal(amc, proposal);
+      await persistDefaultEscalation();
+      showAlert('Success', `AMC renewed as ${successor.amc_number}.`, 'success');
+      onRenewed();
+      onClose();
+    } catch (err: any) {
+      console.error('Failed to renew AMC:', err);
+      showAlert('Error', err.message || 'Failed to renew AMC.', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500 disabled:bg-gray-50 disabled:text-gray-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white dark:disabled:bg-gray-800';
+  const isLocked = !!quote; // A quoted proposal is what the client agreed to; discard it to change terms
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-hidden">
+      <div className="absolute inset-0 bg-gray-500 bg-opacity-75 transition-opacity dark:bg-gray-900 dark:bg-opacity-75" onClick={onClose} />
+
+      <div className="fixed inset-y-0 right-0 flex max-w-full pl-10">
+        <div className="w-screen max-w-2xl">
+          <div className="flex h-full flex-col bg-white shadow-xl dark:bg-gray-800">
+            {/* Header */}
+            <div className="border-b border-gray-200 px-6 py-4 dark:border-gray-700">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Renew {amc.amc_number}</h2>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">{amc.client_name}</p>
+                </div>
+                <button
+                  onClick={onClose}
+                  className="rounded-lg p-2 text-gray-400 hover:bg-gray-100 hover:text-gray-500 dark:hover:bg-gray-700 dark:hover:text-gray-300"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+            </div>
+
+            {/* Content */}
+            <div className="flex-1 overflow-y-auto px-6 py-6">
+              {isLoading || !proposal ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-sky-500" />
+                  <p className="ml-3 text-gray-500">Preparing renewal...</p>
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  {/* Current contract */}
+                  <div className="rounded-lg bg-gray-50 p-4 dark:bg-gray-900">
+                    <h3 className="mb-2 text-sm font-semibold text-gray-900 dark:text-white">Current Contract</h3>
+                    <div className="grid grid-cols-3 gap-4 text-sm">
+                      <div>
+                        <p className="text-gray-500 dark:text-gray-400">Period</p>
+                        <p className="text-gray-900 dark:text-white">
+                          {format(parseISO(amc.start_date), 'dd MMM yyyy')} – {format(parseISO(amc.end_date), 'dd MMM yyyy')}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500 dark:text-gray-400">Billing Cycle</p>
+                        <p className="text-gray-900 dark:text-white">{amc.billing_cycle}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500 dark:text-gray-400">Amount</p>
+                        <p className="text-gray-900 dark:text-white">₹{amc.amount.toLocaleString('en-IN')}</p>
+                      </div>
+                    </div>
+                  </div>
+
+                  {quote && (
+                    <div className="flex items-start justify-between gap-4 rounded-lg border border-sky-200 bg-sky-50 p-4 text-sm dark:border-sky-800 dark:bg-sky-900/20">
+                      <p className="text-sky-800 dark:text-sky-300">
+                        Quote sent {quote.quoted_to ? `to ${quote.quoted_to} ` : ''}on{' '}
+                        {format(parseISO(quote.quoted_at), 'dd MMM yyyy')}. Renew once the client accepts it.
+                      </p>
+                      <button
+                        onClick={handleDiscardQuote}
+                        disabled={isSaving}
+                        className="inline-flex flex-shrink-0 items-center gap-1 text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50 dark:text-red-400"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        Discard
+                      </button>
+                    </div>
+                  )}
+
+                  {/* Successor contract */}
+                  <div>
+                    <h3 className="mb-4 text-sm font-semibold text-gray-900 dark:text-white">Renewal Contract</h3>
+                    <div className="space-y-4">
+                      <div>
+                        <label className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                          AMC Number <span className="text-red-500">*</span>
+                        </label>
+                        <input
+                          type="text"
+                          value={proposal.amc_number}
+                          onChange={(e) => setProposal({ ...proposal, amc_number: e.target.value })}
+                          disabled={isLocked}
+                          className={inputClass}
+                        />
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                            Start Date <span className="text-red-500">*</span>
+                          </label>
+                          <DatePicker
+                            value={proposal.start_date}
+                            onChange={(value) => setProposal({ ...proposal, start_date: value || '' })}
+                            disabled={isLocked}
+                          />
+                        </div>
+                        <div>
+                          <label className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                            End Date <span className="text-red-500">*</span>
+                          </label>
+                          <DatePicker
+                            value={proposal.end_date}
+                            onChange={(value) => setProposal({ ...proposal, end_date: value || '' })}
+                            minDate={proposal.start_date || undefined}
+                            disabled={isLocked}
+                          />
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-3 gap-4">
+                        <div>
+                          <label className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300">Escalation (%)</label>
+                          <input
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            value={proposal.escalation_percent}
+                            onChange={(e) => handleEscalationChange(e.target.value)}
+                            disabled={isLocked}
+                            className={inputClass}
+                          />
+                        </div>
+                        <div>
+                          <label className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300">New Amount</label>
+                          <p className="py-2 text-sm font-semibold text-gray-900 dark:text-white">
+                            ₹{proposal.amount.toLocaleString('en-IN')}
+                          </p>
+                        </div>
+                        <div>
+                          <label className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300">Billing Cycle</label>
+                          <p className="py-2 text-sm text-gray-900 dark:text-white">{proposal.billing_cycle}</p>
+                        </div>
+                      </div>
+                      {!isLocked && proposal.escalation_percent !== defaultEscalation && (
+                        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={saveAsDefault}
+                            onChange={(e) => setSaveAsDefault(e.target.checked)}
+                            className="rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+                          />
+                          Use {proposal.escalation_percent}% as the default escalation (currently {defaultEscalation}%)
+                        </label>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Footer */}
+            <div className="border-t border-gray-200 px-6 py-4 dark:border-gray-700">
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                >
+                  Cancel
+                </button>
+                {!quote && (
+                  <button
+                    onClick={() => validate() && setSendMailOpen(true)}
+                    disabled={isLoading || isSaving || !client}
+                    title={client ? undefined : 'Client details could not be loaded'}
+                    className="inline-flex items-center gap-2 rounded-lg border border-sky-500 px-4 py-2 text-sm font-medium text-sky-600 hover:bg-sky-50 disabled:cursor-not-allowed disabled:opacity-50 dark:text-sky-400 dark:hover:bg-sky-900/20"
+                  >
+                    <Mail className="h-4 w-4" />
+                    Send Quote
+                  </button>
+                )}
+                <button
+                  onClick={handleAccept}
+                  disabled={isLoading || isSaving || !proposal}
+                  className="inline-flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : quote ? <CheckCircle className="h-4 w-4" /> : <RefreshCw className="h-4 w-4" />}
+                  {quote ? 'Quote Accepted – Renew' : 'Renew Now'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <ClientSendMailModal
+        isOpen={sendMailOpen}
+        onClose={() => setSendMailOpen(false)}
+        client={client}
+        context={{ amcId: amc.id }}
+        placeholderDefaults={placeholderDefaults}
+        onSent={handleQuoteSent}
+      />
+    </div>
+  );
+}
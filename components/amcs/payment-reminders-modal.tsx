@@ -0,0 +1,312 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { X, Loader2, Send, Save, Inbox, AlertCircle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { apiClient, fetchAllPages, BackendAMCBilling, BackendAMCListItem, BackendEmailTemplateListItem } from '@/lib/api';
+import { fetchAMCsWithBillings } from '@/lib/reports';
+import {
+  PaymentReminderConfig,
+  REMINDER_STAGES,
+  ReminderStage,
+  findDueReminders,
+  getStageOffsets,
+  loadSentReminderStages,
+  resolvePaymentReminderConfig,
+  sendReminders,
+} from '@/lib/payment-reminders';
+import { CustomDropdown } from '@/components/ui/custom-dropdown';
+import { showAlert, showConfirm } from '@/lib/sweetalert';
+
+interface PaymentRemindersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function PaymentRemindersModal({ isOpen, onClose }: PaymentRemindersModalProps) {
+  const [config, setConfig] = useState<PaymentReminderConfig>(resolvePaymentReminderConfig());
+  const [reminderDaysBefore, setReminderDaysBefore] = useState(0);
+  const [templates, setTemplates] = useState<BackendEmailTemplateListItem[]>([]);
+  const [amcs, setAmcs] = useState<{ amc: BackendAMCListItem; billings: BackendAMCBilling[] }[]>([]);
+  const [sentStages, setSentStages] = useState<Map<number, Set<ReminderStage>>>(new Map());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [sendProgress, setSendProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadData = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [settings, templateList, amcList, sent] = await Promise.all([
+        apiClient.getSystemSettings(),
+        fetchAllPages((page) => apiClient.getEmailTemplates({ page })),
+        fetchAMCsWithBillings(),
+        loadSentReminderStages(),
+      ]);
+      setConfig(resolvePaymentReminderConfig(settings.payment_reminder_config));
+      setReminderDaysBefore(settings.reminder_days_before);
+      setTemplates(templateList);
+      setAmcs(amcList);
+      setSentStages(sent);
+    } catch (err: any) {
+      console.error('Failed to load payment reminders:', err);
+      setError(err.message || 'Failed to load payment reminders.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) loadData();
+  }, [isOpen]);
+
+  // Recomputed as the configuration is edited, so the list previews the unsaved settings
+  const dueReminders = useMemo(
+    () => findDueReminders(amcs, sentStages, config, reminderDaysBefore),
+    [amcs, sentStages, config, reminderDaysBefore]
+  );
+
+  if (!isOpen) return null;
+
+  const offsets = getStageOffsets(reminderDaysBefore);
+  const templateOptions = [
+    { value: '', label: "Don't send" },
+    ...templates.map((template) => ({ value: template.id.toString(), label: template.name })),
+  ];
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await apiClient.updateSystemSettings({ payment_reminder_config: config });
+      showAlert('Success', 'Reminder settings saved.', 'success');
+    } catch (err: any) {
+      console.error('Failed to save reminder settings:', err);
+      showAlert('Error', err.message || 'Failed to save reminder settings.', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSend = async () => {
+    const confirmed = await showConfirm(
+      'Send Reminders?',
+      `${dueReminders.length} payment ${dueReminders.length === 1 ? 'reminder' : 'reminders'} will be emailed to clients.`,
+      'Send',
+      'Cancel'
+    );
+    if (!confirmed) return;
+
+    setSendProgress(0);
+    try {
+      const result = await sendReminders(dueReminders, setSendProgress);
+      if (result.failed.length > 0) {
+        showAlert(
+          'Reminders Sent',
+          `${result.sent} sent. Not sent: ${result.failed.join('; ')}`,
+          result.sent > 0 ? 'warning' : 'error'
+        );
+      } else {
+        showAlert('Success', `${result.sent} ${result.sent === 1 ? 'reminder' : 'reminders'} sent.`, 'success');
+      }
+      setSentStages(await loadSentReminderStages());
+    } catch (err: any) {
+      console.error('Failed to send reminders:', err);
+      showAlert('Error', err.message || 'Failed to send reminders.', 'error');
+    } finally {
+      setSendProgress(null);
+    }
+  };
+
+  const stageLabel = (stage: ReminderStage) => REMINDER_STAGES.find(({ key }) => key === stage)?.label || stage;
+  const inputClass =
+    'w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 z-10 bg-white dark:bg-gray-900 border-b dark:border-gray-800 p-6 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold text-gray-900 dark:text-white">Payment Reminders</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Escalating email reminders for unpaid AMC bills
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-6 w-6 animate-spin text-sky-500" />
+            <p className="ml-3 text-gray-500">Loading unpaid bills...</p>
+          </div>
+        ) : error ? (
+          <div className="m-6 flex items-center gap-2 rounded-lg bg-red-50 p-4 text-sm text-red-700 dark:bg-red-900/20 dark:text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        ) : (
+          <div className="p-6 space-y-6">
+            {/* Settings */}
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Schedule</h3>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Payment Terms (days after bill date)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={config.paymentTermsDays}
+                    onChange={(e) => setConfig({ ...config, paymentTermsDays: Math.max(parseInt(e.target.value) || 0, 0) })}
+                    className={inputClass}
+                  />
+                </div>
+                <label className="flex items-center gap-2 self-end pb-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={config.autoSend}
+                    onChange={(e) => setConfig({ ...config, autoSend: e.target.checked })}
+                    className="rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+                  />
+                  Send automatically once a day
+                </label>
+              </div>
+              {config.autoSend && (
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  Automatic reminders are sent when someone with AMC access first opens the dashboard each day. On days
+                  nobody opens it, none go out until the next visit or until they are sent from here.
+                </p>
+              )}
+
+              <div className="mt-4 border dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+                {REMINDER_STAGES.map((stage) => (
+                  <div key={stage.key} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">{stage.label}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {offsets[stage.key] < 0
+                          ? `${-offsets[stage.key]} ${offsets[stage.key] === -1 ? 'day' : 'days'} before the due date (Settings → reminder days)`
+                          : offsets[stage.key] === 0
+                          ? 'On the due date'
+                          : `${offsets[stage.key]} days after the due date`}
+                      </p>
+                    </div>
+                    <CustomDropdown
+                      value={config.templates[stage.key]?.toString() || ''}
+                      onChange={(value) =>
+                        setConfig({ ...config, templates: { ...config.templates, [stage.key]: value ? parseInt(value) : null } })
+                      }
+                      options={templateOptions}
+                      placeholder="Email template"
+                      containerClassName="w-64"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Templates can use {'{{client_name}}'}, {'{{amc_number}}'}, {'{{bill_number}}'}, {'{{bill_date}}'},{' '}
+                {'{{period}}'}, {'{{amount}}'}, {'{{due_date}}'}, {'{{days_overdue}}'} and {'{{company_name}}'}.
+              </p>
+            </div>
+
+            {/* Due reminders */}
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+                Due Today ({dueReminders.length})
+              </h3>
+              {dueReminders.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-10 text-gray-500 dark:text-gray-400">
+                  <Inbox className="mb-2 h-10 w-10" />
+                  No reminders are due
+                </div>
+              ) : (
+                <div className="border dark:border-gray-700 rounded-lg overflow-hidden">
+                  <table className="w-full">
+                    <thead className="bg-gray-50 dark:bg-gray-800">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Client</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Bill</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Amount</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Due</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Reminder</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {dueReminders.map((reminder) => (
+                        <tr key={reminder.bill.id} className="hover:bg-gray-50 dark:hover:bg-gray-800">
+                          <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">{reminder.amc.client_name}</td>
+                          <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                            {reminder.bill.bill_number}
+                            <div className="text-xs text-gray-400">{reminder.amc.amc_number}</div>
+                          </td>
+                          <td className="px-4 py-3 text-sm font-semibold text-gray-900 dark:text-white">
+                            ₹{parseFloat(reminder.bill.amount).toLocaleString('en-IN')}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                            {format(parseISO(reminder.due_date), 'dd MMM yyyy')}
+                            {reminder.days_overdue > 0 && (
+                              <div className="text-xs text-red-600 dark:text-red-400">{reminder.days_overdue} days overdue</div>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            <span
+                              className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${
+                                reminder.days_overdue > 0
+                                  ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+                                  : 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400'
+                              }`}
+                            >
+                              {stageLabel(reminder.stage)}
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="sticky bottom-0 border-t dark:border-gray-800 bg-white dark:bg-gray-900 p-6 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isLoading || isSaving}
+            className="inline-flex items-center gap-2 rounded-lg border border-sky-500 px-4 py-2 text-sm font-medium text-sky-600 hover:bg-sky-50 disabled:cursor-not-allowed disabled:opacity-50 dark:text-sky-400 dark:hover:bg-sky-900/20"
+          >
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save Settings
+          </button>
+          <button
+            onClick={handleSend}
+            disabled={isLoading || sendProgress !== null || dueReminders.length === 0}
+            className="inline-flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {sendProgress !== null ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Sending {sendProgress}/{dueReminders.length}...
+              </>
+            ) : (
+              <>
+                <Send className="h-4 w-4" />
+                Send {dueReminders.length} Now
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
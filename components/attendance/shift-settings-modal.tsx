@@ -0,0 +1,328 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Loader2, Plus, Trash2, X } from "lucide-react";
+import { CustomDropdown } from "@/components/ui/custom-dropdown";
+import { TimePicker } from "@/components/ui/time-picker";
+import { apiClient, fetchAllPages, BackendEmployeeListItem } from "@/lib/api";
+import { Shift, ShiftConfig, fetchShiftConfig, formatMinutes, getShiftMinutes } from "@/lib/shifts";
+import { showAlert, showSuccess } from "@/lib/sweetalert";
+
+interface ShiftSettingsModalProps {
+  onClose: () => void;
+  onSaved: (config: ShiftConfig) => void;
+}
+
+const inputClassName =
+  "w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500 disabled:opacity-50 disabled:cursor-not-allowed dark:border-gray-600 dark:bg-gray-700 dark:text-white";
+
+export function ShiftSettingsModal({ onClose, onSaved }: ShiftSettingsModalProps) {
+  const [config, setConfig] = useState<ShiftConfig | null>(null);
+  const [employees, setEmployees] = useState<BackendEmployeeListItem[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchShiftConfig().then(setConfig);
+    fetchAllPages((page) => apiClient.getEmployees({ page }))
+      .then(setEmployees)
+      .catch((err) => console.error("Error fetching employees:", err));
+  }, []);
+
+  const updateShift = (id: string, updates: Partial<Shift>) => {
+    setConfig((prev) =>
+      prev ? { ...prev, shifts: prev.shifts.map((shift) => (shift.id === id ? { ...shift, ...updates } : shift)) } : prev
+    );
+  };
+
+  const handleAddShift = () => {
+    setConfig((prev) =>
+      prev
+        ? {
+            ...prev,
+            shifts: [
+              ...prev.shifts,
+              { id: `shift-${Date.now()}`, name: "", startTime: "09:00", endTime: "17:00", graceMinutes: 15 },
+            ],
+          }
+        : prev
+    );
+  };
+
+  const handleRemoveShift = (id: string) => {
+    setConfig((prev) => {
+      if (!prev || prev.shifts.length === 1) return prev;
+      const shifts = prev.shifts.filter((shift) => shift.id !== id);
+      // Employees on the removed shift fall back to the default shift
+      const employeeShifts = Object.fromEntries(
+        Object.entries(prev.employeeShifts).filter(([, shiftId]) => shiftId !== id)
+      );
+      return {
+        ...prev,
+        shifts,
+        employeeShifts,
+        defaultShiftId: prev.defaultShiftId === id ? shifts[0].id : prev.defaultShiftId,
+      };
+    });
+  };
+
+  const handleAssign = (employeeId: number, shiftId: string) => {
+    setConfig((prev) => {
+      if (!prev) return prev;
+      const employeeShifts = { ...prev.employeeShifts };
+      if (!shiftId || shiftId === prev.defaultShiftId) {
+        delete employeeShifts[String(employeeId)];
+      } else {
+        employeeShifts[String(employeeId)] = shiftId;
+      }
+      return { ...prev, employeeShifts };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!config) return;
+    if (config.shifts.some((shift) => !shift.name.trim())) {
+      await showAlert("Validation Error", "Every shift needs a name.", "warning");
+      return;
+    }
+    if (config.shifts.some((shift) => shift.startTime === shift.endTime)) {
+      await showAlert("Validation Error", "A shift cannot start and end at the same time.", "warning");
+      return;
+    }
+
+    const saved: ShiftConfig = {
+      ...config,
+      shifts: config.shifts.map((shift) => ({ ...shift, name: shift.name.trim() })),
+    };
+    try {
+      setIsSaving(true);
+      await apiClient.updateSystemSettings({ shift_config: saved });
+      await showSuccess("Shifts Saved", "Shift and overtime settings have been saved.");
+      onSaved(saved);
+    } catch (err: any) {
+      await showAlert("Error", err.message || "Failed to save shift settings", "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const shiftOptions = (config?.shifts || []).map((shift) => ({
+    value: shift.id,
+    label: shift.name || "Unnamed shift",
+  }));
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black bg-opacity-30 transition-opacity" onClick={onClose} />
+
+        <div className="relative w-full max-w-4xl rounded-lg bg-white shadow-xl dark:bg-gray-800">
+          {/* Header */}
+          <div className="flex items-center justify-between border-b border-gray-200 p-6 dark:border-gray-700">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Shifts &amp; Overtime</h3>
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                Check-in and check-out times are compared with each employee&apos;s shift to flag late arrivals and early
+                exits and to calculate overtime for payroll.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="rounded-lg p-2 text-gray-400 hover:bg-gray-100 hover:text-gray-500 dark:hover:bg-gray-700"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          {!config ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-sky-600" />
+              <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">Loading shift settings...</span>
+            </div>
+          ) : (
+            <div className="max-h-[70vh] space-y-6 overflow-y-auto p-6">
+              {/* Shifts */}
+              <div>
+                <div className="mb-3 flex items-center justify-between">
+                  <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Shifts</h4>
+                  <button
+                    type="button"
+                    onClick={handleAddShift}
+                    className="inline-flex items-center gap-1 text-sm font-medium text-sky-600 hover:text-sky-700 dark:text-sky-400"
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add Shift
+                  </button>
+                </div>
+                <div className="space-y-3">
+                  {config.shifts.map((shift) => (
+                    <div
+                      key={shift.id}
+                      className="grid grid-cols-1 items-end gap-3 rounded-lg border border-gray-200 p-3 dark:border-gray-700 md:grid-cols-12"
+                    >
+                      <div className="md:col-span-3">
+                        <label className="block text-xs font-medium text-gray-600 dark:text-gray-400">Name</label>
+                        <input
+                          type="text"
+                          value={shift.name}
+                          onChange={(e) => updateShift(shift.id, { name: e.target.value })}
+                          placeholder="e.g. Night"
+                          className={`mt-1 ${inputClassName}`}
+                        />
+                      </div>
+                      <div className="md:col-span-2">
+                        <label className="block text-xs font-medium text-gray-600 dark:text-gray-400">Start</label>
+                        <TimePicker value={shift.startTime} onChange={(value) => updateShift(shift.id, { startTime: value })} />
+                      </div>
+                      <div className="md:col-span-2">
+                        <label className="block text-xs font-medium text-gray-600 dark:text-gray-400">End</label>
+                        <TimePicker value={shift.endTime} onChange={(value) => updateShift(shift.id, { endTime: value })} />
+                      </div>
+                      <div className="md:col-span-2">
+                        <label className="block text-xs font-medium text-gray-600 dark:text-gray-400">Grace (min)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          value={shift.graceMinutes}
+                          onChange={(e) => updateShift(shift.id, { graceMinutes: Math.max(0, Number(e.target.value)) })}
+                          className={`mt-1 ${inputClassName}`}
+                        />
+                      </div>
+                      <div className="flex items-center justify-between gap-2 md:col-span-3">
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {formatMinutes(getShiftMinutes(shift))}
+                          {shift.endTime < shift.startTime && " (overnight)"}
+                          <label className="mt-1 flex items-center gap-1">
+                            <input
+                              type="radio"
+                              name="default-shift"
+                              checked={config.defaultShiftId === shift.id}
+                              onChange={() => setConfig({ ...config, defaultShiftId: shift.id })}
+                              className="h-3.5 w-3.5 border-gray-300 text-sky-600 focus:ring-sky-500"
+                            />
+                            Default
+                          </label>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveShift(shift.id)}
+                          disabled={config.shifts.length === 1}
+                          className="rounded p-1 text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:cursor-not-allowed"
+                          title="Remove shift"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Overtime rules */}
+              <div>
+                <label className="mb-3 flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white">
+                  <input
+                    type="checkbox"
+                    checked={config.overtime.enabled}
+                    onChange={(e) => setConfig({ ...config, overtime: { ...config.overtime, enabled: e.target.checked } })}
+                    className="h-4 w-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+                  />
+                  Overtime
+                </label>
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                  <div>
+                    <label htmlFor="ot-multiplier" className="block text-xs font-medium text-gray-600 dark:text-gray-400">
+                      Rate Multiplier (x hourly rate)
+                    </label>
+                    <input
+                      id="ot-multiplier"
+                      type="number"
+                      min={0}
+                      step="0.25"
+                      value={config.overtime.multiplier}
+                      onChange={(e) =>
+                        setConfig({ ...config, overtime: { ...config.overtime, multiplier: Math.max(0, Number(e.target.value)) } })
+                      }
+                      disabled={!config.overtime.enabled}
+                      className={`mt-1 ${inputClassName}`}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="ot-minimum" className="block text-xs font-medium text-gray-600 dark:text-gray-400">
+                      Minimum per Day (min)
+                    </label>
+                    <input
+                      id="ot-minimum"
+                      type="number"
+                      min={0}
+                      value={config.overtime.minimumMinutes}
+                      onChange={(e) =>
+                        setConfig({
+                          ...config,
+                          overtime: { ...config.overtime, minimumMinutes: Math.max(0, Number(e.target.value)) },
+                        })
+                      }
+                      disabled={!config.overtime.enabled}
+                      className={`mt-1 ${inputClassName}`}
+                    />
+                  </div>
+                  <p className="self-end text-xs text-gray-500 dark:text-gray-400">
+                    Hourly rate is monthly salary / working days / shift hours. Time worked on Sundays and holidays is
+                    all overtime.
+                  </p>
+                </div>
+              </div>
+
+              {/* Assignments */}
+              <div>
+                <h4 className="mb-3 text-sm font-semibold text-gray-900 dark:text-white">Employee Shifts</h4>
+                {employees.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No employees found</p>
+                ) : (
+                  <div className="divide-y divide-gray-200 rounded-lg border border-gray-200 dark:divide-gray-700 dark:border-gray-700">
+                    {employees.map((employee) => (
+                      <div key={employee.id} className="flex items-center justify-between gap-4 px-4 py-2">
+                        <div>
+                          <div className="text-sm font-medium text-gray-900 dark:text-white">
+                            {employee.full_name || employee.employee_code}
+                          </div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">{employee.employee_code}</div>
+                        </div>
+                        <CustomDropdown
+                          value={config.employeeShifts[String(employee.id)] || config.defaultShiftId}
+                          onChange={(value) => handleAssign(employee.id, value)}
+                          options={shiftOptions}
+                          containerClassName="w-48"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex justify-end gap-3 border-t border-gray-200 p-6 dark:border-gray-700">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSaving}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving || !config}
+              className="inline-flex items-center gap-2 rounded-lg bg-sky-600 px-4 py-2 text-sm font-medium text-white hover:bg-sky-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save Settings
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
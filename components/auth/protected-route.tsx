@@ -1,23 +1,32 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
+import { useRouter, usePathname } from "next/navigation";
 import { useAuth } from "@/components/providers/auth-provider";
+import { AppModule, PermissionLevel, getModuleForPath } from "@/lib/auth";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   requireSuperuser?: boolean;
+  module?: AppModule; // Defaults to the module matching the current path
+  permission?: PermissionLevel;
 }
 
 /**
  * ProtectedRoute component that ensures user is authenticated and authorized
  * If requireSuperuser is true, only superusers can access
+ * Users whose role lacks the required permission on the module are sent back to the dashboard
  */
-export function ProtectedRoute({ children, requireSuperuser = false }: ProtectedRouteProps) {
-  const { user, isAuthorized, isLoading } = useAuth();
+export function ProtectedRoute({ children, requireSuperuser = false, module, permission = "read" }: ProtectedRouteProps) {
+  const { user, isAuthorized, isLoading, hasPermission } = useAuth();
   const router = useRouter();
+  const pathname = usePathname();
   const [hasRedirected, setHasRedirected] = useState(false);
 
+  const requiredModule = module || getModuleForPath(pathname);
+  const isForbidden =
+    (requireSuperuser && !user?.is_superuser) || (!!requiredModule && !hasPermission(requiredModule, permission));
+
   useEffect(() => {
     // Don't redirect while loading
     if (isLoading) {
@@ -33,8 +42,8 @@ export function ProtectedRoute({ children, requireSuperuser = false }: Protected
       return;
     }
 
-    // If superuser is required, check if user is superuser
-    if (requireSuperuser && !user.is_superuser) {
+    // If superuser or a module permission is required, check the user's role
+    if (isForbidden) {
       if (!hasRedirected) {
         setHasRedirected(true);
         router.push("/dashboard?error=unauthorized");
@@ -46,7 +55,7 @@ export function ProtectedRoute({ children, requireSuperuser = false }: Protected
     if (user && isAuthorized && hasRedirected) {
       setHasRedirected(false);
     }
-  }, [user, isAuthorized, isLoading, requireSuperuser, router, hasRedirected]);
+  }, [user, isAuthorized, isLoading, isForbidden, router, hasRedirected]);
 
   // Show loading state while checking authentication
   if (isLoading) {
@@ -72,8 +81,8 @@ export function ProtectedRoute({ children, requireSuperuser = false }: Protected
     );
   }
 
-  // Show loading/redirecting message if superuser is required but user is not superuser
-  if (requireSuperuser && !user.is_superuser) {
+  // Show loading/redirecting message if the user's role is not allowed on this page
+  if (isForbidden) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-950">
         <div className="text-center">
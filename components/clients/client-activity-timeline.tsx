@@ -0,0 +1,173 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import Link from "next/link";
+import { format, parseISO } from "date-fns";
+import { AlertCircle, Briefcase, CheckSquare, FileText, IndianRupee, Inbox, Loader2, Mail, RefreshCw, ShieldCheck } from "lucide-react";
+import { ClientActivity } from "@/types";
+import { DatePicker } from "@/components/ui/date-picker";
+import {
+  CLIENT_ACTIVITY_TYPES,
+  ClientActivityType,
+  filterClientActivity,
+  loadClientActivity,
+} from "@/lib/client-activity";
+
+interface ClientActivityTimelineProps {
+  clientId: number;
+}
+
+const ACTIVITY_STYLES: Record<ClientActivityType, { icon: typeof Mail; className: string }> = {
+  "AMC Created": { icon: ShieldCheck, className: "bg-sky-100 text-sky-600 dark:bg-sky-900/30 dark:text-sky-400" },
+  "AMC Renewed": { icon: RefreshCw, className: "bg-teal-100 text-teal-600 dark:bg-teal-900/30 dark:text-teal-400" },
+  "Bill Generated": { icon: FileText, className: "bg-yellow-100 text-yellow-600 dark:bg-yellow-900/30 dark:text-yellow-400" },
+  "Payment Received": { icon: IndianRupee, className: "bg-green-100 text-green-600 dark:bg-green-900/30 dark:text-green-400" },
+  "Project Started": { icon: Briefcase, className: "bg-purple-100 text-purple-600 dark:bg-purple-900/30 dark:text-purple-400" },
+  "Task Created": { icon: CheckSquare, className: "bg-orange-100 text-orange-600 dark:bg-orange-900/30 dark:text-orange-400" },
+  "Email Sent": { icon: Mail, className: "bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300" },
+};
+
+export function ClientActivityTimeline({ clientId }: ClientActivityTimelineProps) {
+  const [activities, setActivities] = useState<ClientActivity[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedTypes, setSelectedTypes] = useState<ClientActivityType[]>([]);
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsLoading(true);
+    loadClientActivity(clientId)
+      .then((result) => {
+        if (isCancelled) return;
+        setActivities(result.activities);
+        setErrors(result.errors);
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [clientId]);
+
+  const counts = useMemo(() => {
+    const byType = new Map<ClientActivityType, number>();
+    activities.forEach((activity) => byType.set(activity.type, (byType.get(activity.type) || 0) + 1));
+    return byType;
+  }, [activities]);
+
+  const filtered = useMemo(
+    () =>
+      filterClientActivity(activities, {
+        types: selectedTypes,
+        from: dateFrom || undefined,
+        to: dateTo || undefined,
+      }),
+    [activities, selectedTypes, dateFrom, dateTo]
+  );
+
+  const toggleType = (type: ClientActivityType) => {
+    setSelectedTypes((prev) => (prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type]));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-sky-500" />
+        <p className="ml-3 text-gray-500">Loading activity...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap gap-2">
+        {CLIENT_ACTIVITY_TYPES.map((type) => {
+          const isSelected = selectedTypes.includes(type);
+          return (
+            <button
+              key={type}
+              type="button"
+              onClick={() => toggleType(type)}
+              className={`rounded-full border px-3 py-1 text-xs font-medium transition-colors ${
+                isSelected
+                  ? "border-sky-500 bg-sky-50 text-sky-700 dark:bg-sky-900/30 dark:text-sky-300"
+                  : "border-gray-300 text-gray-600 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-400 dark:hover:bg-gray-700"
+              }`}
+            >
+              {type} ({counts.get(type) || 0})
+            </button>
+          );
+        })}
+      </div>
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+        <DatePicker value={dateFrom} onChange={setDateFrom} placeholder="From date" maxDate={dateTo || undefined} />
+        <DatePicker value={dateTo} onChange={setDateTo} placeholder="To date" minDate={dateFrom || undefined} />
+        {(selectedTypes.length > 0 || dateFrom || dateTo) && (
+          <button
+            type="button"
+            onClick={() => {
+              setSelectedTypes([]);
+              setDateFrom("");
+              setDateTo("");
+            }}
+            className="text-left text-sm font-medium text-sky-600 hover:text-sky-700 dark:text-sky-400"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="flex items-center gap-2 rounded-lg bg-yellow-50 p-3 text-sm text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          Could not load {errors.join(", ").toLowerCase()}; the timeline may be incomplete.
+        </div>
+      )}
+
+      {/* Timeline */}
+      {filtered.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-10 text-center">
+          <Inbox className="mb-3 h-10 w-10 text-gray-400" />
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {activities.length === 0 ? "No activity recorded for this client yet" : "No activity matches the filters"}
+          </p>
+        </div>
+      ) : (
+        <ol className="relative ml-4 border-l border-gray-200 dark:border-gray-700">
+          {filtered.map((activity) => {
+            const { icon: Icon, className } = ACTIVITY_STYLES[activity.type];
+            return (
+              <li key={`${activity.type}-${activity.id}`} className="mb-6 ml-6">
+                <span className={`absolute -left-4 flex h-8 w-8 items-center justify-center rounded-full ring-4 ring-white dark:ring-gray-800 ${className}`}>
+                  <Icon className="h-4 w-4" />
+                </span>
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">{activity.type}</p>
+                  <time className="text-xs text-gray-500 dark:text-gray-400">
+                    {format(parseISO(activity.timestamp), activity.timestamp.length > 10 ? "dd MMM yyyy, h:mm a" : "dd MMM yyyy")}
+                  </time>
+                </div>
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">
+                  {activity.link ? (
+                    <Link href={activity.link} className="hover:text-sky-600 hover:underline dark:hover:text-sky-400">
+                      {activity.description}
+                    </Link>
+                  ) : (
+                    activity.description
+                  )}
+                </p>
+                {activity.performed_by && (
+                  <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400">by {activity.performed_by}</p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import { useState, useEffect } from "react";
 import { X } from "lucide-react";
 import type { Client } from "@/types";
+import { SiteLocationFields } from "@/components/ui/site-location-fields";
+import { validateSiteLocation } from "@/lib/geofence";
 
 interface ClientFormModalProps {
   isOpen: boolean;
@@ -83,6 +85,15 @@ export function ClientFormModal({
     // City and state are not required by backend, but validate format if provided
     // (removed required validation)
 
+    const siteError = validateSiteLocation(
+      formData.site_latitude || "",
+      formData.site_longitude || "",
+      formData.site_radius_meters?.toString() || ""
+    );
+    if (siteError) {
+      newErrors.site = siteError;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -305,6 +316,28 @@ export function ClientFormModal({
                         />
                       </div>
                     </div>
+
+                    <div>
+                      <label className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Site Location
+                      </label>
+                      <SiteLocationFields
+                        value={{
+                          latitude: formData.site_latitude || "",
+                          longitude: formData.site_longitude || "",
+                          radius: formData.site_radius_meters?.toString() || "",
+                        }}
+                        onChange={(site) =>
+                          setFormData({
+                            ...formData,
+                            site_latitude: site.latitude,
+                            site_longitude: site.longitude,
+                            site_radius_meters: site.radius ? Math.round(Number(site.radius)) : undefined,
+                          })
+                        }
+                        error={errors.site}
+                      />
+                    </div>
                   </div>
                 </div>
 
@@ -5,6 +5,14 @@ import { X, Mail, Send, Clock, Loader2, ChevronDown, Search } from "lucide-react
 import type { Client } from "@/types";
 import { apiClient, BackendEmailTemplateListItem, EmailTemplateDetail, EmailTemplateSendRequest } from "@/lib/api";
 import { showAlert } from "@/lib/sweetalert";
+import { extractPlaceholders, findMissingPlaceholders, formatMissingPlaceholders, renderTemplate } from "@/lib/email-templates";
+import { STATEMENT_HTML_PLACEHOLDERS } from "@/lib/client-statement";
+import {
+  PlaceholderContext,
+  PlaceholderContextIds,
+  loadPlaceholderContext,
+  resolvePlaceholders,
+} from "@/lib/email-placeholders";
 import { DatePicker } from "@/components/ui/date-picker";
 import { TimePicker } from "@/components/ui/time-picker";
 import { format } from "date-fns";
@@ -13,12 +21,20 @@ interface ClientSendMailModalProps {
   isOpen: boolean;
   onClose: () => void;
   client: Client | null;
+  recipient?: { name: string; email: string }; // Sent to instead of the client, e.g. a tender's firm
+  context?: Omit<PlaceholderContextIds, "clientId">; // AMC, bill or tender the email is about
+  placeholderDefaults?: Record<string, string>; // Prefilled values keyed by lower-case placeholder name
+  onSent?: () => void;
 }
 
 export function ClientSendMailModal({
   isOpen,
   onClose,
   client,
+  recipient,
+  context,
+  placeholderDefaults,
+  onSent,
 }: ClientSendMailModalProps) {
   const [templates, setTemplates] = useState<BackendEmailTemplateListItem[]>([]);
   const [selectedTemplateId, setSelectedTemplateId] = useState<number | null>(null);
@@ -31,6 +47,13 @@ export function ClientSendMailModal({
   const [placeholderValues, setPlaceholderValues] = useState<Record<string, string>>({});
   const [templateSearch, setTemplateSearch] = useState("");
   const [showTemplateDropdown, setShowTemplateDropdown] = useState(false);
+  const [placeholderContext, setPlaceholderContext] = useState<PlaceholderContext>({});
+
+  const recipientEmail = recipient ? recipient.email : client?.primary_contact_email || "";
+  const clientId = client?.id;
+  const amcId = context?.amcId;
+  const billId = context?.billId;
+  const tenderId = context?.tenderId;
 
   // Fetch email templates
   const fetchTemplates = useCallback(async () => {
@@ -53,47 +76,41 @@ export function ClientSendMailModal({
     try {
       const template = await apiClient.getEmailTemplate(templateId);
       setSelectedTemplate(template);
-      
-      // Extract placeholders from template
-      let placeholders: string[] = [];
-      if (template.placeholders) {
-        placeholders = template.placeholders
-          .split(/[,\s]+/)
-          .map(p => p.replace(/[{}]/g, '').trim())
-          .filter(p => p.length > 0);
-      } else {
-        // Extract placeholders from body
-        const placeholderRegex = /\{\{(\w+)\}\}/g;
-        const matches = template.body.matchAll(placeholderRegex);
-        placeholders = Array.from(matches, m => m[1]);
-      }
-      
-      // Initialize placeholder values with client data
-      const initialValues: Record<string, string> = {};
-      placeholders.forEach(placeholder => {
-        const key = placeholder.toLowerCase();
-        if (client) {
-          if (key === 'name' || key === 'clientname') {
-            initialValues[placeholder] = client.name || '';
-          } else if (key === 'email' || key === 'clientemail') {
-            initialValues[placeholder] = client.primary_contact_email || '';
-          } else if (key === 'phone' || key === 'clientphone') {
-            initialValues[placeholder] = client.primary_contact_phone || '';
-          } else if (key === 'address' || key === 'clientaddress') {
-            initialValues[placeholder] = client.address || '';
-          } else if (key === 'city' || key === 'clientcity') {
-            initialValues[placeholder] = client.city || '';
-          } else if (key === 'state' || key === 'clientstate') {
-            initialValues[placeholder] = client.state || '';
-          }
-        }
-      });
-      setPlaceholderValues(initialValues);
     } catch (err: any) {
       console.error("Failed to fetch template details:", err);
       showAlert("Error", "Failed to fetch template details. Please try again.", "error");
     }
-  }, [client]);
+  }, []);
+
+  // Load the records the email is about, so catalogue placeholders such as {{client.name}} fill themselves
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setPlaceholderContext({});
+    loadPlaceholderContext({ clientId, amcId, billId, tenderId })
+      .then((loaded) => {
+        if (!cancelled) setPlaceholderContext(loaded);
+      })
+      .catch((err) => console.error("Failed to load placeholder values:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, clientId, amcId, billId, tenderId]);
+
+  // Initialize placeholder values from the caller's defaults, then from the records
+  useEffect(() => {
+    if (!selectedTemplate) return;
+    const placeholders = extractPlaceholders(selectedTemplate.subject, selectedTemplate.body);
+    const resolved = resolvePlaceholders(placeholders, placeholderContext);
+    const initialValues: Record<string, string> = {};
+    placeholders.forEach(placeholder => {
+      const value = placeholderDefaults?.[placeholder.toLowerCase()] ?? resolved[placeholder];
+      if (value !== undefined) {
+        initialValues[placeholder] = value;
+      }
+    });
+    setPlaceholderValues(initialValues);
+  }, [selectedTemplate, placeholderContext, placeholderDefaults]);
 
   // Close template dropdown when clicking outside
   useEffect(() => {
@@ -136,13 +153,13 @@ export function ClientSendMailModal({
   }, [selectedTemplateId, fetchTemplateDetails]);
 
   const handleSendEmail = async () => {
-    if (!client || !selectedTemplateId) {
+    if (!selectedTemplateId) {
       showAlert("Error", "Please select a template.", "error");
       return;
     }
 
-    if (!client.primary_contact_email) {
-      showAlert("Error", "Client email is required to send email.", "error");
+    if (!recipientEmail) {
+      showAlert("Error", `${recipient ? "Recipient" : "Client"} email is required to send email.`, "error");
       return;
     }
 
@@ -151,11 +168,18 @@ export function ClientSendMailModal({
       return;
     }
 
+    const missingPlaceholders = selectedTemplate ? findMissingPlaceholders(selectedTemplate, placeholderValues) : [];
+    if (missingPlaceholders.length > 0) {
+      showAlert("Error", formatMissingPlaceholders(missingPlaceholders), "error");
+      return;
+    }
+
     setIsSending(true);
     try {
       const requestData: EmailTemplateSendRequest = {
-        recipients: client.primary_contact_email,
+        recipients: recipientEmail,
         placeholder_values: placeholderValues,
+        client: client?.id,
       };
 
       if (sendMode === "schedule" && scheduledDate && scheduledTime) {
@@ -169,7 +193,7 @@ export function ClientSendMailModal({
       const response = await apiClient.sendEmailUsingTemplate(selectedTemplateId, requestData);
       
       if (sendMode === "now") {
-        showAlert("Success", `Email sent successfully to ${client.primary_contact_email}`, "success");
+        showAlert("Success", `Email sent successfully to ${recipientEmail}`, "success");
       } else {
         const [hours, minutes] = scheduledTime.split(':');
         const dateObj = new Date(scheduledDate);
@@ -177,6 +201,7 @@ export function ClientSendMailModal({
         showAlert("Success", `Email scheduled for ${dateObj.toLocaleString()}`, "success");
       }
       
+      onSent?.();
       onClose();
     } catch (err: any) {
       console.error("Failed to send email:", err);
@@ -191,18 +216,15 @@ export function ClientSendMailModal({
 
   // Get placeholders from selected template
   const placeholders: string[] = selectedTemplate
-    ? (selectedTemplate.placeholders
-        ? selectedTemplate.placeholders
-            .split(/[,\s]+/)
-            .map(p => p.replace(/[{}]/g, '').trim())
-            .filter(p => p.length > 0)
-        : (() => {
-            const placeholderRegex = /\{\{(\w+)\}\}/g;
-            const matches = selectedTemplate.body.matchAll(placeholderRegex);
-            return Array.from(matches, m => m[1]);
-          })())
+    ? extractPlaceholders(selectedTemplate.subject, selectedTemplate.body)
     : [];
 
+  // Only the statement tables generated by the caller are shown as HTML; everything else is text
+  const trustedHtml = placeholders.filter((placeholder) => {
+    const key = placeholder.toLowerCase();
+    return STATEMENT_HTML_PLACEHOLDERS.includes(key) && placeholderValues[placeholder] === placeholderDefaults?.[key];
+  });
+
   return (
     <div className="fixed inset-0 z-50 overflow-hidden">
       <div
@@ -217,7 +239,7 @@ export function ClientSendMailModal({
             <div className="border-b border-gray-200 px-6 py-4 dark:border-gray-700">
               <div className="flex items-center justify-between">
                 <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
-                  Send Email to {client?.name || "Client"}
+                  Send Email to {recipient?.name || client?.name || "Client"}
                 </h2>
                 <button
                   onClick={onClose}
@@ -318,13 +340,15 @@ export function ClientSendMailModal({
                     <div className="space-y-2">
                       <div>
                         <span className="text-xs font-medium text-gray-500 dark:text-gray-400">Subject:</span>
-                        <p className="text-sm text-gray-900 dark:text-white">{selectedTemplate.subject}</p>
+                        <p className="text-sm text-gray-900 dark:text-white">
+                          {renderTemplate(selectedTemplate.subject, placeholderValues)}
+                        </p>
                       </div>
                       <div>
                         <span className="text-xs font-medium text-gray-500 dark:text-gray-400">Body:</span>
                         <div
                           className="mt-1 max-h-40 overflow-y-auto rounded bg-gray-50 p-3 text-sm text-gray-700 dark:bg-gray-900 dark:text-gray-300"
-                          dangerouslySetInnerHTML={{ __html: selectedTemplate.body }}
+                          dangerouslySetInnerHTML={{ __html: renderTemplate(selectedTemplate.body, placeholderValues, { html: true, trustedHtml }) }}
                         />
                       </div>
                     </div>
@@ -334,27 +358,38 @@ export function ClientSendMailModal({
                 {/* Placeholder Values */}
                 {selectedTemplate && placeholders.length > 0 && (
                   <div>
-                    <h3 className="mb-3 text-sm font-medium text-gray-900 dark:text-white">
+                    <h3 className="text-sm font-medium text-gray-900 dark:text-white">
                       Placeholder Values
                     </h3>
+                    <p className="mb-3 text-xs text-gray-500 dark:text-gray-400">
+                      Fields from the client, AMC and tender records are filled in automatically.
+                    </p>
                     <div className="space-y-3">
                       {placeholders.map((placeholder) => (
                         <div key={placeholder}>
                           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
                             {placeholder}
                           </label>
-                          <input
-                            type="text"
-                            value={placeholderValues[placeholder] || ""}
-                            onChange={(e) =>
-                              setPlaceholderValues({
-                                ...placeholderValues,
-                                [placeholder]: e.target.value,
-                              })
-                            }
-                            className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 shadow-sm focus:border-sky-500 focus:outline-none focus:ring-sky-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
-                            placeholder={`Enter value for ${placeholder}`}
-                          />
+                          {trustedHtml.includes(placeholder) ? (
+                            // Generated tables (e.g. a statement) are sent as HTML; show them rendered
+                            <div
+                              className="mt-1 max-h-40 overflow-auto rounded-lg border border-gray-300 bg-white p-2 text-xs text-gray-900 dark:border-gray-600"
+                              dangerouslySetInnerHTML={{ __html: placeholderValues[placeholder] }}
+                            />
+                          ) : (
+                            <input
+                              type="text"
+                              value={placeholderValues[placeholder] || ""}
+                              onChange={(e) =>
+                                setPlaceholderValues({
+                                  ...placeholderValues,
+                                  [placeholder]: e.target.value,
+                                })
+                              }
+                              className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 shadow-sm focus:border-sky-500 focus:outline-none focus:ring-sky-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                              placeholder={`Enter value for ${placeholder}`}
+                            />
+                          )}
                         </div>
                       ))}
                     </div>
@@ -0,0 +1,228 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { AlertCircle, Inbox, Loader2, Mail, Printer } from "lucide-react";
+import { Client } from "@/types";
+import { ExportMenu } from "@/components/ui/export-menu";
+import { ClientSendMailModal } from "@/components/clients/client-send-mail-modal";
+import {
+  AGEING_BUCKETS,
+  ClientStatement,
+  StatementEntry,
+  fetchStatementCompany,
+  getStatementPlaceholderValues,
+  loadClientStatement,
+  printClientStatement,
+} from "@/lib/client-statement";
+import { ExportColumn, ExportFormat, exportFileName, exportRows } from "@/lib/export";
+import { formatReportValue } from "@/lib/reports";
+import { formatDate } from "@/lib/date-utils";
+import { showAlert } from "@/lib/sweetalert";
+
+interface ClientStatementViewProps {
+  client: Client;
+}
+
+const statementExportColumns: ExportColumn<StatementEntry>[] = [
+  { header: "Date", type: "date", value: (e) => e.date },
+  { header: "Bill No.", value: (e) => e.bill_number },
+  { header: "AMC", value: (e) => e.amc_number },
+  { header: "Particulars", value: (e) => e.description },
+  { header: "Status", value: (e) => (e.type === "Bill" ? e.bill_status : "") },
+  { header: "Debit", type: "currency", value: (e) => e.debit || null },
+  { header: "Credit", type: "currency", value: (e) => e.credit || null },
+  { header: "Balance", type: "currency", value: (e) => e.balance },
+];
+
+export function ClientStatementView({ client }: ClientStatementViewProps) {
+  const [statement, setStatement] = useState<ClientStatement | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [sendMailOpen, setSendMailOpen] = useState(false);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsLoading(true);
+    setError(null);
+    loadClientStatement(client.id, client.name)
+      .then((result) => {
+        if (!isCancelled) setStatement(result);
+      })
+      .catch((err: any) => {
+        console.error("Failed to load client statement:", err);
+        if (!isCancelled) setError(err.message || "Failed to load statement");
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [client.id, client.name]);
+
+  const placeholderDefaults = useMemo(
+    () => (statement ? getStatementPlaceholderValues(statement) : undefined),
+    [statement]
+  );
+
+  const handlePrint = async () => {
+    if (!statement) return;
+    setIsPrinting(true);
+    try {
+      await printClientStatement(statement, await fetchStatementCompany());
+    } catch (err: any) {
+      console.error("Failed to print statement:", err);
+      showAlert("Error", err.message || "Failed to print statement.", "error");
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    const entries = statement?.entries || [];
+    exportRows(entries, statementExportColumns, {
+      fileName: exportFileName(`statement-${client.name.toLowerCase().replace(/\s+/g, "-")}`),
+      format: exportFormat,
+      sheetName: "Statement",
+    });
+    return entries.length;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-sky-500" />
+        <p className="ml-3 text-gray-500">Loading statement...</p>
+      </div>
+    );
+  }
+
+  if (error || !statement) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg bg-red-50 p-3 text-sm text-red-700 dark:bg-red-900/20 dark:text-red-400">
+        <AlertCircle className="h-4 w-4 flex-shrink-0" />
+        {error || "Failed to load statement"}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Summary */}
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="grid flex-1 grid-cols-3 gap-3">
+          {[
+            { label: "Billed", value: statement.total_billed, className: "text-gray-900 dark:text-white" },
+            { label: "Received", value: statement.total_paid, className: "text-green-600 dark:text-green-400" },
+            { label: "Outstanding", value: statement.outstanding, className: "text-red-600 dark:text-red-400" },
+          ].map((card) => (
+            <div key={card.label} className="rounded-lg bg-gray-50 p-3 dark:bg-gray-900">
+              <p className="text-xs text-gray-500 dark:text-gray-400">{card.label}</p>
+              <p className={`mt-1 text-lg font-semibold ${card.className}`}>{formatReportValue(card.value, "currency")}</p>
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <ExportMenu onExport={handleExport} disabled={statement.entries.length === 0} />
+          <button
+            onClick={handlePrint}
+            disabled={isPrinting}
+            className="inline-flex items-center gap-2 rounded-lg border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+          >
+            {isPrinting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Printer className="h-4 w-4" />}
+            Print
+          </button>
+          <button
+            onClick={() => setSendMailOpen(true)}
+            className="inline-flex items-center gap-2 rounded-lg bg-sky-500 px-3 py-2 text-sm font-medium text-white hover:bg-sky-600"
+          >
+            <Mail className="h-4 w-4" />
+            Email
+          </button>
+        </div>
+      </div>
+
+      {/* Ageing */}
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        {AGEING_BUCKETS.map((bucket) => (
+          <div key={bucket.key} className="rounded-lg border border-gray-200 p-3 dark:border-gray-700">
+            <p className="text-xs text-gray-500 dark:text-gray-400">{bucket.label}</p>
+            <p
+              className={`mt-1 text-sm font-semibold ${
+                statement.ageing[bucket.key] > 0 && bucket.maxDays > 60
+                  ? "text-red-600 dark:text-red-400"
+                  : "text-gray-900 dark:text-white"
+              }`}
+            >
+              {formatReportValue(statement.ageing[bucket.key], "currency")}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* Ledger */}
+      {statement.entries.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-10 text-center">
+          <Inbox className="mb-3 h-10 w-10 text-gray-400" />
+          <p className="text-sm text-gray-500 dark:text-gray-400">No AMC bills for this client yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Date</th>
+                <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Bill No.</th>
+                <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Particulars</th>
+                <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Status</th>
+                <th className="px-3 py-2 text-right text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Debit</th>
+                <th className="px-3 py-2 text-right text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Credit</th>
+                <th className="px-3 py-2 text-right text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {statement.entries.map((entry) => (
+                <tr key={`${entry.type}-${entry.bill_id}`}>
+                  <td className="whitespace-nowrap px-3 py-2 text-gray-600 dark:text-gray-300">{formatDate(entry.date)}</td>
+                  <td className="whitespace-nowrap px-3 py-2 text-gray-900 dark:text-white">{entry.bill_number}</td>
+                  <td className="px-3 py-2 text-gray-600 dark:text-gray-300">{entry.description}</td>
+                  <td className="whitespace-nowrap px-3 py-2">
+                    {entry.type === "Bill" && (
+                      <span
+                        className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                          entry.bill_status === "Paid"
+                            ? "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400"
+                            : "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400"
+                        }`}
+                      >
+                        {entry.bill_status}
+                        {entry.days_outstanding !== null && ` · ${entry.days_outstanding}d`}
+                      </span>
+                    )}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-2 text-right text-gray-900 dark:text-white">
+                    {entry.debit ? formatReportValue(entry.debit, "currency") : ""}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-2 text-right text-green-600 dark:text-green-400">
+                    {entry.credit ? formatReportValue(entry.credit, "currency") : ""}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-2 text-right font-medium text-gray-900 dark:text-white">
+                    {formatReportValue(entry.balance, "currency")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <ClientSendMailModal
+        isOpen={sendMailOpen}
+        onClose={() => setSendMailOpen(false)}
+        client={client}
+        placeholderDefaults={placeholderDefaults}
+      />
+    </div>
+  );
+}
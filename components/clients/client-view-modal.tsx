@@ -1,11 +1,13 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { X, Mail, Phone, MapPin, FileText, Calendar, User, Loader2, Edit } from "lucide-react";
+import { X, Mail, Phone, MapPin, FileText, Calendar, User, Loader2, Edit, History, Receipt } from "lucide-react";
 import { Client } from "@/types";
 import { apiClient, BackendClientDetail } from "@/lib/api";
 import { format } from "date-fns";
 import { showAlert } from "@/lib/sweetalert";
+import { ClientActivityTimeline } from "@/components/clients/client-activity-timeline";
+import { ClientStatementView } from "@/components/clients/client-statement";
 
 interface ClientViewModalProps {
   isOpen: boolean;
@@ -17,12 +19,14 @@ interface ClientViewModalProps {
 export function ClientViewModal({ isOpen, onClose, client, onEdit }: ClientViewModalProps) {
   const [clientDetail, setClientDetail] = useState<BackendClientDetail | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [activeTab, setActiveTab] = useState<"details" | "activity" | "statement">("details");
 
   useEffect(() => {
     if (isOpen && client) {
       fetchClientDetail();
     } else {
       setClientDetail(null);
+      setActiveTab("details");
     }
   }, [isOpen, client]);
 
@@ -156,9 +160,52 @@ export function ClientViewModal({ isOpen, onClose, client, onEdit }: ClientViewM
           </div>
         </div>
 
+        {/* Tabs */}
+        <div className="border-b border-gray-200 px-6 dark:border-gray-700">
+          <nav className="-mb-px flex gap-6">
+            <button
+              onClick={() => setActiveTab("details")}
+              className={`flex items-center gap-2 border-b-2 px-1 py-3 text-sm font-medium ${
+                activeTab === "details"
+                  ? "border-sky-500 text-sky-600 dark:text-sky-400"
+                  : "border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+              }`}
+            >
+              <User className="h-4 w-4" />
+              Details
+            </button>
+            <button
+              onClick={() => setActiveTab("activity")}
+              className={`flex items-center gap-2 border-b-2 px-1 py-3 text-sm font-medium ${
+                activeTab === "activity"
+                  ? "border-sky-500 text-sky-600 dark:text-sky-400"
+                  : "border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+              }`}
+            >
+              <History className="h-4 w-4" />
+              Activity
+            </button>
+            <button
+              onClick={() => setActiveTab("statement")}
+              className={`flex items-center gap-2 border-b-2 px-1 py-3 text-sm font-medium ${
+                activeTab === "statement"
+                  ? "border-sky-500 text-sky-600 dark:text-sky-400"
+                  : "border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+              }`}
+            >
+              <Receipt className="h-4 w-4" />
+              Statement
+            </button>
+          </nav>
+        </div>
+
         {/* Content */}
         <div className="p-6">
-          {isLoading ? (
+          {activeTab === "activity" ? (
+            <ClientActivityTimeline clientId={client.id} />
+          ) : activeTab === "statement" ? (
+            <ClientStatementView client={client} />
+          ) : isLoading ? (
             <div className="flex items-center justify-center py-12">
               <Loader2 className="h-8 w-8 animate-spin text-sky-500" />
               <p className="ml-3 text-gray-500">Loading client details...</p>
@@ -0,0 +1,76 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AlertCircle, Download, Loader2 } from 'lucide-react';
+import { DOCX_CONTENT_STYLES, renderDocxHtml } from '@/lib/docx';
+
+type DocxPreviewProps = {
+  fileUrl: string;
+  onDownload?: () => void;
+};
+
+/**
+ * Renders a DOCX file in the browser (text, tables, images, header and footer)
+ */
+export function DocxPreview({ fileUrl, onDownload }: DocxPreviewProps) {
+  const [html, setHtml] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setHtml(null);
+    setError(null);
+
+    fetch(fileUrl, { method: 'GET', credentials: 'include' })
+      .then((response) => {
+        if (!response.ok) throw new Error('The document could not be loaded.');
+        return response.arrayBuffer();
+      })
+      .then((data) => {
+        if (!cancelled) setHtml(renderDocxHtml(data));
+      })
+      .catch((err) => {
+        console.error('Failed to render DOCX preview:', err);
+        if (!cancelled) setError(err.message || 'The document could not be displayed.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fileUrl]);
+
+  if (error) {
+    return (
+      <div className="flex h-[400px] flex-col items-center justify-center p-8">
+        <AlertCircle className="mb-4 h-12 w-12 text-red-500" />
+        <p className="mb-2 text-lg font-medium text-gray-900">Failed to load DOCX</p>
+        <p className="mb-4 text-sm text-gray-600">{error}</p>
+        {onDownload && (
+          <button
+            onClick={onDownload}
+            className="flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
+          >
+            <Download className="h-4 w-4" />
+            Download to View
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (html === null) {
+    return (
+      <div className="flex h-[400px] items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-sky-500" />
+        <p className="ml-3 text-gray-500">Rendering document...</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <style>{DOCX_CONTENT_STYLES}</style>
+      <div dangerouslySetInnerHTML={{ __html: html }} />
+    </>
+  );
+}
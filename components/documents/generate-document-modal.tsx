@@ -0,0 +1,257 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, Loader2, Download, Printer, AlertCircle, Search } from 'lucide-react';
+import { useDebounce } from 'use-debounce';
+import { apiClient, DocumentTemplate } from '@/lib/api';
+import { DOCX_HTML_STYLES, extractDocxPlaceholders, fillDocx, renderDocxHtml } from '@/lib/docx';
+import {
+  CATEGORY_ENTITY_TYPES,
+  MERGE_ENTITY_TYPES,
+  MergeEntityType,
+  MergeRecordOption,
+  loadMergeValues,
+  matchPlaceholderValues,
+  searchMergeRecords,
+} from '@/lib/document-merge';
+import { printHtmlDocument } from '@/lib/print';
+import { CustomDropdown } from '@/components/ui/custom-dropdown';
+import { showAlert } from '@/lib/sweetalert';
+
+type GenerateDocumentModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  template: DocumentTemplate;
+};
+
+export function GenerateDocumentModal({ isOpen, onClose, template }: GenerateDocumentModalProps) {
+  const version = template.published_version || template.versions[0] || null;
+
+  const [fileData, setFileData] = useState<ArrayBuffer | null>(null);
+  const [placeholders, setPlaceholders] = useState<string[]>([]);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [entityType, setEntityType] = useState<MergeEntityType>(CATEGORY_ENTITY_TYPES[template.category || ''] || 'client');
+  const [recordSearch, setRecordSearch] = useState('');
+  const [debouncedSearch] = useDebounce(recordSearch, 400);
+  const [records, setRecords] = useState<MergeRecordOption[]>([]);
+  const [recordId, setRecordId] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingRecord, setIsLoadingRecord] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the template file and the fields it uses
+  useEffect(() => {
+    if (!isOpen || !version || version.file_type !== 'docx') return;
+    const loadTemplate = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const data = await (await apiClient.downloadVersion(version.id)).arrayBuffer();
+        const names = extractDocxPlaceholders(data);
+        setFileData(data);
+        setPlaceholders(names);
+        setValues(Object.fromEntries(names.map((name) => [name, ''])));
+      } catch (err: any) {
+        console.error('Failed to load template:', err);
+        setError(err.message || 'Failed to load the template file.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadTemplate();
+  }, [isOpen, version]);
+
+  // Records of the chosen type for the picker
+  useEffect(() => {
+    if (!isOpen) return;
+    searchMergeRecords(entityType, debouncedSearch)
+      .then(setRecords)
+      .catch((err) => {
+        console.error('Failed to search records:', err);
+        setRecords([]);
+      });
+  }, [isOpen, entityType, debouncedSearch]);
+
+  if (!isOpen) return null;
+
+  const handleEntityTypeChange = (value: string) => {
+    setEntityType(value as MergeEntityType);
+    setRecordId('');
+    setRecordSearch('');
+  };
+
+  const handleRecordChange = async (value: string) => {
+    setRecordId(value);
+    if (!value) return;
+    setIsLoadingRecord(true);
+    try {
+      const resolved = matchPlaceholderValues(placeholders, await loadMergeValues(entityType, parseInt(value)));
+      // Keep anything typed by hand for fields the record does not provide
+      setValues((prev) =>
+        Object.fromEntries(placeholders.map((name) => [name, resolved[name] || prev[name] || '']))
+      );
+    } catch (err: any) {
+      console.error('Failed to load record:', err);
+      showAlert('Error', err.message || 'Failed to load the selected record.', 'error');
+    } finally {
+      setIsLoadingRecord(false);
+    }
+  };
+
+  const recordLabel = records.find((record) => record.id.toString() === recordId)?.label;
+  const fileName = [template.title, recordLabel].filter(Boolean).join(' - ');
+
+  const handleDownloadDocx = () => {
+    if (!fileData) return;
+    try {
+      const url = window.URL.createObjectURL(fillDocx(fileData, values));
+      const link = window.document.createElement('a');
+      link.href = url;
+      link.download = `${fileName}.docx`;
+      window.document.body.appendChild(link);
+      link.click();
+      window.document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error('Failed to generate document:', err);
+      showAlert('Error', err.message || 'Failed to generate the document.', 'error');
+    }
+  };
+
+  const handlePrintPdf = async () => {
+    if (!fileData) return;
+    try {
+      const filled = await fillDocx(fileData, values).arrayBuffer();
+      await printHtmlDocument(fileName, renderDocxHtml(filled), DOCX_HTML_STYLES);
+    } catch (err: any) {
+      console.error('Failed to print document:', err);
+      showAlert('Error', err.message || 'Failed to print the document.', 'error');
+    }
+  };
+
+  const missingCount = placeholders.filter((name) => !values[name]?.trim()).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="flex max-h-[90vh] w-full max-w-3xl flex-col rounded-lg bg-white shadow-xl dark:bg-gray-900">
+        <div className="flex items-center justify-between border-b p-6 dark:border-gray-800">
+          <div>
+            <h2 className="text-2xl font-semibold text-gray-900 dark:text-white">Generate Document</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {template.title}
+              {version && ` · v${version.version_number}`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-2 text-gray-400 hover:bg-gray-100 hover:text-gray-600 dark:hover:bg-gray-800 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-6 overflow-y-auto p-6">
+          {!version || version.file_type !== 'docx' ? (
+            <div className="flex items-center gap-2 rounded-lg bg-yellow-50 p-4 text-sm text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              Only DOCX templates can be generated. Upload a DOCX version with {'{{placeholder}}'} fields to use this
+              template for mail merge.
+            </div>
+          ) : isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-sky-500" />
+              <p className="ml-3 text-gray-500">Reading template...</p>
+            </div>
+          ) : error ? (
+            <div className="flex items-center gap-2 rounded-lg bg-red-50 p-4 text-sm text-red-700 dark:bg-red-900/20 dark:text-red-400">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              {error}
+            </div>
+          ) : (
+            <>
+              <div>
+                <h3 className="mb-3 text-sm font-semibold text-gray-900 dark:text-white">Fill From</h3>
+                <div className="grid grid-cols-1 gap-3 sm:grid-cols-[160px_1fr_1fr]">
+                  <CustomDropdown
+                    value={entityType}
+                    onChange={handleEntityTypeChange}
+                    options={MERGE_ENTITY_TYPES.map((type) => ({ value: type.key, label: type.label }))}
+                  />
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                    <input
+                      type="text"
+                      value={recordSearch}
+                      onChange={(e) => setRecordSearch(e.target.value)}
+                      placeholder="Search records..."
+                      className="w-full rounded-lg border border-gray-300 bg-white py-2 pl-9 pr-3 text-sm text-gray-900 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                    />
+                  </div>
+                  <CustomDropdown
+                    value={recordId}
+                    onChange={handleRecordChange}
+                    options={records.map((record) => ({ value: record.id.toString(), label: record.label }))}
+                    placeholder={records.length > 0 ? 'Select a record' : 'No matching records'}
+                    disabled={isLoadingRecord}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="mb-3 flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+                    Fields ({placeholders.length})
+                  </h3>
+                  {isLoadingRecord && <Loader2 className="h-4 w-4 animate-spin text-sky-500" />}
+                </div>
+                {placeholders.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    This template has no {'{{placeholder}}'} fields; it will be generated as it is.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {placeholders.map((name) => (
+                      <div key={name} className="grid grid-cols-1 items-center gap-2 sm:grid-cols-[200px_1fr]">
+                        <label className="font-mono text-xs text-gray-600 dark:text-gray-400">{`{{${name}}}`}</label>
+                        <input
+                          type="text"
+                          value={values[name] || ''}
+                          onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                          className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 border-t p-6 dark:border-gray-800">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {fileData && missingCount > 0 && `${missingCount} ${missingCount === 1 ? 'field is' : 'fields are'} empty`}
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={handlePrintPdf}
+              disabled={!fileData}
+              className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+            >
+              <Printer className="h-4 w-4" />
+              Print / Save PDF
+            </button>
+            <button
+              onClick={handleDownloadDocx}
+              disabled={!fileData}
+              className="flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" />
+              Download DOCX
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { X, Download, ZoomIn, ZoomOut, ChevronLeft, ChevronRight, AlertCircle, Printer } from 'lucide-react';
 import { useState, useEffect } from 'react';
+import { DocxPreview } from '@/components/documents/docx-preview';
 
 type PreviewModalProps = {
   isOpen: boolean;
@@ -147,20 +148,7 @@ export function PreviewModal({
             />
             )
           ) : (
-            <div className="flex h-[800px] items-center justify-center">
-              <div className="text-center">
-                <p className="text-gray-600">
-                  DOCX preview not available in browser
-                </p>
-                <button
-                  onClick={onDownload}
-                  className="mt-4 flex items-center gap-2 rounded-lg bg-sky-500 px-4 py-2 text-sm font-medium text-white hover:bg-sky-600"
-                >
-                  <Download className="h-4 w-4" />
-                  Download to View
-                </button>
-              </div>
-            </div>
+            <DocxPreview fileUrl={fileUrl} onDownload={onDownload} />
           )}
         </div>
       </div>
@@ -0,0 +1,237 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { AlertCircle, ArrowRight, Check, Loader2 } from 'lucide-react';
+import { DocumentVersion } from '@/types';
+import { extractDocxParagraphs } from '@/lib/docx';
+import { extractPdfParagraphs } from '@/lib/pdf-text';
+import { ParagraphDiff, diffParagraphs, summarizeDiff } from '@/lib/text-diff';
+import { CustomDropdown } from '@/components/ui/custom-dropdown';
+
+type VersionCompareProps = {
+  versions: DocumentVersion[]; // Newest first
+  onSetPublished?: (versionId: number) => void; // Omitted for users who can't publish
+};
+
+async function loadParagraphs(fileUrl: string, fileType: DocumentVersion['file_type']): Promise<string[]> {
+  const response = await fetch(fileUrl, { method: 'GET', credentials: 'include' });
+  if (!response.ok) throw new Error('A version could not be loaded.');
+  const data = await response.arrayBuffer();
+  return fileType === 'docx' ? extractDocxParagraphs(data) : extractPdfParagraphs(data);
+}
+
+// Unchanged paragraphs kept around each change when unchanged text is collapsed
+const CONTEXT_PARAGRAPHS = 1;
+
+export function VersionCompare({ versions, onSetPublished }: VersionCompareProps) {
+  const [baseId, setBaseId] = useState(versions[1]?.id.toString() || '');
+  const [targetId, setTargetId] = useState(versions[0]?.id.toString() || '');
+  const [diff, setDiff] = useState<ParagraphDiff[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [emptySide, setEmptySide] = useState<'base' | 'target' | null>(null);
+
+  const base = versions.find((version) => version.id.toString() === baseId);
+  const target = versions.find((version) => version.id.toString() === targetId);
+  const baseUrl = base?.file_url;
+  const baseType = base?.file_type;
+  const targetUrl = target?.file_url;
+  const targetType = target?.file_type;
+
+  useEffect(() => {
+    if (!baseUrl || !baseType || !targetUrl || !targetType) return;
+    let cancelled = false;
+    const compare = async () => {
+      setIsLoading(true);
+      setError(null);
+      setDiff(null);
+      try {
+        const [oldParagraphs, newParagraphs] = await Promise.all([
+          loadParagraphs(baseUrl, baseType),
+          loadParagraphs(targetUrl, targetType),
+        ]);
+        if (cancelled) return;
+        // A PDF without extractable text (e.g. a scan) would otherwise show as entirely removed or added
+        setEmptySide(oldParagraphs.length === 0 ? 'base' : newParagraphs.length === 0 ? 'target' : null);
+        setDiff(diffParagraphs(oldParagraphs, newParagraphs));
+      } catch (err: any) {
+        console.error('Failed to compare versions:', err);
+        if (!cancelled) setError(err.message || 'Failed to compare the versions.');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    compare();
+    return () => {
+      cancelled = true;
+    };
+  }, [baseUrl, baseType, targetUrl, targetType]);
+
+  const summary = useMemo(() => (diff ? summarizeDiff(diff) : null), [diff]);
+
+  // Indexes of unchanged paragraphs to show: all of them, or only those next to a change
+  const visible = useMemo(() => {
+    if (!diff) return new Set<number>();
+    return new Set(
+      diff
+        .map((_, index) => index)
+        .filter(
+          (index) =>
+            showUnchanged ||
+            diff
+              .slice(Math.max(index - CONTEXT_PARAGRAPHS, 0), index + CONTEXT_PARAGRAPHS + 1)
+              .some((entry) => entry.type !== 'equal')
+        )
+    );
+  }, [diff, showUnchanged]);
+
+  const versionOptions = versions.map((version) => ({
+    value: version.id.toString(),
+    label: `v${version.version_number} (${version.file_type.toUpperCase()})${version.is_published ? ' · Published' : ''}`,
+  }));
+
+  if (versions.length < 2) {
+    return (
+      <p className="py-12 text-center text-gray-500 dark:text-gray-400">
+        Upload another version to compare it with this one.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <CustomDropdown value={baseId} onChange={setBaseId} options={versionOptions} containerClassName="w-56" />
+        <ArrowRight className="h-4 w-4 text-gray-400" />
+        <CustomDropdown value={targetId} onChange={setTargetId} options={versionOptions} containerClassName="w-56" />
+        <div className="ml-auto flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={showUnchanged}
+              onChange={(e) => setShowUnchanged(e.target.checked)}
+              className="rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+            />
+            Show unchanged
+          </label>
+          {target &&
+            (target.is_published ? (
+              <span className="inline-flex items-center gap-1 rounded-full bg-green-100 px-2.5 py-0.5 text-xs font-medium text-green-800 dark:bg-green-900/30 dark:text-green-400">
+                <Check className="h-3 w-3" />
+                v{target.version_number} Published
+              </span>
+            ) : (
+              onSetPublished && (
+                <button
+                  onClick={() => onSetPublished(target.id)}
+                  className="rounded-lg bg-sky-500 px-3 py-1.5 text-sm font-medium text-white hover:bg-sky-600"
+                >
+                  Publish v{target.version_number}
+                </button>
+              )
+            ))}
+        </div>
+      </div>
+
+      {summary && (
+        <div className="flex flex-wrap gap-2 text-xs font-medium">
+          <span className="rounded-full bg-green-100 px-2.5 py-0.5 text-green-800 dark:bg-green-900/30 dark:text-green-400">
+            +{summary.inserted} added
+          </span>
+          <span className="rounded-full bg-red-100 px-2.5 py-0.5 text-red-800 dark:bg-red-900/30 dark:text-red-400">
+            −{summary.removed} removed
+          </span>
+          <span className="rounded-full bg-yellow-100 px-2.5 py-0.5 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400">
+            ~{summary.changed} changed
+          </span>
+          <span className="rounded-full bg-gray-100 px-2.5 py-0.5 text-gray-700 dark:bg-gray-800 dark:text-gray-400">
+            {summary.unchanged} unchanged
+          </span>
+        </div>
+      )}
+
+      {emptySide && (
+        <div className="flex items-center gap-2 rounded-lg bg-yellow-50 p-3 text-sm text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          No text could be read from v{(emptySide === 'base' ? base : target)?.version_number}. Scanned PDFs and some embedded fonts cannot be compared.
+        </div>
+      )}
+
+      <div className="max-h-[480px] overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-sky-500" />
+            <p className="ml-3 text-gray-500">Comparing versions...</p>
+          </div>
+        ) : error ? (
+          <div className="flex items-center gap-2 p-4 text-sm text-red-700 dark:text-red-400">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            {error}
+          </div>
+        ) : baseId === targetId ? (
+          <p className="py-12 text-center text-gray-500 dark:text-gray-400">Choose two different versions to compare.</p>
+        ) : diff && summary && summary.inserted + summary.removed + summary.changed === 0 ? (
+          <p className="py-12 text-center text-gray-500 dark:text-gray-400">The text of these versions is identical.</p>
+        ) : (
+          <div className="divide-y divide-gray-100 text-sm dark:divide-gray-800">
+            {diff?.map((entry, index) => {
+              if (!visible.has(index)) {
+                // One marker for each run of hidden paragraphs
+                return visible.has(index - 1) || index === 0 ? (
+                  <div key={index} className="bg-gray-50 px-4 py-1 text-xs text-gray-400 dark:bg-gray-800/50">
+                    ⋯
+                  </div>
+                ) : null;
+              }
+              if (entry.type === 'insert') {
+                return (
+                  <div key={index} className="flex gap-3 bg-green-50 px-4 py-2 text-green-900 dark:bg-green-900/20 dark:text-green-300">
+                    <span className="select-none font-mono">+</span>
+                    <p className="whitespace-pre-wrap">{entry.newText}</p>
+                  </div>
+                );
+              }
+              if (entry.type === 'delete') {
+                return (
+                  <div key={index} className="flex gap-3 bg-red-50 px-4 py-2 text-red-900 line-through dark:bg-red-900/20 dark:text-red-300">
+                    <span className="select-none font-mono no-underline">−</span>
+                    <p className="whitespace-pre-wrap">{entry.oldText}</p>
+                  </div>
+                );
+              }
+              if (entry.type === 'change') {
+                return (
+                  <div key={index} className="flex gap-3 bg-yellow-50 px-4 py-2 text-gray-900 dark:bg-yellow-900/10 dark:text-gray-100">
+                    <span className="select-none font-mono text-yellow-700 dark:text-yellow-400">~</span>
+                    <p className="whitespace-pre-wrap">
+                      {entry.parts?.map((part, partIndex) =>
+                        part.type === 'insert' ? (
+                          <ins key={partIndex} className="bg-green-200 no-underline dark:bg-green-800/60">
+                            {part.text}
+                          </ins>
+                        ) : part.type === 'delete' ? (
+                          <del key={partIndex} className="bg-red-200 dark:bg-red-800/60">
+                            {part.text}
+                          </del>
+                        ) : (
+                          <span key={partIndex}>{part.text}</span>
+                        )
+                      )}
+                    </p>
+                  </div>
+                );
+              }
+              return (
+                <div key={index} className="flex gap-3 px-4 py-2 text-gray-500 dark:text-gray-400">
+                  <span className="select-none font-mono"> </span>
+                  <p className="whitespace-pre-wrap">{entry.newText}</p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
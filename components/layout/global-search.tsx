@@ -0,0 +1,176 @@
+"use client";
+
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { useDebounce } from "use-debounce";
+import { Search, Loader2, CornerDownLeft, X } from "lucide-react";
+import { useAuth } from "@/components/providers/auth-provider";
+import { hasPermission } from "@/lib/auth";
+import { GlobalSearchGroup, GlobalSearchResult, searchAllModules } from "@/lib/global-search";
+
+interface GlobalSearchProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Minimum characters before querying every module
+const MIN_QUERY_LENGTH = 2;
+
+export function GlobalSearch({ isOpen, onClose }: GlobalSearchProps) {
+  const router = useRouter();
+  const { user } = useAuth();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery] = useDebounce(query.trim(), 300);
+  const [groups, setGroups] = useState<GlobalSearchGroup[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // Flat list of results for keyboard navigation
+  const flatResults = useMemo(() => groups.flatMap((group) => group.results), [groups]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery("");
+      setGroups([]);
+      setActiveIndex(0);
+      inputRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || debouncedQuery.length < MIN_QUERY_LENGTH) {
+      setGroups([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    searchAllModules(debouncedQuery, (module) => hasPermission(user, module))
+      .then((results) => {
+        // Ignore responses for a query the user has already moved past
+        if (cancelled) return;
+        setGroups(results);
+        setActiveIndex(0);
+      })
+      .finally(() => {
+        if (!cancelled) setIsSearching(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery, isOpen, user]);
+
+  const openResult = (result: GlobalSearchResult) => {
+    onClose();
+    router.push(result.href);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      onClose();
+    } else if (e.key === "ArrowDown" && flatResults.length > 0) {
+      e.preventDefault();
+      setActiveIndex((prev) => (prev + 1) % flatResults.length);
+    } else if (e.key === "ArrowUp" && flatResults.length > 0) {
+      e.preventDefault();
+      setActiveIndex((prev) => (prev - 1 + flatResults.length) % flatResults.length);
+    } else if (e.key === "Enter" && flatResults[activeIndex]) {
+      e.preventDefault();
+      openResult(flatResults[activeIndex]);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const hasQuery = debouncedQuery.length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black bg-opacity-30" onClick={onClose} />
+      <div className="flex min-h-full items-start justify-center p-4 pt-[10vh]">
+        <div className="relative w-full max-w-2xl rounded-lg bg-white shadow-xl dark:bg-gray-800">
+          {/* Search input */}
+          <div className="flex items-center gap-3 border-b border-gray-200 px-4 dark:border-gray-700">
+            <Search className="h-5 w-5 text-gray-400" />
+            <input
+              ref={inputRef}
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Search clients, AMCs, tenders, projects, tasks, people, documents..."
+              className="h-14 flex-1 bg-transparent text-sm text-gray-900 placeholder-gray-400 focus:outline-none dark:text-white"
+            />
+            {isSearching && <Loader2 className="h-4 w-4 animate-spin text-sky-600" />}
+            <button
+              onClick={onClose}
+              className="rounded-lg p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600 dark:hover:bg-gray-700 dark:hover:text-gray-300"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          {/* Results */}
+          <div className="max-h-[60vh] overflow-y-auto p-2">
+            {!hasQuery ? (
+              <p className="px-3 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                Type at least {MIN_QUERY_LENGTH} characters to search across all modules
+              </p>
+            ) : groups.length === 0 && !isSearching ? (
+              <p className="px-3 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                No results for &quot;{debouncedQuery}&quot;
+              </p>
+            ) : (
+              groups.map((group) => (
+                <div key={group.module} className="mb-2">
+                  <div className="px-3 py-1.5 text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                    {group.label}
+                  </div>
+                  {group.results.map((result) => {
+                    const index = flatResults.indexOf(result);
+                    const isActive = index === activeIndex;
+                    return (
+                      <button
+                        key={result.key}
+                        onClick={() => openResult(result)}
+                        onMouseEnter={() => setActiveIndex(index)}
+                        className={`flex w-full items-center justify-between rounded-lg px-3 py-2 text-left ${
+                          isActive ? "bg-sky-50 dark:bg-sky-900/30" : "hover:bg-gray-50 dark:hover:bg-gray-700"
+                        }`}
+                      >
+                        <div className="min-w-0">
+                          <div className="truncate text-sm font-medium text-gray-900 dark:text-white">{result.title}</div>
+                          {result.subtitle && (
+                            <div className="truncate text-xs text-gray-500 dark:text-gray-400">{result.subtitle}</div>
+                          )}
+                        </div>
+                        {isActive && <CornerDownLeft className="h-4 w-4 flex-shrink-0 text-sky-600 dark:text-sky-400" />}
+                      </button>
+                    );
+                  })}
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="flex items-center gap-4 border-t border-gray-200 px-4 py-2 text-xs text-gray-500 dark:border-gray-700 dark:text-gray-400">
+            <span>
+              <kbd className="rounded border border-gray-300 px-1 dark:border-gray-600">↑</kbd>{" "}
+              <kbd className="rounded border border-gray-300 px-1 dark:border-gray-600">↓</kbd> to navigate
+            </span>
+            <span>
+              <kbd className="rounded border border-gray-300 px-1 dark:border-gray-600">Enter</kbd> to open
+            </span>
+            <span>
+              <kbd className="rounded border border-gray-300 px-1 dark:border-gray-600">Esc</kbd> to close
+            </span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
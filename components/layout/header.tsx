@@ -1,12 +1,14 @@
 "use client";
 
 import Image from "next/image";
-import { Bell, Moon, Sun, User, Settings, LogOut, GraduationCap } from "lucide-react";
+import { Bell, Moon, Sun, User, Settings, LogOut, GraduationCap, Search } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useState, useRef, useEffect, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { cn } from "@/lib/utils";
 import { NotificationsDropdown } from "@/components/notifications/notifications-dropdown";
+import { GlobalSearch } from "@/components/layout/global-search";
+import { SyncIndicator } from "@/components/layout/sync-indicator";
 import { showConfirm } from "@/lib/sweetalert";
 import { useAuth } from "@/components/providers/auth-provider";
 import { apiClient } from "@/lib/api";
@@ -18,6 +20,7 @@ export function Header({ title, breadcrumbs }: { title: string; breadcrumbs?: st
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [showNotifications, setShowNotifications] = useState(false);
   const [unreadCount, setUnreadCount] = useState(0);
+  const [showSearch, setShowSearch] = useState(false);
   const userMenuRef = useRef<HTMLDivElement>(null);
   const notificationRef = useRef<HTMLDivElement>(null);
 
@@ -59,6 +62,19 @@ export function Header({ title, breadcrumbs }: { title: string; breadcrumbs?: st
     document.documentElement.classList.toggle("dark", newTheme === "dark");
   };
 
+  // Ctrl+K / Cmd+K opens global search from anywhere
+  useEffect(() => {
+    function handleShortcut(event: KeyboardEvent) {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        setShowSearch(true);
+      }
+    }
+
+    document.addEventListener("keydown", handleShortcut);
+    return () => document.removeEventListener("keydown", handleShortcut);
+  }, []);
+
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
       if (userMenuRef.current && !userMenuRef.current.contains(event.target as Node)) {
@@ -103,6 +119,26 @@ export function Header({ title, breadcrumbs }: { title: string; breadcrumbs?: st
         </div>
 
         <div className="flex items-center gap-4">
+          <button
+            onClick={() => setShowSearch(true)}
+            className="hidden items-center gap-2 rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-500 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-800 md:flex"
+          >
+            <Search className="h-4 w-4" />
+            <span>Search...</span>
+            <kbd className="rounded border border-gray-300 px-1.5 text-xs dark:border-gray-600">Ctrl K</kbd>
+          </button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setShowSearch(true)}
+            className="md:hidden"
+            title="Search"
+          >
+            <Search className="h-5 w-5" />
+          </Button>
+
+          <SyncIndicator />
+
           <Button
             variant="ghost"
             size="icon"
@@ -206,6 +242,8 @@ export function Header({ title, breadcrumbs }: { title: string; breadcrumbs?: st
           </div>
         </div>
       </div>
+
+      <GlobalSearch isOpen={showSearch} onClose={() => setShowSearch(false)} />
     </header>
   );
 }
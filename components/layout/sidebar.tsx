@@ -5,6 +5,8 @@ import Link from "next/link";
 import Image from "next/image";
 import { usePathname } from "next/navigation";
 import { cn } from "@/lib/utils";
+import { AppModule } from "@/lib/auth";
+import { useAuth } from "@/components/providers/auth-provider";
 import {
   LayoutDashboard,
   FileText,
@@ -16,6 +18,7 @@ import {
   UserCircle,
   HardHat,
   CalendarCheck,
+  CalendarOff,
   Wallet,
   CreditCard,
   Package,
@@ -29,49 +32,55 @@ import {
   ChevronRight,
 } from "lucide-react";
 
-const navigationGroups = [
+type NavigationGroup = {
+  title: string;
+  items: { name: string; href: string; icon: typeof LayoutDashboard; module: AppModule }[];
+};
+
+const navigationGroups: NavigationGroup[] = [
   {
     title: "Main",
     items: [
-      { name: "Dashboard", href: "/dashboard", icon: LayoutDashboard },
-      { name: "Documents", href: "/documents", icon: FileText },
-      { name: "Clients", href: "/clients", icon: Users },
-      { name: "AMCs", href: "/amcs", icon: FileCheck },
-      { name: "Tenders", href: "/tenders", icon: Briefcase },
-      { name: "Projects", href: "/projects", icon: FolderKanban },
-      { name: "Tasks", href: "/tasks", icon: CheckSquare },
+      { name: "Dashboard", href: "/dashboard", icon: LayoutDashboard, module: "dashboard" },
+      { name: "Documents", href: "/documents", icon: FileText, module: "documents" },
+      { name: "Clients", href: "/clients", icon: Users, module: "clients" },
+      { name: "AMCs", href: "/amcs", icon: FileCheck, module: "amcs" },
+      { name: "Tenders", href: "/tenders", icon: Briefcase, module: "tenders" },
+      { name: "Projects", href: "/projects", icon: FolderKanban, module: "projects" },
+      { name: "Tasks", href: "/tasks", icon: CheckSquare, module: "tasks" },
     ],
   },
   {
     title: "People & Payroll",
     items: [
-      { name: "Employees", href: "/employees", icon: UserCircle },
-      { name: "Contract Workers", href: "/contract-workers", icon: HardHat },
-      { name: "Attendance", href: "/attendance", icon: CalendarCheck },
-      { name: "Payroll", href: "/payroll", icon: Wallet },
-      { name: "Payment Tracking", href: "/payments", icon: CreditCard },
+      { name: "Employees", href: "/employees", icon: UserCircle, module: "employees" },
+      { name: "Contract Workers", href: "/contract-workers", icon: HardHat, module: "contract-workers" },
+      { name: "Attendance", href: "/attendance", icon: CalendarCheck, module: "attendance" },
+      { name: "Leave", href: "/leave", icon: CalendarOff, module: "leave" },
+      { name: "Payroll", href: "/payroll", icon: Wallet, module: "payroll" },
+      { name: "Payment Tracking", href: "/payments", icon: CreditCard, module: "payments" },
     ],
   },
   {
     title: "Inventory & Resources",
     items: [
-      { name: "Stock", href: "/resources", icon: Package },
-      { name: "Task Resources", href: "/task-resources", icon: ListTodo },
+      { name: "Stock", href: "/resources", icon: Package, module: "resources" },
+      { name: "Task Resources", href: "/task-resources", icon: ListTodo, module: "task-resources" },
     ],
   },
   {
     title: "Reports & Automation",
     items: [
-      { name: "Notifications", href: "/notifications", icon: Bell },
-      { name: "Email Templates", href: "/email-templates", icon: Mail },
+      { name: "Notifications", href: "/notifications", icon: Bell, module: "notifications" },
+      { name: "Email Templates", href: "/email-templates", icon: Mail, module: "email-templates" },
     ],
   },
   {
     title: "System & Admin",
     items: [
-      { name: "Bank Accounts", href: "/bank-accounts", icon: Building2 },
-      { name: "Holiday Calendar", href: "/holiday-calendar", icon: Calendar },
-      { name: "Settings", href: "/settings", icon: Settings },
+      { name: "Bank Accounts", href: "/bank-accounts", icon: Building2, module: "bank-accounts" },
+      { name: "Holiday Calendar", href: "/holiday-calendar", icon: Calendar, module: "holiday-calendar" },
+      { name: "Settings", href: "/settings", icon: Settings, module: "settings" },
     ],
   },
 ];
@@ -79,6 +88,12 @@ const navigationGroups = [
 export function Sidebar() {
   const [collapsed, setCollapsed] = useState(false);
   const pathname = usePathname();
+  const { hasPermission } = useAuth();
+
+  // Only show modules the current user's role can read
+  const visibleGroups = navigationGroups
+    .map((group) => ({ ...group, items: group.items.filter((item) => hasPermission(item.module)) }))
+    .filter((group) => group.items.length > 0);
 
   return (
     <aside
@@ -141,7 +156,7 @@ export function Sidebar() {
         </button>
 
         <nav className="flex-1 overflow-y-auto p-4 space-y-6">
-          {navigationGroups.map((group) => (
+          {visibleGroups.map((group) => (
             <div key={group.title}>
               {!collapsed && (
                 <h3 className="mb-2 px-2 text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
@@ -0,0 +1,261 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Cloud, CloudOff, RefreshCw, AlertCircle, Trash2, RotateCcw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { apiClient } from "@/lib/api";
+import {
+  OFFLINE_QUEUE_EVENT,
+  QueuedRequest,
+  getQueuedRequests,
+  isOfflineModeEnabled,
+  isOfflineQueueSupported,
+  removeQueuedRequest,
+  setOfflineModeEnabled,
+} from "@/lib/offline-queue";
+import { showDeleteConfirm, showWarning } from "@/lib/sweetalert";
+
+const SYNC_RETRY_INTERVAL_MS = 60_000;
+
+/**
+ * Readable description of a queued request, e.g. "POST /api/tasks/"
+ */
+function describeRequest(item: QueuedRequest): string {
+  const path = item.endpoint.split("?")[0];
+  return `${item.method} ${path}`;
+}
+
+/**
+ * Header indicator for offline mode: connection state, requests waiting to sync and
+ * requests the server rejected on replay
+ */
+export function SyncIndicator() {
+  const [isSupported, setIsSupported] = useState(false);
+  const [items, setItems] = useState<QueuedRequest[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  const [offlineEnabled, setOfflineEnabled] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [showPanel, setShowPanel] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const loadQueue = useCallback(async () => {
+    setOfflineEnabled(isOfflineModeEnabled());
+    try {
+      setItems(await getQueuedRequests());
+    } catch (err) {
+      console.error("Error loading offline queue:", err);
+    }
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      const result = await apiClient.replayOfflineQueue();
+      if (result.failed > 0) {
+        showWarning(
+          "A change could not be synced",
+          `An offline change was rejected by the server${
+            result.remaining > 0 ? ` and ${result.remaining} later change(s) are on hold until it is retried or discarded` : ""
+          }. Open the sync panel to review it.`
+        );
+      }
+    } finally {
+      setIsSyncing(false);
+      loadQueue();
+    }
+  }, [loadQueue]);
+
+  useEffect(() => {
+    if (!isOfflineQueueSupported()) return;
+
+    setIsSupported(true);
+    setIsOnline(navigator.onLine);
+    loadQueue().then(() => {
+      // Sync anything left over from an earlier session
+      if (navigator.onLine) syncNow();
+    });
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    window.addEventListener(OFFLINE_QUEUE_EVENT, loadQueue);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      window.removeEventListener(OFFLINE_QUEUE_EVENT, loadQueue);
+    };
+  }, [loadQueue, syncNow]);
+
+  // A connection that drops without the browser noticing fires no "online" event when it returns,
+  // so changes queued after a network error are retried periodically
+  const hasPending = items.some((item) => item.status === "pending");
+  useEffect(() => {
+    if (!hasPending) return;
+    const timer = window.setInterval(() => {
+      if (navigator.onLine) syncNow();
+    }, SYNC_RETRY_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [hasPending, syncNow]);
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setShowPanel(false);
+      }
+    }
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const handleRetry = async (item: QueuedRequest) => {
+    setIsSyncing(true);
+    try {
+      await apiClient.retryOfflineRequest(item);
+    } finally {
+      setIsSyncing(false);
+      loadQueue();
+    }
+  };
+
+  const handleDiscard = async (item: QueuedRequest) => {
+    const confirmed = await showDeleteConfirm("this offline change");
+    if (!confirmed) return;
+    await removeQueuedRequest(item.id);
+    // Changes held behind the discarded one can now go through
+    if (navigator.onLine) syncNow();
+  };
+
+  // Only rendered after mount since IndexedDB is unavailable during server rendering
+  if (!isSupported) return null;
+
+  const pendingCount = items.filter((item) => item.status === "pending").length;
+  const failedCount = items.filter((item) => item.status === "failed").length;
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => setShowPanel(!showPanel)}
+        title={
+          !isOnline
+            ? "Offline"
+            : pendingCount > 0
+            ? `${pendingCount} change(s) waiting to sync`
+            : "Online"
+        }
+      >
+        {isSyncing ? (
+          <RefreshCw className="h-5 w-5 animate-spin text-sky-600" />
+        ) : isOnline ? (
+          <Cloud className="h-5 w-5" />
+        ) : (
+          <CloudOff className="h-5 w-5 text-amber-600" />
+        )}
+        {items.length > 0 && (
+          <span
+            className={cn(
+              "absolute right-1 top-1 flex h-5 w-5 items-center justify-center rounded-full text-xs font-semibold text-white",
+              failedCount > 0 ? "bg-red-500" : "bg-amber-500"
+            )}
+          >
+            {items.length}
+          </span>
+        )}
+      </Button>
+
+      {showPanel && (
+        <div className="absolute right-0 top-12 z-50 w-96 rounded-lg border bg-white shadow-lg dark:border-gray-800 dark:bg-gray-900">
+          <div className="border-b p-4 dark:border-gray-800">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">Pending Sync</h3>
+              <span className={cn("text-xs font-medium", isOnline ? "text-green-600 dark:text-green-400" : "text-amber-600 dark:text-amber-400")}>
+                {isOnline ? "Online" : "Offline"}
+              </span>
+            </div>
+            <label className="mt-3 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={offlineEnabled}
+                onChange={(e) => setOfflineModeEnabled(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+              />
+              Save changes offline on this device
+            </label>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Changes made without a connection are kept here and synced in order when you are back online.
+            </p>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto">
+            {items.length === 0 ? (
+              <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">All changes are synced</p>
+            ) : (
+              <ul className="divide-y dark:divide-gray-800">
+                {items.map((item) => (
+                  <li key={item.id} className="p-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="truncate font-mono text-xs text-gray-900 dark:text-white">{describeRequest(item)}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          Saved {formatDistanceToNow(new Date(item.queued_at), { addSuffix: true })}
+                        </p>
+                        {item.status === "failed" && (
+                          <p className="mt-1 flex items-start gap-1 text-xs text-red-600 dark:text-red-400">
+                            <AlertCircle className="mt-0.5 h-3 w-3 flex-shrink-0" />
+                            {item.error}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex flex-shrink-0 items-center gap-1">
+                        {item.status === "failed" && (
+                          <button
+                            onClick={() => handleRetry(item)}
+                            disabled={isSyncing || !isOnline}
+                            className="rounded p-1 text-sky-600 hover:bg-sky-50 disabled:opacity-50 dark:text-sky-400 dark:hover:bg-sky-900/30"
+                            title="Retry"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDiscard(item)}
+                          disabled={isSyncing}
+                          className="rounded p-1 text-red-600 hover:bg-red-50 disabled:opacity-50 dark:text-red-400 dark:hover:bg-red-900/30"
+                          title="Discard"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {pendingCount > 0 && (
+            <div className="border-t p-3 dark:border-gray-800">
+              <button
+                onClick={syncNow}
+                disabled={isSyncing || !isOnline}
+                className="flex w-full items-center justify-center gap-2 rounded-lg bg-sky-600 px-4 py-2 text-sm font-medium text-white hover:bg-sky-700 disabled:opacity-50"
+              >
+                <RefreshCw className={cn("h-4 w-4", isSyncing && "animate-spin")} />
+                Sync {pendingCount} Change(s) Now
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
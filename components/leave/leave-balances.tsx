@@ -0,0 +1,84 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Loader2 } from "lucide-react";
+import { LeaveBalance, formatLeaveDays, loadLeaveBalances } from "@/lib/leave";
+
+interface LeaveBalancesProps {
+  employeeId: number;
+  joiningDate?: string | null;
+  year?: number;
+}
+
+/**
+ * Leave balance cards for one employee, one per active leave type
+ */
+export function LeaveBalances({ employeeId, joiningDate, year = new Date().getFullYear() }: LeaveBalancesProps) {
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsLoading(true);
+    setError(null);
+    loadLeaveBalances(employeeId, year, joiningDate)
+      .then((result) => {
+        if (!isCancelled) setBalances(result);
+      })
+      .catch((err) => {
+        console.error("Error loading leave balances:", err);
+        if (!isCancelled) setError("Failed to load leave balances");
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [employeeId, joiningDate, year]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading leave balances...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600 dark:text-red-400">{error}</p>;
+  }
+
+  if (balances.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No leave types configured</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
+      {balances.map((balance) => (
+        <div key={balance.leave_type.id} className="rounded-lg bg-gray-50 p-4 dark:bg-gray-900">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{balance.leave_type.name}</p>
+            <span className="text-xs text-gray-400 dark:text-gray-500">{balance.leave_type.code}</span>
+          </div>
+          <p
+            className={`mt-1 text-2xl font-semibold ${
+              balance.available < 0 ? "text-red-600 dark:text-red-400" : "text-gray-900 dark:text-white"
+            }`}
+          >
+            {formatLeaveDays(balance.available)}
+          </p>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {formatLeaveDays(balance.entitled)} accrued
+            {balance.carried_forward > 0 && ` + ${formatLeaveDays(balance.carried_forward)} carried`}
+            {" · "}
+            {formatLeaveDays(balance.used)} taken
+            {balance.pending > 0 && ` · ${formatLeaveDays(balance.pending)} pending`}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
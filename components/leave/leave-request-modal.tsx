@@ -0,0 +1,264 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { format, parseISO } from "date-fns";
+import { Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CustomDropdown } from "@/components/ui/custom-dropdown";
+import { DatePicker } from "@/components/ui/date-picker";
+import {
+  apiClient,
+  fetchAllPages,
+  BackendEmployeeListItem,
+  BackendHolidayCalendarListItem,
+  BackendLeaveType,
+} from "@/lib/api";
+import { LeaveBalance, countLeaveDays, formatLeaveDays, loadLeaveBalances } from "@/lib/leave";
+import { getCompanyHolidayDates, isOptionalHoliday } from "@/lib/working-days";
+import { showAlert } from "@/lib/sweetalert";
+
+interface LeaveRequestModalProps {
+  employees: BackendEmployeeListItem[];
+  leaveTypes: BackendLeaveType[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export function LeaveRequestModal({ employees, leaveTypes, onClose, onSaved }: LeaveRequestModalProps) {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [employeeId, setEmployeeId] = useState<number | null>(null);
+  const [leaveTypeId, setLeaveTypeId] = useState<number | null>(leaveTypes[0]?.id ?? null);
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [isHalfDay, setIsHalfDay] = useState(false);
+  const [optionalHolidayId, setOptionalHolidayId] = useState<number | null>(null);
+  const [reason, setReason] = useState("");
+  const [holidays, setHolidays] = useState<BackendHolidayCalendarListItem[]>([]);
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [isLoadingBalance, setIsLoadingBalance] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const leaveType = leaveTypes.find((type) => type.id === leaveTypeId) || null;
+  const isOptionalHolidayLeave = leaveType?.category === "optional-holiday";
+  const year = parseISO(startDate).getFullYear();
+  const employee = employees.find((item) => item.id === employeeId);
+
+  useEffect(() => {
+    fetchAllPages((page) => apiClient.getHolidays({ year, page }))
+      .then(setHolidays)
+      .catch((err) => console.error("Error fetching holidays:", err));
+  }, [year]);
+
+  useEffect(() => {
+    if (!employeeId) {
+      setBalances([]);
+      return;
+    }
+    let isCancelled = false;
+    setIsLoadingBalance(true);
+    loadLeaveBalances(employeeId, year, employee?.joining_date)
+      .then((result) => {
+        if (!isCancelled) setBalances(result);
+      })
+      .catch((err) => console.error("Error loading leave balance:", err))
+      .finally(() => {
+        if (!isCancelled) setIsLoadingBalance(false);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [employeeId, year, employee?.joining_date]);
+
+  const optionalHolidays = useMemo(() => holidays.filter(isOptionalHoliday), [holidays]);
+  const selectedHoliday = optionalHolidays.find((holiday) => holiday.id === optionalHolidayId);
+
+  const days = isOptionalHolidayLeave
+    ? selectedHoliday
+      ? 1
+      : 0
+    : countLeaveDays(startDate, endDate, getCompanyHolidayDates(holidays), isHalfDay);
+  const balance = balances.find((item) => item.leave_type.id === leaveTypeId);
+
+  const validate = () => {
+    const newErrors: Record<string, string> = {};
+    if (!employeeId) newErrors.employee = "Employee is required";
+    if (!leaveType) newErrors.leaveType = "Leave type is required";
+    if (isOptionalHolidayLeave) {
+      if (!selectedHoliday) newErrors.dates = "Select the optional holiday to take";
+    } else if (endDate < startDate) {
+      newErrors.dates = "End date must be on or after the start date";
+    } else if (days === 0) {
+      newErrors.dates = "The selected dates have no working days";
+    }
+    if (balance && days > balance.available) {
+      newErrors.dates = `Only ${formatLeaveDays(Math.max(0, balance.available))} of ${balance.leave_type.name} available`;
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate() || !employeeId || !leaveTypeId) return;
+
+    const date = selectedHoliday?.date.slice(0, 10);
+    try {
+      setIsSaving(true);
+      await apiClient.createLeaveRequest({
+        employee: employeeId,
+        leave_type: leaveTypeId,
+        start_date: isOptionalHolidayLeave && date ? date : startDate,
+        end_date: isOptionalHolidayLeave && date ? date : endDate,
+        is_half_day: !isOptionalHolidayLeave && isHalfDay,
+        days,
+        optional_holiday: isOptionalHolidayLeave ? optionalHolidayId : null,
+        reason: reason.trim() || undefined,
+      });
+      showAlert("Success", "Leave request created successfully!", "success");
+      onSaved();
+    } catch (err: any) {
+      console.error("Failed to create leave request:", err);
+      showAlert("Save Failed", err.message || "Failed to create leave request.", "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black bg-opacity-30" onClick={onClose} />
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-lg rounded-lg bg-white shadow-xl dark:bg-gray-800">
+          <div className="flex items-center justify-between border-b border-gray-200 p-6 dark:border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">New Leave Request</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4 p-6">
+            <div>
+              <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Employee <span className="text-red-500">*</span>
+              </label>
+              <CustomDropdown
+                value={employeeId ? employeeId.toString() : ""}
+                onChange={(value) => setEmployeeId(value ? parseInt(value) : null)}
+                options={employees.map((item) => ({
+                  value: item.id.toString(),
+                  label: `${item.full_name || item.employee_code} (${item.employee_code})`,
+                }))}
+                placeholder="Select employee"
+              />
+              {errors.employee && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.employee}</p>}
+            </div>
+
+            <div>
+              <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Leave Type <span className="text-red-500">*</span>
+              </label>
+              <CustomDropdown
+                value={leaveTypeId ? leaveTypeId.toString() : ""}
+                onChange={(value) => setLeaveTypeId(value ? parseInt(value) : null)}
+                options={leaveTypes.map((type) => ({ value: type.id.toString(), label: `${type.name} (${type.code})` }))}
+                placeholder="Select leave type"
+              />
+              {errors.leaveType && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.leaveType}</p>}
+              {employeeId && leaveType && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {isLoadingBalance
+                    ? "Loading balance..."
+                    : balance
+                    ? `Available: ${formatLeaveDays(balance.available)} (${formatLeaveDays(balance.entitled + balance.carried_forward)} entitled, ${formatLeaveDays(balance.used)} taken, ${formatLeaveDays(balance.pending)} pending)`
+                    : "No balance for this leave type"}
+                </p>
+              )}
+            </div>
+
+            {isOptionalHolidayLeave ? (
+              <div>
+                <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Optional Holiday <span className="text-red-500">*</span>
+                </label>
+                <CustomDropdown
+                  value={optionalHolidayId ? optionalHolidayId.toString() : ""}
+                  onChange={(value) => setOptionalHolidayId(value ? parseInt(value) : null)}
+                  options={optionalHolidays.map((holiday) => ({
+                    value: holiday.id.toString(),
+                    label: `${holiday.name} (${format(parseISO(holiday.date), "dd MMM yyyy")})`,
+                  }))}
+                  placeholder={optionalHolidays.length ? "Select holiday" : `No optional holidays in ${year}`}
+                />
+                <div className="mt-2">
+                  <label className="mb-1 block text-xs text-gray-500 dark:text-gray-400">Holiday year</label>
+                  <DatePicker value={startDate} onChange={(value) => setStartDate(value)} placeholder="Any date in the year" />
+                </div>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      From <span className="text-red-500">*</span>
+                    </label>
+                    <DatePicker
+                      value={startDate}
+                      onChange={(value) => {
+                        setStartDate(value);
+                        if (value > endDate) setEndDate(value);
+                      }}
+                    />
+                  </div>
+                  <div>
+                    <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      To <span className="text-red-500">*</span>
+                    </label>
+                    <DatePicker value={endDate} onChange={(value) => setEndDate(value)} minDate={startDate} />
+                  </div>
+                </div>
+                {startDate === endDate && (
+                  <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={isHalfDay}
+                      onChange={(e) => setIsHalfDay(e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+                    />
+                    Half day
+                  </label>
+                )}
+              </>
+            )}
+            {errors.dates && <p className="text-sm text-red-600 dark:text-red-400">{errors.dates}</p>}
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Charged: <span className="font-semibold text-gray-900 dark:text-white">{formatLeaveDays(days)}</span>
+              {!isOptionalHolidayLeave && " (Sundays and holidays excluded)"}
+            </p>
+
+            <div>
+              <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">Reason</label>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+                placeholder="Reason for leave..."
+                className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+              />
+            </div>
+
+            <div className="flex justify-end gap-3 pt-2">
+              <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Submit Request
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+"use client";
+
+import { useState } from "react";
+import { Edit, Loader2, Plus, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CustomDropdown } from "@/components/ui/custom-dropdown";
+import { apiClient, BackendLeaveType, LeaveAccrual, LeaveCategory, LeaveTypeCreateData } from "@/lib/api";
+import { showAlert, showDeleteConfirm } from "@/lib/sweetalert";
+
+interface LeaveTypesModalProps {
+  leaveTypes: BackendLeaveType[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const CATEGORY_OPTIONS: { value: LeaveCategory; label: string }[] = [
+  { value: "casual", label: "Casual" },
+  { value: "sick", label: "Sick" },
+  { value: "earned", label: "Earned" },
+  { value: "optional-holiday", label: "Optional Holiday" },
+  { value: "other", label: "Other" },
+];
+
+const ACCRUAL_OPTIONS: { value: LeaveAccrual; label: string }[] = [
+  { value: "yearly", label: "Credited yearly" },
+  { value: "monthly", label: "Accrued monthly" },
+];
+
+const emptyForm = {
+  name: "",
+  code: "",
+  category: "casual" as LeaveCategory,
+  annual_quota: "",
+  accrual: "yearly" as LeaveAccrual,
+  carry_forward_limit: "0",
+  is_active: true,
+};
+
+const inputClassName =
+  "w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white";
+
+export function LeaveTypesModal({ leaveTypes, onClose, onChanged }: LeaveTypesModalProps) {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openForm = (leaveType?: BackendLeaveType) => {
+    setEditingId(leaveType?.id ?? null);
+    setFormData(
+      leaveType
+        ? {
+            name: leaveType.name,
+            code: leaveType.code,
+            category: leaveType.category,
+            annual_quota: String(parseFloat(leaveType.annual_quota) || 0),
+            accrual: leaveType.accrual,
+            carry_forward_limit: String(parseFloat(leaveType.carry_forward_limit) || 0),
+            is_active: leaveType.is_active,
+          }
+        : emptyForm
+    );
+    setErrors({});
+    setIsFormOpen(true);
+  };
+
+  const validate = () => {
+    const newErrors: Record<string, string> = {};
+    if (!formData.name.trim()) newErrors.name = "Name is required";
+    if (!formData.code.trim()) newErrors.code = "Code is required";
+    const quota = parseFloat(formData.annual_quota);
+    if (isNaN(quota) || quota < 0) newErrors.annual_quota = "Enter a valid number of days";
+    const carry = parseFloat(formData.carry_forward_limit);
+    if (isNaN(carry) || carry < 0) newErrors.carry_forward_limit = "Enter a valid number of days";
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    const data: LeaveTypeCreateData = {
+      name: formData.name.trim(),
+      code: formData.code.trim().toUpperCase(),
+      category: formData.category,
+      annual_quota: parseFloat(formData.annual_quota),
+      accrual: formData.accrual,
+      carry_forward_limit: parseFloat(formData.carry_forward_limit),
+      is_active: formData.is_active,
+    };
+    try {
+      setIsSaving(true);
+      if (editingId) {
+        await apiClient.updateLeaveType(editingId, data);
+      } else {
+        await apiClient.createLeaveType(data);
+      }
+      setIsFormOpen(false);
+      onChanged();
+    } catch (err: any) {
+      console.error("Failed to save leave type:", err);
+      showAlert("Save Failed", err.message || "Failed to save leave type.", "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (leaveType: BackendLeaveType) => {
+    const confirmed = await showDeleteConfirm(leaveType.name);
+    if (!confirmed) return;
+    try {
+      await apiClient.deleteLeaveType(leaveType.id);
+      onChanged();
+    } catch (err: any) {
+      console.error("Failed to delete leave type:", err);
+      showAlert("Delete Failed", err.message || "Leave types with requests cannot be deleted; deactivate them instead.", "error");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black bg-opacity-30" onClick={onClose} />
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-2xl rounded-lg bg-white shadow-xl dark:bg-gray-800">
+          <div className="flex items-center justify-between border-b border-gray-200 p-6 dark:border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Leave Types</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="space-y-4 p-6">
+            {isFormOpen ? (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                  <div className="sm:col-span-2">
+                    <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Name <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      placeholder="e.g. Casual Leave"
+                      className={inputClassName}
+                    />
+                    {errors.name && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.name}</p>}
+                  </div>
+                  <div>
+                    <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Code <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.code}
+                      onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                      placeholder="CL"
+                      maxLength={10}
+                      className={inputClassName}
+                    />
+                    {errors.code && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.code}</p>}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                  <div>
+                    <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">Category</label>
+                    <CustomDropdown
+                      value={formData.category}
+                      onChange={(value) => setFormData({ ...formData, category: value as LeaveCategory })}
+                      options={CATEGORY_OPTIONS}
+                    />
+                  </div>
+                  <div>
+                    <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">Accrual</label>
+                    <CustomDropdown
+                      value={formData.accrual}
+                      onChange={(value) => setFormData({ ...formData, accrual: value as LeaveAccrual })}
+                      options={ACCRUAL_OPTIONS}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                  <div>
+                    <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Days per Year <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={formData.annual_quota}
+                      onChange={(e) => setFormData({ ...formData, annual_quota: e.target.value })}
+                      className={inputClassName}
+                    />
+                    {errors.annual_quota && (
+                      <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.annual_quota}</p>
+                    )}
+                  </div>
+                  <div>
+                    <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Carry Forward Limit
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={formData.carry_forward_limit}
+                      onChange={(e) => setFormData({ ...formData, carry_forward_limit: e.target.value })}
+                      className={inputClassName}
+                    />
+                    {errors.carry_forward_limit ? (
+                      <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.carry_forward_limit}</p>
+                    ) : (
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Unused days moved to next year (0 = lapse)</p>
+                    )}
+                  </div>
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={formData.is_active}
+                    onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                    className="h-4 w-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+                  />
+                  Active
+                </label>
+
+                <div className="flex justify-end gap-3">
+                  <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={isSaving}>
+                    {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {editingId ? "Update" : "Add"} Leave Type
+                  </Button>
+                </div>
+              </form>
+            ) : (
+              <div className="flex justify-end">
+                <Button size="sm" onClick={() => openForm()}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Leave Type
+                </Button>
+              </div>
+            )}
+
+            <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-900">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                      Leave Type
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                      Quota
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                      Carry Forward
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 bg-white dark:divide-gray-700 dark:bg-gray-800">
+                  {leaveTypes.length === 0 ? (
+                    <tr>
+                      <td colSpan={4} className="px-4 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                        No leave types yet. Add casual, sick and earned leave to get started.
+                      </td>
+                    </tr>
+                  ) : (
+                    leaveTypes.map((leaveType) => (
+                      <tr key={leaveType.id}>
+                        <td className="px-4 py-3 text-sm">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-gray-900 dark:text-white">{leaveType.name}</span>
+                            <Badge variant="secondary">{leaveType.code}</Badge>
+                            {!leaveType.is_active && <Badge variant="warning">Inactive</Badge>}
+                          </div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {CATEGORY_OPTIONS.find((option) => option.value === leaveType.category)?.label}
+                          </p>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">
+                          {parseFloat(leaveType.annual_quota) || 0} days
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {ACCRUAL_OPTIONS.find((option) => option.value === leaveType.accrual)?.label}
+                          </p>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">
+                          {parseFloat(leaveType.carry_forward_limit) || 0} days
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <div className="flex justify-end gap-2">
+                            <button
+                              onClick={() => openForm(leaveType)}
+                              className="rounded p-1 text-gray-500 hover:bg-gray-100 hover:text-sky-600 dark:text-gray-400 dark:hover:bg-gray-700"
+                              title="Edit"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(leaveType)}
+                              className="rounded p-1 text-gray-500 hover:bg-gray-100 hover:text-red-600 dark:text-gray-400 dark:hover:bg-gray-700"
+                              title="Delete"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
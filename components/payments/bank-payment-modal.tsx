@@ -0,0 +1,388 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { X, Loader2, Download, Upload, AlertCircle, CheckCircle, Landmark } from "lucide-react";
+import { format } from "date-fns";
+import { DatePicker } from "@/components/ui/date-picker";
+import { CustomDropdown } from "@/components/ui/custom-dropdown";
+import { BackendBankAccountListItem } from "@/lib/api";
+import {
+  BulkPaymentIssue,
+  BulkPaymentItem,
+  ReconciliationResult,
+  downloadBulkPaymentFile,
+  fetchDebitAccounts,
+  getPaymentReference,
+  getTransferMode,
+  markReconciledPaymentsPaid,
+  parseBankResponseFile,
+  reconcileBankResponse,
+  validatePaymentItems,
+} from "@/lib/bank-payments";
+import { showAlert, showSuccess } from "@/lib/sweetalert";
+
+type BankPaymentTab = "generate" | "reconcile";
+
+interface BankPaymentModalProps {
+  isOpen: boolean;
+  initialTab?: BankPaymentTab;
+  loadItems?: () => Promise<BulkPaymentItem[]>; // Selected pending rows; the generate tab is hidden without it
+  remarks: string; // Printed on the beneficiary statement, e.g. "Salary Jan 2025"
+  onClose: () => void;
+  onReconciled: () => void;
+}
+
+export function BankPaymentModal({
+  isOpen,
+  initialTab = "generate",
+  loadItems,
+  remarks,
+  onClose,
+  onReconciled,
+}: BankPaymentModalProps) {
+  const [activeTab, setActiveTab] = useState<BankPaymentTab>(loadItems ? initialTab : "reconcile");
+  const [debitAccounts, setDebitAccounts] = useState<BackendBankAccountListItem[]>([]);
+  const [debitAccountId, setDebitAccountId] = useState<number | null>(null);
+  const [validItems, setValidItems] = useState<BulkPaymentItem[]>([]);
+  const [issues, setIssues] = useState<BulkPaymentIssue[]>([]);
+  const [valueDate, setValueDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [responseFile, setResponseFile] = useState<File | null>(null);
+  const [reconciliation, setReconciliation] = useState<ReconciliationResult | null>(null);
+  const [isReconciling, setIsReconciling] = useState(false);
+
+  /**
+   * Load the accounts to debit from and validate the selected rows' bank details
+   * The company account from the Bank Accounts page is preselected, else the first account
+   */
+  const prepareFile = useCallback(async () => {
+    if (!loadItems) return;
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [{ accounts, companyAccountId }, items] = await Promise.all([fetchDebitAccounts(), loadItems()]);
+      const result = validatePaymentItems(items);
+      setDebitAccounts(accounts);
+      setDebitAccountId((current) =>
+        [current, companyAccountId].find((id) => accounts.some((account) => account.id === id)) ?? accounts[0]?.id ?? null
+      );
+      setValidItems(result.valid);
+      setIssues(result.issues);
+    } catch (err: any) {
+      console.error("Error preparing bulk payment file:", err);
+      setError(err.message || "Failed to prepare the bulk payment file");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [loadItems]);
+
+  useEffect(() => {
+    if (isOpen && activeTab === "generate") {
+      prepareFile();
+    }
+  }, [isOpen, activeTab, prepareFile]);
+
+  if (!isOpen) return null;
+
+  const totalAmount = validItems.reduce((sum, item) => sum + item.amount, 0);
+  const debitAccount = debitAccounts.find((account) => account.id === debitAccountId) || null;
+
+  const handleDownload = () => {
+    if (!debitAccount || validItems.length === 0) return;
+    downloadBulkPaymentFile(validItems, debitAccount, valueDate, remarks);
+    showSuccess(
+      "File Generated",
+      `Bulk payment file with ${validItems.length} transfer${validItems.length === 1 ? "" : "s"} downloaded. Upload it to your bank portal, then reconcile the bank's response file here.`
+    );
+  };
+
+  const handleResponseFile = async (file: File | null) => {
+    setResponseFile(file);
+    setReconciliation(null);
+    if (!file) return;
+    try {
+      const rows = await parseBankResponseFile(file);
+      setReconciliation(reconcileBankResponse(rows));
+    } catch (err: any) {
+      await showAlert("Invalid File", err.message || "Failed to read the bank response file", "error");
+      setResponseFile(null);
+    }
+  };
+
+  const handleMarkPaid = async () => {
+    if (!reconciliation || reconciliation.paid.length === 0) return;
+    setIsReconciling(true);
+    const result = await markReconciledPaymentsPaid(reconciliation.paid, format(new Date(), "yyyy-MM-dd"));
+    setIsReconciling(false);
+
+    if (result.errors.length > 0) {
+      await showAlert(
+        "Reconciliation Incomplete",
+        `${result.updated} payment${result.updated === 1 ? "" : "s"} marked as paid. ${result.errors.length} failed:\n${result.errors.join("\n")}`,
+        "warning"
+      );
+    } else {
+      await showSuccess("Payments Reconciled", `${result.updated} payment${result.updated === 1 ? "" : "s"} marked as paid.`);
+    }
+    if (result.updated > 0) {
+      onReconciled();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div
+          className="fixed inset-0 bg-black bg-opacity-30 transition-opacity"
+          onClick={onClose}
+        />
+
+        <div className="relative w-full max-w-4xl rounded-lg bg-white shadow-xl dark:bg-gray-800">
+          {/* Header */}
+          <div className="flex items-center justify-between border-b border-gray-200 p-6 dark:border-gray-700">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Bank Bulk Payment</h3>
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                NEFT for transfers below ₹2,00,000, RTGS above
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="rounded-lg p-2 text-gray-400 hover:bg-gray-100 hover:text-gray-500 dark:hover:bg-gray-700"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          {/* Tabs */}
+          <div className="flex border-b border-gray-200 px-6 dark:border-gray-700">
+            {loadItems && (
+              <button
+                onClick={() => setActiveTab("generate")}
+                className={`-mb-px border-b-2 px-4 py-3 text-sm font-medium ${
+                  activeTab === "generate"
+                    ? "border-sky-500 text-sky-600 dark:text-sky-400"
+                    : "border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+                }`}
+              >
+                Generate File
+              </button>
+            )}
+            <button
+              onClick={() => setActiveTab("reconcile")}
+              className={`-mb-px border-b-2 px-4 py-3 text-sm font-medium ${
+                activeTab === "reconcile"
+                  ? "border-sky-500 text-sky-600 dark:text-sky-400"
+                  : "border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+              }`}
+            >
+              Reconcile Response
+            </button>
+          </div>
+
+          <div className="p-6">
+            {activeTab === "generate" ? (
+              isLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-sky-600" />
+                  <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">Checking bank details...</span>
+                </div>
+              ) : error ? (
+                <div className="flex items-center gap-2 rounded-lg bg-red-50 p-4 text-sm text-red-700 dark:bg-red-900/20 dark:text-red-400">
+                  <AlertCircle className="h-4 w-4" />
+                  {error}
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <div className="flex items-center gap-3 rounded-lg bg-gray-50 p-4 dark:bg-gray-900">
+                    <Landmark className="h-5 w-5 text-gray-400" />
+                    {debitAccounts.length > 0 ? (
+                      <div className="flex-1 text-sm">
+                        <label className="block font-medium text-gray-900 dark:text-white">Debit from</label>
+                        <CustomDropdown
+                          value={debitAccountId ? String(debitAccountId) : ""}
+                          onChange={(value) => setDebitAccountId(Number(value))}
+                          options={debitAccounts.map((account) => ({
+                            value: String(account.id),
+                            label: `${account.bank_name} · ${account.account_number} (${account.account_holder_name || account.profile_name || "Unknown"})`,
+                          }))}
+                          placeholder="Select the account to debit"
+                          containerClassName="mt-1"
+                        />
+                        {debitAccount && <p className="mt-1 text-gray-500 dark:text-gray-400">IFSC {debitAccount.ifsc_code}</p>}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        No bank accounts found. Add the company&apos;s account on the Bank Accounts page to generate the file.
+                      </p>
+                    )}
+                  </div>
+
+                  {issues.length > 0 && (
+                    <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 dark:border-amber-800 dark:bg-amber-900/20">
+                      <p className="mb-2 text-sm font-medium text-amber-800 dark:text-amber-300">
+                        {issues.length} row{issues.length === 1 ? "" : "s"} excluded. Fix the bank details and generate again:
+                      </p>
+                      <ul className="space-y-1 text-sm text-amber-700 dark:text-amber-400">
+                        {issues.map(({ item, errors }) => (
+                          <li key={getPaymentReference(item)}>
+                            <span className="font-medium">{item.beneficiary_name || getPaymentReference(item)}</span>: {errors.join(", ")}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  <div className="max-h-[40vh] overflow-auto rounded-lg border border-gray-200 dark:border-gray-700">
+                    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                      <thead className="sticky top-0 bg-gray-50 dark:bg-gray-900">
+                        <tr>
+                          <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                            Beneficiary
+                          </th>
+                          <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                            Account / IFSC
+                          </th>
+                          <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                            Mode
+                          </th>
+                          <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                            Amount
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200 bg-white dark:divide-gray-700 dark:bg-gray-800">
+                        {validItems.map((item) => (
+                          <tr key={getPaymentReference(item)}>
+                            <td className="px-4 py-3">
+                              <div className="text-sm font-medium text-gray-900 dark:text-white">{item.beneficiary_name}</div>
+                              <div className="text-xs text-gray-500 dark:text-gray-400">{getPaymentReference(item)}</div>
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                              {item.account_number}
+                              <div className="text-xs">{item.ifsc_code}</div>
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">{getTransferMode(item.amount)}</td>
+                            <td className="px-4 py-3 text-right text-sm font-semibold text-gray-900 dark:text-white">
+                              ₹{item.amount.toLocaleString("en-IN")}
+                            </td>
+                          </tr>
+                        ))}
+                        {validItems.length === 0 && (
+                          <tr>
+                            <td colSpan={4} className="px-4 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                              No rows with valid bank details
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div className="flex items-end justify-between gap-4">
+                    <div className="w-56">
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Value Date</label>
+                      <div className="mt-1">
+                        <DatePicker value={valueDate} onChange={(value) => setValueDate(value)} placeholder="Select value date" />
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {validItems.length} transfer{validItems.length === 1 ? "" : "s"} · Total{" "}
+                        <span className="font-semibold text-gray-900 dark:text-white">₹{totalAmount.toLocaleString("en-IN")}</span>
+                      </p>
+                      <button
+                        type="button"
+                        onClick={handleDownload}
+                        disabled={!debitAccount || validItems.length === 0 || !valueDate}
+                        className="inline-flex items-center gap-2 rounded-lg bg-sky-600 px-4 py-2 text-sm font-medium text-white hover:bg-sky-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Download className="h-4 w-4" />
+                        Download Bank File
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Upload the status file from your bank portal (CSV or Excel). Rows are matched by customer reference and successful
+                  transfers are marked as paid with the bank&apos;s UTR as the transaction reference.
+                </p>
+                <label className="flex cursor-pointer flex-col items-center justify-center rounded-lg border-2 border-dashed border-gray-300 p-6 hover:border-sky-500 dark:border-gray-600">
+                  <Upload className="h-8 w-8 text-gray-400" />
+                  <span className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                    {responseFile ? responseFile.name : "Choose bank response file"}
+                  </span>
+                  <input
+                    type="file"
+                    accept=".csv,.xlsx,.xls"
+                    className="hidden"
+                    onChange={(e) => handleResponseFile(e.target.files?.[0] || null)}
+                  />
+                </label>
+
+                {reconciliation && (
+                  <>
+                    <div className="grid grid-cols-4 gap-4">
+                      <div className="rounded-lg bg-green-50 p-4 dark:bg-green-900/20">
+                        <p className="text-sm text-green-700 dark:text-green-400">Successful</p>
+                        <p className="mt-1 text-2xl font-bold text-green-900 dark:text-green-300">{reconciliation.paid.length}</p>
+                      </div>
+                      <div className="rounded-lg bg-red-50 p-4 dark:bg-red-900/20">
+                        <p className="text-sm text-red-700 dark:text-red-400">Failed / Returned</p>
+                        <p className="mt-1 text-2xl font-bold text-red-900 dark:text-red-300">{reconciliation.failed.length}</p>
+                      </div>
+                      <div className="rounded-lg bg-yellow-50 p-4 dark:bg-yellow-900/20">
+                        <p className="text-sm text-yellow-700 dark:text-yellow-400">Pending / Unknown</p>
+                        <p className="mt-1 text-2xl font-bold text-yellow-900 dark:text-yellow-300">{reconciliation.pending.length}</p>
+                      </div>
+                      <div className="rounded-lg bg-gray-50 p-4 dark:bg-gray-900">
+                        <p className="text-sm text-gray-600 dark:text-gray-400">Unmatched</p>
+                        <p className="mt-1 text-2xl font-bold text-gray-900 dark:text-white">{reconciliation.unmatched.length}</p>
+                      </div>
+                    </div>
+
+                    {reconciliation.failed.length > 0 && (
+                      <ul className="space-y-1 rounded-lg bg-red-50 p-4 text-sm text-red-700 dark:bg-red-900/20 dark:text-red-400">
+                        {reconciliation.failed.map((row) => (
+                          <li key={row.reference}>
+                            {row.reference}: {row.status || "Failed"}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    {reconciliation.pending.length > 0 && (
+                      <ul className="space-y-1 rounded-lg bg-yellow-50 p-4 text-sm text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400">
+                        {reconciliation.pending.map((row) => (
+                          <li key={row.reference}>
+                            {row.reference}: {row.status || "No status"} (not marked as paid)
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    <div className="flex justify-end">
+                      <button
+                        type="button"
+                        onClick={handleMarkPaid}
+                        disabled={isReconciling || reconciliation.paid.length === 0}
+                        className="inline-flex items-center gap-2 rounded-lg bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isReconciling ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle className="h-4 w-4" />}
+                        Mark {reconciliation.paid.length} as Paid
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,712 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { X, Loader2, Calculator, AlertCircle, Settings2 } from "lucide-react";
+import { format } from "date-fns";
+import { CustomDropdown } from "@/components/ui/custom-dropdown";
+import { ExportMenu } from "@/components/ui/export-menu";
+import { apiClient, fetchAllPages } from "@/lib/api";
+import { ExportColumn, ExportFormat, exportFileName, exportRows } from "@/lib/export";
+import {
+  DEFAULT_LEAVE_POLICY,
+  LeavePolicy,
+  PayrollDraft,
+  fetchStatutoryConfig,
+  generateContractWorkerDrafts,
+  generatePayrollDrafts,
+  recordContractWorkerPayroll,
+} from "@/lib/payroll";
+import { PROFESSIONAL_TAX_SLABS, StatutoryConfig } from "@/lib/statutory";
+import { ShiftConfig, fetchShiftConfig, formatMinutes } from "@/lib/shifts";
+import { showAlert, showSuccess } from "@/lib/sweetalert";
+
+interface PayrollDraftModalProps {
+  isOpen: boolean;
+  month: number; // 1-12
+  year: number;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+const months = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December"
+];
+
+type PayeeType = PayrollDraft["payee_type"];
+
+const deductionAmount = (draft: PayrollDraft, prefix: string) =>
+  draft.computation.deductions.filter((d) => d.name.startsWith(prefix)).reduce((sum, d) => sum + d.amount, 0);
+
+// Matches the payment tracker sheet layout so the export can be uploaded after review
+const contractWorkerSheetColumns: ExportColumn<PayrollDraft>[] = [
+  { header: "Worker Name", value: (d) => d.employee_name },
+  { header: "Mobile Number", value: (d) => d.worker?.phone_number },
+  { header: "Place of Work", value: (d) => d.worker?.project_name },
+  { header: "Working Days", type: "number", value: (d) => d.computation.working_days },
+  { header: "Gross Salary", type: "currency", value: (d) => d.computation.gross_amount },
+  { header: "PF", type: "currency", value: (d) => deductionAmount(d, "Provident Fund") },
+  { header: "ESI", type: "currency", value: (d) => deductionAmount(d, "ESI") },
+  { header: "Professional Tax", type: "currency", value: (d) => deductionAmount(d, "Professional Tax") },
+  { header: "TDS", type: "currency", value: (d) => deductionAmount(d, "TDS") },
+  { header: "Net Salary", type: "currency", value: (d) => d.computation.net_amount },
+  { header: "Bank Name", value: (d) => d.worker?.bank_account?.bank_name },
+  { header: "Account Number", value: (d) => d.worker?.bank_account?.account_number },
+  { header: "IFSC Code", value: (d) => d.worker?.bank_account?.ifsc_code },
+];
+
+export function PayrollDraftModal({ isOpen, month, year, onClose, onCreated }: PayrollDraftModalProps) {
+  const [selectedMonth, setSelectedMonth] = useState(month);
+  const [selectedYear, setSelectedYear] = useState(year);
+  const [leavePolicy, setLeavePolicy] = useState<LeavePolicy>(DEFAULT_LEAVE_POLICY);
+  const [payeeType, setPayeeType] = useState<PayeeType>("Employee");
+  const [statutoryConfig, setStatutoryConfig] = useState<StatutoryConfig | null>(null);
+  const [shiftConfig, setShiftConfig] = useState<ShiftConfig | null>(null);
+  const [payOvertime, setPayOvertime] = useState(true);
+  const [rulesDraft, setRulesDraft] = useState<StatutoryConfig | null>(null);
+  const [showRules, setShowRules] = useState(false);
+  const [isSavingRules, setIsSavingRules] = useState(false);
+  const [drafts, setDrafts] = useState<PayrollDraft[]>([]);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the saved statutory rules and shifts
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+    Promise.all([fetchStatutoryConfig(), fetchShiftConfig()]).then(([config, shifts]) => {
+      setShiftConfig(shifts);
+      setStatutoryConfig(config);
+      setRulesDraft(config);
+    });
+  }, [isOpen]);
+
+  /**
+   * Compute drafts for every employee (or contract worker) in the selected month
+   */
+  const fetchDrafts = useCallback(async () => {
+    if (!statutoryConfig) return;
+    try {
+      setIsLoading(true);
+      setError(null);
+      let result: PayrollDraft[];
+      if (payeeType === "Contract Worker") {
+        result = await generateContractWorkerDrafts(selectedMonth, selectedYear, statutoryConfig);
+      } else {
+        const employees = await fetchAllPages((page) => apiClient.getEmployees({ page }));
+        result = await generatePayrollDrafts(
+          employees.map((employee) => employee.id),
+          selectedMonth,
+          selectedYear,
+          leavePolicy,
+          statutoryConfig,
+          payOvertime && shiftConfig ? shiftConfig : undefined
+        );
+      }
+      setDrafts(result);
+      // Employees already on this month's payroll are not selected by default
+      setSelectedIds(result.filter((draft) => !draft.has_existing_payroll).map((draft) => draft.employee_id));
+    } catch (err: any) {
+      console.error("Error computing payroll drafts:", err);
+      setError(err.message || "Failed to compute payroll drafts");
+      setDrafts([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedMonth, selectedYear, leavePolicy, payeeType, statutoryConfig, shiftConfig, payOvertime]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchDrafts();
+    }
+  }, [isOpen, fetchDrafts]);
+
+  if (!isOpen) return null;
+
+  const selectedDrafts = drafts.filter((draft) => selectedIds.includes(draft.employee_id));
+  // Payees already paid for the month are only included when picked one by one
+  const selectableIds = drafts.filter((draft) => !draft.has_existing_payroll).map((draft) => draft.employee_id);
+  const allSelected = selectableIds.length > 0 && selectableIds.every((id) => selectedIds.includes(id));
+  const selectedTotal = selectedDrafts.reduce((sum, draft) => sum + draft.computation.net_amount, 0);
+
+  const handleToggle = (employeeId: number) => {
+    setSelectedIds((prev) =>
+      prev.includes(employeeId) ? prev.filter((id) => id !== employeeId) : [...prev, employeeId]
+    );
+  };
+
+  const handleToggleAll = () => {
+    setSelectedIds(allSelected ? [] : selectableIds);
+  };
+
+  const updateRules = <K extends keyof StatutoryConfig>(section: K, updates: Partial<StatutoryConfig[K]>) => {
+    setRulesDraft((prev) => (prev ? { ...prev, [section]: { ...prev[section], ...updates } } : prev));
+  };
+
+  const handleSaveRules = async () => {
+    if (!rulesDraft) return;
+    try {
+      setIsSavingRules(true);
+      await apiClient.updateSystemSettings({ statutory_config: rulesDraft });
+      setStatutoryConfig(rulesDraft);
+      await showSuccess("Rules Saved", "Statutory deduction rules have been saved as the default.");
+    } catch (err: any) {
+      await showAlert("Error", err.message || "Failed to save statutory rules", "error");
+    } finally {
+      setIsSavingRules(false);
+    }
+  };
+
+  const handleExportSheet = async (exportFormat: ExportFormat) => {
+    exportRows(selectedDrafts, contractWorkerSheetColumns, {
+      fileName: exportFileName(`contract-worker-payroll-${selectedYear}-${String(selectedMonth).padStart(2, "0")}`),
+      format: exportFormat,
+      sheetName: `${months[selectedMonth - 1]} ${selectedYear}`,
+    });
+    const workerIds = selectedDrafts.map((draft) => draft.employee_id);
+    try {
+      await recordContractWorkerPayroll(selectedMonth, selectedYear, workerIds);
+      setDrafts((prev) =>
+        prev.map((draft) => (workerIds.includes(draft.employee_id) ? { ...draft, has_existing_payroll: true } : draft))
+      );
+    } catch (err) {
+      // The sheet itself was exported; only the "already paid" flag is missing next time
+      console.error("Failed to record exported payment sheet:", err);
+    }
+    return selectedDrafts.length;
+  };
+
+  const handleCreate = async () => {
+    if (selectedDrafts.length === 0) {
+      await showAlert("No Employees Selected", "Please select at least one employee to create payroll for.", "warning");
+      return;
+    }
+    // Creating payroll again for these would duplicate the month's records
+    const toCreate = selectedDrafts.filter((draft) => !draft.has_existing_payroll);
+    const skipped = selectedDrafts.length - toCreate.length;
+    if (toCreate.length === 0) {
+      await showAlert(
+        "Payroll Already Exists",
+        "Every selected employee already has payroll for this month, so nothing was created.",
+        "warning"
+      );
+      return;
+    }
+
+    setIsSaving(true);
+    const errors: string[] = [];
+    for (const draft of toCreate) {
+      try {
+        await apiClient.createPayroll({
+          employee: draft.employee_id,
+          payroll_status: "Pending",
+          period_from: draft.period_from,
+          period_to: draft.period_to,
+          working_days: draft.computation.working_days,
+          days_present: draft.computation.days_present,
+          net_amount: draft.computation.net_amount,
+          computation_details: draft.computation,
+        });
+      } catch (err: any) {
+        errors.push(`${draft.employee_name}: ${err.message || "Failed to create payroll"}`);
+      }
+    }
+    setIsSaving(false);
+
+    const createdCount = toCreate.length - errors.length;
+    const skippedNote = skipped > 0 ? ` (${skipped} skipped: payroll already exists)` : "";
+    if (errors.length > 0) {
+      await showAlert(
+        "Payroll Partially Created",
+        `${createdCount} payroll entr${createdCount === 1 ? "y" : "ies"} created${skippedNote}. ${errors.length} failed:\n${errors.join("\n")}`,
+        "warning"
+      );
+    } else {
+      await showSuccess(
+        "Payroll Created",
+        `${createdCount} draft payroll entr${createdCount === 1 ? "y" : "ies"} created for ${months[selectedMonth - 1]} ${selectedYear}${skippedNote}`
+      );
+    }
+    if (createdCount > 0) {
+      onCreated();
+    }
+  };
+
+  const currentYear = new Date().getFullYear();
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div
+          className="fixed inset-0 bg-black bg-opacity-30 transition-opacity"
+          onClick={onClose}
+        />
+
+        <div className="relative w-full max-w-5xl rounded-lg bg-white shadow-xl dark:bg-gray-800">
+          {/* Header */}
+          <div className="flex items-center justify-between border-b border-gray-200 p-6 dark:border-gray-700">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Generate Payroll from Attendance</h3>
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                Approved attendance only. Sundays and holidays are excluded from working days, Half-Day counts as 0.5.
+                Overtime beyond each employee&apos;s shift is paid as an allowance. PF, ESI, Professional Tax and TDS
+                are deducted per the statutory rules.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="rounded-lg p-2 text-gray-400 hover:bg-gray-100 hover:text-gray-500 dark:hover:bg-gray-700"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="p-6">
+            {/* Period and leave policy */}
+            <div className="mb-4 grid grid-cols-1 gap-4 md:grid-cols-5">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Payees</label>
+                <CustomDropdown
+                  value={payeeType}
+                  onChange={(value) => setPayeeType(value as PayeeType)}
+                  options={[
+                    { value: "Employee", label: "Employees" },
+                    { value: "Contract Worker", label: "Contract Workers" },
+                  ]}
+                  disabled={isLoading || isSaving}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Month</label>
+                <CustomDropdown
+                  value={String(selectedMonth)}
+                  onChange={(value) => setSelectedMonth(Number(value))}
+                  options={months.map((name, index) => ({ value: String(index + 1), label: name }))}
+                  disabled={isLoading || isSaving}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Year</label>
+                <CustomDropdown
+                  value={String(selectedYear)}
+                  onChange={(value) => setSelectedYear(Number(value))}
+                  options={[currentYear - 1, currentYear, currentYear + 1].map((y) => ({ value: String(y), label: String(y) }))}
+                  disabled={isLoading || isSaving}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Leave Policy</label>
+                <CustomDropdown
+                  value={leavePolicy.leaveType}
+                  onChange={(value) => setLeavePolicy((prev) => ({ ...prev, leaveType: value as LeavePolicy["leaveType"] }))}
+                  options={[
+                    { value: "paid", label: "Paid Leave" },
+                    { value: "unpaid", label: "Unpaid Leave" },
+                  ]}
+                  disabled={isLoading || isSaving || payeeType === "Contract Worker"}
+                />
+              </div>
+              <div>
+                <label htmlFor="max-paid-leave" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Max Paid Leave Days (no request)
+                </label>
+                <input
+                  id="max-paid-leave"
+                  type="number"
+                  min={0}
+                  value={leavePolicy.maxPaidLeaveDays ?? ""}
+                  onChange={(e) =>
+                    setLeavePolicy((prev) => ({
+                      ...prev,
+                      maxPaidLeaveDays: e.target.value === "" ? null : Math.max(0, Number(e.target.value)),
+                    }))
+                  }
+                  placeholder="No limit"
+                  disabled={isLoading || isSaving || payeeType === "Contract Worker" || leavePolicy.leaveType === "unpaid"}
+                  className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500 disabled:opacity-50 disabled:cursor-not-allowed dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                />
+              </div>
+            </div>
+
+            <div className="mb-4 flex items-center justify-between">
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={payOvertime && !!shiftConfig?.overtime.enabled}
+                  onChange={(e) => setPayOvertime(e.target.checked)}
+                  disabled={isLoading || isSaving || payeeType === "Contract Worker" || !shiftConfig?.overtime.enabled}
+                  className="h-4 w-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+                />
+                Pay overtime
+                {shiftConfig && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {shiftConfig.overtime.enabled
+                      ? `(${shiftConfig.overtime.multiplier}x hourly rate, min ${shiftConfig.overtime.minimumMinutes} min/day)`
+                      : "(disabled in shift settings)"}
+                  </span>
+                )}
+              </label>
+              <button
+                type="button"
+                onClick={() => setShowRules((prev) => !prev)}
+                className="inline-flex items-center gap-2 text-sm font-medium text-sky-600 hover:text-sky-700 dark:text-sky-400"
+              >
+                <Settings2 className="h-4 w-4" />
+                {showRules ? "Hide Statutory Rules" : "Statutory Rules"}
+              </button>
+            </div>
+
+            {/* Statutory rules */}
+            {showRules && rulesDraft && (
+              <div className="mb-6 rounded-lg border border-gray-200 p-4 dark:border-gray-700">
+                <div className="grid grid-cols-1 gap-6 md:grid-cols-4">
+                  <div className="space-y-3">
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white">
+                    <input
+                      type="checkbox"
+                      checked={rulesDraft.pf.enabled}
+                      onChange={(e) => updateRules("pf", { enabled: e.target.checked })}
+                      className="h-4 w-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+                    />
+                    Provident Fund
+                  </label>
+                  <div>
+                    <label htmlFor="pf-employee-rate" className="block text-xs font-medium text-gray-600 dark:text-gray-400">
+                      Employee Rate (%)
+                    </label>
+                    <input
+                      id="pf-employee-rate"
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={rulesDraft.pf.employeeRate}
+                      onChange={(e) => updateRules("pf", { employeeRate: Math.max(0, Number(e.target.value)) })}
+                      disabled={!rulesDraft.pf.enabled}
+                      className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500 disabled:opacity-50 disabled:cursor-not-allowed dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="pf-wage-ceiling" className="block text-xs font-medium text-gray-600 dark:text-gray-400">
+                      Wage Ceiling (₹)
+                    </label>
+                    <input
+                      id="pf-wage-ceiling"
+                      type="number"
+                      min={0}
+                      step="1"
+                      value={rulesDraft.pf.wageCeiling}
+                      onChange={(e) => updateRules("pf", { wageCeiling: Math.max(0, Number(e.target.value)) })}
+                      disabled={!rulesDraft.pf.enabled}
+                      className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500 disabled:opacity-50 disabled:cursor-not-allowed dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                    />
+                  </div>
+                    <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                      <input
+                        type="checkbox"
+                        checked={rulesDraft.pf.restrictToCeiling}
+                        onChange={(e) => updateRules("pf", { restrictToCeiling: e.target.checked })}
+                        disabled={!rulesDraft.pf.enabled}
+                        className="h-4 w-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+                      />
+                      Restrict to wage ceiling
+                    </label>
+                  </div>
+                  <div className="space-y-3">
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white">
+                    <input
+                      type="checkbox"
+                      checked={rulesDraft.esi.enabled}
+                      onChange={(e) => updateRules("esi", { enabled: e.target.checked })}
+                      className="h-4 w-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+                    />
+                    ESI
+                  </label>
+                  <div>
+                    <label htmlFor="esi-employee-rate" className="block text-xs font-medium text-gray-600 dark:text-gray-400">
+                      Employee Rate (%)
+                    </label>
+                    <input
+                      id="esi-employee-rate"
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={rulesDraft.esi.employeeRate}
+                      onChange={(e) => updateRules("esi", { employeeRate: Math.max(0, Number(e.target.value)) })}
+                      disabled={!rulesDraft.esi.enabled}
+                      className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500 disabled:opacity-50 disabled:cursor-not-allowed dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="esi-wage-threshold" className="block text-xs font-medium text-gray-600 dark:text-gray-400">
+                      Gross Wage Threshold (₹)
+                    </label>
+                    <input
+                      id="esi-wage-threshold"
+                      type="number"
+                      min={0}
+                      step="1"
+                      value={rulesDraft.esi.wageThreshold}
+                      onChange={(e) => updateRules("esi", { wageThreshold: Math.max(0, Number(e.target.value)) })}
+                      disabled={!rulesDraft.esi.enabled}
+                      className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500 disabled:opacity-50 disabled:cursor-not-allowed dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                    />
+                  </div>
+                  </div>
+                  <div className="space-y-3">
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white">
+                    <input
+                      type="checkbox"
+                      checked={rulesDraft.professionalTax.enabled}
+                      onChange={(e) => updateRules("professionalTax", { enabled: e.target.checked })}
+                      className="h-4 w-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+                    />
+                    Professional Tax
+                  </label>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 dark:text-gray-400">Default State</label>
+                      <CustomDropdown
+                        value={rulesDraft.professionalTax.defaultState}
+                        onChange={(value) => updateRules("professionalTax", { defaultState: value })}
+                        options={[
+                          ...Object.keys(PROFESSIONAL_TAX_SLABS).map((state) => ({ value: state, label: state })),
+                          { value: "None", label: "No Professional Tax" },
+                        ]}
+                        disabled={!rulesDraft.professionalTax.enabled}
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Applied when the payee has no state on record</p>
+                  </div>
+                  <div className="space-y-3">
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white">
+                    <input
+                      type="checkbox"
+                      checked={rulesDraft.tds.enabled}
+                      onChange={(e) => updateRules("tds", { enabled: e.target.checked })}
+                      className="h-4 w-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+                    />
+                    TDS (New Regime)
+                  </label>
+                  <div>
+                    <label htmlFor="tds-standard-deduction" className="block text-xs font-medium text-gray-600 dark:text-gray-400">
+                      Standard Deduction (₹/year)
+                    </label>
+                    <input
+                      id="tds-standard-deduction"
+                      type="number"
+                      min={0}
+                      step="1"
+                      value={rulesDraft.tds.standardDeduction}
+                      onChange={(e) => updateRules("tds", { standardDeduction: Math.max(0, Number(e.target.value)) })}
+                      disabled={!rulesDraft.tds.enabled}
+                      className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500 disabled:opacity-50 disabled:cursor-not-allowed dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                    />
+                  </div>
+                  </div>
+                </div>
+                <div className="mt-4 flex justify-end gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setStatutoryConfig(rulesDraft)}
+                    disabled={isLoading}
+                    className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+                  >
+                    Apply
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleSaveRules}
+                    disabled={isSavingRules}
+                    className="inline-flex items-center gap-2 rounded-lg bg-sky-600 px-4 py-2 text-sm font-medium text-white hover:bg-sky-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSavingRules && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Save as Default
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {error && (
+              <div className="mb-4 flex items-center gap-2 rounded-lg bg-red-50 p-4 text-sm text-red-700 dark:bg-red-900/20 dark:text-red-400">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </div>
+            )}
+
+            {/* Draft table */}
+            <div className="max-h-[50vh] overflow-auto rounded-lg border border-gray-200 dark:border-gray-700">
+              {isLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-sky-600" />
+                  <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">Computing payroll...</span>
+                </div>
+              ) : drafts.length === 0 ? (
+                <div className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">No employees found</div>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="sticky top-0 bg-gray-50 dark:bg-gray-900">
+                    <tr>
+                      <th className="px-4 py-3 text-left">
+                        <input
+                          type="checkbox"
+                          checked={allSelected}
+                          onChange={handleToggleAll}
+                          className="h-4 w-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+                        />
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        Employee
+                      </th>
+                      <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        Working Days
+                      </th>
+                      <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        Present / Half / Leave
+                      </th>
+                      <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        Payable Days
+                      </th>
+                      <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        Per Day Rate
+                      </th>
+                      <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        Gross
+                      </th>
+                      <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        Deductions
+                      </th>
+                      <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        Net Amount
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 bg-white dark:divide-gray-700 dark:bg-gray-800">
+                    {drafts.map((draft) => (
+                      <tr key={draft.employee_id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                        <td className="px-4 py-3">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.includes(draft.employee_id)}
+                            onChange={() => handleToggle(draft.employee_id)}
+                            className="h-4 w-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+                          />
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="text-sm font-medium text-gray-900 dark:text-white">{draft.employee_name}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {draft.payee_type === "Contract Worker" ? draft.worker?.project_name || "Unassigned" : draft.employee_code}
+                            {draft.has_existing_payroll && (
+                              <span className="ml-2 inline-flex rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
+                                {draft.payee_type === "Contract Worker" ? "Sheet exported" : "Payroll exists"}
+                              </span>
+                            )}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-right text-sm text-gray-900 dark:text-white">
+                          {draft.computation.working_days}
+                        </td>
+                        <td className="px-4 py-3 text-right text-sm text-gray-600 dark:text-gray-400">
+                          {draft.summary.present_days} / {draft.summary.half_days} / {draft.summary.leave_days}
+                          {draft.summary.leave_days > draft.summary.paid_leave_days && (
+                            <div className="text-xs text-red-600 dark:text-red-400">
+                              {draft.summary.leave_days - draft.summary.paid_leave_days} unpaid leave
+                            </div>
+                          )}
+                          {!!draft.summary.overtime_minutes && (
+                            <div className="text-xs text-sky-600 dark:text-sky-400">
+                              OT {formatMinutes(draft.summary.overtime_minutes)}
+                            </div>
+                          )}
+                          {!!(draft.summary.late_days || draft.summary.early_exit_days) && (
+                            <div className="text-xs text-amber-600 dark:text-amber-400">
+                              {[
+                                draft.summary.late_days ? `${draft.summary.late_days} late` : "",
+                                draft.summary.early_exit_days ? `${draft.summary.early_exit_days} early exit` : "",
+                              ]
+                                .filter(Boolean)
+                                .join(", ")}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-right text-sm font-medium text-gray-900 dark:text-white">
+                          {draft.computation.days_present}
+                        </td>
+                        <td className="px-4 py-3 text-right text-sm text-gray-600 dark:text-gray-400">
+                          ₹{draft.computation.per_day_rate.toLocaleString("en-IN")}
+                        </td>
+                        <td
+                          className="px-4 py-3 text-right text-sm text-gray-900 dark:text-white"
+                          title={(draft.computation.allowances || []).map((a) => `${a.name}: ₹${a.amount.toLocaleString("en-IN")}`).join("\n")}
+                        >
+                          ₹{draft.computation.gross_amount.toLocaleString("en-IN")}
+                        </td>
+                        <td
+                          className="px-4 py-3 text-right text-sm text-red-600 dark:text-red-400"
+                          title={draft.computation.deductions.map((d) => `${d.name}: ₹${d.amount.toLocaleString("en-IN")}`).join("\n")}
+                        >
+                          {draft.computation.total_deductions > 0
+                            ? `-₹${draft.computation.total_deductions.toLocaleString("en-IN")}`
+                            : "-"}
+                        </td>
+                        <td className="px-4 py-3 text-right text-sm font-semibold text-gray-900 dark:text-white">
+                          ₹{draft.computation.net_amount.toLocaleString("en-IN")}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {/* Actions */}
+            <div className="mt-6 flex items-center justify-between">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {selectedDrafts.length} selected for{" "}
+                {format(new Date(selectedYear, selectedMonth - 1, 1), "MMMM yyyy")} · Total{" "}
+                <span className="font-semibold text-gray-900 dark:text-white">₹{selectedTotal.toLocaleString("en-IN")}</span>
+              </p>
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  disabled={isSaving}
+                  className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+                >
+                  Cancel
+                </button>
+                {payeeType === "Contract Worker" ? (
+                  <ExportMenu
+                    label="Export Payment Sheet"
+                    onExport={handleExportSheet}
+                    disabled={isLoading || selectedDrafts.length === 0}
+                  />
+                ) : (
+                  <button
+                    type="button"
+                    onClick={handleCreate}
+                    disabled={isSaving || isLoading || selectedDrafts.length === 0}
+                    className="inline-flex items-center gap-2 rounded-lg bg-sky-600 px-4 py-2 text-sm font-medium text-white hover:bg-sky-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSaving ? (
+                      <>
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Creating...
+                      </>
+                    ) : (
+                      <>
+                        <Calculator className="h-4 w-4" />
+                        Create Draft Payroll
+                      </>
+                    )}
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -15,11 +15,12 @@ export function PayslipModal({ payroll, isOpen, onClose }: PayslipModalProps) {
 
   const computation = payroll.computation_details;
 
-  // Calculate leave deduction
+  // Loss of pay is the part of the base salary not earned for unpaid days
   const leaveDays = payroll.days_absent;
-  const leaveDeduction = computation ? computation.per_day_rate * leaveDays : 0;
-  const baseSalary = computation?.base_salary || 0;
-  const netPayable = baseSalary - leaveDeduction;
+  const leaveDeduction = computation ? Math.max(0, computation.base_salary - computation.earned_salary) : 0;
+  const allowances = computation?.allowances || [];
+  const deductions = computation?.deductions || [];
+  const netPayable = computation?.net_amount ?? payroll.net_amount;
 
   return (
     <div className="fixed inset-0 z-50 overflow-y-auto">
@@ -125,7 +126,7 @@ export function PayslipModal({ payroll, isOpen, onClose }: PayslipModalProps) {
                 </div>
 
                 {/* Leave Deduction */}
-                {leaveDays > 0 && (
+                {leaveDeduction > 0 && (
                   <div className="mb-6 rounded-lg bg-red-50 p-4 dark:bg-red-900/20">
                     <div className="flex items-center justify-between">
                       <div>
@@ -141,13 +142,70 @@ export function PayslipModal({ payroll, isOpen, onClose }: PayslipModalProps) {
                   </div>
                 )}
 
+                {/* Earnings and Deductions */}
+                {(allowances.length > 0 || deductions.length > 0) && (
+                  <div className="mb-6 grid grid-cols-1 gap-4 md:grid-cols-2">
+                    <div className="rounded-lg border border-gray-200 p-4 dark:border-gray-700">
+                      <h4 className="mb-3 text-sm font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        Earnings
+                      </h4>
+                      <div className="space-y-2">
+                        <div className="flex justify-between">
+                          <span className="text-sm text-gray-600 dark:text-gray-400">Earned Salary</span>
+                          <span className="text-sm font-medium text-gray-900 dark:text-white">
+                            ₹{computation.earned_salary.toLocaleString("en-IN")}
+                          </span>
+                        </div>
+                        {allowances.map((allowance) => (
+                          <div key={allowance.name} className="flex justify-between">
+                            <span className="text-sm text-gray-600 dark:text-gray-400">{allowance.name}</span>
+                            <span className="text-sm font-medium text-gray-900 dark:text-white">
+                              ₹{allowance.amount.toLocaleString("en-IN")}
+                            </span>
+                          </div>
+                        ))}
+                        <div className="flex justify-between border-t border-gray-200 pt-2 dark:border-gray-700">
+                          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Gross Earnings</span>
+                          <span className="text-sm font-semibold text-gray-900 dark:text-white">
+                            ₹{computation.gross_amount.toLocaleString("en-IN")}
+                          </span>
+                        </div>
+                      </div>
+                    </div>
+                    <div className="rounded-lg border border-gray-200 p-4 dark:border-gray-700">
+                      <h4 className="mb-3 text-sm font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        Deductions
+                      </h4>
+                      <div className="space-y-2">
+                        {deductions.map((deduction) => (
+                          <div key={deduction.name} className="flex justify-between">
+                            <span className="text-sm text-gray-600 dark:text-gray-400">{deduction.name}</span>
+                            <span className="text-sm font-medium text-red-600 dark:text-red-400">
+                              -₹{deduction.amount.toLocaleString("en-IN")}
+                            </span>
+                          </div>
+                        ))}
+                        {deductions.length === 0 && (
+                          <p className="text-sm text-gray-500 dark:text-gray-400">No deductions</p>
+                        )}
+                        <div className="flex justify-between border-t border-gray-200 pt-2 dark:border-gray-700">
+                          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Total Deductions</span>
+                          <span className="text-sm font-semibold text-red-600 dark:text-red-400">
+                            -₹{computation.total_deductions.toLocaleString("en-IN")}
+                          </span>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 {/* Net Amount */}
                 <div className="rounded-lg bg-sky-50 p-6 dark:bg-sky-900/20">
                   <div className="flex items-center justify-between">
                     <div>
                       <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Net Payable Amount</p>
                       <p className="mt-1 text-xs text-gray-500 dark:text-gray-500">
-                        (Base Salary - Leave Deduction)
+                        {deductions.length > 0 ? "(Gross Earnings - Deductions)" : "(Base Salary - Leave Deduction)"}
                       </p>
                     </div>
                     <div className="text-right">
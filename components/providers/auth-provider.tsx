@@ -3,13 +3,15 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from "react";
 import { useRouter, usePathname } from "next/navigation";
 import { apiClient, LoginResponse } from "@/lib/api";
-import { User } from "@/lib/auth";
+import { User, UserRole, AppModule, PermissionLevel, getUserRole, hasPermission as userHasPermission } from "@/lib/auth";
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isAuthorized: boolean; // Staff or superuser
   isLoading: boolean;
+  role: UserRole | null;
+  hasPermission: (module: AppModule, level?: PermissionLevel) => boolean;
   login: (loginIdentifier: string, password: string, rememberMe?: boolean) => Promise<void>;
   logout: () => Promise<void>;
   checkAuth: () => Promise<void>;
@@ -122,6 +124,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     isAuthenticated: !!user,
     isAuthorized: !!isAuthorized,
     isLoading,
+    role: getUserRole(user),
+    hasPermission: (module, level = "read") => userHasPermission(user, module, level),
     login,
     logout,
     checkAuth,
@@ -0,0 +1,228 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Calendar, Clock, Loader2, MapPin, User, X } from "lucide-react";
+import { Task, TaskStatus } from "@/types";
+import { showAlert } from "@/lib/sweetalert";
+
+export const BOARD_COLUMNS: { status: TaskStatus; label: string; accent: string }[] = [
+  { status: "Open", label: "Draft", accent: "border-t-gray-400" },
+  { status: "In Progress", label: "In Progress", accent: "border-t-blue-500" },
+  { status: "Completed", label: "Pending Approval", accent: "border-t-orange-500" },
+  { status: "Approved", label: "Approved", accent: "border-t-green-500" },
+  { status: "Rejected", label: "Rejected", accent: "border-t-red-500" },
+];
+
+/**
+ * Board column of a task: approval outcome wins over the work status
+ */
+export function getBoardColumn(task: Task): TaskStatus {
+  if (task.approval_status === "approved") return "Approved";
+  if (task.approval_status === "rejected" || task.status === "Rejected") return "Rejected";
+  return task.status;
+}
+
+interface TaskBoardProps {
+  tasks: Task[];
+  columnCounts: Partial<Record<TaskStatus, number>>;
+  canWrite: boolean;
+  isLoading: boolean;
+  onOpenTask: (task: Task) => void;
+  onMoveTask: (task: Task, to: TaskStatus, reason?: string) => Promise<void>;
+}
+
+export function TaskBoard({ tasks, columnCounts, canWrite, isLoading, onOpenTask, onMoveTask }: TaskBoardProps) {
+  const [draggedTask, setDraggedTask] = useState<Task | null>(null);
+  const [dropTarget, setDropTarget] = useState<TaskStatus | null>(null);
+  const [movingTaskId, setMovingTaskId] = useState<number | null>(null);
+  const [rejectingTask, setRejectingTask] = useState<Task | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+
+  const moveTask = async (task: Task, to: TaskStatus, reason?: string) => {
+    setMovingTaskId(task.id);
+    try {
+      await onMoveTask(task, to, reason);
+    } finally {
+      setMovingTaskId(null);
+    }
+  };
+
+  const handleDrop = (to: TaskStatus) => {
+    const task = draggedTask;
+    setDraggedTask(null);
+    setDropTarget(null);
+    if (!task || getBoardColumn(task) === to) return;
+
+    // Approval decisions only apply to finished work
+    if ((to === "Approved" || to === "Rejected") && task.status !== "Completed") {
+      showAlert("Not Completed", "Only completed tasks can be approved or rejected.", "info");
+      return;
+    }
+
+    if (to === "Rejected") {
+      setRejectingTask(task);
+      setRejectReason("");
+      return;
+    }
+
+    moveTask(task, to);
+  };
+
+  const handleRejectSubmit = async () => {
+    if (!rejectingTask || !rejectReason.trim()) return;
+    const task = rejectingTask;
+    setRejectingTask(null);
+    await moveTask(task, "Rejected", rejectReason.trim());
+  };
+
+  return (
+    <>
+      <div className="relative overflow-x-auto pb-2">
+        {isLoading && (
+          <div className="absolute inset-0 z-10 flex items-center justify-center bg-white/50 dark:bg-gray-900/50">
+            <Loader2 className="h-8 w-8 animate-spin text-sky-500" />
+          </div>
+        )}
+        <div className="grid min-w-[1100px] grid-cols-5 gap-4">
+          {BOARD_COLUMNS.map((column) => {
+            const columnTasks = tasks.filter((task) => getBoardColumn(task) === column.status);
+            const isDropTarget = dropTarget === column.status && draggedTask !== null;
+            return (
+              <div
+                key={column.status}
+                onDragOver={(e) => {
+                  if (!draggedTask) return;
+                  e.preventDefault();
+                  setDropTarget(column.status);
+                }}
+                onDragLeave={() => setDropTarget((prev) => (prev === column.status ? null : prev))}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(column.status);
+                }}
+                className={`flex flex-col rounded-lg border-t-4 bg-gray-100 dark:bg-gray-900 ${column.accent} ${
+                  isDropTarget ? "ring-2 ring-sky-400" : ""
+                }`}
+              >
+                <div className="flex items-center justify-between px-3 py-2">
+                  <h3 className="text-sm font-semibold text-gray-900 dark:text-white">{column.label}</h3>
+                  <span className="rounded-full bg-white px-2 py-0.5 text-xs font-medium text-gray-600 dark:bg-gray-800 dark:text-gray-300">
+                    {columnCounts[column.status] ?? columnTasks.length}
+                  </span>
+                </div>
+                <div className="flex min-h-[200px] flex-1 flex-col gap-2 p-2">
+                  {columnTasks.length === 0 ? (
+                    <p className="py-6 text-center text-xs text-gray-400 dark:text-gray-500">No tasks</p>
+                  ) : (
+                    columnTasks.map((task) => (
+                      <div
+                        key={task.id}
+                        draggable={canWrite && movingTaskId === null}
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = "move";
+                          setDraggedTask(task);
+                        }}
+                        onDragEnd={() => {
+                          setDraggedTask(null);
+                          setDropTarget(null);
+                        }}
+                        onClick={() => onOpenTask(task)}
+                        className={`rounded-lg bg-white p-3 shadow-sm transition-opacity hover:shadow dark:bg-gray-800 ${
+                          canWrite ? "cursor-grab active:cursor-grabbing" : "cursor-pointer"
+                        } ${draggedTask?.id === task.id || movingTaskId === task.id ? "opacity-50" : ""}`}
+                      >
+                        <div className="flex items-start justify-between gap-2">
+                          <p className="line-clamp-2 text-sm font-medium text-gray-900 dark:text-white">{task.description}</p>
+                          {movingTaskId === task.id && <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin text-sky-500" />}
+                        </div>
+                        {task.project_name && (
+                          <p className="mt-1 truncate text-xs text-sky-700 dark:text-sky-400">{task.project_name}</p>
+                        )}
+                        <div className="mt-2 space-y-1 text-xs text-gray-500 dark:text-gray-400">
+                          {task.employee_name && (
+                            <div className="flex items-center gap-1">
+                              <User className="h-3 w-3" />
+                              <span className="truncate">{task.employee_name}</span>
+                            </div>
+                          )}
+                          {task.date && (
+                            <div className="flex items-center gap-1">
+                              <Calendar className="h-3 w-3" />
+                              {format(new Date(task.date), "dd MMM yyyy")}
+                            </div>
+                          )}
+                          {task.location && (
+                            <div className="flex items-center gap-1">
+                              <MapPin className="h-3 w-3" />
+                              <span className="truncate">{task.location}</span>
+                            </div>
+                          )}
+                          {task.time_taken_minutes > 0 && (
+                            <div className="flex items-center gap-1">
+                              <Clock className="h-3 w-3" />
+                              {(task.time_taken_minutes / 60).toFixed(1)}h
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Rejection reason */}
+      {rejectingTask && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="fixed inset-0 bg-black bg-opacity-30" onClick={() => setRejectingTask(null)} />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative w-full max-w-md rounded-lg bg-white shadow-xl dark:bg-gray-800">
+              <div className="flex items-center justify-between border-b border-gray-200 p-6 dark:border-gray-700">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Reject Task</h3>
+                <button
+                  onClick={() => setRejectingTask(null)}
+                  className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <div className="p-6">
+                <p className="mb-3 text-sm text-gray-600 dark:text-gray-400">{rejectingTask.description}</p>
+                <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Reason for Rejection <span className="text-red-500">*</span>
+                </label>
+                <textarea
+                  value={rejectReason}
+                  onChange={(e) => setRejectReason(e.target.value)}
+                  placeholder="Enter reason for rejection..."
+                  rows={4}
+                  autoFocus
+                  className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                />
+              </div>
+              <div className="flex items-center justify-end gap-3 border-t border-gray-200 p-6 dark:border-gray-700">
+                <button
+                  onClick={() => setRejectingTask(null)}
+                  className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleRejectSubmit}
+                  disabled={!rejectReason.trim()}
+                  className="rounded-lg bg-red-500 px-4 py-2 text-sm font-medium text-white hover:bg-red-600 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  Reject Task
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -27,7 +27,7 @@ import {
 } from "lucide-react";
 import { Task, TaskResource, TaskAttachment, TaskActivity, TaskStatus } from "@/types";
 import { format } from "date-fns";
-import { apiClient, BackendTaskDetail, BackendTaskAttachment, BackendTaskActivity, BackendProjectListItem, BackendEmployeeListItem } from "@/lib/api";
+import { apiClient, isQueuedOffline, BackendTaskDetail, BackendTaskAttachment, BackendTaskActivity, BackendProjectListItem, BackendEmployeeListItem } from "@/lib/api";
 import { showAlert, showDeleteConfirm, showSuccess, showConfirm } from "@/lib/sweetalert";
 import { DatePicker } from "@/components/ui/date-picker";
 
@@ -504,6 +504,10 @@ export function TaskDetailSlideOver({
   const handleUploadAttachment = async (file: File, notes?: string) => {
     try {
       const attachment = await apiClient.attachTaskDocument(task.id, file, notes);
+      if (isQueuedOffline(attachment)) {
+        showSuccess("Saved offline", attachment.message);
+        return;
+      }
       
       // Map and add to attachments
       const fileName = attachment.file_name.toLowerCase();
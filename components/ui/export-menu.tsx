@@ -0,0 +1,93 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { Download, ChevronDown, FileText, FileSpreadsheet, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ExportFormat } from "@/lib/export";
+import { showError, showSuccess } from "@/lib/sweetalert";
+
+export interface ExportMenuProps {
+  /**
+   * Perform the export in the chosen format and return the number of exported rows
+   */
+  onExport: (format: ExportFormat) => Promise<number>;
+  label?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * "Export" button with a CSV / Excel dropdown used on every list page
+ */
+export function ExportMenu({ onExport, label = "Export", disabled = false, className }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+      return () => document.removeEventListener("mousedown", handleClickOutside);
+    }
+  }, [isOpen]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    try {
+      const count = await onExport(format);
+      if (count === 0) {
+        await showError("No Data", "There are no records to export for the current filters");
+      } else {
+        await showSuccess("Exported Successfully", `${count} record${count === 1 ? "" : "s"} exported`);
+      }
+    } catch (err: any) {
+      console.error("Export failed:", err);
+      await showError("Export Failed", err.message || "Failed to export records");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className={cn("relative", className)} ref={containerRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled || isExporting}
+        className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed dark:border-gray-600 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700"
+      >
+        {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+        {isExporting ? "Exporting..." : label}
+        <ChevronDown className="h-4 w-4 text-gray-400" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-1 w-44 rounded-lg border border-gray-300 bg-white shadow-lg dark:border-gray-700 dark:bg-gray-900">
+          <button
+            type="button"
+            onClick={() => handleExport("csv")}
+            className="flex w-full items-center gap-2 px-4 py-2 text-left text-sm text-gray-900 hover:bg-gray-100 dark:text-white dark:hover:bg-gray-700"
+          >
+            <FileText className="h-4 w-4" />
+            CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => handleExport("xlsx")}
+            className="flex w-full items-center gap-2 px-4 py-2 text-left text-sm text-gray-900 hover:bg-gray-100 dark:text-white dark:hover:bg-gray-700"
+          >
+            <FileSpreadsheet className="h-4 w-4" />
+            Excel (.xlsx)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Loader2 } from "lucide-react";
+import { formatCoordinates, reverseGeocode } from "@/lib/geocoding";
+import { cn } from "@/lib/utils";
+
+interface LocationAddressProps {
+  latitude: string | number | null | undefined;
+  longitude: string | number | null | undefined;
+  fallback?: string | null; // Shown when no address resolves, before the raw coordinates
+  className?: string;
+}
+
+/**
+ * Readable address for a coordinate pair, resolved through the configured geocoding providers
+ */
+export function LocationAddress({ latitude, longitude, fallback, className }: LocationAddressProps) {
+  const [address, setAddress] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setAddress(null);
+    if (latitude === null || latitude === undefined || longitude === null || longitude === undefined) return;
+
+    let isCancelled = false;
+    setIsLoading(true);
+    reverseGeocode(latitude, longitude)
+      .then((result) => {
+        if (!isCancelled) setAddress(result);
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [latitude, longitude]);
+
+  if (isLoading) {
+    return (
+      <span className={cn("flex items-center gap-2 text-gray-400 dark:text-gray-500", className)}>
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Loading address...
+      </span>
+    );
+  }
+
+  const hasCoordinates = latitude !== null && latitude !== undefined && longitude !== null && longitude !== undefined;
+  return (
+    <span className={className}>
+      {address || fallback || (hasCoordinates ? formatCoordinates(latitude, longitude) : "-")}
+    </span>
+  );
+}
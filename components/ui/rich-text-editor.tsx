@@ -0,0 +1,203 @@
+"use client";
+
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from "react";
+import {
+  AlignCenter,
+  AlignLeft,
+  AlignRight,
+  Bold,
+  Code,
+  Heading2,
+  Italic,
+  Link2,
+  List,
+  ListOrdered,
+  Pilcrow,
+  RemoveFormatting,
+  Underline,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+
+// Restores list, heading and link styling that Tailwind's preflight removes
+export const RICH_TEXT_CONTENT_CLASS =
+  "[&_p]:my-2 [&_h2]:my-3 [&_h2]:text-lg [&_h2]:font-semibold [&_ul]:my-2 [&_ul]:list-disc [&_ul]:pl-6 [&_ol]:my-2 [&_ol]:list-decimal [&_ol]:pl-6 [&_a]:text-sky-600 [&_a]:underline [&_table]:border-collapse [&_td]:border [&_td]:px-2 [&_td]:py-1 [&_th]:border [&_th]:px-2 [&_th]:py-1";
+
+export interface RichTextEditorHandle {
+  insertText: (text: string) => void;
+}
+
+interface RichTextEditorProps {
+  value: string; // HTML
+  onChange: (html: string) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+const TOOLBAR: { command: string; value?: string; icon: typeof Bold; title: string }[] = [
+  { command: "bold", icon: Bold, title: "Bold" },
+  { command: "italic", icon: Italic, title: "Italic" },
+  { command: "underline", icon: Underline, title: "Underline" },
+  { command: "formatBlock", value: "h2", icon: Heading2, title: "Heading" },
+  { command: "formatBlock", value: "p", icon: Pilcrow, title: "Paragraph" },
+  { command: "insertUnorderedList", icon: List, title: "Bulleted list" },
+  { command: "insertOrderedList", icon: ListOrdered, title: "Numbered list" },
+  { command: "justifyLeft", icon: AlignLeft, title: "Align left" },
+  { command: "justifyCenter", icon: AlignCenter, title: "Align center" },
+  { command: "justifyRight", icon: AlignRight, title: "Align right" },
+  { command: "removeFormat", icon: RemoveFormatting, title: "Clear formatting" },
+];
+
+/**
+ * WYSIWYG HTML editor with a toggle to edit the HTML source directly
+ */
+export const RichTextEditor = forwardRef<RichTextEditorHandle, RichTextEditorProps>(
+  ({ value, onChange, placeholder, disabled = false, className }, ref) => {
+    const editorRef = useRef<HTMLDivElement>(null);
+    const sourceRef = useRef<HTMLTextAreaElement>(null);
+    const selectionRef = useRef<Range | null>(null);
+    const [showSource, setShowSource] = useState(false);
+
+    // Only write the DOM when the value changed from outside, so the caret is not reset while typing
+    useEffect(() => {
+      const editor = editorRef.current;
+      if (!showSource && editor && editor.innerHTML !== value) {
+        editor.innerHTML = value;
+      }
+    }, [value, showSource]);
+
+    const emitChange = () => {
+      if (editorRef.current) onChange(editorRef.current.innerHTML);
+    };
+
+    const saveSelection = () => {
+      const selection = window.getSelection();
+      if (selection && selection.rangeCount > 0 && editorRef.current?.contains(selection.anchorNode)) {
+        selectionRef.current = selection.getRangeAt(0).cloneRange();
+      }
+    };
+
+    // Put the caret back where it was before a toolbar button or the placeholder list took focus
+    const restoreSelection = () => {
+      const editor = editorRef.current;
+      const selection = window.getSelection();
+      if (!editor || !selection) return;
+      editor.focus();
+      let range = selectionRef.current;
+      if (!range || !editor.contains(range.startContainer)) {
+        range = document.createRange();
+        range.selectNodeContents(editor);
+        range.collapse(false);
+      }
+      selection.removeAllRanges();
+      selection.addRange(range);
+    };
+
+    const runCommand = (command: string, commandValue?: string) => {
+      restoreSelection();
+      document.execCommand(command, false, commandValue);
+      saveSelection();
+      emitChange();
+    };
+
+    const handleLink = () => {
+      const url = prompt("Link URL:", "https://");
+      if (url === null) return;
+      runCommand(url.trim() ? "createLink" : "unlink", url.trim() || undefined);
+    };
+
+    useImperativeHandle(ref, () => ({
+      insertText: (text: string) => {
+        if (showSource) {
+          const textarea = sourceRef.current;
+          const start = textarea?.selectionStart ?? value.length;
+          const end = textarea?.selectionEnd ?? value.length;
+          onChange(value.slice(0, start) + text + value.slice(end));
+          requestAnimationFrame(() => {
+            textarea?.focus();
+            textarea?.setSelectionRange(start + text.length, start + text.length);
+          });
+        } else {
+          runCommand("insertText", text);
+        }
+      },
+    }));
+
+    const buttonClass =
+      "rounded p-1.5 text-gray-600 hover:bg-gray-200 hover:text-gray-900 disabled:cursor-not-allowed disabled:opacity-40 dark:text-gray-300 dark:hover:bg-gray-700 dark:hover:text-white";
+
+    return (
+      <div
+        className={cn(
+          "overflow-hidden rounded-md border border-gray-300 focus-within:ring-2 focus-within:ring-sky-500 dark:border-gray-700",
+          className
+        )}
+      >
+        <div className="flex flex-wrap items-center gap-0.5 border-b border-gray-200 bg-gray-50 px-2 py-1 dark:border-gray-700 dark:bg-gray-800/50">
+          {TOOLBAR.map(({ command, value: commandValue, icon: Icon, title }) => (
+            <button
+              key={title}
+              type="button"
+              title={title}
+              // Keep the selection in the editor when the button is pressed
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => runCommand(command, commandValue)}
+              disabled={disabled || showSource}
+              className={buttonClass}
+            >
+              <Icon className="h-4 w-4" />
+            </button>
+          ))}
+          <button
+            type="button"
+            title="Link"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={handleLink}
+            disabled={disabled || showSource}
+            className={buttonClass}
+          >
+            <Link2 className="h-4 w-4" />
+          </button>
+          <button
+            type="button"
+            title={showSource ? "Back to editor" : "Edit HTML"}
+            onClick={() => setShowSource(!showSource)}
+            disabled={disabled}
+            className={cn(buttonClass, "ml-auto flex items-center gap-1 text-xs", showSource && "bg-gray-200 dark:bg-gray-700")}
+          >
+            <Code className="h-4 w-4" />
+            HTML
+          </button>
+        </div>
+
+        {showSource ? (
+          <textarea
+            ref={sourceRef}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+            rows={15}
+            className="block w-full resize-y bg-white px-3 py-2 font-mono text-sm focus:outline-none dark:bg-gray-800"
+          />
+        ) : (
+          <div
+            ref={editorRef}
+            contentEditable={!disabled}
+            suppressContentEditableWarning
+            onInput={emitChange}
+            onKeyUp={saveSelection}
+            onMouseUp={saveSelection}
+            onBlur={saveSelection}
+            data-placeholder={placeholder}
+            className={cn(
+              "min-h-[320px] bg-white px-3 py-2 text-sm focus:outline-none dark:bg-gray-800",
+              "empty:before:text-gray-400 empty:before:content-[attr(data-placeholder)]",
+              RICH_TEXT_CONTENT_CLASS
+            )}
+          />
+        )}
+      </div>
+    );
+  }
+);
+RichTextEditor.displayName = "RichTextEditor";
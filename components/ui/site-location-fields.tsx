@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { Crosshair, Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { LocationAddress } from "@/components/ui/location-address";
+import { DEFAULT_GEOFENCE_RADIUS_METERS, validateSiteLocation } from "@/lib/geofence";
+import { showAlert } from "@/lib/sweetalert";
+
+export interface SiteLocationValue {
+  latitude: string;
+  longitude: string;
+  radius: string; // Metres
+}
+
+interface SiteLocationFieldsProps {
+  value: SiteLocationValue;
+  onChange: (value: SiteLocationValue) => void;
+  error?: string;
+}
+
+/**
+ * Site coordinate and geofence radius inputs, with a button to use the device's current position
+ */
+export function SiteLocationFields({ value, onChange, error }: SiteLocationFieldsProps) {
+  const [isLocating, setIsLocating] = useState(false);
+  const hasValidSite =
+    !!value.latitude.trim() && !validateSiteLocation(value.latitude, value.longitude, value.radius);
+
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      showAlert("Not Supported", "This browser cannot provide your location.", "info");
+      return;
+    }
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        onChange({
+          ...value,
+          latitude: position.coords.latitude.toFixed(6),
+          longitude: position.coords.longitude.toFixed(6),
+        });
+        setIsLocating(false);
+      },
+      (err) => {
+        console.error("Failed to get current location:", err);
+        showAlert("Location Unavailable", err.message || "Could not get your current location.", "error");
+        setIsLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 15000 }
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className="mb-1 block text-xs font-medium text-gray-600 dark:text-gray-400">Latitude</label>
+          <Input
+            type="text"
+            inputMode="decimal"
+            value={value.latitude}
+            onChange={(e) => onChange({ ...value, latitude: e.target.value })}
+            placeholder="e.g., 19.076090"
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-xs font-medium text-gray-600 dark:text-gray-400">Longitude</label>
+          <Input
+            type="text"
+            inputMode="decimal"
+            value={value.longitude}
+            onChange={(e) => onChange({ ...value, longitude: e.target.value })}
+            placeholder="e.g., 72.877426"
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-xs font-medium text-gray-600 dark:text-gray-400">Radius (m)</label>
+          <Input
+            type="number"
+            min={1}
+            value={value.radius}
+            onChange={(e) => onChange({ ...value, radius: e.target.value })}
+            placeholder={String(DEFAULT_GEOFENCE_RADIUS_METERS)}
+          />
+        </div>
+      </div>
+      {hasValidSite && (
+        <LocationAddress
+          latitude={value.latitude}
+          longitude={value.longitude}
+          className="block text-xs text-gray-600 dark:text-gray-400"
+        />
+      )}
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Check-ins farther than the radius from this point are held for review.
+        </p>
+        <button
+          type="button"
+          onClick={handleUseCurrentLocation}
+          disabled={isLocating}
+          className="inline-flex flex-shrink-0 items-center gap-1 text-xs font-medium text-sky-600 hover:text-sky-700 disabled:opacity-50 dark:text-sky-400"
+        >
+          {isLocating ? <Loader2 className="h-3 w-3 animate-spin" /> : <Crosshair className="h-3 w-3" />}
+          Use Current Location
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * AMC billing schedule generator
+ * Splits an AMC contract into billing periods for its billing cycle.
+ * The AMC amount is treated as the annual contract value, so a full period
+ * is billed amount × (cycle months / 12) and partial periods are pro-rated by day.
+ */
+
+import { addMonths, addDays, differenceInCalendarDays, format, parseISO, isValid, startOfMonth } from "date-fns";
+import { AMC, AMCBilling } from "@/types";
+
+export type BillingCycle = AMC["billing_cycle"];
+
+/**
+ * Where period boundaries fall:
+ * - contract: every cycle starts on the contract start date (only the last period can be partial)
+ * - financial-year: periods follow the Indian financial year (Apr–Mar quarters / halves),
+ *   so the first and last periods can both be partial
+ */
+export type BillingAlignment = "contract" | "financial-year";
+
+export const BILLING_CYCLE_MONTHS: Record<BillingCycle, number> = {
+  Monthly: 1,
+  Quarterly: 3,
+  "Half-yearly": 6,
+  Yearly: 12,
+};
+
+export interface BillingPeriod {
+  index: number; // 1-based
+  period_from: string; // YYYY-MM-DD
+  period_to: string; // YYYY-MM-DD
+  days: number;
+  full_period_days: number;
+  is_prorated: boolean;
+  amount: number;
+  billing?: AMCBilling; // Existing bill covering this period, if any
+}
+
+const FINANCIAL_YEAR_START_MONTH = 3; // April (0-based)
+
+function toDateString(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * First boundary on or before the given date for a financial-year aligned cycle
+ */
+function financialYearBoundary(date: Date, cycleMonths: number): Date {
+  const monthsSinceFYStart = (date.getMonth() - FINANCIAL_YEAR_START_MONTH + 12) % 12;
+  const offset = monthsSinceFYStart % cycleMonths;
+  return addMonths(startOfMonth(date), -offset);
+}
+
+/**
+ * Generate the billing schedule of an AMC
+ * Existing bills are attached to the period with the same start date
+ */
+export function generateBillingSchedule(
+  amc: Pick<AMC, "start_date" | "end_date" | "billing_cycle" | "amount">,
+  options: { alignment?: BillingAlignment; billings?: AMCBilling[] } = {}
+): BillingPeriod[] {
+  const start = parseISO(amc.start_date);
+  const end = parseISO(amc.end_date);
+  if (!isValid(start) || !isValid(end) || end < start || !(amc.amount > 0)) {
+    return [];
+  }
+
+  const cycleMonths = BILLING_CYCLE_MONTHS[amc.billing_cycle] || 12;
+  const fullPeriodAmount = (amc.amount * cycleMonths) / 12;
+  const alignment = options.alignment || "contract";
+  const periods: BillingPeriod[] = [];
+
+  const anchor = alignment === "financial-year" ? financialYearBoundary(start, cycleMonths) : start;
+  // Offsets are always taken from the anchor so month-end start dates don't drift (31 Jan → 28 Feb → 28 Mar)
+  // Capped at 100 years of monthly bills to guard against bad data
+  for (let cycle = 0; periods.length < 1200; cycle++) {
+    const nominalStart = addMonths(anchor, cycle * cycleMonths);
+    if (nominalStart > end) break;
+    const nominalEnd = addDays(addMonths(anchor, (cycle + 1) * cycleMonths), -1);
+    const periodFrom = nominalStart < start ? start : nominalStart;
+    const periodTo = nominalEnd > end ? end : nominalEnd;
+
+    const fullPeriodDays = differenceInCalendarDays(nominalEnd, nominalStart) + 1;
+    const days = differenceInCalendarDays(periodTo, periodFrom) + 1;
+    const isProrated = days < fullPeriodDays;
+
+    const periodFromString = toDateString(periodFrom);
+    periods.push({
+      index: periods.length + 1,
+      period_from: periodFromString,
+      period_to: toDateString(periodTo),
+      days,
+      full_period_days: fullPeriodDays,
+      is_prorated: isProrated,
+      amount: roundAmount(isProrated ? (fullPeriodAmount * days) / fullPeriodDays : fullPeriodAmount),
+      billing: options.billings?.find((bill) => bill.period_from.slice(0, 10) === periodFromString),
+    });
+  }
+
+  return periods;
+}
@@ -0,0 +1,204 @@
+/**
+ * AMC renewal workflow
+ * An expiring AMC is renewed by a successor contract that starts the day after it ends, runs for the same
+ * term on the same billing cycle and is priced at the current amount plus an escalation percentage.
+ * The proposal can be sent to the client as a quote (kept until it is accepted or discarded); accepting it creates the successor linked to the old AMC, marks the old one Expired and
+ * records the renewal in the old AMC's activity history.
+ */
+
+import { addDays, addMonths, differenceInCalendarDays, differenceInCalendarMonths, format, isValid, parseISO } from "date-fns";
+import { AMC } from "@/types";
+import { apiClient, BackendAMCDetail, fetchAllPages } from "@/lib/api";
+
+export interface RenewalProposal {
+  amc_number: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD
+  billing_cycle: AMC["billing_cycle"];
+  escalation_percent: number;
+  amount: number;
+}
+
+export interface RenewalQuote extends RenewalProposal {
+  amc_id: number; // AMC being renewed
+  quoted_at: string; // ISO datetime
+  quoted_to: string; // Recipient email
+}
+
+export interface AMCRenewalSettings {
+  defaultEscalationPercent: number;
+}
+
+export const DEFAULT_AMC_RENEWAL_SETTINGS: AMCRenewalSettings = {
+  defaultEscalationPercent: 5,
+};
+
+type RenewableAMC = Pick<AMC, "id" | "amc_number" | "client_id" | "start_date" | "end_date" | "billing_cycle" | "amount">;
+
+/**
+ * Fill in missing parts of the saved renewal settings with the defaults
+ */
+export function resolveAMCRenewalSettings(saved?: Partial<AMCRenewalSettings> | null): AMCRenewalSettings {
+  return {
+    defaultEscalationPercent: saved?.defaultEscalationPercent ?? DEFAULT_AMC_RENEWAL_SETTINGS.defaultEscalationPercent,
+  };
+}
+
+/**
+ * Load the renewal settings saved in system settings, falling back to the defaults
+ */
+export async function fetchAMCRenewalSettings(): Promise<AMCRenewalSettings> {
+  try {
+    const settings = await apiClient.getSystemSettings();
+    return resolveAMCRenewalSettings(settings.amc_renewal_config);
+  } catch (err) {
+    console.error("Error fetching AMC renewal settings, using defaults:", err);
+    return DEFAULT_AMC_RENEWAL_SETTINGS;
+  }
+}
+
+export async function saveDefaultEscalation(percent: number): Promise<void> {
+  await apiClient.updateSystemSettings({ amc_renewal_config: { defaultEscalationPercent: percent } });
+}
+
+/**
+ * Load the quotes awaiting the client's acceptance, keyed by the id of the AMC being renewed
+ */
+export async function loadRenewalQuotes(): Promise<Record<string, RenewalQuote>> {
+  const quotes = await apiClient.getAMCRenewalQuotes();
+  return Object.fromEntries(quotes.map((quote) => [String(quote.amc_id), quote]));
+}
+
+export async function saveRenewalQuote(quote: RenewalQuote): Promise<void> {
+  await apiClient.saveAMCRenewalQuote(quote);
+}
+
+export function discardRenewalQuote(amcId: number): Promise<void> {
+  return apiClient.deleteAMCRenewalQuote(amcId);
+}
+
+/**
+ * Next number in a renewal chain: AMC-001 -> AMC-001-R1 -> AMC-001-R2
+ */
+export function suggestRenewalNumber(amcNumber: string): string {
+  const match = amcNumber.match(/^(.*)-R(\d+)$/);
+  return match ? `${match[1]}-R${parseInt(match[2], 10) + 1}` : `${amcNumber}-R1`;
+}
+
+export function applyEscalation(amount: number, percent: number): number {
+  return Math.round(amount * (1 + percent / 100) * 100) / 100;
+}
+
+/**
+ * Successor contract for an AMC: same term and billing cycle, starting the day after it ends
+ * Terms of whole months (e.g. 1 Apr - 31 Mar) stay whole months; other terms keep their length in days
+ */
+export function proposeRenewal(amc: RenewableAMC, escalationPercent: number): RenewalProposal {
+  const start = parseISO(amc.start_date);
+  const end = parseISO(amc.end_date);
+  const newStart = isValid(end) ? addDays(end, 1) : new Date();
+
+  let newEnd = addDays(addMonths(newStart, 12), -1);
+  if (isValid(start) && isValid(end)) {
+    const months = differenceInCalendarMonths(newStart, start);
+    const isWholeMonths = months > 0 && differenceInCalendarDays(addMonths(start, months), newStart) === 0;
+    newEnd = isWholeMonths
+      ? addDays(addMonths(newStart, months), -1)
+      : addDays(newStart, Math.max(differenceInCalendarDays(end, start), 0));
+  }
+
+  return {
+    amc_number: suggestRenewalNumber(amc.amc_number),
+    start_date: format(newStart, "yyyy-MM-dd"),
+    end_date: format(newEnd, "yyyy-MM-dd"),
+    billing_cycle: amc.billing_cycle,
+    escalation_percent: escalationPercent,
+    amount: applyEscalation(amc.amount, escalationPercent),
+  };
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatRenewalDate(value: string): string {
+  const date = parseISO(value);
+  return isValid(date) ? format(date, "dd MMM yyyy") : value;
+}
+
+/**
+ * Placeholder values for the renewal quote email, keyed by lower-case placeholder name
+ */
+export function getRenewalPlaceholderValues(amc: RenewableAMC, proposal: RenewalProposal): Record<string, string> {
+  return {
+    amc_number: amc.amc_number,
+    end_date: formatRenewalDate(amc.end_date),
+    current_amount: formatAmount(amc.amount),
+    renewal_amc_number: proposal.amc_number,
+    renewal_start_date: formatRenewalDate(proposal.start_date),
+    renewal_end_date: formatRenewalDate(proposal.end_date),
+    renewal_amount: formatAmount(proposal.amount),
+    amount: formatAmount(proposal.amount),
+    escalation_percent: String(proposal.escalation_percent),
+    billing_cycle: proposal.billing_cycle,
+  };
+}
+
+/**
+ * Successor already created for an AMC, e.g. by an earlier acceptance that failed part-way
+ */
+async function findSuccessor(amcId: number): Promise<BackendAMCDetail | null> {
+  const amcs = await fetchAllPages((page) => apiClient.getAMCs({ page }));
+  const existing = amcs.find((item) => item.renewed_from === amcId && item.status !== "Canceled");
+  return existing ? apiClient.getAMC(existing.id) : null;
+}
+
+/**
+ * Create the successor AMC, mark the renewed AMC Expired, record the renewal in its activity history
+ * and clear its pending quote
+ * Steps already done by an earlier attempt are skipped, so an acceptance that failed part-way can be
+ * retried without creating a second successor.
+ */
+export async function acceptRenewal(amc: RenewableAMC, proposal: RenewalProposal): Promise<BackendAMCDetail> {
+  const successor =
+    (await findSuccessor(amc.id)) ||
+    (await apiClient.createAMC({
+      client: amc.client_id,
+      amc_number: proposal.amc_number,
+      amount: proposal.amount,
+      start_date: proposal.start_date,
+      end_date: proposal.end_date,
+      billing_cycle: proposal.billing_cycle,
+      status: "Active",
+      notes: `Renewal of ${amc.amc_number} (${proposal.escalation_percent}% escalation)`,
+      renewed_from: amc.id,
+    }));
+
+  const current = await apiClient.getAMC(amc.id);
+  if (current.status !== "Expired") {
+    const renewalNote = `Renewed as ${successor.amc_number} on ${format(new Date(), "dd MMM yyyy")}`;
+    await apiClient.updateAMC(amc.id, {
+      status: "Expired",
+      notes: current.notes ? `${current.notes}\n${renewalNote}` : renewalNote,
+    });
+  }
+
+  const activities = await apiClient.getAMCActivities({ amc: amc.id, type: "AMC Renewed" });
+  if (activities.count === 0) {
+    await apiClient.createAMCActivity({
+      amc: amc.id,
+      type: "AMC Renewed",
+      description: `Renewed as ${successor.amc_number} (${formatRenewalDate(successor.start_date)} - ${formatRenewalDate(
+        successor.end_date
+      )}) at ₹${formatAmount(parseFloat(successor.amount) || 0)}`,
+    });
+  }
+
+  try {
+    await discardRenewalQuote(amc.id);
+  } catch (err) {
+    // The renewal itself succeeded; a stale quote is only cosmetic
+    console.error("Failed to clear renewal quote:", err);
+  }
+  return successor;
+}
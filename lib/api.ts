@@ -3,6 +3,24 @@
  * Handles authentication, CSRF tokens, and session cookies
  */
 
+import type { UserRole } from '@/lib/auth';
+import type { AMCActivity, PayrollComputation } from '@/types';
+import type { StatutoryConfig } from '@/lib/statutory';
+import type { ShiftConfig } from '@/lib/shifts';
+import type { AMCRenewalSettings, RenewalQuote } from '@/lib/amc-renewal';
+import type { PaymentReminderConfig, ReminderStage } from '@/lib/payment-reminders';
+import {
+  QueuedRequest,
+  deserializeRequestBody,
+  enqueueRequest,
+  getQueuedRequests,
+  isOfflineModeEnabled,
+  isOfflineQueueSupported,
+  removeQueuedRequest,
+  serializeRequestBody,
+  updateQueuedRequest,
+} from '@/lib/offline-queue';
+
 // Get API URL from environment variable or use default
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
 
@@ -20,6 +38,22 @@ export interface ApiError {
   [key: string]: any;
 }
 
+// Resolved in place of the response when a change is kept in the offline queue
+export interface QueuedOfflineResult {
+  queued: true;
+  message: string;
+}
+
+export function isQueuedOffline(value: unknown): value is QueuedOfflineResult {
+  return !!value && typeof value === 'object' && (value as QueuedOfflineResult).queued === true;
+}
+
+export interface OfflineReplayResult {
+  synced: number;
+  failed: number; // Rejected by the server during this replay
+  remaining: number; // Still pending, behind a failed request or because the connection dropped again
+}
+
 export interface LoginResponse {
   success: boolean;
   message: string;
@@ -31,6 +65,7 @@ export interface LoginResponse {
     last_name: string;
     is_superuser: boolean;
     is_staff: boolean;
+    role?: UserRole | null;
   };
   session_expiry?: string;
 }
@@ -94,7 +129,14 @@ export interface BackendClientListResponse {
   results: BackendClientListItem[];
 }
 
-export interface BackendClientDetail {
+// Site location used to geofence attendance check-ins (see lib/geofence.ts)
+export interface SiteGeofenceFields {
+  site_latitude?: string | null; // Decimal as string
+  site_longitude?: string | null; // Decimal as string
+  site_radius_meters?: number | null;
+}
+
+export interface BackendClientDetail extends SiteGeofenceFields {
   id: number;
   first_name: string;
   last_name: string;
@@ -150,6 +192,7 @@ export interface BackendAMCListItem {
   status: 'Active' | 'Expired' | 'Canceled';
   billing_cycle: 'Monthly' | 'Quarterly' | 'Half-yearly' | 'Yearly';
   days_until_expiry: number | null;
+  renewed_from?: number | null; // AMC this contract renews
   created_at: string;
 }
 
@@ -172,6 +215,7 @@ export interface BackendAMCDetail {
   status: 'Active' | 'Expired' | 'Canceled';
   billing_cycle: 'Monthly' | 'Quarterly' | 'Half-yearly' | 'Yearly';
   notes?: string;
+  renewed_from?: number | null; // AMC this contract renews
   total_amount: number;
   paid_amount: number;
   outstanding_amount: number;
@@ -201,6 +245,25 @@ export interface BackendAMCBilling {
   notes?: string;
 }
 
+export interface BackendAMCActivity {
+  id: number;
+  amc: number;
+  amc_number: string;
+  billing: number | null; // Bill the activity concerns, if any
+  type: AMCActivity['type'];
+  reminder_stage?: ReminderStage | null; // Set on 'Reminder Sent' entries
+  description: string;
+  performed_by_username: string | null;
+  created_at: string;
+}
+
+export interface AMCActivityListResponse {
+  count: number;
+  next: string | null;
+  previous: string | null;
+  results: BackendAMCActivity[];
+}
+
 /**
  * Tender Management Interfaces
  */
@@ -320,6 +383,7 @@ export interface BackendProjectListItem {
   name: string;
   tender: number;
   tender_name: string;
+  client?: number | null;
   start_date: string;
   end_date: string;
   status: 'Planned' | 'In Progress' | 'On Hold' | 'Completed' | 'Canceled';
@@ -333,12 +397,13 @@ export interface BackendProjectListResponse {
   results: BackendProjectListItem[];
 }
 
-export interface BackendProjectDetail {
+export interface BackendProjectDetail extends SiteGeofenceFields {
   id: number;
   name: string;
   description?: string;
   tender: number;
   tender_name: string;
+  client?: number | null;
   start_date: string;
   end_date: string;
   status: 'Planned' | 'In Progress' | 'On Hold' | 'Completed' | 'Canceled';
@@ -660,6 +725,7 @@ export interface BackendEmployeeListItem {
   photo_url: string | null;
   designation: 'Technician' | 'Field Staff' | 'Computer Operator' | 'Other';
   availability_status: string | null; // 'Present' or 'Absent' or null
+  joining_date?: string | null;
   created_at: string;
 }
 
@@ -816,6 +882,12 @@ export interface BulkUploadContractWorkerResponse {
   errors: string[];
 }
 
+// Contract workers are paid from exported payment sheets rather than payroll entries
+export interface ContractWorkerPaymentSheet {
+  period: string; // YYYY-MM
+  contract_workers: number[]; // Workers on any sheet exported for the period
+}
+
 /**
  * Attendance Management Interfaces
  */
@@ -849,6 +921,10 @@ export interface AttendanceListResponse {
   results: BackendAttendanceListItem[];
 }
 
+export interface ReverseGeocodeResponse {
+  address: string | null;
+}
+
 export interface AttendanceDetail {
   id: number;
   employee: number;
@@ -866,6 +942,8 @@ export interface AttendanceDetail {
   check_in_location_longitude: string | null;
   check_out_location_latitude: string | null;
   check_out_location_longitude: string | null;
+  project?: number | null; // Site the employee was assigned to for the day
+  project_name?: string | null;
   check_in_selfie: string | null;
   check_in_selfie_url: string | null;
   check_out_selfie: string | null;
@@ -947,6 +1025,7 @@ export interface PayrollDetail {
   payment_mode: 'Cash' | 'Bank Transfer' | 'Cheque' | 'UPI' | 'NEFT/RTGS' | null;
   bank_transaction_reference_number: string | null;
   notes: string | null;
+  computation_details?: PayrollComputation | null; // Breakdown saved when the payroll was drafted from attendance
   created_at: string;
   updated_at: string;
   created_by: number | null;
@@ -965,6 +1044,7 @@ export interface PayrollCreateData {
   payment_mode?: 'Cash' | 'Bank Transfer' | 'Cheque' | 'UPI' | 'NEFT/RTGS'; // required if payroll_status is "Paid"
   bank_transaction_reference_number?: string;
   notes?: string;
+  computation_details?: PayrollComputation;
 }
 
 export interface PayrollMarkPaidRequest {
@@ -1057,6 +1137,7 @@ export interface PaymentTrackerUploadResponse {
 export interface PaymentTrackerMarkPaidRequest {
   payment_date: string; // YYYY-MM-DD
   payment_mode: 'Cash' | 'Bank Transfer' | 'Cheque' | 'UPI' | 'NEFT/RTGS';
+  bank_transaction_reference_number?: string;
 }
 
 export interface BulkMarkPaymentTrackerPaidRequest {
@@ -1297,6 +1378,29 @@ export interface EmailTemplateSendRequest {
   recipients: string;
   scheduled_at?: string | null;
   placeholder_values?: Record<string, any>;
+  client?: number | null; // Logs the email against the client's activity
+}
+
+export interface BackendSentEmail {
+  id: number;
+  template: number | null;
+  template_name: string | null;
+  subject: string;
+  recipients: string;
+  client: number | null;
+  client_name: string | null;
+  status: 'Sent' | 'Scheduled' | 'Failed';
+  scheduled_at: string | null;
+  sent_at: string | null;
+  sent_by_username: string | null;
+  created_at: string;
+}
+
+export interface SentEmailListResponse {
+  count: number;
+  next: string | null;
+  previous: string | null;
+  results: BackendSentEmail[];
 }
 
 export interface EmailTemplateSendResponse {
@@ -1375,6 +1479,7 @@ export interface BackendHolidayCalendarListItem {
   date: string;
   type: 'National' | 'Festival' | 'Company';
   type_display: string;
+  is_optional?: boolean; // Employees may choose a limited number of optional holidays
   created_at: string;
   created_by: number | null;
   created_by_username: string | null;
@@ -1392,6 +1497,7 @@ export interface HolidayCalendarDetail {
   name: string;
   date: string;
   type: 'National' | 'Festival' | 'Company';
+  is_optional?: boolean;
   created_at: string;
   updated_at: string;
   created_by: number | null;
@@ -1404,6 +1510,88 @@ export interface HolidayCalendarCreateData {
   name: string;
   date: string; // YYYY-MM-DD
   type: 'National' | 'Festival' | 'Company';
+  is_optional?: boolean;
+}
+
+/**
+ * Leave Management Interfaces
+ */
+
+// 'optional-holiday' types hold the yearly quota of optional holidays an employee may take
+export type LeaveCategory = 'casual' | 'sick' | 'earned' | 'optional-holiday' | 'other';
+
+export type LeaveAccrual = 'yearly' | 'monthly';
+
+export interface BackendLeaveType {
+  id: number;
+  name: string;
+  code: string; // Short code, e.g. CL, SL, EL
+  category: LeaveCategory;
+  annual_quota: string; // Decimal as string, days per year
+  accrual: LeaveAccrual; // Credited in full on 1 January, or 1/12 per completed month
+  carry_forward_limit: string; // Decimal as string, max unused days carried into the next year
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BackendLeaveTypeListResponse {
+  count: number;
+  next: string | null;
+  previous: string | null;
+  results: BackendLeaveType[];
+}
+
+export interface LeaveTypeCreateData {
+  name: string;
+  code: string;
+  category: LeaveCategory;
+  annual_quota: number;
+  accrual: LeaveAccrual;
+  carry_forward_limit: number;
+  is_active?: boolean;
+}
+
+export type LeaveRequestStatus = 'Pending' | 'Approved' | 'Rejected' | 'Cancelled';
+
+export interface BackendLeaveRequest {
+  id: number;
+  employee: number;
+  employee_name: string;
+  employee_code: string;
+  leave_type: number;
+  leave_type_name: string;
+  leave_type_code: string;
+  start_date: string;
+  end_date: string;
+  is_half_day: boolean;
+  days: string; // Decimal as string, working days charged against the balance
+  optional_holiday: number | null; // Holiday taken, for optional-holiday requests
+  optional_holiday_name: string | null;
+  reason: string | null;
+  status: LeaveRequestStatus;
+  rejection_reason: string | null;
+  approved_by_username: string | null;
+  approved_at: string | null;
+  created_at: string;
+}
+
+export interface BackendLeaveRequestListResponse {
+  count: number;
+  next: string | null;
+  previous: string | null;
+  results: BackendLeaveRequest[];
+}
+
+export interface LeaveRequestCreateData {
+  employee: number;
+  leave_type: number;
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD
+  is_half_day?: boolean;
+  days: number;
+  optional_holiday?: number | null;
+  reason?: string;
 }
 
 /**
@@ -1443,8 +1631,44 @@ export interface TrainingVideoCreateData {
   rank?: number;
 }
 
+/**
+ * System Settings Interfaces
+ */
+
+export interface BackendSystemSettings {
+  company_name: string;
+  company_address: string;
+  company_phone: string;
+  company_email: string;
+  company_website?: string | null;
+  gst_number?: string | null;
+  pan_number?: string | null;
+  billing_currency: string;
+  timezone: string;
+  date_format: string;
+  reminder_days_before: number;
+  auto_backup_enabled: boolean;
+  email_notifications_enabled: boolean;
+  sms_notifications_enabled: boolean;
+  primary_bank_account: number | null; // Company bank account: printed on invoices, default debit account for bulk payments
+  statutory_config?: Partial<StatutoryConfig> | null; // Payroll deduction rules (defaults apply when empty)
+  shift_config?: Partial<ShiftConfig> | null; // Shifts, employee assignments and overtime rules
+  amc_renewal_config?: Partial<AMCRenewalSettings> | null; // Default renewal escalation
+  payment_reminder_config?: Partial<PaymentReminderConfig> | null; // Reminder templates and payment terms
+  payment_reminder_last_run?: string | null; // YYYY-MM-DD of the last automatic reminder run, set by the server on claim (read-only)
+}
+
+// Requests that must never be replayed later, or whose response the user needs right away (import reports)
+const NON_QUEUEABLE_ENDPOINTS = [
+  '/api/logout/',
+  '/api/contract-workers/bulk-upload/',
+  '/api/payment-tracker/upload/',
+  '/api/settings/claim-reminder-run/',
+];
+
 class ApiClient {
   private baseURL: string;
+  private isReplayingQueue = false;
 
   constructor(baseURL: string) {
     this.baseURL = baseURL;
@@ -1719,13 +1943,30 @@ class ApiClient {
 
   /**
    * Make an API request
+   * isOfflineReplay marks a request replayed from the offline queue, which must not be queued again.
+   * A change kept in the offline queue resolves with a QueuedOfflineResult instead of the response;
+   * callers that use the response check it with isQueuedOffline.
    */
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    isOfflineReplay: boolean = false
   ): Promise<T> {
     const url = `${this.baseURL}${endpoint}`;
     const method = options.method || 'GET';
+
+    // Offline mode: keep state-changing requests made without a connection for later replay, both when
+    // the browser reports itself offline and when the request fails with a network error
+    // Replayed requests are never queued again so a dropped connection stops the replay instead.
+    const canQueueOffline =
+      ['POST', 'PUT', 'DELETE', 'PATCH'].includes(method) &&
+      !isOfflineReplay &&
+      !NON_QUEUEABLE_ENDPOINTS.includes(endpoint) &&
+      isOfflineModeEnabled();
+    if (canQueueOffline && typeof navigator !== 'undefined' && navigator.onLine === false) {
+      const queued = await this.queueOfflineRequest(endpoint, method, options);
+      if (queued) return queued as T;
+    }
     
     // Log the request for debugging (only in development)
     
@@ -1847,8 +2088,10 @@ class ApiClient {
       credentials: 'include',
     };
 
+    let responded = false;
     try {
       const response = await fetch(url, config);
+      responded = true;
       
       // Handle non-JSON responses
       const contentType = response.headers.get('content-type');
@@ -2028,8 +2271,17 @@ class ApiClient {
 
       return data;
     } catch (error) {
+      // fetch rejects with a TypeError when no response arrived (connection dropped or refused); the
+      // message differs per browser ("Failed to fetch", "NetworkError when attempting...", "Load failed")
+      const isNetworkError = !responded && error instanceof TypeError;
+      if (canQueueOffline && isNetworkError) {
+        const queued = await this.queueOfflineRequest(endpoint, method, options);
+        if (queued) return queued as T;
+      }
+
       // Enhanced error handling
-      if (error instanceof TypeError && error.message === 'Failed to fetch') {
+      if (isNetworkError) {
+
         // Network error - API server might be down or CORS issue
         const networkError: ApiError = {
           error: 'Network Error',
@@ -2110,6 +2362,94 @@ class ApiClient {
     }
   }
 
+  /**
+   * Persist a request in the offline queue
+   * Returns the result to resolve the request with, or null if the body cannot be stored
+   */
+  private async queueOfflineRequest(
+    endpoint: string,
+    method: string,
+    options: RequestInit
+  ): Promise<QueuedOfflineResult | null> {
+    const body = serializeRequestBody(options.body);
+    if (body === null) return null;
+
+    const headers: Record<string, string> = {};
+    if (options.headers && !(options.headers instanceof Headers) && !Array.isArray(options.headers)) {
+      Object.assign(headers, options.headers);
+    }
+
+    try {
+      await enqueueRequest({ endpoint, method, headers, body });
+    } catch (queueError) {
+      console.error('[API] Failed to queue offline request:', queueError);
+      return null;
+    }
+
+    return {
+      queued: true,
+      message: 'The connection is unavailable. This change has been saved on this device and will sync automatically when the connection returns.',
+    };
+  }
+
+  /**
+   * Replay queued offline requests in the order they were made
+   * Each request fetches a fresh CSRF token (the session may have changed while offline).
+   * A rejected request (e.g. a conflict) is kept as failed with the server's message. Later requests
+   * may depend on it, so the replay stops there until it is retried or discarded; a network error
+   * also stops the replay.
+   */
+  async replayOfflineQueue(): Promise<OfflineReplayResult> {
+    const result: OfflineReplayResult = { synced: 0, failed: 0, remaining: 0 };
+    if (!isOfflineQueueSupported() || this.isReplayingQueue) return result;
+
+    this.isReplayingQueue = true;
+    try {
+      const queue = await getQueuedRequests();
+      const countPendingFrom = (index: number) => queue.slice(index).filter((item) => item.status === 'pending').length;
+      for (let i = 0; i < queue.length; i++) {
+        const item = queue[i];
+        if (item.status === 'failed') {
+          result.remaining = countPendingFrom(i + 1);
+          break;
+        }
+        try {
+          await this.request(
+            item.endpoint,
+            { method: item.method, headers: item.headers, body: deserializeRequestBody(item.body) },
+            true
+          );
+          await removeQueuedRequest(item.id);
+          result.synced++;
+        } catch (error: any) {
+          if (error?.error === 'Network Error') {
+            result.remaining = countPendingFrom(i);
+            break;
+          }
+          await updateQueuedRequest({
+            ...item,
+            status: 'failed',
+            error: `${error?.status ? `${error.status}: ` : ''}${error?.message || 'The server rejected this request'}`,
+          });
+          result.failed++;
+          result.remaining = countPendingFrom(i + 1);
+          break;
+        }
+      }
+    } finally {
+      this.isReplayingQueue = false;
+    }
+    return result;
+  }
+
+  /**
+   * Move a failed offline request back to pending and replay the queue
+   */
+  async retryOfflineRequest(item: QueuedRequest): Promise<OfflineReplayResult> {
+    await updateQueuedRequest({ ...item, status: 'pending', error: undefined });
+    return this.replayOfflineQueue();
+  }
+
   /**
    * Login endpoint
    * Special handling for login - Django will set CSRF token on first request if needed
@@ -2565,6 +2905,9 @@ Please verify:
     state?: string;
     pin_code?: string;
     country?: string;
+    site_latitude?: string;
+    site_longitude?: string;
+    site_radius_meters?: number;
   }): Promise<BackendClientDetail> {
     const formData = new FormData();
     formData.append('first_name', data.first_name);
@@ -2590,6 +2933,9 @@ Please verify:
     if (data.state) formData.append('state', data.state);
     if (data.pin_code) formData.append('pin_code', data.pin_code);
     if (data.country) formData.append('country', data.country);
+    if (data.site_latitude) formData.append('site_latitude', data.site_latitude);
+    if (data.site_longitude) formData.append('site_longitude', data.site_longitude);
+    if (data.site_radius_meters) formData.append('site_radius_meters', data.site_radius_meters.toString());
 
     // Use the request method which handles CSRF tokens properly
     // The request method will handle errors and format them correctly
@@ -2626,6 +2972,9 @@ Please verify:
     state: string;
     pin_code: string;
     country: string;
+    site_latitude: string;
+    site_longitude: string;
+    site_radius_meters: number | null;
   }>): Promise<BackendClientDetail> {
     const formData = new FormData();
     if (data.first_name !== undefined) formData.append('first_name', data.first_name);
@@ -2653,6 +3002,10 @@ Please verify:
     if (data.state !== undefined) formData.append('state', data.state || '');
     if (data.pin_code !== undefined) formData.append('pin_code', data.pin_code || '');
     if (data.country !== undefined) formData.append('country', data.country || '');
+    // Empty values clear the site geofence
+    if (data.site_latitude !== undefined) formData.append('site_latitude', data.site_latitude || '');
+    if (data.site_longitude !== undefined) formData.append('site_longitude', data.site_longitude || '');
+    if (data.site_radius_meters !== undefined) formData.append('site_radius_meters', data.site_radius_meters?.toString() || '');
 
     // Use the request method which handles CSRF tokens properly
     return this.request<BackendClientDetail>(`/api/clients/${id}/`, {
@@ -2738,6 +3091,7 @@ Please verify:
     billing_cycle: 'Monthly' | 'Quarterly' | 'Half-yearly' | 'Yearly';
     status?: 'Active' | 'Expired' | 'Canceled';
     notes?: string;
+    renewed_from?: number;
   }): Promise<BackendAMCDetail> {
     return this.request<BackendAMCDetail>('/api/amcs/', {
       method: 'POST',
@@ -2791,6 +3145,71 @@ Please verify:
     });
   }
 
+  /**
+   * Get the activity history of AMCs (bills, payments, reminders, renewals)
+   */
+  async getAMCActivities(params?: {
+    amc?: number;
+    type?: AMCActivity['type'];
+    page?: number;
+  }): Promise<AMCActivityListResponse> {
+    const queryParams = new URLSearchParams();
+    if (params?.amc) queryParams.append('amc', params.amc.toString());
+    if (params?.type) queryParams.append('type', params.type);
+    if (params?.page) queryParams.append('page', params.page.toString());
+
+    const queryString = queryParams.toString();
+    const endpoint = `/api/amcs/activities/${queryString ? `?${queryString}` : ''}`;
+
+    return this.request<AMCActivityListResponse>(endpoint, {
+      method: 'GET',
+    });
+  }
+
+  /**
+   * Record an entry in an AMC's activity history
+   */
+  async createAMCActivity(data: {
+    amc: number;
+    billing?: number | null;
+    type: AMCActivity['type'];
+    reminder_stage?: ReminderStage | null;
+    description: string;
+  }): Promise<BackendAMCActivity> {
+    return this.request<BackendAMCActivity>('/api/amcs/activities/', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Get the renewal quotes awaiting the client's acceptance
+   */
+  async getAMCRenewalQuotes(): Promise<RenewalQuote[]> {
+    return this.request<RenewalQuote[]>('/api/amcs/renewal-quotes/', {
+      method: 'GET',
+    });
+  }
+
+  /**
+   * Save the renewal quote sent for an AMC, replacing any earlier quote for it
+   */
+  async saveAMCRenewalQuote(quote: RenewalQuote): Promise<RenewalQuote> {
+    return this.request<RenewalQuote>(`/api/amcs/renewal-quotes/${quote.amc_id}/`, {
+      method: 'PUT',
+      body: JSON.stringify(quote),
+    });
+  }
+
+  /**
+   * Delete the pending renewal quote of an AMC
+   */
+  async deleteAMCRenewalQuote(amcId: number): Promise<void> {
+    await this.request(`/api/amcs/renewal-quotes/${amcId}/`, {
+      method: 'DELETE',
+    });
+  }
+
   /**
    * Tender Management APIs
    */
@@ -2981,29 +3400,10 @@ Please verify:
     formData.append('file', file);
     if (description) formData.append('description', description);
 
-    // Ensure we have a CSRF token before making the request
-    await this.ensureCsrfToken();
-    const csrfToken = this.getCsrfToken();
-    const headers: Record<string, string> = {};
-    if (csrfToken) {
-      headers['X-CSRFToken'] = csrfToken;
-    }
-
-    // CRITICAL: credentials: 'include' is required to send cookies (sessionid, csrftoken)
-    // Without this, Django won't receive the session cookie and CSRF validation will fail
-    const response = await fetch(`${this.baseURL}/api/tenders/${tenderId}/attach-document/`, {
+    return this.request<BackendTenderDocument>(`/api/tenders/${tenderId}/attach-document/`, {
       method: 'POST',
-      headers,
-      credentials: 'include', // Required for cookies and CSRF protection
       body: formData,
     });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Upload failed' }));
-      throw error;
-    }
-
-    return response.json();
   }
 
   /**
@@ -3068,11 +3468,13 @@ Please verify:
   async getProjects(params?: {
     search?: string;
     status?: 'Planned' | 'In Progress' | 'On Hold' | 'Completed' | 'Canceled';
+    client?: number;
     page?: number;
   }): Promise<BackendProjectListResponse> {
     const queryParams = new URLSearchParams();
     if (params?.search) queryParams.append('search', params.search);
     if (params?.status) queryParams.append('status', params.status);
+    if (params?.client) queryParams.append('client', params.client.toString());
     if (params?.page) queryParams.append('page', params.page.toString());
 
     const queryString = queryParams.toString();
@@ -3103,6 +3505,9 @@ Please verify:
     start_date?: string;
     end_date?: string;
     status?: 'Planned' | 'In Progress' | 'On Hold' | 'Completed' | 'Canceled';
+    site_latitude?: string | null;
+    site_longitude?: string | null;
+    site_radius_meters?: number | null;
   }): Promise<BackendProjectDetail> {
     return this.request<BackendProjectDetail>('/api/projects/', {
       method: 'POST',
@@ -3121,6 +3526,9 @@ Please verify:
     start_date: string;
     end_date: string;
     status: 'Planned' | 'In Progress' | 'On Hold' | 'Completed' | 'Canceled';
+    site_latitude: string | null;
+    site_longitude: string | null;
+    site_radius_meters: number | null;
   }>): Promise<BackendProjectDetail> {
     return this.request<BackendProjectDetail>(`/api/projects/${id}/`, {
       method: 'PATCH',
@@ -3324,29 +3732,10 @@ Please verify:
     formData.append('file', file);
     if (notes) formData.append('notes', notes);
 
-    // Ensure we have a CSRF token before making the request
-    await this.ensureCsrfToken();
-    const csrfToken = this.getCsrfToken();
-    const headers: Record<string, string> = {};
-    if (csrfToken) {
-      headers['X-CSRFToken'] = csrfToken;
-    }
-
-    // CRITICAL: credentials: 'include' is required to send cookies (sessionid, csrftoken)
-    // Without this, Django won't receive the session cookie and CSRF validation will fail
-    const response = await fetch(`${this.baseURL}/api/tasks/${taskId}/attach-document/`, {
+    return this.request<BackendTaskAttachment>(`/api/tasks/${taskId}/attach-document/`, {
       method: 'POST',
-      headers,
-      credentials: 'include', // Required for cookies and CSRF protection
       body: formData,
     });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Upload failed' }));
-      throw error;
-    }
-
-    return response.json();
   }
 
   /**
@@ -3517,29 +3906,10 @@ Please verify:
     formData.append('upload_file', data.upload_file);
     if (data.notes) formData.append('notes', data.notes);
 
-    // Ensure we have a CSRF token before making the request
-    await this.ensureCsrfToken();
-    const csrfToken = this.getCsrfToken();
-    const headers: Record<string, string> = {};
-    if (csrfToken) {
-      headers['X-CSRFToken'] = csrfToken;
-    }
-
-    // CRITICAL: credentials: 'include' is required to send cookies (sessionid, csrftoken)
-    // Without this, Django won't receive the session cookie and CSRF validation will fail
-    const response = await fetch(`${this.baseURL}/api/documents/templates/upload-template/`, {
+    return this.request<DocumentUploadResponse>(`/api/documents/templates/upload-template/`, {
       method: 'POST',
-      headers,
-      credentials: 'include', // Required for cookies and CSRF protection
       body: formData,
     });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Upload failed' }));
-      throw error;
-    }
-
-    return response.json();
   }
 
   /**
@@ -3551,6 +3921,16 @@ Please verify:
     });
   }
 
+  /**
+   * Publish a specific version of a template (the previously published version is unpublished)
+   */
+  async publishDocumentVersion(templateId: number, versionId: number): Promise<DocumentTemplate> {
+    return this.request<DocumentTemplate>(`/api/documents/templates/${templateId}/publish-version/`, {
+      method: 'POST',
+      body: JSON.stringify({ version_id: versionId }),
+    });
+  }
+
   /**
    * Download published version of a template
    */
@@ -3775,67 +4155,40 @@ Please verify:
     if (data.aadhar_card) formData.append('aadhar_card', data.aadhar_card);
     if (data.pan_card) formData.append('pan_card', data.pan_card);
 
-    // Ensure we have a CSRF token before making the request
-    await this.ensureCsrfToken();
-    const csrfToken = this.getCsrfToken();
-    const headers: Record<string, string> = {};
-    if (csrfToken) {
-      headers['X-CSRFToken'] = csrfToken;
-    }
-
-    // CRITICAL: credentials: 'include' is required to send cookies (sessionid, csrftoken)
-    // Without this, Django won't receive the session cookie and CSRF validation will fail
-    const response = await fetch(`${this.baseURL}/api/employees/`, {
-      method: 'POST',
-      headers,
-      credentials: 'include', // Required for cookies and CSRF protection
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Create failed' }));
-      
+    try {
+      return await this.request<EmployeeDetail>('/api/employees/', {
+        method: 'POST',
+        body: formData,
+      });
+    } catch (err: any) {
       // Parse Django validation errors
       // Django returns errors in formats like:
       // - {field_name: ["error message"]} for field-specific errors
       // - {error: "error message"} for general errors
       // - {detail: "error message"} for detail errors
-      let errorMessage = 'Failed to create employee';
-      
-      if (errorData.detail) {
-        errorMessage = errorData.detail;
-      } else if (errorData.error) {
-        errorMessage = errorData.error;
-      } else if (errorData.message) {
-        errorMessage = errorData.message;
-      } else {
-        // Extract field-specific errors
-        const fieldErrors: string[] = [];
-        for (const [field, messages] of Object.entries(errorData)) {
-          if (Array.isArray(messages)) {
-            fieldErrors.push(`${field}: ${messages.join(', ')}`);
-          } else if (typeof messages === 'string') {
-            fieldErrors.push(`${field}: ${messages}`);
-          } else if (typeof messages === 'object' && messages !== null) {
-            // Handle nested error objects
-            const nestedMessages = Object.values(messages).flat();
-            fieldErrors.push(`${field}: ${nestedMessages.join(', ')}`);
-          }
-        }
-        
-        if (fieldErrors.length > 0) {
-          errorMessage = fieldErrors.join('; ');
+      const errorData = err?.response;
+      if (!errorData || errorData.detail || errorData.error || errorData.message) throw err;
+
+      // Extract field-specific errors
+      const fieldErrors: string[] = [];
+      for (const [field, messages] of Object.entries(errorData)) {
+        if (Array.isArray(messages)) {
+          fieldErrors.push(`${field}: ${messages.join(', ')}`);
+        } else if (typeof messages === 'string') {
+          fieldErrors.push(`${field}: ${messages}`);
+        } else if (typeof messages === 'object' && messages !== null) {
+          // Handle nested error objects
+          const nestedMessages = Object.values(messages).flat();
+          fieldErrors.push(`${field}: ${nestedMessages.join(', ')}`);
         }
       }
-      
+
       // Create error object with parsed message
-      const error = new Error(errorMessage);
+      const error = new Error(fieldErrors.length > 0 ? fieldErrors.join('; ') : 'Failed to create employee');
       (error as any).response = errorData;
       (error as any).fieldErrors = errorData;
       throw error;
     }
-
-    return response.json();
   }
 
   /**
@@ -3868,29 +4221,10 @@ Please verify:
     if (data.aadhar_card) formData.append('aadhar_card', data.aadhar_card);
     if (data.pan_card) formData.append('pan_card', data.pan_card);
 
-    // Ensure we have a CSRF token before making the request
-    await this.ensureCsrfToken();
-    const csrfToken = this.getCsrfToken();
-    const headers: Record<string, string> = {};
-    if (csrfToken) {
-      headers['X-CSRFToken'] = csrfToken;
-    }
-
-    // CRITICAL: credentials: 'include' is required to send cookies (sessionid, csrftoken)
-    // Without this, Django won't receive the session cookie and CSRF validation will fail
-    const response = await fetch(`${this.baseURL}/api/employees/${id}/`, {
+    return this.request<EmployeeDetail>(`/api/employees/${id}/`, {
       method: 'PATCH',
-      headers,
-      credentials: 'include', // Required for cookies and CSRF protection
       body: formData,
     });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Update failed' }));
-      throw error;
-    }
-
-    return response.json();
   }
 
   /**
@@ -3979,29 +4313,10 @@ Please verify:
     if (data.bank_account_number) formData.append('bank_account_number', data.bank_account_number);
     if (data.ifsc_code) formData.append('ifsc_code', data.ifsc_code);
 
-    // Ensure we have a CSRF token before making the request
-    await this.ensureCsrfToken();
-    const csrfToken = this.getCsrfToken();
-    const headers: Record<string, string> = {};
-    if (csrfToken) {
-      headers['X-CSRFToken'] = csrfToken;
-    }
-
-    // CRITICAL: credentials: 'include' is required to send cookies (sessionid, csrftoken)
-    // Without this, Django won't receive the session cookie and CSRF validation will fail
-    const response = await fetch(`${this.baseURL}/api/contract-workers/`, {
+    return this.request<ContractWorkerDetail>(`/api/contract-workers/`, {
       method: 'POST',
-      headers,
-      credentials: 'include', // Required for cookies and CSRF protection
       body: formData,
     });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Create failed' }));
-      throw error;
-    }
-
-    return response.json();
   }
 
   /**
@@ -4036,29 +4351,10 @@ Please verify:
     if (data.bank_account_number !== undefined) formData.append('bank_account_number', data.bank_account_number || '');
     if (data.ifsc_code !== undefined) formData.append('ifsc_code', data.ifsc_code || '');
 
-    // Ensure we have a CSRF token before making the request
-    await this.ensureCsrfToken();
-    const csrfToken = this.getCsrfToken();
-    const headers: Record<string, string> = {};
-    if (csrfToken) {
-      headers['X-CSRFToken'] = csrfToken;
-    }
-
-    // CRITICAL: credentials: 'include' is required to send cookies (sessionid, csrftoken)
-    // Without this, Django won't receive the session cookie and CSRF validation will fail
-    const response = await fetch(`${this.baseURL}/api/contract-workers/${id}/`, {
+    return this.request<ContractWorkerDetail>(`/api/contract-workers/${id}/`, {
       method: 'PATCH',
-      headers,
-      credentials: 'include', // Required for cookies and CSRF protection
       body: formData,
     });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Update failed' }));
-      throw error;
-    }
-
-    return response.json();
   }
 
   /**
@@ -4077,29 +4373,31 @@ Please verify:
     const formData = new FormData();
     formData.append('excel_file', file);
 
-    // Ensure we have a CSRF token before making the request
-    await this.ensureCsrfToken();
-    const csrfToken = this.getCsrfToken();
-    const headers: Record<string, string> = {};
-    if (csrfToken) {
-      headers['X-CSRFToken'] = csrfToken;
-    }
-
-    // CRITICAL: credentials: 'include' is required to send cookies (sessionid, csrftoken)
-    // Without this, Django won't receive the session cookie and CSRF validation will fail
-    const response = await fetch(`${this.baseURL}/api/contract-workers/bulk-upload/`, {
+    return this.request<BulkUploadContractWorkerResponse>(`/api/contract-workers/bulk-upload/`, {
       method: 'POST',
-      headers,
-      credentials: 'include', // Required for cookies and CSRF protection
       body: formData,
     });
+  }
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Bulk upload failed' }));
-      throw error;
-    }
+  /**
+   * Get the contract workers already on an exported payment sheet for a period (YYYY-MM)
+   */
+  async getContractWorkerPaymentSheet(period: string): Promise<ContractWorkerPaymentSheet> {
+    return this.request<ContractWorkerPaymentSheet>(`/api/contract-workers/payment-sheets/?period=${period}`, {
+      method: 'GET',
+    });
+  }
 
-    return response.json();
+  /**
+   * Record contract workers on an exported payment sheet
+   * The server adds them to the workers already recorded for the period, so sheets exported from
+   * several sessions are all kept
+   */
+  async recordContractWorkerPaymentSheet(period: string, workerIds: number[]): Promise<ContractWorkerPaymentSheet> {
+    return this.request<ContractWorkerPaymentSheet>('/api/contract-workers/payment-sheets/', {
+      method: 'POST',
+      body: JSON.stringify({ period, contract_workers: workerIds }),
+    });
   }
 
   /**
@@ -4180,6 +4478,17 @@ Please verify:
     return this.request<AttendanceDetail>(`/api/attendance/${id}/`);
   }
 
+  /**
+   * Resolve coordinates to an address using the self-hosted geocoder
+   */
+  async reverseGeocode(latitude: number, longitude: number): Promise<ReverseGeocodeResponse> {
+    const queryParams = new URLSearchParams({
+      lat: latitude.toString(),
+      lng: longitude.toString(),
+    });
+    return this.request<ReverseGeocodeResponse>(`/api/geocoding/reverse/?${queryParams.toString()}`);
+  }
+
   /**
    * Create or update attendance record
    */
@@ -4192,29 +4501,10 @@ Please verify:
     if (data.check_out_time) formData.append('check_out_time', data.check_out_time);
     if (data.notes) formData.append('notes', data.notes);
 
-    // Ensure we have a CSRF token before making the request
-    await this.ensureCsrfToken();
-    const csrfToken = this.getCsrfToken();
-    const headers: Record<string, string> = {};
-    if (csrfToken) {
-      headers['X-CSRFToken'] = csrfToken;
-    }
-
-    // CRITICAL: credentials: 'include' is required to send cookies (sessionid, csrftoken)
-    // Without this, Django won't receive the session cookie and CSRF validation will fail
-    const response = await fetch(`${this.baseURL}/api/attendance/`, {
+    return this.request<AttendanceDetail>(`/api/attendance/`, {
       method: 'POST',
-      headers,
-      credentials: 'include', // Required for cookies and CSRF protection
       body: formData,
     });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Create failed' }));
-      throw error;
-    }
-
-    return response.json();
   }
 
   /**
@@ -4229,29 +4519,10 @@ Please verify:
     if (data.check_out_time !== undefined) formData.append('check_out_time', data.check_out_time || '');
     if (data.notes !== undefined) formData.append('notes', data.notes || '');
 
-    // Ensure we have a CSRF token before making the request
-    await this.ensureCsrfToken();
-    const csrfToken = this.getCsrfToken();
-    const headers: Record<string, string> = {};
-    if (csrfToken) {
-      headers['X-CSRFToken'] = csrfToken;
-    }
-
-    // CRITICAL: credentials: 'include' is required to send cookies (sessionid, csrftoken)
-    // Without this, Django won't receive the session cookie and CSRF validation will fail
-    const response = await fetch(`${this.baseURL}/api/attendance/${id}/`, {
+    return this.request<AttendanceDetail>(`/api/attendance/${id}/`, {
       method: 'PATCH',
-      headers,
-      credentials: 'include', // Required for cookies and CSRF protection
       body: formData,
     });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Update failed' }));
-      throw error;
-    }
-
-    return response.json();
   }
 
   /**
@@ -4466,34 +4737,15 @@ Please verify:
    * Upload Excel sheet with payment data
    */
   async uploadPaymentTrackerSheet(data: PaymentTrackerUploadRequest): Promise<PaymentTrackerUploadResponse> {
-    await this.ensureCsrfToken();
-
     const formData = new FormData();
     formData.append('month', data.month.toString());
     formData.append('year', data.year.toString());
     formData.append('excel_file', data.excel_file);
 
-    const csrfToken = this.getCsrfToken();
-    const headers: Record<string, string> = {};
-    if (csrfToken) {
-      headers['X-CSRFToken'] = csrfToken;
-    }
-
-    // CRITICAL: credentials: 'include' is required to send cookies (sessionid, csrftoken)
-    // Without this, Django won't receive the session cookie and CSRF validation will fail
-    const response = await fetch(`${this.baseURL}/api/payment-tracker/upload/`, {
+    return this.request<PaymentTrackerUploadResponse>('/api/payment-tracker/upload/', {
       method: 'POST',
-      headers,
-      credentials: 'include', // Required for cookies and CSRF protection
       body: formData,
     });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Upload failed' }));
-      throw error;
-    }
-
-    return response.json();
   }
 
   /**
@@ -4827,6 +5079,22 @@ Please verify:
     });
   }
 
+  /**
+   * Get the log of emails sent from templates, optionally for one client
+   */
+  async getSentEmails(params?: { client?: number; page?: number }): Promise<SentEmailListResponse> {
+    const queryParams = new URLSearchParams();
+    if (params?.client) queryParams.append('client', params.client.toString());
+    if (params?.page) queryParams.append('page', params.page.toString());
+
+    const queryString = queryParams.toString();
+    const endpoint = `/api/sent-emails/${queryString ? `?${queryString}` : ''}`;
+
+    return this.request<SentEmailListResponse>(endpoint, {
+      method: 'GET',
+    });
+  }
+
   /**
    * Bank Accounts API Methods
    */
@@ -4966,6 +5234,115 @@ Please verify:
     });
   }
 
+  /**
+   * Leave Management API Methods
+   */
+
+  /**
+   * Get leave types
+   */
+  async getLeaveTypes(params?: { is_active?: boolean; page?: number }): Promise<BackendLeaveTypeListResponse> {
+    const queryParams = new URLSearchParams();
+    if (params?.is_active !== undefined) queryParams.append('is_active', params.is_active.toString());
+    if (params?.page) queryParams.append('page', params.page.toString());
+
+    const queryString = queryParams.toString();
+    const endpoint = `/api/leave-types/${queryString ? `?${queryString}` : ''}`;
+    return this.request<BackendLeaveTypeListResponse>(endpoint);
+  }
+
+  /**
+   * Create leave type
+   */
+  async createLeaveType(data: LeaveTypeCreateData): Promise<BackendLeaveType> {
+    return this.request<BackendLeaveType>('/api/leave-types/', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Update leave type
+   */
+  async updateLeaveType(id: number, data: Partial<LeaveTypeCreateData>): Promise<BackendLeaveType> {
+    return this.request<BackendLeaveType>(`/api/leave-types/${id}/`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Delete leave type
+   */
+  async deleteLeaveType(id: number): Promise<void> {
+    await this.request(`/api/leave-types/${id}/`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Get leave requests with filters
+   * year matches requests starting in that calendar year
+   */
+  async getLeaveRequests(params?: {
+    search?: string;
+    employee?: number;
+    leave_type?: number;
+    status?: LeaveRequestStatus;
+    year?: number;
+    page?: number;
+  }): Promise<BackendLeaveRequestListResponse> {
+    const queryParams = new URLSearchParams();
+    if (params?.search) queryParams.append('search', params.search);
+    if (params?.employee) queryParams.append('employee', params.employee.toString());
+    if (params?.leave_type) queryParams.append('leave_type', params.leave_type.toString());
+    if (params?.status) queryParams.append('status', params.status);
+    if (params?.year) queryParams.append('year', params.year.toString());
+    if (params?.page) queryParams.append('page', params.page.toString());
+
+    const queryString = queryParams.toString();
+    const endpoint = `/api/leave-requests/${queryString ? `?${queryString}` : ''}`;
+    return this.request<BackendLeaveRequestListResponse>(endpoint);
+  }
+
+  /**
+   * Create leave request
+   */
+  async createLeaveRequest(data: LeaveRequestCreateData): Promise<BackendLeaveRequest> {
+    return this.request<BackendLeaveRequest>('/api/leave-requests/', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Approve leave request
+   */
+  async approveLeaveRequest(id: number): Promise<BackendLeaveRequest> {
+    return this.request<BackendLeaveRequest>(`/api/leave-requests/${id}/approve/`, {
+      method: 'POST',
+    });
+  }
+
+  /**
+   * Reject leave request
+   */
+  async rejectLeaveRequest(id: number, rejectionReason: string): Promise<BackendLeaveRequest> {
+    return this.request<BackendLeaveRequest>(`/api/leave-requests/${id}/reject/`, {
+      method: 'POST',
+      body: JSON.stringify({ rejection_reason: rejectionReason }),
+    });
+  }
+
+  /**
+   * Cancel leave request
+   */
+  async cancelLeaveRequest(id: number): Promise<BackendLeaveRequest> {
+    return this.request<BackendLeaveRequest>(`/api/leave-requests/${id}/cancel/`, {
+      method: 'POST',
+    });
+  }
+
   /**
    * Learning / Training Videos API Methods
    */
@@ -5027,10 +5404,81 @@ Please verify:
       method: 'DELETE',
     });
   }
+
+  /**
+   * System Settings API Methods
+   */
+
+  /**
+   * Get system settings (company details used on invoices)
+   */
+  async getSystemSettings(): Promise<BackendSystemSettings> {
+    return this.request<BackendSystemSettings>('/api/settings/');
+  }
+
+  /**
+   * Update system settings
+   */
+  async updateSystemSettings(data: Partial<BackendSystemSettings>): Promise<BackendSystemSettings> {
+    return this.request<BackendSystemSettings>('/api/settings/', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Claim the automatic payment reminder run for a day
+   * The server sets payment_reminder_last_run only if it is not already that date, in one conditional
+   * update, so exactly one caller gets claimed: true per day however many sessions ask at once
+   */
+  async claimPaymentReminderRun(date: string): Promise<{ claimed: boolean }> {
+    return this.request<{ claimed: boolean }>('/api/settings/claim-reminder-run/', {
+      method: 'POST',
+      body: JSON.stringify({ date }),
+    });
+  }
 }
 
 export const apiClient = new ApiClient(API_BASE_URL);
 
+/**
+ * Collect every result of a paginated list endpoint
+ * Calls fetchPage with page = 1, 2, ... until the response has no `next` link. Throws rather than
+ * returning a silently truncated list when there are more than maxPages pages.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (page: number) => Promise<{ next: string | null; results: T[] }>,
+  maxPages: number = 100
+): Promise<T[]> {
+  const results: T[] = [];
+  for (let page = 1; page <= maxPages; page++) {
+    const response = await fetchPage(page);
+    results.push(...response.results);
+    if (!response.next) return results;
+  }
+  throw new Error(
+    `Stopped after ${maxPages} pages (${results.length} records) because the list is too large to load in full. Narrow the filters and try again.`
+  );
+}
+
+/**
+ * Fetch the details of each item a few at a time, in order, so long lists don't flood the API
+ */
+export async function fetchInBatches<T, R>(
+  items: T[],
+  fetchOne: (item: T) => Promise<R>,
+  batchSize: number = 5
+): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += batchSize) {
+    results.push(...(await Promise.all(items.slice(i, i + batchSize).map(fetchOne))));
+  }
+  return results;
+}
+
 /**
  * Test API connection
  * Useful for debugging connection issues
@@ -10,6 +10,7 @@ export interface User {
   last_name: string;
   is_superuser: boolean;
   is_staff: boolean;
+  role?: UserRole | null; // Assigned role; superusers and staff without one are Owner
 }
 
 export interface AuthState {
@@ -19,4 +20,165 @@ export interface AuthState {
   isLoading: boolean;
 }
 
+/**
+ * Named roles assigned to staff users
+ * Superusers are always treated as Owner
+ */
+export type UserRole = 'Owner' | 'Accountant' | 'HR' | 'Project Manager' | 'Viewer';
+
+export const USER_ROLES: UserRole[] = ['Owner', 'Accountant', 'HR', 'Project Manager', 'Viewer'];
+
+/**
+ * Application modules that permissions are granted on
+ */
+export type AppModule =
+  | 'dashboard'
+  | 'documents'
+  | 'clients'
+  | 'amcs'
+  | 'tenders'
+  | 'projects'
+  | 'tasks'
+  | 'employees'
+  | 'contract-workers'
+  | 'attendance'
+  | 'leave'
+  | 'payroll'
+  | 'payments'
+  | 'resources'
+  | 'task-resources'
+  | 'reports'
+  | 'notifications'
+  | 'email-templates'
+  | 'bank-accounts'
+  | 'holiday-calendar'
+  | 'settings';
+
+export type PermissionLevel = 'read' | 'write';
+
+type RolePermissions = Partial<Record<AppModule, PermissionLevel>>;
+
+// Modules every signed-in staff member gets regardless of role
+const COMMON_PERMISSIONS: RolePermissions = {
+  dashboard: 'read',
+  notifications: 'write',
+  'holiday-calendar': 'read',
+};
+
+/**
+ * Per-module permissions for each role
+ * Modules missing from a role are hidden entirely ('write' implies 'read')
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, RolePermissions> = {
+  Owner: {
+    dashboard: 'write',
+    documents: 'write',
+    clients: 'write',
+    amcs: 'write',
+    tenders: 'write',
+    projects: 'write',
+    tasks: 'write',
+    employees: 'write',
+    'contract-workers': 'write',
+    attendance: 'write',
+    leave: 'write',
+    payroll: 'write',
+    payments: 'write',
+    resources: 'write',
+    'task-resources': 'write',
+    reports: 'write',
+    notifications: 'write',
+    'email-templates': 'write',
+    'bank-accounts': 'write',
+    'holiday-calendar': 'write',
+    settings: 'write',
+  },
+  Accountant: {
+    ...COMMON_PERMISSIONS,
+    documents: 'read',
+    clients: 'write',
+    amcs: 'write',
+    tenders: 'write',
+    projects: 'read',
+    employees: 'read',
+    'contract-workers': 'read',
+    attendance: 'read',
+    leave: 'read',
+    payroll: 'write',
+    payments: 'write',
+    resources: 'read',
+    reports: 'read',
+    'email-templates': 'read',
+    'bank-accounts': 'write',
+  },
+  HR: {
+    ...COMMON_PERMISSIONS,
+    documents: 'read',
+    tasks: 'read',
+    employees: 'write',
+    'contract-workers': 'write',
+    attendance: 'write',
+    leave: 'write',
+    payroll: 'read',
+    reports: 'read',
+    'holiday-calendar': 'write',
+  },
+  'Project Manager': {
+    ...COMMON_PERMISSIONS,
+    documents: 'write',
+    clients: 'read',
+    amcs: 'read',
+    tenders: 'read',
+    projects: 'write',
+    tasks: 'write',
+    employees: 'read',
+    'contract-workers': 'read',
+    attendance: 'write',
+    leave: 'read',
+    resources: 'write',
+    'task-resources': 'write',
+    reports: 'read',
+  },
+  Viewer: {
+    ...COMMON_PERMISSIONS,
+    documents: 'read',
+    clients: 'read',
+    amcs: 'read',
+    tenders: 'read',
+    projects: 'read',
+    tasks: 'read',
+    resources: 'read',
+    'task-resources': 'read',
+  },
+};
 
+/**
+ * Resolve the effective role of a user
+ * Superusers are Owners. Staff accounts created before roles existed have none assigned and keep the full
+ * access they had (Owner) until one is set; a role this app doesn't know falls back to Viewer.
+ */
+export function getUserRole(user: User | null): UserRole | null {
+  if (!user) return null;
+  if (user.is_superuser || !user.role) return 'Owner';
+  return USER_ROLES.includes(user.role) ? user.role : 'Viewer';
+}
+
+/**
+ * Check whether a user has the given access level on a module
+ */
+export function hasPermission(user: User | null, module: AppModule, level: PermissionLevel = 'read'): boolean {
+  const role = getUserRole(user);
+  if (!role) return false;
+  const granted = ROLE_PERMISSIONS[role][module];
+  if (!granted) return false;
+  return level === 'read' || granted === 'write';
+}
+
+/**
+ * Map a pathname (e.g. "/tenders/12") to the module that guards it
+ */
+export function getModuleForPath(pathname: string): AppModule | null {
+  const segment = pathname.split('/')[1] || '';
+  const modules = Object.keys(ROLE_PERMISSIONS.Owner) as AppModule[];
+  return modules.find((module) => module === segment) || null;
+}
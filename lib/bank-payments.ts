@@ -0,0 +1,344 @@
+/**
+ * Bank bulk payment files (NEFT / RTGS)
+ * Generates the bulk upload file for pending payroll and payment tracker rows and reconciles
+ * the bank's response file back into mark-paid calls.
+ * Every row carries a reference ("PAY-<id>" / "PTR-<id>") that banks echo back in their response,
+ * so a response can be reconciled without the original selection.
+ */
+
+import * as XLSX from "xlsx";
+import { format, parse, parseISO, isValid } from "date-fns";
+import {
+  apiClient,
+  fetchAllPages,
+  BackendBankAccountListItem,
+  BackendSystemSettings,
+  BankAccountDetail,
+} from "@/lib/api";
+import { downloadBlob } from "@/lib/export";
+
+export type BulkPaymentSource = "payroll" | "payment-tracker";
+export type TransferMode = "NEFT" | "RTGS";
+
+export interface BulkPaymentItem {
+  id: number;
+  source: BulkPaymentSource;
+  beneficiary_name: string;
+  account_number: string;
+  ifsc_code: string;
+  bank_name?: string;
+  amount: number;
+}
+
+export interface BulkPaymentIssue {
+  item: BulkPaymentItem;
+  errors: string[];
+}
+
+export type BankResponseOutcome = "success" | "failed" | "pending";
+
+export interface BankResponseRow {
+  reference: string;
+  utr: string;
+  status: string;
+  outcome: BankResponseOutcome;
+  payment_date?: string; // YYYY-MM-DD
+}
+
+export interface ReconciledPayment {
+  source: BulkPaymentSource;
+  id: number;
+  reference: string;
+  utr: string;
+  payment_date?: string;
+}
+
+export interface ReconciliationResult {
+  paid: ReconciledPayment[];
+  failed: BankResponseRow[]; // Rejected / returned by the bank
+  pending: BankResponseRow[]; // Still in process, or a status not recognised as success
+  unmatched: BankResponseRow[]; // References not generated by this system
+}
+
+export const RTGS_MINIMUM_AMOUNT = 200000;
+
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+const ACCOUNT_NUMBER_PATTERN = /^\d{9,18}$/;
+const REFERENCE_PREFIXES: Record<BulkPaymentSource, string> = { payroll: "PAY", "payment-tracker": "PTR" };
+// Checked before the success list, so "Unsuccessful", "Not Credited" or "UNPAID" never count as paid
+const FAILED_STATUS_PATTERN = /unsuccess|fail|reject|return/i;
+const NEGATIVE_STATUS_PATTERN = /\bnot\b|unpaid|pending|hold/i;
+const SUCCESS_STATUSES = ["success", "successful", "paid", "processed", "completed", "executed", "credited", "settled"];
+
+/**
+ * IFSC format: 4 letters (bank), a zero, 6 alphanumerics (branch)
+ */
+export function isValidIFSC(ifsc: string | null | undefined): boolean {
+  return !!ifsc && IFSC_PATTERN.test(ifsc.trim().toUpperCase());
+}
+
+/**
+ * RTGS for high-value transfers, NEFT otherwise
+ */
+export function getTransferMode(amount: number): TransferMode {
+  return amount >= RTGS_MINIMUM_AMOUNT ? "RTGS" : "NEFT";
+}
+
+export function getPaymentReference(item: Pick<BulkPaymentItem, "source" | "id">): string {
+  return `${REFERENCE_PREFIXES[item.source]}-${item.id}`;
+}
+
+function parsePaymentReference(reference: string): { source: BulkPaymentSource; id: number } | null {
+  const match = reference.toUpperCase().match(/\b(PAY|PTR)-(\d+)\b/);
+  if (!match) return null;
+  return { source: match[1] === "PAY" ? "payroll" : "payment-tracker", id: parseInt(match[2], 10) };
+}
+
+/**
+ * Split items into payable rows and rows with missing or invalid bank details
+ */
+export function validatePaymentItems(items: BulkPaymentItem[]): { valid: BulkPaymentItem[]; issues: BulkPaymentIssue[] } {
+  const valid: BulkPaymentItem[] = [];
+  const issues: BulkPaymentIssue[] = [];
+
+  items.forEach((item) => {
+    const errors: string[] = [];
+    const accountNumber = item.account_number.replace(/\s/g, "");
+    if (!item.beneficiary_name.trim()) errors.push("Beneficiary name is missing");
+    if (!accountNumber) {
+      errors.push("Bank account number is missing");
+    } else if (!ACCOUNT_NUMBER_PATTERN.test(accountNumber)) {
+      errors.push("Account number must be 9-18 digits");
+    }
+    if (!item.ifsc_code) {
+      errors.push("IFSC code is missing");
+    } else if (!isValidIFSC(item.ifsc_code)) {
+      errors.push(`Invalid IFSC code "${item.ifsc_code}"`);
+    }
+    if (!(item.amount > 0)) errors.push("Amount must be greater than zero");
+
+    if (errors.length > 0) {
+      issues.push({ item, errors });
+    } else {
+      valid.push({ ...item, account_number: accountNumber, ifsc_code: item.ifsc_code.trim().toUpperCase() });
+    }
+  });
+
+  return { valid, issues };
+}
+
+function toCSVField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Build the bulk upload CSV (no BOM, plain ASCII names as most bank portals require)
+ */
+export function buildBulkPaymentFile(
+  items: BulkPaymentItem[],
+  debitAccount: Pick<BankAccountDetail, "account_number" | "ifsc_code">,
+  valueDate: string,
+  remarks: string
+): string {
+  const header = [
+    "Transaction Type",
+    "Debit Account Number",
+    "Beneficiary IFSC",
+    "Beneficiary Account Number",
+    "Beneficiary Name",
+    "Amount",
+    "Value Date",
+    "Customer Reference",
+    "Remarks",
+  ];
+  const date = format(parseISO(valueDate), "dd/MM/yyyy");
+  const sanitize = (value: string, maxLength: number) =>
+    value.replace(/[^A-Za-z0-9 .\-/]/g, " ").replace(/\s+/g, " ").trim().substring(0, maxLength);
+
+  const rows = items.map((item) => [
+    getTransferMode(item.amount) === "RTGS" ? "R" : "N",
+    debitAccount.account_number,
+    item.ifsc_code,
+    item.account_number,
+    sanitize(item.beneficiary_name, 35),
+    item.amount.toFixed(2),
+    date,
+    getPaymentReference(item),
+    sanitize(remarks, 30),
+  ]);
+
+  return [header, ...rows].map((row) => row.map(toCSVField).join(",")).join("\r\n");
+}
+
+/**
+ * Build and download the bulk upload file
+ */
+export function downloadBulkPaymentFile(
+  items: BulkPaymentItem[],
+  debitAccount: Pick<BankAccountDetail, "account_number" | "ifsc_code">,
+  valueDate: string,
+  remarks: string
+): void {
+  const content = buildBulkPaymentFile(items, debitAccount, valueDate, remarks);
+  downloadBlob(new Blob([content], { type: "text/csv;charset=utf-8" }), `bulk-payment-${valueDate}.csv`);
+}
+
+/**
+ * Load the company bank account chosen on the Bank Accounts page, or null when none is set
+ * Pass already-loaded settings to skip fetching them again
+ */
+export async function fetchCompanyBankAccount(settings?: BackendSystemSettings): Promise<BankAccountDetail | null> {
+  const { primary_bank_account } = settings || (await apiClient.getSystemSettings());
+  return primary_bank_account ? apiClient.getBankAccount(primary_bank_account) : null;
+}
+
+/**
+ * Bank accounts that can be debited for a bulk payment, with the company account's id to preselect
+ */
+export async function fetchDebitAccounts(): Promise<{ accounts: BackendBankAccountListItem[]; companyAccountId: number | null }> {
+  const [accounts, settings] = await Promise.all([
+    fetchAllPages((page) => apiClient.getBankAccounts({ page })),
+    apiClient.getSystemSettings(),
+  ]);
+  return { accounts, companyAccountId: settings.primary_bank_account };
+}
+
+/**
+ * Resolve bank details of employees on payroll (bank accounts are linked to the employee's profile)
+ */
+export async function fetchPayrollPaymentItems(
+  records: { id: number; employee_id?: number; employee_name: string; net_amount: number }[]
+): Promise<BulkPaymentItem[]> {
+  return Promise.all(
+    records.map(async (record) => {
+      let account: { bank_name: string; account_number: string; ifsc_code: string } | undefined;
+      if (record.employee_id) {
+        const employee = await apiClient.getEmployee(record.employee_id);
+        const accounts = await apiClient.getBankAccounts({ profile_id: employee.profile });
+        account = accounts.results[0];
+      }
+      return {
+        id: record.id,
+        source: "payroll" as const,
+        beneficiary_name: record.employee_name,
+        account_number: account?.account_number || "",
+        ifsc_code: account?.ifsc_code || "",
+        bank_name: account?.bank_name,
+        amount: record.net_amount,
+      };
+    })
+  );
+}
+
+/**
+ * First header matching the patterns, tried in priority order, skipping columns already assigned
+ */
+function findColumn(headers: string[], patterns: RegExp[], exclude: (string | undefined)[] = []): string | undefined {
+  for (const pattern of patterns) {
+    const header = headers.find((candidate) => !exclude.includes(candidate) && pattern.test(candidate));
+    if (header) return header;
+  }
+  return undefined;
+}
+
+/**
+ * Only exact success statuses are paid; anything unrecognised is left pending for a person to check
+ */
+function classifyStatus(status: string): BankResponseOutcome {
+  const normalized = status.toLowerCase().replace(/[^a-z ]/g, "").replace(/\s+/g, " ").trim();
+  if (FAILED_STATUS_PATTERN.test(normalized)) return "failed";
+  if (NEGATIVE_STATUS_PATTERN.test(normalized)) return "pending";
+  return SUCCESS_STATUSES.includes(normalized) ? "success" : "pending";
+}
+
+function parseResponseDate(value: string): string | undefined {
+  if (!value) return undefined;
+  for (const pattern of ["dd/MM/yyyy", "dd-MM-yyyy", "yyyy-MM-dd", "dd-MMM-yyyy"]) {
+    const date = parse(value.trim(), pattern, new Date());
+    if (isValid(date)) return format(date, "yyyy-MM-dd");
+  }
+  return undefined;
+}
+
+/**
+ * Read a bank response file (CSV or Excel) into normalized rows
+ * Columns are located by header name since every bank names them differently
+ */
+export async function parseBankResponseFile(file: File): Promise<BankResponseRow[]> {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: "array" });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const records = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: "", raw: false });
+  if (records.length === 0) return [];
+
+  const headers = Object.keys(records[0]);
+  // The bank's own reference (UTR) is found first so it is never mistaken for ours
+  const utrColumn = findColumn(headers, [/utr/i, /txn ref|transaction ref|bank ref/i]);
+  const referenceColumn = findColumn(
+    headers,
+    [/customer ref/i, /client ref/i, /remark|narration/i, /reference/i],
+    [utrColumn]
+  );
+  const statusColumn = findColumn(headers, [/status/i]);
+  const dateColumn = findColumn(headers, [/value date|payment date|txn date|transaction date/i, /date/i]);
+  if (!referenceColumn || !statusColumn) {
+    throw new Error("The response file must have a reference and a status column.");
+  }
+
+  return records.map((record) => {
+    const status = String(record[statusColumn] ?? "").trim();
+    return {
+      reference: String(record[referenceColumn] ?? "").trim(),
+      utr: utrColumn ? String(record[utrColumn] ?? "").trim() : "",
+      status,
+      outcome: classifyStatus(status),
+      payment_date: dateColumn ? parseResponseDate(String(record[dateColumn] ?? "")) : undefined,
+    };
+  });
+}
+
+/**
+ * Match response rows to payroll / payment tracker records by reference
+ */
+export function reconcileBankResponse(rows: BankResponseRow[]): ReconciliationResult {
+  const result: ReconciliationResult = { paid: [], failed: [], pending: [], unmatched: [] };
+  rows.forEach((row) => {
+    const parsed = parsePaymentReference(row.reference);
+    if (!parsed) {
+      result.unmatched.push(row);
+    } else if (row.outcome === "failed") {
+      result.failed.push(row);
+    } else if (row.outcome === "pending") {
+      result.pending.push(row);
+    } else {
+      result.paid.push({ ...parsed, reference: row.reference, utr: row.utr, payment_date: row.payment_date });
+    }
+  });
+  return result;
+}
+
+/**
+ * Mark reconciled payments as paid with the bank's UTR as the transaction reference
+ */
+export async function markReconciledPaymentsPaid(
+  payments: ReconciledPayment[],
+  fallbackPaymentDate: string
+): Promise<{ updated: number; errors: string[] }> {
+  const errors: string[] = [];
+  for (const payment of payments) {
+    const data = {
+      payment_date: payment.payment_date || fallbackPaymentDate,
+      payment_mode: "NEFT/RTGS" as const,
+      bank_transaction_reference_number: payment.utr || undefined,
+    };
+    try {
+      if (payment.source === "payroll") {
+        await apiClient.markPayrollPaid(payment.id, data);
+      } else {
+        await apiClient.markPaymentTrackerPaid(payment.id, data);
+      }
+    } catch (err: any) {
+      errors.push(`${payment.reference}: ${err.message || "Failed to mark as paid"}`);
+    }
+  }
+  return { updated: payments.length - errors.length, errors };
+}
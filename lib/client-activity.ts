@@ -0,0 +1,174 @@
+/**
+ * Client activity timeline
+ * Collects a client's history from AMCs and their bills, projects and their tasks, and template emails
+ * into one list of ClientActivity entries, newest first. Each module is loaded independently so one
+ * failing endpoint only leaves its entries out.
+ */
+
+import { isValid, parseISO } from "date-fns";
+import { ClientActivity } from "@/types";
+import { apiClient, fetchAllPages } from "@/lib/api";
+import { fetchAMCsWithBillings } from "@/lib/reports";
+
+export type ClientActivityType = ClientActivity["type"];
+
+export const CLIENT_ACTIVITY_TYPES: ClientActivityType[] = [
+  "AMC Created",
+  "AMC Renewed",
+  "Bill Generated",
+  "Payment Received",
+  "Project Started",
+  "Task Created",
+  "Email Sent",
+];
+
+export interface ClientActivityResult {
+  activities: ClientActivity[];
+  errors: string[]; // Modules that could not be loaded
+}
+
+function formatAmount(amount: string | number): string {
+  return `₹${(typeof amount === "number" ? amount : parseFloat(amount) || 0).toLocaleString("en-IN")}`;
+}
+
+async function loadAMCActivity(clientId: number): Promise<ClientActivity[]> {
+  const amcs = await fetchAMCsWithBillings(clientId);
+  const amcNumbers = new Map(amcs.map(({ amc }) => [amc.id, amc.amc_number]));
+  return amcs.flatMap(({ amc, billings }) => [
+    amc.renewed_from
+      ? {
+          id: amc.id,
+          client_id: clientId,
+          type: "AMC Renewed" as const,
+          description: `AMC ${amcNumbers.get(amc.renewed_from) || `#${amc.renewed_from}`} renewed as ${amc.amc_number}: ${formatAmount(amc.amount)}`,
+          performed_by: "",
+          timestamp: amc.created_at,
+          link: `/amcs?search=${encodeURIComponent(amc.amc_number)}`,
+        }
+      : {
+          id: amc.id,
+          client_id: clientId,
+          type: "AMC Created" as const,
+          description: `AMC ${amc.amc_number} created: ${amc.billing_cycle} billing, ${formatAmount(amc.amount)}`,
+          performed_by: "",
+          timestamp: amc.created_at,
+          link: `/amcs?search=${encodeURIComponent(amc.amc_number)}`,
+        },
+    ...billings.flatMap((billing) => {
+      const bill: ClientActivity = {
+        id: billing.id,
+        client_id: clientId,
+        type: "Bill Generated",
+        description: `Bill ${billing.bill_number} for ${billing.period} (${amc.amc_number}): ${formatAmount(billing.amount)}`,
+        performed_by: "",
+        timestamp: billing.bill_date,
+        link: `/amcs?search=${encodeURIComponent(amc.amc_number)}`,
+      };
+      const paymentDate = billing.payment_date || billing.payment_details?.payment_date;
+      if (!billing.paid || !paymentDate) return [bill];
+      const mode = billing.payment_mode || billing.payment_details?.payment_mode;
+      return [
+        bill,
+        {
+          id: billing.id,
+          client_id: clientId,
+          type: "Payment Received" as const,
+          description: `${formatAmount(billing.amount)} received for bill ${billing.bill_number}${mode ? ` via ${mode}` : ""}`,
+          performed_by: "",
+          timestamp: paymentDate,
+          link: `/amcs?search=${encodeURIComponent(amc.amc_number)}`,
+        },
+      ];
+    }),
+  ]);
+}
+
+async function loadProjectActivity(clientId: number): Promise<ClientActivity[]> {
+  const projects = (await fetchAllPages((page) => apiClient.getProjects({ client: clientId, page }))).filter(
+    (project) => project.client === clientId
+  );
+  const tasks = (
+    await Promise.all(projects.map((project) => fetchAllPages((page) => apiClient.getTasks({ project: project.id, page }))))
+  ).flat();
+
+  return [
+    ...projects.map((project) => ({
+      id: project.id,
+      client_id: clientId,
+      type: "Project Started" as const,
+      description: `Project "${project.name}" (${project.status})`,
+      performed_by: "",
+      timestamp: project.start_date || project.created_at,
+      link: `/projects?search=${encodeURIComponent(project.name)}`,
+    })),
+    ...tasks.map((task) => ({
+      id: task.id,
+      client_id: clientId,
+      type: "Task Created" as const,
+      description: `${task.task_name} on ${task.project_name} (${task.status})`,
+      performed_by: task.employee_name || "",
+      timestamp: task.created_at,
+      link: `/tasks?search=${encodeURIComponent(task.task_name)}`,
+    })),
+  ];
+}
+
+async function loadEmailActivity(clientId: number): Promise<ClientActivity[]> {
+  const emails = await fetchAllPages((page) => apiClient.getSentEmails({ client: clientId, page }));
+  return emails
+    .filter((email) => email.client === clientId && email.status !== "Failed")
+    .map((email) => ({
+      id: email.id,
+      client_id: clientId,
+      type: "Email Sent" as const,
+      description: `"${email.subject}" ${email.status === "Scheduled" ? "scheduled for" : "sent to"} ${email.recipients}`,
+      performed_by: email.sent_by_username || "",
+      timestamp: email.sent_at || email.scheduled_at || email.created_at,
+    }));
+}
+
+/**
+ * Load every activity of a client, newest first
+ */
+export async function loadClientActivity(clientId: number): Promise<ClientActivityResult> {
+  const sources: { name: string; load: (id: number) => Promise<ClientActivity[]> }[] = [
+    { name: "AMCs and bills", load: loadAMCActivity },
+    { name: "Projects and tasks", load: loadProjectActivity },
+    { name: "Emails", load: loadEmailActivity },
+  ];
+  const results = await Promise.allSettled(sources.map((source) => source.load(clientId)));
+
+  const activities: ClientActivity[] = [];
+  const errors: string[] = [];
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      activities.push(...result.value);
+    } else {
+      console.error(`Failed to load client activity (${sources[index].name}):`, result.reason);
+      errors.push(sources[index].name);
+    }
+  });
+
+  return {
+    activities: activities
+      .filter((activity) => isValid(parseISO(activity.timestamp)))
+      .sort((a, b) => parseISO(b.timestamp).getTime() - parseISO(a.timestamp).getTime()),
+    errors,
+  };
+}
+
+/**
+ * Activities of the given types within an inclusive date range (YYYY-MM-DD)
+ */
+export function filterClientActivity(
+  activities: ClientActivity[],
+  filters: { types?: ClientActivityType[]; from?: string; to?: string }
+): ClientActivity[] {
+  return activities.filter((activity) => {
+    if (filters.types && filters.types.length > 0 && !filters.types.includes(activity.type)) return false;
+    const date = activity.timestamp.slice(0, 10);
+    if (filters.from && date < filters.from) return false;
+    if (filters.to && date > filters.to) return false;
+    return true;
+  });
+}
@@ -0,0 +1,429 @@
+/**
+ * Client statement of account and receivables ageing
+ * Builds a per-client ledger of AMC bills (debits) and their payments (credits) with a running balance,
+ * and buckets unpaid bills by age (days since the bill date) for the company-wide ageing report.
+ * Both are printable and can be merged into an email template through placeholder values.
+ */
+
+import { differenceInDays, format, isValid, parseISO } from "date-fns";
+import { apiClient, BackendAMCBilling, BackendAMCListItem } from "@/lib/api";
+import { fetchAMCsWithBillings } from "@/lib/reports";
+import { escapeHtml, printHtmlDocument } from "@/lib/print";
+
+export type AMCWithBillings = { amc: BackendAMCListItem; billings: BackendAMCBilling[] };
+
+export type AgeingBucket = "0-30" | "31-60" | "61-90" | "90+";
+
+export const AGEING_BUCKETS: { key: AgeingBucket; label: string; maxDays: number }[] = [
+  { key: "0-30", label: "0–30 days", maxDays: 30 },
+  { key: "31-60", label: "31–60 days", maxDays: 60 },
+  { key: "61-90", label: "61–90 days", maxDays: 90 },
+  { key: "90+", label: "90+ days", maxDays: Infinity },
+];
+
+export type AgeingTotals = Record<AgeingBucket, number>;
+
+export interface StatementEntry {
+  date: string; // YYYY-MM-DD
+  type: "Bill" | "Payment";
+  bill_id: number;
+  bill_number: string;
+  amc_number: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number; // Running balance after this entry
+  bill_status: "Paid" | "Unpaid";
+  days_outstanding: number | null; // Age of an unpaid bill, null otherwise
+}
+
+export interface ClientStatement {
+  client_id: number;
+  client_name: string;
+  as_of: string; // YYYY-MM-DD
+  entries: StatementEntry[];
+  total_billed: number;
+  total_paid: number;
+  outstanding: number;
+  ageing: AgeingTotals;
+}
+
+export interface ReceivablesAgeingRow {
+  client_id: number;
+  client_name: string;
+  unpaid_bills: number;
+  oldest_bill_date: string | null;
+  ageing: AgeingTotals;
+  outstanding: number;
+}
+
+export interface StatementCompany {
+  name: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+}
+
+/**
+ * Company letterhead for printed statements, from system settings
+ */
+export async function fetchStatementCompany(): Promise<StatementCompany> {
+  const settings = await apiClient.getSystemSettings();
+  return {
+    name: settings.company_name,
+    address: settings.company_address,
+    phone: settings.company_phone,
+    email: settings.company_email,
+  };
+}
+
+function toAmount(value: string | number | null | undefined): number {
+  if (value === null || value === undefined) return 0;
+  const amount = typeof value === "number" ? value : parseFloat(value);
+  return isNaN(amount) ? 0 : amount;
+}
+
+function emptyAgeing(): AgeingTotals {
+  return { "0-30": 0, "31-60": 0, "61-90": 0, "90+": 0 };
+}
+
+function getBillDate(bill: BackendAMCBilling): string {
+  return (bill.bill_date || bill.period_from || "").slice(0, 10);
+}
+
+/**
+ * Ageing bucket for a bill outstanding the given number of days
+ */
+export function getAgeingBucket(days: number): AgeingBucket {
+  return (AGEING_BUCKETS.find((bucket) => days <= bucket.maxDays) || AGEING_BUCKETS[AGEING_BUCKETS.length - 1]).key;
+}
+
+function getDaysOutstanding(billDate: string, asOf: Date): number {
+  const date = parseISO(billDate);
+  return isValid(date) ? Math.max(0, differenceInDays(asOf, date)) : 0;
+}
+
+/**
+ * Statement of account for one client from their AMCs and bills
+ * Paid bills get a payment entry on the payment date (or the bill date when it was not recorded)
+ */
+export function buildClientStatement(
+  clientId: number,
+  clientName: string,
+  amcs: AMCWithBillings[],
+  asOf: Date = new Date()
+): ClientStatement {
+  const ageing = emptyAgeing();
+  const unsorted: Omit<StatementEntry, "balance">[] = [];
+
+  amcs
+    .filter(({ amc }) => amc.client_id === clientId)
+    .forEach(({ amc, billings }) => {
+      billings.forEach((bill) => {
+        const billDate = getBillDate(bill);
+        if (!billDate) return;
+        const amount = toAmount(bill.amount);
+        const daysOutstanding = bill.paid ? null : getDaysOutstanding(billDate, asOf);
+        if (daysOutstanding !== null) {
+          ageing[getAgeingBucket(daysOutstanding)] += amount;
+        }
+        const common = {
+          bill_id: bill.id,
+          bill_number: bill.bill_number,
+          amc_number: amc.amc_number,
+          bill_status: bill.paid ? ("Paid" as const) : ("Unpaid" as const),
+        };
+        unsorted.push({
+          ...common,
+          date: billDate,
+          type: "Bill",
+          description: `${bill.period} (${amc.amc_number})`,
+          debit: amount,
+          credit: 0,
+          days_outstanding: daysOutstanding,
+        });
+        if (bill.paid) {
+          const paymentDate = (bill.payment_date || bill.payment_details?.payment_date || billDate).slice(0, 10);
+          const mode = bill.payment_mode || bill.payment_details?.payment_mode;
+          unsorted.push({
+            ...common,
+            date: paymentDate,
+            type: "Payment",
+            description: `Payment for ${bill.bill_number}${mode ? ` via ${mode}` : ""}`,
+            debit: 0,
+            credit: amount,
+            days_outstanding: null,
+          });
+        }
+      });
+    });
+
+  // Oldest first; on the same day a bill comes before its payment
+  unsorted.sort((a, b) => a.date.localeCompare(b.date) || (a.type === b.type ? 0 : a.type === "Bill" ? -1 : 1));
+
+  let balance = 0;
+  const entries = unsorted.map((entry) => {
+    balance += entry.debit - entry.credit;
+    return { ...entry, balance };
+  });
+  const total_billed = entries.reduce((sum, entry) => sum + entry.debit, 0);
+  const total_paid = entries.reduce((sum, entry) => sum + entry.credit, 0);
+
+  return {
+    client_id: clientId,
+    client_name: clientName,
+    as_of: format(asOf, "yyyy-MM-dd"),
+    entries,
+    total_billed,
+    total_paid,
+    outstanding: total_billed - total_paid,
+    ageing,
+  };
+}
+
+/**
+ * Load a client's AMC bills and build their statement of account
+ */
+export async function loadClientStatement(clientId: number, clientName: string): Promise<ClientStatement> {
+  const amcs = await fetchAMCsWithBillings(clientId);
+  return buildClientStatement(clientId, clientName, amcs);
+}
+
+/**
+ * Unpaid AMC bills of every client bucketed by age, largest outstanding first
+ */
+export function buildReceivablesAgeing(amcs: AMCWithBillings[], asOf: Date = new Date()): ReceivablesAgeingRow[] {
+  const byClient = new Map<number, ReceivablesAgeingRow>();
+
+  amcs.forEach(({ amc, billings }) => {
+    billings
+      .filter((bill) => !bill.paid && getBillDate(bill))
+      .forEach((bill) => {
+        const billDate = getBillDate(bill);
+        const amount = toAmount(bill.amount);
+        const row = byClient.get(amc.client_id) || {
+          client_id: amc.client_id,
+          client_name: amc.client_name,
+          unpaid_bills: 0,
+          oldest_bill_date: null,
+          ageing: emptyAgeing(),
+          outstanding: 0,
+        };
+        row.unpaid_bills += 1;
+        row.outstanding += amount;
+        row.ageing[getAgeingBucket(getDaysOutstanding(billDate, asOf))] += amount;
+        if (!row.oldest_bill_date || billDate < row.oldest_bill_date) {
+          row.oldest_bill_date = billDate;
+        }
+        byClient.set(amc.client_id, row);
+      });
+  });
+
+  return Array.from(byClient.values()).sort((a, b) => b.outstanding - a.outstanding);
+}
+
+/**
+ * Sum of the ageing buckets across clients
+ */
+export function sumAgeing(rows: Pick<ReceivablesAgeingRow, "ageing">[]): AgeingTotals {
+  return rows.reduce((totals, row) => {
+    AGEING_BUCKETS.forEach(({ key }) => {
+      totals[key] += row.ageing[key];
+    });
+    return totals;
+  }, emptyAgeing());
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatStatementDate(value: string): string {
+  const date = parseISO(value);
+  return isValid(date) ? format(date, "dd MMM yyyy") : value;
+}
+
+// Inline styles so the tables survive email clients that strip <style> blocks
+const CELL = "border:1px solid #d1d5db;padding:4px 6px;";
+const HEAD_CELL = `${CELL}background:#f3f4f6;text-align:left;`;
+const AMOUNT_CELL = `${CELL}text-align:right;`;
+
+function ageingTableHtml(ageing: AgeingTotals, outstanding: number): string {
+  return `
+    <table style="border-collapse:collapse;width:100%;margin:8px 0;">
+      <thead>
+        <tr>
+          ${AGEING_BUCKETS.map((bucket) => `<th style="${HEAD_CELL}">${bucket.label}</th>`).join("")}
+          <th style="${HEAD_CELL}">Total Outstanding</th>
+        </tr>
+      </thead>
+      <tbody>
+        <tr>
+          ${AGEING_BUCKETS.map((bucket) => `<td style="${AMOUNT_CELL}">${formatAmount(ageing[bucket.key])}</td>`).join("")}
+          <td style="${AMOUNT_CELL}"><strong>${formatAmount(outstanding)}</strong></td>
+        </tr>
+      </tbody>
+    </table>`;
+}
+
+/**
+ * Statement ledger table, shared by the printed statement and the email placeholder
+ */
+export function buildStatementTableHtml(statement: ClientStatement): string {
+  const rows = statement.entries
+    .map(
+      (entry) => `
+        <tr>
+          <td style="${CELL}">${formatStatementDate(entry.date)}</td>
+          <td style="${CELL}">${escapeHtml(entry.bill_number)}</td>
+          <td style="${CELL}">${escapeHtml(entry.description)}</td>
+          <td style="${CELL}">${entry.type === "Bill" ? entry.bill_status : ""}</td>
+          <td style="${AMOUNT_CELL}">${entry.debit ? formatAmount(entry.debit) : ""}</td>
+          <td style="${AMOUNT_CELL}">${entry.credit ? formatAmount(entry.credit) : ""}</td>
+          <td style="${AMOUNT_CELL}">${formatAmount(entry.balance)}</td>
+        </tr>`
+    )
+    .join("");
+
+  return `
+    <table style="border-collapse:collapse;width:100%;margin:8px 0;">
+      <thead>
+        <tr>
+          <th style="${HEAD_CELL}">Date</th>
+          <th style="${HEAD_CELL}">Bill No.</th>
+          <th style="${HEAD_CELL}">Particulars</th>
+          <th style="${HEAD_CELL}">Status</th>
+          <th style="${HEAD_CELL}text-align:right;">Debit (₹)</th>
+          <th style="${HEAD_CELL}text-align:right;">Credit (₹)</th>
+          <th style="${HEAD_CELL}text-align:right;">Balance (₹)</th>
+        </tr>
+      </thead>
+      <tbody>${rows || `<tr><td style="${CELL}" colspan="7">No bills</td></tr>`}</tbody>
+      <tfoot>
+        <tr>
+          <td style="${CELL}" colspan="4"><strong>Total</strong></td>
+          <td style="${AMOUNT_CELL}"><strong>${formatAmount(statement.total_billed)}</strong></td>
+          <td style="${AMOUNT_CELL}"><strong>${formatAmount(statement.total_paid)}</strong></td>
+          <td style="${AMOUNT_CELL}"><strong>${formatAmount(statement.outstanding)}</strong></td>
+        </tr>
+      </tfoot>
+    </table>`;
+}
+
+const STATEMENT_STYLES = `
+  @page { size: A4; margin: 12mm; }
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 11px; color: #111827; margin: 0; }
+  h1 { font-size: 16px; text-align: center; margin: 0 0 4px; letter-spacing: 1px; }
+  h2 { font-size: 12px; margin: 16px 0 4px; }
+  .company { text-align: center; margin-bottom: 12px; }
+  .company .name { font-size: 14px; font-weight: bold; }
+  .meta { display: flex; justify-content: space-between; margin-bottom: 8px; }
+`;
+
+function companyHtml(company: StatementCompany): string {
+  return `
+    <div class="company">
+      <div class="name">${escapeHtml(company.name)}</div>
+      ${company.address ? `<div>${escapeHtml(company.address)}</div>` : ""}
+      ${[company.phone, company.email].filter(Boolean).map(escapeHtml).join(" | ")}
+    </div>`;
+}
+
+/**
+ * Build the printable statement of account HTML body
+ */
+export function buildClientStatementHtml(statement: ClientStatement, company: StatementCompany): string {
+  return `
+    ${companyHtml(company)}
+    <h1>STATEMENT OF ACCOUNT</h1>
+    <div class="meta">
+      <div><strong>Client:</strong> ${escapeHtml(statement.client_name)}</div>
+      <div><strong>As on:</strong> ${formatStatementDate(statement.as_of)}</div>
+    </div>
+    ${buildStatementTableHtml(statement)}
+    <h2>Ageing of Outstanding Bills</h2>
+    ${ageingTableHtml(statement.ageing, statement.outstanding)}`;
+}
+
+/**
+ * Build the printable company-wide receivables ageing HTML body
+ */
+export function buildReceivablesAgeingHtml(rows: ReceivablesAgeingRow[], company: StatementCompany, asOf: string): string {
+  const totals = sumAgeing(rows);
+  const outstanding = rows.reduce((sum, row) => sum + row.outstanding, 0);
+  const bodyRows = rows
+    .map(
+      (row) => `
+        <tr>
+          <td style="${CELL}">${escapeHtml(row.client_name)}</td>
+          <td style="${AMOUNT_CELL}">${row.unpaid_bills}</td>
+          ${AGEING_BUCKETS.map((bucket) => `<td style="${AMOUNT_CELL}">${formatAmount(row.ageing[bucket.key])}</td>`).join("")}
+          <td style="${AMOUNT_CELL}"><strong>${formatAmount(row.outstanding)}</strong></td>
+        </tr>`
+    )
+    .join("");
+
+  return `
+    ${companyHtml(company)}
+    <h1>RECEIVABLES AGEING</h1>
+    <div class="meta"><div></div><div><strong>As on:</strong> ${formatStatementDate(asOf)}</div></div>
+    <table style="border-collapse:collapse;width:100%;margin:8px 0;">
+      <thead>
+        <tr>
+          <th style="${HEAD_CELL}">Client</th>
+          <th style="${HEAD_CELL}text-align:right;">Unpaid Bills</th>
+          ${AGEING_BUCKETS.map((bucket) => `<th style="${HEAD_CELL}text-align:right;">${bucket.label}</th>`).join("")}
+          <th style="${HEAD_CELL}text-align:right;">Total (₹)</th>
+        </tr>
+      </thead>
+      <tbody>${bodyRows || `<tr><td style="${CELL}" colspan="${AGEING_BUCKETS.length + 3}">No outstanding bills</td></tr>`}</tbody>
+      <tfoot>
+        <tr>
+          <td style="${CELL}"><strong>Total</strong></td>
+          <td style="${AMOUNT_CELL}"><strong>${rows.reduce((sum, row) => sum + row.unpaid_bills, 0)}</strong></td>
+          ${AGEING_BUCKETS.map((bucket) => `<td style="${AMOUNT_CELL}"><strong>${formatAmount(totals[bucket.key])}</strong></td>`).join("")}
+          <td style="${AMOUNT_CELL}"><strong>${formatAmount(outstanding)}</strong></td>
+        </tr>
+      </tfoot>
+    </table>`;
+}
+
+/**
+ * Open the print dialog for a client's statement of account
+ */
+export function printClientStatement(statement: ClientStatement, company: StatementCompany): Promise<void> {
+  return printHtmlDocument(
+    `Statement-${statement.client_name.replace(/\s+/g, "-")}-${statement.as_of}`,
+    buildClientStatementHtml(statement, company),
+    STATEMENT_STYLES
+  );
+}
+
+/**
+ * Open the print dialog for the receivables ageing report
+ */
+export function printReceivablesAgeing(rows: ReceivablesAgeingRow[], company: StatementCompany, asOf: string): Promise<void> {
+  return printHtmlDocument(`Receivables-Ageing-${asOf}`, buildReceivablesAgeingHtml(rows, company, asOf), STATEMENT_STYLES);
+}
+
+/**
+ * Placeholder values for emailing a statement, keyed by lower-case placeholder name
+ * Templates use e.g. {{outstanding_amount}} and {{statement_table}}
+ */
+// Placeholders whose values are generated HTML tables rather than text
+export const STATEMENT_HTML_PLACEHOLDERS = ["statement_table", "ageing_table"];
+
+export function getStatementPlaceholderValues(statement: ClientStatement): Record<string, string> {
+  return {
+    statement_date: formatStatementDate(statement.as_of),
+    total_billed: formatAmount(statement.total_billed),
+    total_paid: formatAmount(statement.total_paid),
+    outstanding_amount: formatAmount(statement.outstanding),
+    ageing_0_30: formatAmount(statement.ageing["0-30"]),
+    ageing_31_60: formatAmount(statement.ageing["31-60"]),
+    ageing_61_90: formatAmount(statement.ageing["61-90"]),
+    ageing_90_plus: formatAmount(statement.ageing["90+"]),
+    statement_table: buildStatementTableHtml(statement),
+    ageing_table: ageingTableHtml(statement.ageing, statement.outstanding),
+  };
+}
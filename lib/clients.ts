@@ -0,0 +1,39 @@
+/**
+ * Client helpers shared by the client pages
+ */
+
+import type { Client } from "@/types";
+import { BackendClientDetail } from "@/lib/api";
+
+/**
+ * Map backend client detail to frontend Client type
+ */
+export function mapBackendClientDetailToFrontend(
+  backendClient: BackendClientDetail
+): Client {
+  return {
+    id: backendClient.id,
+    name: backendClient.full_name || `${backendClient.first_name || ''} ${backendClient.last_name || ''}`.trim() || 'Client',
+    business_name: undefined,
+    address: backendClient.address || "",
+    city: backendClient.city || "",
+    state: backendClient.state || "",
+    pin_code: backendClient.pin_code || "",
+    country: backendClient.country || "India",
+    site_latitude: backendClient.site_latitude || undefined,
+    site_longitude: backendClient.site_longitude || undefined,
+    site_radius_meters: backendClient.site_radius_meters ?? undefined,
+    primary_contact_name: backendClient.primary_contact_name || backendClient.full_name || `${backendClient.first_name || ''} ${backendClient.last_name || ''}`.trim(),
+    primary_contact_email: backendClient.email || "",
+    primary_contact_phone: backendClient.phone_number || "",
+    secondary_contact: undefined,
+    notes: backendClient.notes || undefined,
+    tags: [],
+    amc_count: 0, // Would need to fetch separately
+    open_projects: 0, // Would need to fetch separately
+    outstanding_amount: 0, // Would need to fetch separately
+    last_activity: backendClient.updated_at || backendClient.created_at,
+    created_at: backendClient.created_at,
+    updated_at: backendClient.updated_at,
+  };
+}
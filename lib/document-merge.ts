@@ -0,0 +1,191 @@
+/**
+ * Mail-merge data for DOCX document templates
+ * A template is generated for one client, tender, firm, employee or AMC record. The record's fields,
+ * together with the company details from system settings, become placeholder values keyed by
+ * lower-case name (e.g. {{client_name}}, {{tender_reference_number}}, {{company_gst_number}}).
+ */
+
+import { format, isValid, parseISO } from "date-fns";
+import { apiClient, BackendClientDetail } from "@/lib/api";
+
+export type MergeEntityType = "client" | "tender" | "firm" | "employee" | "amc";
+
+export const MERGE_ENTITY_TYPES: { key: MergeEntityType; label: string }[] = [
+  { key: "client", label: "Client" },
+  { key: "tender", label: "Tender" },
+  { key: "firm", label: "Firm" },
+  { key: "employee", label: "Employee" },
+  { key: "amc", label: "AMC" },
+];
+
+// Record type offered first for templates of these categories
+export const CATEGORY_ENTITY_TYPES: Record<string, MergeEntityType> = {
+  AMC: "amc",
+  "Tender Document": "tender",
+  "Work Order": "tender",
+  "Experience Certificate": "firm",
+  Affidavit: "firm",
+};
+
+export interface MergeRecordOption {
+  id: number;
+  label: string;
+}
+
+function formatMergeDate(value?: string | null): string {
+  if (!value) return "";
+  const date = parseISO(value.slice(0, 10));
+  return isValid(date) ? format(date, "dd MMM yyyy") : value;
+}
+
+function formatMergeAmount(value?: string | number | null): string {
+  if (value === null || value === undefined || value === "") return "";
+  const amount = typeof value === "number" ? value : parseFloat(value) || 0;
+  return amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function joinAddress(...parts: (string | null | undefined)[]): string {
+  return parts.filter(Boolean).join(", ");
+}
+
+function clientValues(client: BackendClientDetail): Record<string, string> {
+  return {
+    client_name: client.full_name,
+    client_first_name: client.first_name,
+    client_last_name: client.last_name,
+    client_email: client.email,
+    client_phone: client.phone_number,
+    client_contact_person: client.primary_contact_name || "",
+    client_pan_number: client.pan_number || "",
+    client_address: joinAddress(client.address, client.city, client.state, client.pin_code),
+    client_city: client.city || "",
+    client_state: client.state || "",
+    client_pin_code: client.pin_code || "",
+  };
+}
+
+/**
+ * First page of records of a type matching a search, for the record picker
+ */
+export async function searchMergeRecords(type: MergeEntityType, search: string): Promise<MergeRecordOption[]> {
+  const params = { search: search.trim() || undefined };
+  switch (type) {
+    case "client": {
+      const response = await apiClient.getClients(params);
+      return response.results.map((client) => ({ id: client.id, label: client.full_name }));
+    }
+    case "tender": {
+      const response = await apiClient.getTenders(params);
+      return response.results.map((tender) => ({ id: tender.id, label: `${tender.reference_number} - ${tender.name}` }));
+    }
+    case "firm": {
+      const response = await apiClient.getFirms(params);
+      return response.results.map((firm) => ({ id: firm.id, label: firm.firm_name }));
+    }
+    case "employee": {
+      const response = await apiClient.getEmployees(params);
+      return response.results.map((employee) => ({
+        id: employee.id,
+        label: `${employee.full_name || "Unnamed"} (${employee.employee_code})`,
+      }));
+    }
+    case "amc": {
+      const response = await apiClient.getAMCs(params);
+      return response.results.map((amc) => ({ id: amc.id, label: `${amc.amc_number} - ${amc.client_name}` }));
+    }
+  }
+}
+
+/**
+ * Placeholder values for a record, plus the company details and today's date
+ */
+export async function loadMergeValues(type: MergeEntityType, id: number): Promise<Record<string, string>> {
+  const settings = await apiClient.getSystemSettings();
+  const values: Record<string, string> = {
+    company_name: settings.company_name,
+    company_address: settings.company_address,
+    company_phone: settings.company_phone,
+    company_email: settings.company_email,
+    company_gst_number: settings.gst_number || "",
+    company_pan_number: settings.pan_number || "",
+    today: format(new Date(), "dd MMM yyyy"),
+    date: format(new Date(), "dd MMM yyyy"),
+  };
+
+  switch (type) {
+    case "client": {
+      Object.assign(values, clientValues(await apiClient.getClient(id)));
+      break;
+    }
+    case "tender": {
+      const tender = await apiClient.getTender(id);
+      const firm = tender.firm ? await apiClient.getFirm(tender.firm).catch(() => null) : null;
+      Object.assign(values, {
+        tender_name: tender.name,
+        tender_reference_number: tender.reference_number,
+        reference_number: tender.reference_number,
+        tender_description: tender.description || "",
+        tender_status: tender.status,
+        tender_filed_date: formatMergeDate(tender.filed_date),
+        tender_start_date: formatMergeDate(tender.start_date),
+        tender_end_date: formatMergeDate(tender.end_date),
+        tender_estimated_value: formatMergeAmount(tender.estimated_value),
+        tender_emd_amount: formatMergeAmount(tender.total_emd_cost),
+        firm_name: firm?.firm_name || "",
+      });
+      break;
+    }
+    case "firm": {
+      const firm = await apiClient.getFirm(id);
+      Object.assign(values, {
+        firm_name: firm.firm_name,
+        firm_type: firm.type_display || firm.firm_type || "",
+        firm_owner_name: firm.firm_owner_name || "",
+        firm_email: firm.official_email || firm.firm_owner_email || "",
+        firm_phone: firm.official_mobile_number || firm.firm_owner_phone || "",
+        firm_address: firm.address || "",
+        firm_gst_number: firm.gst_number || "",
+        firm_pan_number: firm.pan_number || "",
+      });
+      break;
+    }
+    case "employee": {
+      const employee = await apiClient.getEmployee(id);
+      Object.assign(values, {
+        employee_name: employee.full_name || "",
+        employee_code: employee.employee_code,
+        employee_designation: employee.designation,
+        employee_joining_date: formatMergeDate(employee.joining_date),
+        employee_email: employee.email || "",
+        employee_phone: employee.phone_number || "",
+        employee_address: joinAddress(employee.address, employee.city, employee.state, employee.pin_code),
+        employee_date_of_birth: formatMergeDate(employee.date_of_birth),
+        employee_pan_number: employee.pan_number || "",
+        employee_monthly_salary: formatMergeAmount(employee.monthly_salary),
+      });
+      break;
+    }
+    case "amc": {
+      const amc = await apiClient.getAMC(id);
+      const client = await apiClient.getClient(amc.client_id).catch(() => null);
+      Object.assign(values, client ? clientValues(client) : { client_name: amc.client_name }, {
+        amc_number: amc.amc_number,
+        amc_amount: formatMergeAmount(amc.amount),
+        amc_start_date: formatMergeDate(amc.start_date),
+        amc_end_date: formatMergeDate(amc.end_date),
+        amc_billing_cycle: amc.billing_cycle,
+        amc_status: amc.status,
+        amc_outstanding_amount: formatMergeAmount(amc.outstanding_amount),
+      });
+      break;
+    }
+  }
+  return values;
+}
+
+/**
+ * Values for the placeholders a template uses, matched case-insensitively; unknown names are left blank
+ */
+export function matchPlaceholderValues(placeholders: string[], values: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(placeholders.map((name) => [name, values[name.toLowerCase()] ?? ""]));
+}
@@ -0,0 +1,436 @@
+/**
+ * DOCX helpers for document templates
+ * A .docx file is a zip of WordprocessingML parts; the zip is read and written with the CFB library
+ * bundled in xlsx, and the XML parts are edited with the browser's DOMParser and rendered to HTML
+ * for in-app previews and printing.
+ * Templates use the same {{placeholder}} fields as email templates. Word often splits a field
+ * across several runs (e.g. after spell-check or a formatting change), so fields are matched on the
+ * joined text of each paragraph and the replacement is written into the run where the field starts.
+ */
+
+import * as XLSX from "xlsx";
+import { escapeHtml } from "@/lib/print";
+
+export const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const XML_NS = "http://www.w3.org/XML/1998/namespace";
+const R_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const A_NS = "http://schemas.openxmlformats.org/drawingml/2006/main";
+const WP_NS = "http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing";
+const VML_NS = "urn:schemas-microsoft-com:vml";
+const PACKAGE_RELS_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+
+// Matches {{client_name}} and {{ client_name }}
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Parts that can hold placeholders: the body, headers and footers
+const TEXT_PART_PATTERN = /\/word\/(document|header\d*|footer\d*)\.xml$/;
+
+interface DocxEntry {
+  content: ArrayLike<number>;
+  size: number;
+}
+
+interface DocxContainer {
+  FullPaths: string[];
+  FileIndex: DocxEntry[];
+}
+
+const CFB = XLSX.CFB as {
+  read: (data: Uint8Array, options: { type: "array" }) => DocxContainer;
+  find: (container: DocxContainer, path: string) => DocxEntry | null;
+  write: (container: DocxContainer, options: { fileType: "zip"; type: "array"; compression: boolean }) => ArrayLike<number>;
+};
+
+function readDocx(data: ArrayBuffer): DocxContainer {
+  try {
+    const container = CFB.read(new Uint8Array(data), { type: "array" });
+    if (!CFB.find(container, "/word/document.xml")) throw new Error("missing word/document.xml");
+    return container;
+  } catch (err) {
+    console.error("Failed to read DOCX:", err);
+    throw new Error("The file is not a valid DOCX document.");
+  }
+}
+
+function readPart(entry: DocxEntry): Document {
+  const xml = new TextDecoder().decode(new Uint8Array(entry.content));
+  return new DOMParser().parseFromString(xml, "application/xml");
+}
+
+function writePart(entry: DocxEntry, doc: Document): void {
+  const xml = new XMLSerializer().serializeToString(doc);
+  // XMLSerializer drops the declaration, which Word expects on every part
+  const content = new TextEncoder().encode(
+    xml.startsWith("<?xml") ? xml : `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${xml}`
+  );
+  entry.content = content;
+  entry.size = content.length;
+}
+
+function textParts(container: DocxContainer): DocxEntry[] {
+  return container.FileIndex.filter((_, index) => TEXT_PART_PATTERN.test(container.FullPaths[index]));
+}
+
+function isW(node: Node | null, localName: string): boolean {
+  return !!node && node.nodeType === 1 && (node as Element).namespaceURI === W_NS && (node as Element).localName === localName;
+}
+
+function wChild(el: Element, localName: string): Element | null {
+  return Array.from(el.children).find((child) => isW(child, localName)) || null;
+}
+
+function wVal(el: Element | null, attribute: string = "val"): string | null {
+  return el ? el.getAttributeNS(W_NS, attribute) : null;
+}
+
+/**
+ * Text nodes (<w:t>) of a paragraph, excluding those of paragraphs nested in text boxes
+ */
+function paragraphTextNodes(paragraph: Element): Element[] {
+  return Array.from(paragraph.getElementsByTagNameNS(W_NS, "t")).filter((node) => {
+    let parent = node.parentElement;
+    while (parent && !isW(parent, "p")) parent = parent.parentElement;
+    return parent === paragraph;
+  });
+}
+
+/**
+ * Set the text of a <w:t>, turning line breaks in the value into <w:br/> within the same run
+ */
+function setRunText(node: Element, text: string): void {
+  const [first, ...rest] = text.split("\n");
+  node.textContent = first;
+  node.setAttributeNS(XML_NS, "xml:space", "preserve");
+
+  let anchor: Element = node;
+  rest.forEach((line) => {
+    const br = node.ownerDocument.createElementNS(W_NS, "w:br");
+    const t = node.ownerDocument.createElementNS(W_NS, "w:t");
+    t.setAttributeNS(XML_NS, "xml:space", "preserve");
+    t.textContent = line;
+    anchor.after(br, t);
+    anchor = t;
+  });
+}
+
+function replaceInParagraph(paragraph: Element, values: Record<string, string>): void {
+  const nodes = paragraphTextNodes(paragraph);
+  const texts = nodes.map((node) => node.textContent || "");
+  const joined = texts.join("");
+  if (!joined.includes("{{")) return;
+
+  const changed = new Set<number>();
+  // Right to left, so the offsets of earlier fields are not disturbed
+  Array.from(joined.matchAll(PLACEHOLDER_PATTERN))
+    .reverse()
+    .forEach((match) => {
+      const value = values[match[1]];
+      if (value === undefined) return;
+
+      const start = match.index!;
+      const end = start + match[0].length;
+      const offsets: number[] = [];
+      texts.reduce((offset, text) => {
+        offsets.push(offset);
+        return offset + text.length;
+      }, 0);
+      const first = offsets.findIndex((offset, i) => start >= offset && start < offset + texts[i].length);
+      const last = offsets.findIndex((offset, i) => end - 1 >= offset && end - 1 < offset + texts[i].length);
+      if (first === -1 || last === -1) return;
+
+      const head = texts[first].slice(0, start - offsets[first]);
+      const tail = texts[last].slice(end - offsets[last]);
+      if (first === last) {
+        texts[first] = head + value + tail;
+      } else {
+        texts[first] = head + value;
+        for (let i = first + 1; i < last; i++) texts[i] = "";
+        texts[last] = tail;
+      }
+      for (let i = first; i <= last; i++) changed.add(i);
+    });
+
+  changed.forEach((i) => setRunText(nodes[i], texts[i]));
+}
+
+/**
+ * Placeholder names used in a DOCX template (body, headers and footers), in order of appearance
+ */
+export function extractDocxPlaceholders(data: ArrayBuffer): string[] {
+  const names = new Set<string>();
+  textParts(readDocx(data)).forEach((entry) => {
+    Array.from(readPart(entry).getElementsByTagNameNS(W_NS, "p")).forEach((paragraph) => {
+      const text = paragraphTextNodes(paragraph)
+        .map((node) => node.textContent || "")
+        .join("");
+      for (const match of text.matchAll(PLACEHOLDER_PATTERN)) names.add(match[1]);
+    });
+  });
+  return Array.from(names);
+}
+
+/**
+ * Text of each non-empty paragraph of the document body (including table cells), in order
+ */
+export function extractDocxParagraphs(data: ArrayBuffer): string[] {
+  const doc = readPart(CFB.find(readDocx(data), "/word/document.xml")!);
+  return Array.from(doc.getElementsByTagNameNS(W_NS, "p"))
+    .map((paragraph) =>
+      paragraphTextNodes(paragraph)
+        .map((node) => node.textContent || "")
+        .join("")
+        .replace(/\s+/g, " ")
+        .trim()
+    )
+    .filter((text) => text.length > 0);
+}
+
+/**
+ * Fill a DOCX template's placeholders; fields without a value are left as they are
+ */
+export function fillDocx(data: ArrayBuffer, values: Record<string, string>): Blob {
+  const container = readDocx(data);
+  textParts(container).forEach((entry) => {
+    const doc = readPart(entry);
+    Array.from(doc.getElementsByTagNameNS(W_NS, "p")).forEach((paragraph) => replaceInParagraph(paragraph, values));
+    writePart(entry, doc);
+  });
+  const output = CFB.write(container, { fileType: "zip", type: "array", compression: true });
+  return new Blob([new Uint8Array(output)], { type: DOCX_MIME_TYPE });
+}
+
+// Styles for rendered documents, scoped to the .docx container so they also apply inside the app
+export const DOCX_CONTENT_STYLES = `
+  .docx { font-family: Calibri, Arial, sans-serif; font-size: 11pt; color: #111; background: #fff; padding: 20mm; line-height: 1.35; }
+  .docx p { margin: 0 0 8pt; min-height: 1em; white-space: pre-wrap; }
+  .docx h1, .docx h2, .docx h3, .docx h4 { margin: 12pt 0 6pt; }
+  .docx table { border-collapse: collapse; width: 100%; margin: 0 0 8pt; }
+  .docx td { border: 1px solid #999; padding: 4pt 6pt; vertical-align: top; }
+  .docx td p { margin: 0; }
+  .docx img { max-width: 100%; height: auto; vertical-align: middle; }
+  .docx .docx-header { margin-bottom: 12pt; color: #444; }
+  .docx .docx-footer { margin-top: 12pt; color: #444; }
+  .docx .page-break { display: block; page-break-after: always; }
+  @media screen {
+    .docx .docx-header { border-bottom: 1px dashed #ccc; }
+    .docx .docx-footer { border-top: 1px dashed #ccc; }
+    .docx .page-break { border-top: 1px dashed #ccc; margin: 16pt 0; }
+  }
+`;
+
+// Print styles for rendered documents
+export const DOCX_HTML_STYLES = `
+  body { margin: 0; }
+  @page { size: A4; margin: 0; }
+  ${DOCX_CONTENT_STYLES}
+`;
+
+const EMU_PER_PIXEL = 9525;
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  bmp: "image/bmp",
+  svg: "image/svg+xml",
+  webp: "image/webp",
+};
+
+const HEADING_TAGS: Record<string, string> = {
+  title: "h1",
+  heading1: "h1",
+  heading2: "h2",
+  heading3: "h3",
+  heading4: "h4",
+};
+
+const ALIGNMENTS: Record<string, string> = {
+  center: "center",
+  right: "right",
+  end: "right",
+  both: "justify",
+  distribute: "justify",
+};
+
+interface RenderContext {
+  container: DocxContainer;
+  relationships: Map<string, string>; // Relationship id -> package path of the target
+}
+
+/**
+ * Relationships of a part (e.g. /word/document.xml -> /word/_rels/document.xml.rels), resolved to package paths
+ */
+function readRelationships(container: DocxContainer, partPath: string): Map<string, string> {
+  const relationships = new Map<string, string>();
+  const folder = partPath.slice(0, partPath.lastIndexOf("/"));
+  const entry = CFB.find(container, `${folder}/_rels/${partPath.slice(folder.length + 1)}.rels`);
+  if (!entry) return relationships;
+
+  Array.from(readPart(entry).getElementsByTagNameNS(PACKAGE_RELS_NS, "Relationship")).forEach((rel) => {
+    const target = rel.getAttribute("Target") || "";
+    if (rel.getAttribute("TargetMode") === "External") return;
+    const segments = (target.startsWith("/") ? target : `${folder}/${target}`).split("/");
+    const resolved: string[] = [];
+    segments.forEach((segment) => {
+      if (segment === "..") resolved.pop();
+      else if (segment && segment !== ".") resolved.push(segment);
+    });
+    relationships.set(rel.getAttribute("Id") || "", `/${resolved.join("/")}`);
+  });
+  return relationships;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+function renderImage(relationshipId: string | null, ctx: RenderContext, width?: number, height?: number): string {
+  const path = relationshipId ? ctx.relationships.get(relationshipId) : undefined;
+  const type = IMAGE_TYPES[(path?.split(".").pop() || "").toLowerCase()];
+  const entry = path && type ? CFB.find(ctx.container, path) : null;
+  // Windows metafiles (EMF/WMF) cannot be shown by browsers
+  if (!entry) return "";
+
+  const size = width && height ? ` width="${Math.round(width)}" height="${Math.round(height)}"` : "";
+  return `<img src="data:${type};base64,${toBase64(new Uint8Array(entry.content))}"${size} alt="">`;
+}
+
+function renderDrawing(drawing: Element, ctx: RenderContext): string {
+  const blip = drawing.getElementsByTagNameNS(A_NS, "blip")[0];
+  const extent = drawing.getElementsByTagNameNS(WP_NS, "extent")[0];
+  const width = parseInt(extent?.getAttribute("cx") || "", 10) / EMU_PER_PIXEL;
+  const height = parseInt(extent?.getAttribute("cy") || "", 10) / EMU_PER_PIXEL;
+  return renderImage(blip ? blip.getAttributeNS(R_NS, "embed") : null, ctx, width || undefined, height || undefined);
+}
+
+function renderRun(run: Element, ctx: RenderContext): string {
+  const props = wChild(run, "rPr");
+  const styles: string[] = [];
+  if (props) {
+    const isOn = (name: string) => {
+      const el = wChild(props, name);
+      return !!el && !["0", "false", "none"].includes(wVal(el) || "");
+    };
+    if (isOn("b")) styles.push("font-weight:bold");
+    if (isOn("i")) styles.push("font-style:italic");
+    if (isOn("u")) styles.push("text-decoration:underline");
+    if (isOn("strike")) styles.push("text-decoration:line-through");
+    const size = parseInt(wVal(wChild(props, "sz")) || "", 10);
+    if (size) styles.push(`font-size:${size / 2}pt`);
+    const color = wVal(wChild(props, "color"));
+    if (color && /^[0-9a-f]{6}$/i.test(color)) styles.push(`color:#${color}`);
+  }
+
+  const html = Array.from(run.children)
+    .map((child) => {
+      if (isW(child, "t")) return escapeHtml(child.textContent);
+      if (isW(child, "tab")) return "&emsp;";
+      if (isW(child, "br")) return wVal(child, "type") === "page" ? '<span class="page-break"></span>' : "<br>";
+      if (isW(child, "drawing")) return renderDrawing(child, ctx);
+      if (isW(child, "pict")) {
+        const imageData = child.getElementsByTagNameNS(VML_NS, "imagedata")[0];
+        return imageData ? renderImage(imageData.getAttributeNS(R_NS, "id"), ctx) : "";
+      }
+      return "";
+    })
+    .join("");
+  return styles.length > 0 && html ? `<span style="${styles.join(";")}">${html}</span>` : html;
+}
+
+function renderInline(el: Element, ctx: RenderContext): string {
+  return Array.from(el.children)
+    .map((child) => {
+      if (isW(child, "r")) return renderRun(child, ctx);
+      // Hyperlinks, tracked insertions and content controls wrap ordinary runs
+      if (isW(child, "hyperlink") || isW(child, "ins") || isW(child, "smartTag")) return renderInline(child, ctx);
+      if (isW(child, "sdt")) {
+        const content = wChild(child, "sdtContent");
+        return content ? renderInline(content, ctx) : "";
+      }
+      return "";
+    })
+    .join("");
+}
+
+function renderParagraph(paragraph: Element, ctx: RenderContext): string {
+  const props = wChild(paragraph, "pPr");
+  const style = (wVal(props && wChild(props, "pStyle")) || "").toLowerCase();
+  const align = ALIGNMENTS[wVal(props && wChild(props, "jc")) || ""];
+  const isListItem = !!props && !!wChild(props, "numPr");
+  const tag = HEADING_TAGS[style] || "p";
+
+  const attributes = align ? ` style="text-align:${align}"` : "";
+  return `<${tag}${attributes}>${isListItem ? "&bull;&ensp;" : ""}${renderInline(paragraph, ctx)}</${tag}>`;
+}
+
+function renderTable(table: Element, ctx: RenderContext): string {
+  const rows = Array.from(table.children)
+    .filter((child) => isW(child, "tr"))
+    .map((row) => {
+      const cells = Array.from(row.children)
+        .filter((child) => isW(child, "tc"))
+        .map((cell) => {
+          const props = wChild(cell, "tcPr");
+          const span = parseInt(wVal(props && wChild(props, "gridSpan")) || "1", 10);
+          return `<td${span > 1 ? ` colspan="${span}"` : ""}>${renderBlocks(cell, ctx)}</td>`;
+        });
+      return `<tr>${cells.join("")}</tr>`;
+    });
+  return `<table>${rows.join("")}</table>`;
+}
+
+function renderBlocks(container: Element, ctx: RenderContext): string {
+  return Array.from(container.children)
+    .map((child) => {
+      if (isW(child, "p")) return renderParagraph(child, ctx);
+      if (isW(child, "tbl")) return renderTable(child, ctx);
+      if (isW(child, "sdt")) {
+        const content = wChild(child, "sdtContent");
+        return content ? renderBlocks(content, ctx) : "";
+      }
+      return "";
+    })
+    .join("");
+}
+
+/**
+ * Render the default header or footer of the document's last section
+ */
+function renderHeaderFooter(body: Element, kind: "header" | "footer", ctx: RenderContext): string {
+  const sectionProps = wChild(body, "sectPr");
+  const reference = sectionProps
+    ? Array.from(sectionProps.children).find(
+        (child) => isW(child, `${kind}Reference`) && (wVal(child, "type") || "default") === "default"
+      )
+    : undefined;
+  const path = reference ? ctx.relationships.get(reference.getAttributeNS(R_NS, "id") || "") : undefined;
+  const entry = path ? CFB.find(ctx.container, path) : null;
+  if (!path || !entry) return "";
+
+  const root = readPart(entry).documentElement;
+  const html = renderBlocks(root, { container: ctx.container, relationships: readRelationships(ctx.container, path) });
+  return html ? `<div class="docx-${kind}">${html}</div>` : "";
+}
+
+/**
+ * Render a DOCX document as HTML: paragraph and run formatting, lists, tables, images and
+ * the default header and footer
+ */
+export function renderDocxHtml(data: ArrayBuffer): string {
+  const container = readDocx(data);
+  const ctx: RenderContext = { container, relationships: readRelationships(container, "/word/document.xml") };
+  const body = readPart(CFB.find(container, "/word/document.xml")!).getElementsByTagNameNS(W_NS, "body")[0];
+  if (!body) return '<div class="docx"></div>';
+
+  return (
+    `<div class="docx">${renderHeaderFooter(body, "header", ctx)}` +
+    `${renderBlocks(body, ctx)}${renderHeaderFooter(body, "footer", ctx)}</div>`
+  );
+}
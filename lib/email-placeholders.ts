@@ -0,0 +1,251 @@
+/**
+ * Placeholder catalogue for email templates
+ * Templates refer to fields of the records an email is about as {{entity.field}}, e.g. {{client.name}},
+ * {{amc.end_date}} or {{company.gst_number}}, optionally followed by formatting filters such as
+ * {{amc.end_date|date:short}} or {{bill.amount|inr}}. When an email is sent from a client, AMC, bill or
+ * tender the records are loaded and every catalogued placeholder is resolved without being typed in.
+ * Resolved values are keyed by the full placeholder text, so the backend substitutes them like any other
+ * placeholder. Older flat names ({{client_name}}, {{amount}}) resolve to the same fields.
+ */
+
+import { format, isValid, parseISO } from "date-fns";
+import {
+  apiClient,
+  BackendAMCBilling,
+  BackendAMCDetail,
+  BackendAMCListItem,
+  BackendClientDetail,
+  BackendSystemSettings,
+  BackendTenderDetail,
+} from "@/lib/api";
+
+export type PlaceholderEntity = "client" | "amc" | "bill" | "tender" | "company";
+
+type RawValue = string | number | null | undefined;
+
+/**
+ * Records an email is being sent about
+ */
+export interface PlaceholderContext {
+  client?: BackendClientDetail | null;
+  amc?: BackendAMCListItem | BackendAMCDetail | null;
+  bill?: BackendAMCBilling | null;
+  tender?: BackendTenderDetail | null;
+  company?: BackendSystemSettings | null;
+}
+
+export interface PlaceholderContextIds {
+  clientId?: number;
+  amcId?: number;
+  billId?: number; // Bill of amcId
+  tenderId?: number;
+}
+
+interface PlaceholderField {
+  field: string;
+  label: string;
+  kind: "text" | "date" | "amount";
+  sample: string | number;
+  aliases?: string[]; // Flat names used before the catalogue existed
+  resolve: (context: PlaceholderContext) => RawValue;
+}
+
+function amcDetail(context: PlaceholderContext): BackendAMCDetail | null {
+  return context.amc && "billings" in context.amc ? context.amc : null;
+}
+
+function joinAddress(...parts: (string | null | undefined)[]): string {
+  return parts.filter(Boolean).join(", ");
+}
+
+export const PLACEHOLDER_CATALOGUE: { entity: PlaceholderEntity; label: string; fields: PlaceholderField[] }[] = [
+  {
+    entity: "client",
+    label: "Client",
+    fields: [
+      { field: "name", label: "Name", kind: "text", sample: "TechCorp Solutions", aliases: ["name", "clientname"], resolve: ({ client }) => client?.full_name },
+      { field: "id", label: "Client ID", kind: "text", sample: "123", resolve: ({ client }) => client?.id },
+      { field: "contact_name", label: "Contact person", kind: "text", sample: "John Doe", aliases: ["contact_name"], resolve: ({ client }) => client && (client.primary_contact_name || client.full_name) },
+      { field: "email", label: "Email", kind: "text", sample: "john@techcorp.com", aliases: ["email", "clientemail", "contact_email"], resolve: ({ client }) => client?.email },
+      { field: "phone", label: "Phone", kind: "text", sample: "+91 1234567890", aliases: ["phone", "clientphone", "contact_phone"], resolve: ({ client }) => client?.phone_number },
+      { field: "address", label: "Address", kind: "text", sample: "12 MG Road, Mumbai, Maharashtra, 400001", aliases: ["address", "clientaddress"], resolve: ({ client }) => client && joinAddress(client.address, client.city, client.state, client.pin_code) },
+      { field: "city", label: "City", kind: "text", sample: "Mumbai", aliases: ["city", "clientcity"], resolve: ({ client }) => client?.city },
+      { field: "state", label: "State", kind: "text", sample: "Maharashtra", aliases: ["state", "clientstate"], resolve: ({ client }) => client?.state },
+      { field: "pan_number", label: "PAN", kind: "text", sample: "ABCDE1234F", resolve: ({ client }) => client?.pan_number },
+    ],
+  },
+  {
+    entity: "amc",
+    label: "AMC",
+    fields: [
+      { field: "amc_number", label: "AMC number", kind: "text", sample: "AMC-2025-042", aliases: ["amc_number"], resolve: ({ amc }) => amc?.amc_number },
+      { field: "start_date", label: "Start date", kind: "date", sample: "2025-04-01", resolve: ({ amc }) => amc?.start_date },
+      { field: "end_date", label: "End date", kind: "date", sample: "2026-03-31", resolve: ({ amc }) => amc?.end_date },
+      { field: "amount", label: "Contract amount", kind: "amount", sample: 100000, resolve: ({ amc }) => amc?.amount },
+      { field: "billing_cycle", label: "Billing cycle", kind: "text", sample: "Quarterly", resolve: ({ amc }) => amc?.billing_cycle },
+      { field: "status", label: "Status", kind: "text", sample: "Active", resolve: ({ amc }) => amc?.status },
+      { field: "outstanding_amount", label: "Outstanding amount", kind: "amount", sample: 50000, resolve: (context) => amcDetail(context)?.outstanding_amount },
+    ],
+  },
+  {
+    entity: "bill",
+    label: "AMC Bill",
+    fields: [
+      { field: "bill_number", label: "Bill number", kind: "text", sample: "AMC-2025-042-B2", aliases: ["bill_number"], resolve: ({ bill }) => bill?.bill_number },
+      { field: "bill_date", label: "Bill date", kind: "date", sample: "2025-07-01", aliases: ["bill_date"], resolve: ({ bill }) => bill && (bill.bill_date || bill.period_from) },
+      { field: "period", label: "Period", kind: "text", sample: "Jul 2025 - Sep 2025", aliases: ["period"], resolve: ({ bill }) => bill?.period },
+      { field: "period_from", label: "Period from", kind: "date", sample: "2025-07-01", aliases: ["period_from"], resolve: ({ bill }) => bill?.period_from },
+      { field: "period_to", label: "Period to", kind: "date", sample: "2025-09-30", aliases: ["period_to"], resolve: ({ bill }) => bill?.period_to },
+      { field: "amount", label: "Amount", kind: "amount", sample: 25000, aliases: ["amount"], resolve: ({ bill }) => bill?.amount },
+      { field: "status", label: "Status", kind: "text", sample: "Pending", resolve: ({ bill }) => bill?.status },
+    ],
+  },
+  {
+    entity: "tender",
+    label: "Tender",
+    fields: [
+      { field: "name", label: "Name", kind: "text", sample: "CCTV Installation at Ward Offices", resolve: ({ tender }) => tender?.name },
+      { field: "reference_number", label: "Reference number", kind: "text", sample: "MCGM/IT/2025/118", aliases: ["reference_number"], resolve: ({ tender }) => tender?.reference_number },
+      { field: "status", label: "Status", kind: "text", sample: "Filed", resolve: ({ tender }) => tender?.status },
+      { field: "filed_date", label: "Filed date", kind: "date", sample: "2025-05-12", resolve: ({ tender }) => tender?.filed_date },
+      { field: "start_date", label: "Start date", kind: "date", sample: "2025-06-01", resolve: ({ tender }) => tender?.start_date },
+      { field: "end_date", label: "End date", kind: "date", sample: "2026-05-31", resolve: ({ tender }) => tender?.end_date },
+      { field: "estimated_value", label: "Estimated value", kind: "amount", sample: 1250000, resolve: ({ tender }) => tender?.estimated_value },
+      { field: "emd_amount", label: "EMD amount", kind: "amount", sample: 62500, resolve: ({ tender }) => tender?.total_emd_cost },
+    ],
+  },
+  {
+    entity: "company",
+    label: "Company",
+    fields: [
+      { field: "name", label: "Name", kind: "text", sample: "Electrocom Pvt Ltd", aliases: ["company_name"], resolve: ({ company }) => company?.company_name },
+      { field: "email", label: "Email", kind: "text", sample: "info@electrocom.com", aliases: ["company_email"], resolve: ({ company }) => company?.company_email },
+      { field: "phone", label: "Phone", kind: "text", sample: "+91 9876543210", aliases: ["company_phone"], resolve: ({ company }) => company?.company_phone },
+      { field: "address", label: "Address", kind: "text", sample: "4th Floor, Andheri West, Mumbai", resolve: ({ company }) => company?.company_address },
+      { field: "website", label: "Website", kind: "text", sample: "www.electrocom.com", resolve: ({ company }) => company?.company_website },
+      { field: "gst_number", label: "GST number", kind: "text", sample: "27ABCDE1234F1Z5", resolve: ({ company }) => company?.gst_number },
+      { field: "pan_number", label: "PAN", kind: "text", sample: "ABCDE1234F", resolve: ({ company }) => company?.pan_number },
+    ],
+  },
+];
+
+// Every placeholder name (catalogue key, entity_field and older aliases) mapped to its field
+const FIELDS_BY_NAME = new Map<string, PlaceholderField>();
+PLACEHOLDER_CATALOGUE.forEach(({ entity, fields }) =>
+  fields.forEach((field) => {
+    [`${entity}.${field.field}`, `${entity}_${field.field}`, ...(field.aliases || [])].forEach((name) => {
+      if (!FIELDS_BY_NAME.has(name)) FIELDS_BY_NAME.set(name, field);
+    });
+  })
+);
+
+const DATE_FORMATS: Record<string, string> = {
+  medium: "dd MMM yyyy",
+  short: "dd/MM/yyyy",
+  long: "d MMMM yyyy",
+  iso: "yyyy-MM-dd",
+};
+
+function formatAmount(value: string, decimals: number): string {
+  const amount = parseFloat(value);
+  if (isNaN(amount)) return value;
+  return amount.toLocaleString("en-IN", { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+}
+
+const FILTERS: Record<string, (value: string, arg?: string) => string> = {
+  date: (value, arg) => {
+    const date = parseISO(value.slice(0, 10));
+    return isValid(date) ? format(date, DATE_FORMATS[arg || "medium"] || DATE_FORMATS.medium) : value;
+  },
+  inr: (value, arg) => {
+    const formatted = formatAmount(value, arg === "0" ? 0 : 2);
+    return formatted === value ? value : `₹${formatted}`;
+  },
+  number: (value, arg) => formatAmount(value, arg === "0" ? 0 : 2),
+  upper: (value) => value.toUpperCase(),
+  lower: (value) => value.toLowerCase(),
+};
+
+// Shown in the template editor
+export const PLACEHOLDER_FILTER_EXAMPLES: { example: string; result: string }[] = [
+  { example: "{{amc.end_date|date}}", result: "31 Mar 2026" },
+  { example: "{{amc.end_date|date:short}}", result: "31/03/2026" },
+  { example: "{{amc.end_date|date:long}}", result: "31 March 2026" },
+  { example: "{{bill.amount|inr}}", result: "₹25,000.00" },
+  { example: "{{bill.amount|inr:0}}", result: "₹25,000" },
+  { example: "{{client.name|upper}}", result: "TECHCORP SOLUTIONS" },
+];
+
+/**
+ * Split "bill.amount|inr:0" into the field name and its filters
+ */
+function parsePlaceholder(placeholder: string): { name: string; filters: { name: string; arg?: string }[] } {
+  const [name, ...filters] = placeholder.split("|");
+  return {
+    name: name.trim().toLowerCase(),
+    filters: filters.map((filter) => {
+      const [filterName, arg] = filter.split(":");
+      return { name: filterName.trim().toLowerCase(), arg: arg?.trim() };
+    }),
+  };
+}
+
+function formatValue(raw: RawValue, field: PlaceholderField, filters: { name: string; arg?: string }[]): string | null {
+  if (raw === null || raw === undefined || raw === "") return null;
+  // Dates and amounts are formatted even when the template gives no filter
+  const applied =
+    filters.length > 0
+      ? filters
+      : field.kind === "date"
+        ? [{ name: "date" }]
+        : field.kind === "amount"
+          ? [{ name: "number" }]
+          : [];
+  return applied.reduce((value, filter) => FILTERS[filter.name]?.(value, filter.arg) ?? value, String(raw));
+}
+
+export function isCataloguePlaceholder(placeholder: string): boolean {
+  return FIELDS_BY_NAME.has(parsePlaceholder(placeholder).name);
+}
+
+/**
+ * Values for the placeholders the records in the context can fill; the rest are left out
+ */
+export function resolvePlaceholders(placeholders: string[], context: PlaceholderContext): Record<string, string> {
+  const values: Record<string, string> = {};
+  placeholders.forEach((placeholder) => {
+    const { name, filters } = parsePlaceholder(placeholder);
+    const field = FIELDS_BY_NAME.get(name);
+    const value = field ? formatValue(field.resolve(context), field, filters) : null;
+    if (value !== null) values[placeholder] = value;
+  });
+  return values;
+}
+
+/**
+ * Catalogue placeholders filled with sample data, for previews and test sends
+ */
+export function resolveSamplePlaceholders(placeholders: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  placeholders.forEach((placeholder) => {
+    const { name, filters } = parsePlaceholder(placeholder);
+    const field = FIELDS_BY_NAME.get(name);
+    if (field) values[placeholder] = formatValue(field.sample, field, filters) || "";
+  });
+  return values;
+}
+
+/**
+ * Load the records an email is about, along with the company details
+ */
+export async function loadPlaceholderContext(ids: PlaceholderContextIds): Promise<PlaceholderContext> {
+  const [company, amc, tender] = await Promise.all([
+    apiClient.getSystemSettings().catch(() => null),
+    ids.amcId ? apiClient.getAMC(ids.amcId) : Promise.resolve(null),
+    ids.tenderId ? apiClient.getTender(ids.tenderId) : Promise.resolve(null),
+  ]);
+  const clientId = ids.clientId ?? amc?.client_id;
+  const client = clientId ? await apiClient.getClient(clientId).catch(() => null) : null;
+  const bill = amc && ids.billId ? amc.billings.find((billing) => billing.id === ids.billId) || null : null;
+  return { client, amc, bill, tender, company };
+}
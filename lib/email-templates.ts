@@ -0,0 +1,90 @@
+/**
+ * Helpers for {{placeholder}} fields in email templates
+ * The backend substitutes the placeholder_values sent with sendEmailUsingTemplate into the subject and
+ * body and leaves any field without a value as literal {{name}} text, so every field a template uses
+ * has to be supplied before it is sent.
+ */
+
+import { apiClient, EmailTemplateSendResponse } from "@/lib/api";
+import { resolveSamplePlaceholders } from "@/lib/email-placeholders";
+import { escapeHtml } from "@/lib/print";
+
+// {{name}}, or a catalogue field with optional filters such as {{bill.amount|inr:0}}
+const PLACEHOLDER_PATTERN = /\{\{(\w+(?:\.\w+)*(?:\|\w+(?::\w+)?)*)\}\}/g;
+
+// Placeholders not bound to a record (see PLACEHOLDER_CATALOGUE for those that are)
+export const OTHER_PLACEHOLDERS = ["employee_name", "task_id", "task_description", "location", "deadline", "due_date"];
+
+const SAMPLE_PLACEHOLDER_VALUES: Record<string, string> = {
+  employee_name: "Rajesh Kumar",
+  task_id: "TASK-247",
+  task_description: "Network Setup",
+  location: "Andheri West",
+  deadline: "2025-01-15",
+  due_date: "2025-04-15",
+};
+
+/**
+ * Sample values for previews and test sends; placeholders without one are left out
+ */
+export function getSamplePlaceholderValues(placeholders: string[]): Record<string, string> {
+  const values = resolveSamplePlaceholders(placeholders);
+  placeholders.forEach((placeholder) => {
+    if (!values[placeholder] && SAMPLE_PLACEHOLDER_VALUES[placeholder]) {
+      values[placeholder] = SAMPLE_PLACEHOLDER_VALUES[placeholder];
+    }
+  });
+  return values;
+}
+
+/**
+ * Unique placeholder names used in the given texts, in order of first use
+ */
+export function extractPlaceholders(...texts: string[]): string[] {
+  const names = texts.flatMap((text) => Array.from((text || "").matchAll(PLACEHOLDER_PATTERN), (m) => m[1]));
+  return [...new Set(names)];
+}
+
+/**
+ * Placeholders in the subject or body that have no (non-blank) value
+ */
+export function findMissingPlaceholders(
+  template: { subject: string; body: string },
+  values: Record<string, string | undefined>
+): string[] {
+  return extractPlaceholders(template.subject, template.body).filter((name) => !values[name]?.trim());
+}
+
+export function formatMissingPlaceholders(missing: string[]): string {
+  return `Please enter a value for ${missing.map((name) => `{{${name}}}`).join(", ")}.`;
+}
+
+/**
+ * Substitute values into a template the way the backend does. For HTML output (a body preview) values
+ * are escaped, except the trustedHtml placeholders whose values are markup generated by the app, and
+ * fields without a value are marked so they stand out.
+ */
+export function renderTemplate(
+  text: string,
+  values: Record<string, string>,
+  options: { html?: boolean; trustedHtml?: string[] } = {}
+): string {
+  return (text || "").replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    if (!options.html) return values[name] || match;
+    if (values[name]) return options.trustedHtml?.includes(name) ? values[name] : escapeHtml(values[name]);
+    return `<mark style="background:#fef08a;color:#854d0e;border-radius:2px;padding:0 2px">${match}</mark>`;
+  });
+}
+
+/**
+ * Send a template to one address with sample values, so its layout can be checked in a real mail client
+ */
+export async function sendTestEmail(
+  template: { id: number; subject: string; body: string },
+  recipient: string
+): Promise<EmailTemplateSendResponse> {
+  const placeholders = extractPlaceholders(template.subject, template.body);
+  const samples = getSamplePlaceholderValues(placeholders);
+  const values = Object.fromEntries(placeholders.map((name) => [name, samples[name] || `[${name}]`]));
+  return apiClient.sendEmailUsingTemplate(template.id, { recipients: recipient, placeholder_values: values });
+}
@@ -0,0 +1,149 @@
+/**
+ * Shared CSV / XLSX export utilities
+ * Used by every list page so exported files look the same everywhere
+ */
+
+import * as XLSX from "xlsx";
+import { format, parseISO, isValid } from "date-fns";
+import { fetchAllPages } from "@/lib/api";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export type ExportColumnType = "text" | "number" | "currency" | "date";
+
+export type ExportCellValue = string | number | boolean | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  type?: ExportColumnType; // Defaults to "text"
+  value: (row: T) => ExportCellValue;
+}
+
+export interface ExportOptions {
+  fileName: string; // Without extension
+  format: ExportFormat;
+  sheetName?: string;
+}
+
+// Excel number formats for typed columns
+const XLSX_NUMBER_FORMATS: Record<Exclude<ExportColumnType, "text">, string> = {
+  number: "#,##0.##",
+  currency: '"₹"#,##,##0.00',
+  date: "dd-mmm-yyyy",
+};
+
+function toNumber(value: ExportCellValue): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = typeof value === "number" ? value : parseFloat(String(value));
+  return isNaN(parsed) ? null : parsed;
+}
+
+function toDate(value: ExportCellValue): Date | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = parseISO(String(value));
+  return isValid(parsed) ? parsed : null;
+}
+
+function toCSVValue(value: ExportCellValue, type: ExportColumnType): string {
+  let str: string;
+  switch (type) {
+    case "currency": {
+      const amount = toNumber(value);
+      str = amount === null ? "" : amount.toFixed(2);
+      break;
+    }
+    case "number": {
+      const amount = toNumber(value);
+      str = amount === null ? "" : String(amount);
+      break;
+    }
+    case "date": {
+      const date = toDate(value);
+      str = date ? format(date, "yyyy-MM-dd") : "";
+      break;
+    }
+    default:
+      str = value === null || value === undefined ? "" : String(value);
+      // Keep spreadsheet apps from running text such as "=HYPERLINK(...)" as a formula
+      if (/^[=+\-@\t\r]/.test(str)) str = `'${str}`;
+  }
+
+  if (str.includes(",") || str.includes('"') || str.includes("\n")) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+function toXLSXCell(value: ExportCellValue, type: ExportColumnType): XLSX.CellObject {
+  if (type === "text") {
+    return { t: "s", v: value === null || value === undefined ? "" : String(value) };
+  }
+  if (type === "date") {
+    const date = toDate(value);
+    return date ? { t: "d", v: date, z: XLSX_NUMBER_FORMATS.date } : { t: "s", v: "" };
+  }
+  const amount = toNumber(value);
+  return amount === null ? { t: "s", v: "" } : { t: "n", v: amount, z: XLSX_NUMBER_FORMATS[type] };
+}
+
+/**
+ * Trigger a browser download of a generated file
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Export rows to a CSV or XLSX file and trigger the download
+ */
+export function exportRows<T>(rows: T[], columns: ExportColumn<T>[], options: ExportOptions): void {
+  if (options.format === "csv") {
+    const lines = [
+      columns.map((column) => toCSVValue(column.header, "text")).join(","),
+      ...rows.map((row) => columns.map((column) => toCSVValue(column.value(row), column.type || "text")).join(",")),
+    ];
+    // BOM so Excel opens the file as UTF-8 (₹ and Indian names)
+    downloadBlob(new Blob(["\uFEFF" + lines.join("\n")], { type: "text/csv;charset=utf-8" }), `${options.fileName}.csv`);
+    return;
+  }
+
+  const sheet: XLSX.WorkSheet = {};
+  columns.forEach((column, colIndex) => {
+    sheet[XLSX.utils.encode_cell({ r: 0, c: colIndex })] = { t: "s", v: column.header };
+    rows.forEach((row, rowIndex) => {
+      sheet[XLSX.utils.encode_cell({ r: rowIndex + 1, c: colIndex })] = toXLSXCell(column.value(row), column.type || "text");
+    });
+  });
+  sheet["!ref"] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length, c: Math.max(columns.length - 1, 0) } });
+  sheet["!cols"] = columns.map((column) => ({ wch: Math.max(column.header.length + 2, column.type === "date" ? 12 : 14) }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, (options.sheetName || "Export").substring(0, 31));
+  XLSX.writeFile(workbook, `${options.fileName}.xlsx`, { cellDates: true });
+}
+
+/**
+ * Fetch every page of a list endpoint (following `next` links) and export the full result set
+ * Returns the number of exported rows
+ */
+export async function exportAllPages<T>(
+  fetchPage: (page: number) => Promise<{ next: string | null; results: T[] }>,
+  columns: ExportColumn<T>[],
+  options: ExportOptions
+): Promise<number> {
+  const rows = await fetchAllPages(fetchPage);
+  exportRows(rows, columns, options);
+  return rows.length;
+}
+
+/**
+ * Build a dated export file name, e.g. "clients-2025-01-31"
+ */
+export function exportFileName(prefix: string, date: Date = new Date()): string {
+  return `${prefix}-${format(date, "yyyy-MM-dd")}`;
+}
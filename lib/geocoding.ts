@@ -0,0 +1,233 @@
+/**
+ * Reverse geocoding
+ * Coordinates are resolved by a chain of pluggable providers, none of which send employee
+ * locations to a third party: a local provider matching bundled region polygons in the browser,
+ * and a server provider backed by our own API. Results are cached in localStorage keyed by
+ * rounded coordinates so each spot is only resolved once per browser.
+ */
+
+import { apiClient } from "@/lib/api";
+
+export interface GeocodingProvider {
+  name: string;
+  reverse(latitude: number, longitude: number): Promise<string | null>;
+}
+
+interface CachedAddress {
+  address: string;
+  cached_at: string; // ISO timestamp
+}
+
+const CACHE_KEY = "reverse-geocode-cache";
+const CACHE_MAX_ENTRIES = 500;
+// 4 decimal places is roughly 11 m, well below the accuracy of a phone check-in
+const CACHE_PRECISION = 4;
+
+const REGIONS_URL = process.env.NEXT_PUBLIC_GEOCODING_REGIONS_URL || "/geo/regions.geojson";
+
+type Ring = [number, number][]; // [longitude, latitude] pairs, as in GeoJSON
+
+interface RegionFeature {
+  properties: Record<string, string | number | null> | null;
+  geometry: { type: "Polygon"; coordinates: Ring[] } | { type: "MultiPolygon"; coordinates: Ring[][] } | null;
+}
+
+function isInsideRing(longitude: number, latitude: number, ring: Ring): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > latitude !== yj > latitude && longitude < ((xj - xi) * (latitude - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// First ring is the outer boundary, the rest are holes
+function isInsidePolygon(longitude: number, latitude: number, polygon: Ring[]): boolean {
+  const [outer, ...holes] = polygon;
+  return (
+    !!outer &&
+    isInsideRing(longitude, latitude, outer) &&
+    !holes.some((hole) => isInsideRing(longitude, latitude, hole))
+  );
+}
+
+/**
+ * Label for a region, e.g. "Andheri East, Mumbai Suburban, Maharashtra 400069"
+ */
+function formatRegion(properties: Record<string, string | number | null>): string | null {
+  const place = [properties.name, properties.district, properties.state]
+    .filter((part, index, parts) => part && parts.indexOf(part) === index)
+    .join(", ");
+  const label = [place, properties.pincode].filter(Boolean).join(" ");
+  return label || null;
+}
+
+/**
+ * Offline provider: matches coordinates against district/pin-code polygons served with the app
+ * (a GeoJSON FeatureCollection with name, district, state and pincode properties).
+ * Resolves to null when the file is not deployed or no region contains the point.
+ */
+export function createLocalGeocodingProvider(regionsUrl: string = REGIONS_URL): GeocodingProvider {
+  let regions: Promise<RegionFeature[]> | null = null;
+
+  const loadRegions = () => {
+    if (!regions) {
+      regions = fetch(regionsUrl)
+        .then((response) => (response.ok ? response.json() : { features: [] }))
+        .then((collection: { features?: RegionFeature[] }) => collection.features || [])
+        .catch((err) => {
+          console.error("Failed to load geocoding regions:", err);
+          return [];
+        });
+    }
+    return regions;
+  };
+
+  return {
+    name: "local",
+    async reverse(latitude, longitude) {
+      const features = await loadRegions();
+      const match = features.find(({ geometry }) => {
+        if (!geometry) return false;
+        const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+        return polygons.some((polygon) => isInsidePolygon(longitude, latitude, polygon));
+      });
+      return match?.properties ? formatRegion(match.properties) : null;
+    },
+  };
+}
+
+/**
+ * Street-level provider backed by the self-hosted geocoder behind our API
+ */
+export function createServerGeocodingProvider(): GeocodingProvider {
+  return {
+    name: "server",
+    async reverse(latitude, longitude) {
+      const result = await apiClient.reverseGeocode(latitude, longitude);
+      return result.address || null;
+    },
+  };
+}
+
+const PROVIDER_FACTORIES: Record<string, () => GeocodingProvider> = {
+  local: () => createLocalGeocodingProvider(),
+  server: createServerGeocodingProvider,
+};
+
+/**
+ * Providers from NEXT_PUBLIC_GEOCODING_PROVIDERS (comma-separated, tried in order)
+ * Defaults to the local regions first so lookups work offline, falling back to the server
+ */
+function createConfiguredProviders(): GeocodingProvider[] {
+  const names = (process.env.NEXT_PUBLIC_GEOCODING_PROVIDERS || "local,server")
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => PROVIDER_FACTORIES[name]);
+  return names.map((name) => PROVIDER_FACTORIES[name]());
+}
+
+let providers: GeocodingProvider[] | null = null;
+
+function getProviders(): GeocodingProvider[] {
+  if (!providers) providers = createConfiguredProviders();
+  return providers;
+}
+
+/**
+ * Replace the provider chain, e.g. to plug in a different geocoder
+ */
+export function setGeocodingProviders(newProviders: GeocodingProvider[]): void {
+  providers = newProviders;
+}
+
+function getCacheKey(latitude: number, longitude: number): string {
+  return `${latitude.toFixed(CACHE_PRECISION)},${longitude.toFixed(CACHE_PRECISION)}`;
+}
+
+function readCache(): Record<string, CachedAddress> {
+  if (typeof window === "undefined") return {};
+  try {
+    return JSON.parse(localStorage.getItem(CACHE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function writeCache(key: string, address: string): void {
+  if (typeof window === "undefined") return;
+  const cache = readCache();
+  cache[key] = { address, cached_at: new Date().toISOString() };
+
+  // Drop the oldest entries once the cache is full
+  const keys = Object.keys(cache);
+  if (keys.length > CACHE_MAX_ENTRIES) {
+    keys
+      .sort((a, b) => cache[a].cached_at.localeCompare(cache[b].cached_at))
+      .slice(0, keys.length - CACHE_MAX_ENTRIES)
+      .forEach((oldKey) => delete cache[oldKey]);
+  }
+
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
+  } catch (err) {
+    console.error("Failed to write geocoding cache:", err);
+  }
+}
+
+export function clearGeocodingCache(): void {
+  if (typeof window !== "undefined") localStorage.removeItem(CACHE_KEY);
+}
+
+const pending = new Map<string, Promise<string | null>>();
+
+/**
+ * Resolve coordinates to a readable address, or null if no provider can
+ */
+export async function reverseGeocode(
+  latitude: string | number | null | undefined,
+  longitude: string | number | null | undefined
+): Promise<string | null> {
+  const lat = typeof latitude === "number" ? latitude : parseFloat(latitude || "");
+  const lng = typeof longitude === "number" ? longitude : parseFloat(longitude || "");
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+
+  const key = getCacheKey(lat, lng);
+  const cached = readCache()[key];
+  if (cached) return cached.address;
+
+  // Share one lookup between components showing the same spot
+  if (!pending.has(key)) {
+    pending.set(
+      key,
+      (async () => {
+        for (const provider of getProviders()) {
+          try {
+            const address = await provider.reverse(lat, lng);
+            if (address) {
+              writeCache(key, address);
+              return address;
+            }
+          } catch (err) {
+            console.error(`Reverse geocoding failed (${provider.name}):`, err);
+          }
+        }
+        return null;
+      })().finally(() => pending.delete(key))
+    );
+  }
+  return pending.get(key)!;
+}
+
+/**
+ * Plain coordinate label, shown when no address is available, e.g. "19.0761° N, 72.8774° E"
+ */
+export function formatCoordinates(latitude: string | number, longitude: string | number): string {
+  const lat = typeof latitude === "number" ? latitude : parseFloat(latitude);
+  const lng = typeof longitude === "number" ? longitude : parseFloat(longitude);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return `${latitude}, ${longitude}`;
+  return `${Math.abs(lat).toFixed(4)}° ${lat >= 0 ? "N" : "S"}, ${Math.abs(lng).toFixed(4)}° ${lng >= 0 ? "E" : "W"}`;
+}
@@ -0,0 +1,187 @@
+/**
+ * Geofenced attendance validation
+ * Projects (and, as a fallback, their client's address) carry a site coordinate and radius.
+ * Check-ins are compared against the site the employee was assigned to that day so approvers
+ * only need to review records outside the fence.
+ */
+
+import { apiClient, fetchInBatches, AttendanceDetail, SiteGeofenceFields } from "@/lib/api";
+
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 200;
+
+const EARTH_RADIUS_METERS = 6371000;
+
+export interface SiteGeofence {
+  label: string; // Project or client name
+  latitude: number;
+  longitude: number;
+  radius_meters: number;
+}
+
+// inside/outside: compared against a site; no-location: site set but no GPS on check-in; no-site: nothing to compare;
+// unchecked: the record or its site could not be loaded
+export type GeofenceStatus = "inside" | "outside" | "no-location" | "no-site" | "unchecked";
+
+export interface GeofenceCheck {
+  status: GeofenceStatus;
+  site: SiteGeofence | null;
+  distance_meters?: number; // Check-in distance from the site centre
+  check_out_distance_meters?: number;
+  error?: string; // Why an unchecked record could not be compared
+}
+
+export interface AttendanceGeofenceResult {
+  id: number;
+  record: AttendanceDetail | null; // Null when the record itself could not be loaded
+  check: GeofenceCheck;
+}
+
+type AttendanceCoordinates = Pick<
+  AttendanceDetail,
+  | "check_in_location_latitude"
+  | "check_in_location_longitude"
+  | "check_out_location_latitude"
+  | "check_out_location_longitude"
+>;
+
+export function parseCoordinate(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Great-circle distance between two points (haversine)
+ */
+export function distanceInMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export function formatDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+/**
+ * Validate site location inputs; returns an error message or null
+ * Leaving both coordinates empty is valid (no geofence)
+ */
+export function validateSiteLocation(latitude: string, longitude: string, radius: string): string | null {
+  if (!latitude.trim() && !longitude.trim()) return null;
+  const lat = parseCoordinate(latitude);
+  const lng = parseCoordinate(longitude);
+  if (lat === null || lat < -90 || lat > 90) return "Latitude must be between -90 and 90";
+  if (lng === null || lng < -180 || lng > 180) return "Longitude must be between -180 and 180";
+  if (radius.trim() && !(parseFloat(radius) > 0)) return "Radius must be greater than zero";
+  return null;
+}
+
+export function getSiteGeofence(label: string, fields: SiteGeofenceFields): SiteGeofence | null {
+  const latitude = parseCoordinate(fields.site_latitude);
+  const longitude = parseCoordinate(fields.site_longitude);
+  if (latitude === null || longitude === null) return null;
+  return {
+    label,
+    latitude,
+    longitude,
+    radius_meters: fields.site_radius_meters || DEFAULT_GEOFENCE_RADIUS_METERS,
+  };
+}
+
+/**
+ * Compare a record's check-in (and check-out, for information) with its site
+ */
+export function checkAttendanceGeofence(record: AttendanceCoordinates, site: SiteGeofence | null): GeofenceCheck {
+  if (!site) return { status: "no-site", site: null };
+
+  const distanceTo = (lat: string | null, lng: string | null) => {
+    const latitude = parseCoordinate(lat);
+    const longitude = parseCoordinate(lng);
+    if (latitude === null || longitude === null) return undefined;
+    return distanceInMeters(latitude, longitude, site.latitude, site.longitude);
+  };
+
+  const checkInDistance = distanceTo(record.check_in_location_latitude, record.check_in_location_longitude);
+  const checkOutDistance = distanceTo(record.check_out_location_latitude, record.check_out_location_longitude);
+  if (checkInDistance === undefined) {
+    return { status: "no-location", site, check_out_distance_meters: checkOutDistance };
+  }
+
+  return {
+    status: checkInDistance <= site.radius_meters ? "inside" : "outside",
+    site,
+    distance_meters: checkInDistance,
+    check_out_distance_meters: checkOutDistance,
+  };
+}
+
+/**
+ * Only in-fence records (or records with no site to check against) may be approved without review
+ */
+export function canAutoApprove(check: GeofenceCheck): boolean {
+  return check.status === "inside" || check.status === "no-site";
+}
+
+/**
+ * Human-readable summary of a geofence check, e.g. "1.4 km from Metro Line 3 (allowed 200 m)"
+ */
+export function describeGeofenceCheck(check: GeofenceCheck): string {
+  if (check.status === "unchecked") return `Site geofence could not be checked: ${check.error}`;
+  if (!check.site) return "No site geofence assigned";
+  if (check.status === "no-location") return `No check-in location captured for ${check.site.label}`;
+  const allowed = `allowed ${formatDistance(check.site.radius_meters)}`;
+  return `${formatDistance(check.distance_meters ?? 0)} from ${check.site.label} (${allowed})`;
+}
+
+/**
+ * Resolve the site for a record: the assigned project's geofence, else the project client's address
+ * Lookups are memoized in the given cache so bulk checks fetch each project/client once
+ */
+export async function resolveAttendanceSite(
+  record: Pick<AttendanceDetail, "project">,
+  cache: Map<string, Promise<SiteGeofence | null>> = new Map()
+): Promise<SiteGeofence | null> {
+  if (!record.project) return null;
+
+  const projectKey = `project-${record.project}`;
+  if (!cache.has(projectKey)) {
+    cache.set(
+      projectKey,
+      apiClient.getProject(record.project).then(async (project) => {
+        const projectSite = getSiteGeofence(project.name, project);
+        if (projectSite || !project.client) return projectSite;
+
+        const clientKey = `client-${project.client}`;
+        if (!cache.has(clientKey)) {
+          cache.set(
+            clientKey,
+            apiClient.getClient(project.client).then((client) => getSiteGeofence(client.full_name, client))
+          );
+        }
+        return cache.get(clientKey)!;
+      })
+    );
+  }
+  return cache.get(projectKey)!;
+}
+
+/**
+ * Load attendance records and check each against its site
+ * A failed record or site lookup marks only that record unchecked, so it is held for review
+ */
+export async function checkAttendanceRecords(ids: number[]): Promise<AttendanceGeofenceResult[]> {
+  const cache = new Map<string, Promise<SiteGeofence | null>>();
+  return fetchInBatches(ids, async (id): Promise<AttendanceGeofenceResult> => {
+    let record: AttendanceDetail | null = null;
+    try {
+      record = await apiClient.getAttendanceRecord(id);
+      return { id, record, check: checkAttendanceGeofence(record, await resolveAttendanceSite(record, cache)) };
+    } catch (err: any) {
+      return { id, record, check: { status: "unchecked", site: null, error: err?.message || "lookup failed" } };
+    }
+  });
+}
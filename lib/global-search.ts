@@ -0,0 +1,173 @@
+/**
+ * Global search across modules
+ * Queries every module's list endpoint in parallel with the same search term and groups the top hits.
+ * Modules the user cannot read are skipped, and a failing module does not hide the others' results.
+ */
+
+import { apiClient } from "@/lib/api";
+import type { AppModule } from "@/lib/auth";
+
+export interface GlobalSearchResult {
+  key: string;
+  title: string;
+  subtitle?: string;
+  href: string;
+}
+
+export interface GlobalSearchGroup {
+  module: AppModule;
+  label: string;
+  results: GlobalSearchResult[];
+}
+
+// Results shown per module; the module page has the full list
+export const RESULTS_PER_MODULE = 5;
+
+interface SearchSource {
+  module: AppModule;
+  label: string;
+  search: (query: string) => Promise<GlobalSearchResult[]>;
+}
+
+// List pages pick up the search term from the URL and filter down to the result
+function listHref(module: AppModule, term: string): string {
+  return `/${module}?search=${encodeURIComponent(term)}`;
+}
+
+function joinParts(...parts: (string | null | undefined)[]): string {
+  return parts.filter(Boolean).join(" · ");
+}
+
+const SEARCH_SOURCES: SearchSource[] = [
+  {
+    module: "clients",
+    label: "Clients",
+    search: async (query) => {
+      const response = await apiClient.getClients({ search: query });
+      return response.results.map((client) => ({
+        key: `client-${client.id}`,
+        title: client.full_name,
+        subtitle: joinParts(client.phone_number, client.email, client.city),
+        href: listHref("clients", client.full_name),
+      }));
+    },
+  },
+  {
+    module: "amcs",
+    label: "AMCs",
+    search: async (query) => {
+      const response = await apiClient.getAMCs({ search: query });
+      return response.results.map((amc) => ({
+        key: `amc-${amc.id}`,
+        title: amc.amc_number,
+        subtitle: joinParts(amc.client_name, amc.status),
+        href: listHref("amcs", amc.amc_number),
+      }));
+    },
+  },
+  {
+    module: "tenders",
+    label: "Tenders",
+    search: async (query) => {
+      const response = await apiClient.getTenders({ search: query });
+      return response.results.map((tender) => ({
+        key: `tender-${tender.id}`,
+        title: tender.name,
+        subtitle: joinParts(tender.reference_number, tender.firm_name, tender.status),
+        href: `/tenders/${tender.id}`,
+      }));
+    },
+  },
+  {
+    module: "projects",
+    label: "Projects",
+    search: async (query) => {
+      const response = await apiClient.getProjects({ search: query });
+      return response.results.map((project) => ({
+        key: `project-${project.id}`,
+        title: project.name,
+        subtitle: joinParts(project.tender_name, project.status),
+        href: listHref("projects", project.name),
+      }));
+    },
+  },
+  {
+    module: "tasks",
+    label: "Tasks",
+    search: async (query) => {
+      const response = await apiClient.getTasks({ search: query });
+      return response.results.map((task) => ({
+        key: `task-${task.id}`,
+        title: task.task_name,
+        subtitle: joinParts(task.project_name, task.employee_name, task.status),
+        href: listHref("tasks", task.task_name),
+      }));
+    },
+  },
+  {
+    module: "employees",
+    label: "Employees",
+    search: async (query) => {
+      const response = await apiClient.getEmployees({ search: query });
+      return response.results.map((employee) => ({
+        key: `employee-${employee.id}`,
+        title: employee.full_name || employee.employee_code,
+        subtitle: joinParts(employee.employee_code, employee.designation, employee.phone_number),
+        href: listHref("employees", employee.employee_code),
+      }));
+    },
+  },
+  {
+    module: "contract-workers",
+    label: "Contract Workers",
+    search: async (query) => {
+      const response = await apiClient.getContractWorkers({ search: query });
+      return response.results.map((worker) => ({
+        key: `worker-${worker.id}`,
+        title: worker.full_name || `Worker #${worker.id}`,
+        subtitle: joinParts(worker.worker_type, worker.project_name, worker.phone_number),
+        // The search term itself (e.g. an Aadhaar number) is more specific than the name
+        href: listHref("contract-workers", query),
+      }));
+    },
+  },
+  {
+    module: "documents",
+    label: "Documents",
+    search: async (query) => {
+      const response = await apiClient.getDocumentTemplates({ search: query });
+      // The documents page only lists templates with a published version
+      return response.results
+        .filter((template) => !!template.published_version)
+        .map((template) => ({
+          key: `document-${template.id}`,
+          title: template.title,
+          subtitle: joinParts(template.category, template.firm_name),
+          href: listHref("documents", template.title),
+        }));
+    },
+  },
+];
+
+/**
+ * Search every readable module in parallel
+ * Groups are returned in a fixed order; empty groups are dropped
+ */
+export async function searchAllModules(
+  query: string,
+  canRead: (module: AppModule) => boolean
+): Promise<GlobalSearchGroup[]> {
+  const sources = SEARCH_SOURCES.filter((source) => canRead(source.module));
+  const settled = await Promise.allSettled(sources.map((source) => source.search(query)));
+
+  return sources
+    .map((source, index) => {
+      const outcome = settled[index];
+      if (outcome.status === "rejected") {
+        console.error(`Global search failed for ${source.module}:`, outcome.reason);
+        return { module: source.module, label: source.label, results: [] };
+      }
+      return { module: source.module, label: source.label, results: outcome.value.slice(0, RESULTS_PER_MODULE) };
+    })
+    .filter((group) => group.results.length > 0);
+}
@@ -0,0 +1,332 @@
+/**
+ * GST tax invoice generation
+ * Builds a printable tax invoice (CGST + SGST for intra-state supply, IGST for inter-state)
+ */
+
+import { format, parseISO, isValid } from "date-fns";
+import { escapeHtml, printHtmlDocument } from "@/lib/print";
+
+export const DEFAULT_GST_RATE = 18; // Maintenance & repair services
+
+// SAC heading for maintenance, repair and installation services
+export const AMC_SAC_CODE = "9987";
+
+/**
+ * GST state codes (first two digits of a GSTIN)
+ */
+export const GST_STATE_CODES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+};
+
+export interface InvoiceParty {
+  name: string;
+  address?: string | null;
+  state?: string | null;
+  gstin?: string | null;
+  pan?: string | null;
+  email?: string | null;
+  phone?: string | null;
+}
+
+export interface InvoiceLineItem {
+  description: string;
+  sac: string;
+  amount: number; // Taxable value
+}
+
+export interface InvoiceBankDetails {
+  accountName?: string | null;
+  bankName: string;
+  accountNumber: string;
+  ifsc: string;
+  branch?: string | null;
+}
+
+export interface InvoiceData {
+  invoiceNumber: string;
+  invoiceDate: string; // YYYY-MM-DD
+  supplier: InvoiceParty;
+  recipient: InvoiceParty;
+  items: InvoiceLineItem[];
+  gstRate?: number;
+  bank?: InvoiceBankDetails | null;
+  notes?: string;
+}
+
+export interface InvoiceTax {
+  taxableAmount: number;
+  isInterState: boolean;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  total: number;
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function normalizeStateName(state: string): string {
+  return state.toLowerCase().replace(/&/g, "and").replace(/[^a-z]/g, "");
+}
+
+/**
+ * Resolve a GST state code from a GSTIN or a state name
+ */
+export function getGSTStateCode(gstinOrState: string | null | undefined): string | null {
+  if (!gstinOrState) return null;
+  const value = gstinOrState.trim();
+  const prefix = value.substring(0, 2);
+  if (/^\d{2}/.test(value) && GST_STATE_CODES[prefix]) {
+    return prefix;
+  }
+  const normalized = normalizeStateName(value);
+  const match = Object.entries(GST_STATE_CODES).find(([, name]) => normalizeStateName(name) === normalized);
+  return match ? match[0] : null;
+}
+
+/**
+ * Split GST into CGST/SGST (same state) or IGST (different states)
+ * When either state is unknown the supply is treated as intra-state
+ */
+export function computeInvoiceTax(
+  taxableAmount: number,
+  supplierStateCode: string | null,
+  placeOfSupplyCode: string | null,
+  gstRate: number = DEFAULT_GST_RATE
+): InvoiceTax {
+  const isInterState = !!supplierStateCode && !!placeOfSupplyCode && supplierStateCode !== placeOfSupplyCode;
+  const taxable = roundAmount(taxableAmount);
+  const igst = isInterState ? roundAmount((taxable * gstRate) / 100) : 0;
+  const cgst = isInterState ? 0 : roundAmount((taxable * gstRate) / 200);
+  const sgst = cgst;
+  const totalTax = roundAmount(igst + cgst + sgst);
+
+  return {
+    taxableAmount: taxable,
+    isInterState,
+    cgst,
+    sgst,
+    igst,
+    totalTax,
+    total: roundAmount(taxable + totalTax),
+  };
+}
+
+const ONES = [
+  "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+  "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+function twoDigitsInWords(n: number): string {
+  if (n < 20) return ONES[n];
+  return `${TENS[Math.floor(n / 10)]}${n % 10 ? ` ${ONES[n % 10]}` : ""}`;
+}
+
+function threeDigitsInWords(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : "", rest ? twoDigitsInWords(rest) : ""].filter(Boolean).join(" ");
+}
+
+function integerInWords(n: number): string {
+  if (n === 0) return "Zero";
+  // Indian numbering: crore, lakh, thousand, hundred
+  const crore = Math.floor(n / 10000000);
+  const lakh = Math.floor((n % 10000000) / 100000);
+  const thousand = Math.floor((n % 100000) / 1000);
+  const rest = n % 1000;
+  return [
+    crore ? `${integerInWords(crore)} Crore` : "",
+    lakh ? `${twoDigitsInWords(lakh)} Lakh` : "",
+    thousand ? `${twoDigitsInWords(thousand)} Thousand` : "",
+    rest ? threeDigitsInWords(rest) : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Amount in words using the Indian numbering system
+ * e.g. 120050.5 → "Rupees One Lakh Twenty Thousand Fifty and Fifty Paise Only"
+ */
+export function amountInWords(amount: number): string {
+  const rupees = Math.floor(Math.abs(amount));
+  const paise = Math.round((Math.abs(amount) - rupees) * 100);
+  const words = `Rupees ${integerInWords(rupees)}${paise ? ` and ${twoDigitsInWords(paise)} Paise` : ""} Only`;
+  return amount < 0 ? `Minus ${words}` : words;
+}
+
+function formatINR(value: number): string {
+  return value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatInvoiceDate(value: string): string {
+  const date = parseISO(value);
+  return isValid(date) ? format(date, "dd MMM yyyy") : value;
+}
+
+function partyHtml(label: string, party: InvoiceParty): string {
+  const stateCode = getGSTStateCode(party.gstin || party.state);
+  return `
+    <div class="party">
+      <div class="label">${escapeHtml(label)}</div>
+      <div class="name">${escapeHtml(party.name)}</div>
+      ${party.address ? `<div>${escapeHtml(party.address).replace(/\n/g, "<br>")}</div>` : ""}
+      ${party.state ? `<div>State: ${escapeHtml(party.state)}${stateCode ? ` (Code ${stateCode})` : ""}</div>` : ""}
+      <div>GSTIN: ${party.gstin ? escapeHtml(party.gstin) : "Unregistered"}</div>
+      ${party.pan ? `<div>PAN: ${escapeHtml(party.pan)}</div>` : ""}
+      ${party.phone ? `<div>Phone: ${escapeHtml(party.phone)}</div>` : ""}
+      ${party.email ? `<div>Email: ${escapeHtml(party.email)}</div>` : ""}
+    </div>`;
+}
+
+const INVOICE_STYLES = `
+  @page { size: A4; margin: 14mm; }
+  * { box-sizing: border-box; }
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 12px; color: #111827; margin: 0; }
+  h1 { font-size: 18px; text-align: center; margin: 0 0 12px; letter-spacing: 1px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #9ca3af; padding: 6px 8px; vertical-align: top; }
+  th { background: #f3f4f6; text-align: left; }
+  .right { text-align: right; }
+  .meta td { border: none; padding: 2px 0; }
+  .parties { display: flex; gap: 16px; margin: 12px 0; }
+  .party { flex: 1; border: 1px solid #9ca3af; padding: 8px; line-height: 1.5; }
+  .party .label { font-size: 10px; text-transform: uppercase; color: #6b7280; }
+  .party .name { font-weight: bold; font-size: 13px; }
+  .totals td { border: none; padding: 3px 8px; }
+  .totals .grand td { border-top: 1px solid #111827; font-weight: bold; font-size: 13px; }
+  .words { margin-top: 8px; font-style: italic; }
+  .footer { display: flex; justify-content: space-between; margin-top: 24px; gap: 16px; }
+  .bank { line-height: 1.6; }
+  .signature { text-align: right; min-width: 200px; }
+  .signature .line { margin-top: 48px; border-top: 1px solid #111827; padding-top: 4px; }
+  .notes { margin-top: 12px; color: #374151; }
+`;
+
+/**
+ * Build the invoice HTML body
+ */
+export function buildInvoiceHtml(invoice: InvoiceData): string {
+  const supplierStateCode = getGSTStateCode(invoice.supplier.gstin || invoice.supplier.state);
+  const placeOfSupplyCode = getGSTStateCode(invoice.recipient.gstin || invoice.recipient.state);
+  const taxableAmount = invoice.items.reduce((sum, item) => sum + item.amount, 0);
+  const gstRate = invoice.gstRate ?? DEFAULT_GST_RATE;
+  const tax = computeInvoiceTax(taxableAmount, supplierStateCode, placeOfSupplyCode, gstRate);
+
+  const itemRows = invoice.items
+    .map(
+      (item, index) => `
+        <tr>
+          <td>${index + 1}</td>
+          <td>${escapeHtml(item.description)}</td>
+          <td>${escapeHtml(item.sac)}</td>
+          <td class="right">${formatINR(item.amount)}</td>
+        </tr>`
+    )
+    .join("");
+
+  const taxRows = tax.isInterState
+    ? `<tr><td>IGST @ ${gstRate}%</td><td class="right">${formatINR(tax.igst)}</td></tr>`
+    : `<tr><td>CGST @ ${gstRate / 2}%</td><td class="right">${formatINR(tax.cgst)}</td></tr>
+       <tr><td>SGST @ ${gstRate / 2}%</td><td class="right">${formatINR(tax.sgst)}</td></tr>`;
+
+  const bank = invoice.bank
+    ? `<div class="bank">
+        <strong>Bank Details</strong><br>
+        ${invoice.bank.accountName ? `Account Name: ${escapeHtml(invoice.bank.accountName)}<br>` : ""}
+        Bank: ${escapeHtml(invoice.bank.bankName)}${invoice.bank.branch ? `, ${escapeHtml(invoice.bank.branch)}` : ""}<br>
+        Account No: ${escapeHtml(invoice.bank.accountNumber)}<br>
+        IFSC: ${escapeHtml(invoice.bank.ifsc)}
+      </div>`
+    : "<div></div>";
+
+  return `
+    <h1>TAX INVOICE</h1>
+    <table class="meta">
+      <tr>
+        <td><strong>Invoice No:</strong> ${escapeHtml(invoice.invoiceNumber)}</td>
+        <td class="right"><strong>Invoice Date:</strong> ${formatInvoiceDate(invoice.invoiceDate)}</td>
+      </tr>
+      <tr>
+        <td><strong>Place of Supply:</strong> ${
+          placeOfSupplyCode ? `${escapeHtml(GST_STATE_CODES[placeOfSupplyCode])} (${placeOfSupplyCode})` : escapeHtml(invoice.recipient.state) || "-"
+        }</td>
+        <td class="right"><strong>Reverse Charge:</strong> No</td>
+      </tr>
+    </table>
+    <div class="parties">
+      ${partyHtml("Supplier", invoice.supplier)}
+      ${partyHtml("Bill To", invoice.recipient)}
+    </div>
+    <table>
+      <thead>
+        <tr>
+          <th style="width: 40px">#</th>
+          <th>Description</th>
+          <th style="width: 80px">SAC</th>
+          <th class="right" style="width: 140px">Taxable Value (₹)</th>
+        </tr>
+      </thead>
+      <tbody>${itemRows}</tbody>
+    </table>
+    <table class="totals" style="width: 50%; margin-left: auto; margin-top: 8px;">
+      <tr><td>Taxable Amount</td><td class="right">${formatINR(tax.taxableAmount)}</td></tr>
+      ${taxRows}
+      <tr class="grand"><td>Total (₹)</td><td class="right">${formatINR(tax.total)}</td></tr>
+    </table>
+    <div class="words">${escapeHtml(amountInWords(tax.total))}</div>
+    ${invoice.notes ? `<div class="notes">${escapeHtml(invoice.notes)}</div>` : ""}
+    <div class="footer">
+      ${bank}
+      <div class="signature">
+        For ${escapeHtml(invoice.supplier.name)}
+        <div class="line">Authorised Signatory</div>
+      </div>
+    </div>`;
+}
+
+/**
+ * Open the print dialog for an invoice (print or save as PDF)
+ */
+export function printInvoice(invoice: InvoiceData): Promise<void> {
+  return printHtmlDocument(`Invoice-${invoice.invoiceNumber}`, buildInvoiceHtml(invoice), INVOICE_STYLES);
+}
@@ -0,0 +1,232 @@
+/**
+ * Leave balances and approvals
+ * Each leave type carries a yearly quota, credited in full on 1 January or 1/12 per completed month,
+ * prorated from the joining date in the year an employee joins. Unused days carry into the next year
+ * up to the type's carry-forward limit. Approved requests become Leave attendance records so payroll
+ * and the muster roll pick them up.
+ */
+
+import { differenceInCalendarMonths, endOfYear, format, isValid, parseISO, startOfYear } from "date-fns";
+import {
+  apiClient,
+  fetchAllPages,
+  isQueuedOffline,
+  BackendLeaveRequest,
+  BackendLeaveType,
+} from "@/lib/api";
+import { getWorkingDates } from "@/lib/working-days";
+
+export interface LeaveBalance {
+  leave_type: BackendLeaveType;
+  entitled: number; // Accrued so far this year
+  carried_forward: number;
+  used: number; // Approved
+  pending: number; // Awaiting approval
+  available: number; // entitled + carried_forward - used - pending
+}
+
+export interface LeaveAttendanceResult {
+  created: number;
+  queued: number; // Saved offline; these sync later awaiting approval on the Attendance page
+  failed: string[]; // Dates that could not be marked, e.g. attendance already recorded
+}
+
+type LeaveRequestEntry = Pick<BackendLeaveRequest, "leave_type" | "start_date" | "status" | "days">;
+
+function roundToHalf(value: number): number {
+  return Math.round(value * 2) / 2;
+}
+
+/**
+ * Working days a request covers, excluding Sundays and (non-optional) holidays
+ */
+export function countLeaveDays(
+  startDate: string,
+  endDate: string,
+  holidayDates: string[] = [],
+  isHalfDay: boolean = false
+): number {
+  const days = getWorkingDates(startDate, endDate, holidayDates).length;
+  if (isHalfDay) return days > 0 ? 0.5 : 0;
+  return days;
+}
+
+/**
+ * Days of a leave type accrued in a year as of a date
+ */
+export function getLeaveEntitlement(
+  leaveType: Pick<BackendLeaveType, "annual_quota" | "accrual">,
+  year: number,
+  joiningDate?: string | null,
+  asOf: Date = new Date()
+): number {
+  const quota = parseFloat(leaveType.annual_quota) || 0;
+  const yearStart = startOfYear(new Date(year, 0, 1));
+  const yearEnd = endOfYear(yearStart);
+
+  const joined = joiningDate ? parseISO(joiningDate) : null;
+  if (joined && isValid(joined) && joined > yearEnd) return 0;
+  const accrualStart = joined && isValid(joined) && joined > yearStart ? joined : yearStart;
+
+  if (leaveType.accrual === "monthly") {
+    const until = asOf < yearEnd ? asOf : yearEnd;
+    // Months completed since accrual began (a month counts once it has ended)
+    const completedMonths = Math.max(0, differenceInCalendarMonths(until, accrualStart) + (until >= yearEnd ? 1 : 0));
+    return roundToHalf((quota / 12) * Math.min(12, completedMonths));
+  }
+
+  // Yearly credit, prorated by the months left in the joining year (including the joining month)
+  const monthsInYear = 12 - accrualStart.getMonth();
+  return roundToHalf((quota * monthsInYear) / 12);
+}
+
+/**
+ * Balances of every leave type for one employee in a year
+ * requests should cover the year and the previous one, for carry-forward
+ */
+export function computeLeaveBalances(
+  leaveTypes: BackendLeaveType[],
+  requests: LeaveRequestEntry[],
+  year: number,
+  joiningDate?: string | null,
+  asOf: Date = new Date()
+): LeaveBalance[] {
+  const daysFor = (typeId: number, inYear: number, status: BackendLeaveRequest["status"]) =>
+    requests
+      .filter(
+        (request) =>
+          request.leave_type === typeId && request.status === status && request.start_date.startsWith(`${inYear}-`)
+      )
+      .reduce((sum, request) => sum + (parseFloat(request.days) || 0), 0);
+
+  return leaveTypes.map((leaveType) => {
+    const carryLimit = parseFloat(leaveType.carry_forward_limit) || 0;
+    const previousEntitlement =
+      carryLimit > 0 ? getLeaveEntitlement(leaveType, year - 1, joiningDate, endOfYear(new Date(year - 1, 0, 1))) : 0;
+    const carriedForward =
+      carryLimit > 0 ? Math.min(carryLimit, Math.max(0, previousEntitlement - daysFor(leaveType.id, year - 1, "Approved"))) : 0;
+
+    const entitled = getLeaveEntitlement(leaveType, year, joiningDate, asOf);
+    const used = daysFor(leaveType.id, year, "Approved");
+    const pending = daysFor(leaveType.id, year, "Pending");
+    return {
+      leave_type: leaveType,
+      entitled,
+      carried_forward: carriedForward,
+      used,
+      pending,
+      available: roundToHalf(entitled + carriedForward - used - pending),
+    };
+  });
+}
+
+/**
+ * Approved leave dates in a year, split by whether the employee's balance covers them
+ * Each type's requests are taken in date order against what was credited by asOf plus the carry-forward,
+ * so the days past the balance are the ones left unpaid
+ */
+export function splitPaidLeaveDates(
+  leaveTypes: BackendLeaveType[],
+  requests: BackendLeaveRequest[],
+  year: number,
+  holidayDates: string[] = [],
+  joiningDate?: string | null,
+  asOf: Date = new Date()
+): { paid: string[]; unpaid: string[] } {
+  const remaining = new Map(
+    computeLeaveBalances(leaveTypes, requests, year, joiningDate, asOf).map((balance) => [
+      balance.leave_type.id,
+      balance.entitled + balance.carried_forward,
+    ])
+  );
+
+  const paid: string[] = [];
+  const unpaid: string[] = [];
+  requests
+    .filter((request) => request.status === "Approved" && request.start_date.startsWith(`${year}-`))
+    .sort((a, b) => a.start_date.localeCompare(b.start_date))
+    .forEach((request) => {
+      const dates = request.optional_holiday
+        ? [request.start_date.slice(0, 10)]
+        : getWorkingDates(request.start_date, request.end_date, holidayDates);
+      const dayValue = request.is_half_day ? 0.5 : 1;
+      dates.forEach((date) => {
+        const left = remaining.get(request.leave_type) || 0;
+        if (left >= dayValue) {
+          paid.push(date);
+          remaining.set(request.leave_type, left - dayValue);
+        } else {
+          unpaid.push(date);
+        }
+      });
+    });
+  return { paid, unpaid };
+}
+
+/**
+ * Load leave types and an employee's requests, and compute their balances for a year
+ */
+export async function loadLeaveBalances(
+  employeeId: number,
+  year: number,
+  joiningDate?: string | null
+): Promise<LeaveBalance[]> {
+  const [leaveTypes, requests, previousRequests] = await Promise.all([
+    fetchAllPages((page) => apiClient.getLeaveTypes({ is_active: true, page })),
+    fetchAllPages((page) => apiClient.getLeaveRequests({ employee: employeeId, year, page })),
+    fetchAllPages((page) => apiClient.getLeaveRequests({ employee: employeeId, year: year - 1, page })),
+  ]);
+  return computeLeaveBalances(leaveTypes, [...requests, ...previousRequests], year, joiningDate);
+}
+
+/**
+ * Mark an approved request on the attendance register
+ * Creates and approves one Leave (or Half-Day) record per working day; days already marked are reported back
+ */
+export async function createLeaveAttendance(
+  request: BackendLeaveRequest,
+  holidayDates: string[] = []
+): Promise<LeaveAttendanceResult> {
+  // An optional holiday is a single chosen date, even though it is in the holiday calendar
+  const dates = request.optional_holiday
+    ? [request.start_date.slice(0, 10)]
+    : getWorkingDates(request.start_date, request.end_date, holidayDates);
+  const notes = `${request.leave_type_name}${request.reason ? `: ${request.reason}` : ""} (leave request #${request.id})`;
+
+  const createdIds: number[] = [];
+  let queued = 0;
+  const failed: string[] = [];
+  for (const date of dates) {
+    try {
+      const record = await apiClient.createAttendance({
+        employee: request.employee,
+        attendance_date: date,
+        attendance_status: request.is_half_day ? "Half-Day" : "Leave",
+        notes,
+      });
+      if (isQueuedOffline(record)) queued++;
+      else createdIds.push(record.id);
+    } catch (err) {
+      console.error(`Failed to mark leave on ${date}:`, err);
+      failed.push(date);
+    }
+  }
+
+  if (createdIds.length > 0) {
+    await apiClient.bulkApproveAttendance({ attendance_ids: createdIds, approval_status: "Approved" });
+  }
+  return { created: createdIds.length, queued, failed };
+}
+
+export function formatLeaveDays(days: number): string {
+  return `${days % 1 === 0 ? days : days.toFixed(1)} day${days === 1 ? "" : "s"}`;
+}
+
+export function formatLeavePeriod(request: Pick<BackendLeaveRequest, "start_date" | "end_date">): string {
+  const start = parseISO(request.start_date);
+  const end = parseISO(request.end_date);
+  if (!isValid(start) || !isValid(end)) return `${request.start_date} - ${request.end_date}`;
+  return request.start_date === request.end_date
+    ? format(start, "dd MMM yyyy")
+    : `${format(start, "dd MMM")} - ${format(end, "dd MMM yyyy")}`;
+}
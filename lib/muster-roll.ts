@@ -0,0 +1,503 @@
+/**
+ * Muster roll and contract labour registers
+ * Builds the monthly attendance register (employees × days) from attendance records and holidays,
+ * the register of contractors (Form XII) per project and the register of workmen (Form XIII) for
+ * contract workers deployed on a project, all printable in the format inspectors expect under the
+ * Contract Labour (R&A) Central Rules.
+ */
+
+import {
+  differenceInYears,
+  eachDayOfInterval,
+  endOfMonth,
+  format,
+  isValid,
+  parseISO,
+  startOfMonth,
+} from "date-fns";
+import {
+  apiClient,
+  fetchAllPages,
+  fetchInBatches,
+  BackendAttendanceListItem,
+  BackendEmployeeListItem,
+  BackendHolidayCalendarListItem,
+  ContractWorkerDetail,
+} from "@/lib/api";
+import { escapeHtml, printHtmlDocument } from "@/lib/print";
+import { getCompanyHolidayDates, getWorkingDates } from "@/lib/working-days";
+
+// P: present, A: absent, HD: half day, L: leave, H: holiday, "": Sunday, before joining or still to come
+export type MusterCode = "P" | "A" | "HD" | "L" | "H" | "";
+
+export const MUSTER_CODE_LABELS: Record<Exclude<MusterCode, "">, string> = {
+  P: "Present",
+  A: "Absent",
+  HD: "Half Day",
+  L: "Leave",
+  H: "Holiday",
+};
+
+const STATUS_CODES: Record<BackendAttendanceListItem["attendance_status"], MusterCode> = {
+  Present: "P",
+  Absent: "A",
+  "Half-Day": "HD",
+  Leave: "L",
+};
+
+export interface MusterRollTotals {
+  present: number;
+  absent: number;
+  half_days: number;
+  leaves: number;
+  holidays: number;
+  days_worked: number; // Present days plus half of half days
+}
+
+export interface MusterRollRow {
+  employee_id: number;
+  employee_code: string;
+  name: string;
+  designation: string;
+  days: MusterCode[]; // One entry per day of the month
+  totals: MusterRollTotals;
+}
+
+export interface MusterRoll {
+  month: Date; // First day of the month
+  days: Date[];
+  holidays: Record<string, string>; // yyyy-MM-dd -> holiday name
+  rows: MusterRollRow[];
+}
+
+// Header details printed on the registers
+export interface RegisterEstablishment {
+  contractor_name: string;
+  contractor_address: string;
+  establishment?: string; // Establishment in/under which the contract is carried on
+  work_nature?: string;
+  work_location?: string;
+  principal_employer?: string;
+  principal_employer_address?: string;
+}
+
+// One row of the register of contractors (Form XII)
+export interface ContractorRegisterEntry {
+  project_id: number;
+  work_nature: string; // Project name
+  work_location: string;
+  period_from: string;
+  period_to: string;
+  max_workmen: number;
+}
+
+function dateKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+/**
+ * Build the register from already-loaded data
+ * Rejected attendance is ignored; a marked record on a holiday takes precedence over the holiday.
+ * Working days up to today without a record count as absent, from the joining date where it is known.
+ */
+export function buildMusterRoll(
+  month: Date,
+  employees: Pick<BackendEmployeeListItem, "id" | "employee_code" | "full_name" | "designation" | "joining_date">[],
+  records: BackendAttendanceListItem[],
+  holidays: Pick<BackendHolidayCalendarListItem, "date" | "name">[]
+): MusterRoll {
+  const monthStart = startOfMonth(month);
+  const days = eachDayOfInterval({ start: monthStart, end: endOfMonth(monthStart) });
+  const dayKeys = days.map(dateKey);
+
+  const holidayNames: Record<string, string> = {};
+  holidays.forEach((holiday) => {
+    const key = holiday.date.slice(0, 10);
+    if (dayKeys.includes(key)) holidayNames[key] = holiday.name;
+  });
+
+  const today = dateKey(new Date());
+  const workingDays = new Set(
+    getWorkingDates(dayKeys[0], dayKeys[dayKeys.length - 1], Object.keys(holidayNames)).filter((key) => key <= today)
+  );
+
+  const codesByEmployee = new Map<number, Map<string, MusterCode>>();
+  records.forEach((record) => {
+    if (record.approval_status === "Rejected") return;
+    const codes = codesByEmployee.get(record.employee) || new Map<string, MusterCode>();
+    codes.set(record.attendance_date.slice(0, 10), STATUS_CODES[record.attendance_status]);
+    codesByEmployee.set(record.employee, codes);
+  });
+
+  // Employees who have since left still appear if they have attendance in the month
+  const people = new Map<number, { code: string; name: string; designation: string; joined?: string }>(
+    employees.map((employee) => [
+      employee.id,
+      {
+        code: employee.employee_code,
+        name: employee.full_name || employee.employee_code,
+        designation: employee.designation,
+        joined: employee.joining_date?.slice(0, 10),
+      },
+    ])
+  );
+  records.forEach((record) => {
+    if (!people.has(record.employee)) {
+      people.set(record.employee, { code: record.employee_code, name: record.employee_name, designation: "" });
+    }
+  });
+
+  const rows = Array.from(people.entries()).map(([employeeId, person]) => {
+    const codes = codesByEmployee.get(employeeId);
+    const dayCodes = dayKeys.map((key): MusterCode => {
+      const marked = codes?.get(key);
+      if (marked) return marked;
+      if (holidayNames[key]) return "H";
+      return workingDays.has(key) && (!person.joined || key >= person.joined) ? "A" : "";
+    });
+    const count = (code: MusterCode) => dayCodes.filter((dayCode) => dayCode === code).length;
+    const present = count("P");
+    const halfDays = count("HD");
+    return {
+      employee_id: employeeId,
+      employee_code: person.code,
+      name: person.name,
+      designation: person.designation,
+      days: dayCodes,
+      totals: {
+        present,
+        absent: count("A"),
+        half_days: halfDays,
+        leaves: count("L"),
+        holidays: count("H"),
+        days_worked: present + halfDays / 2,
+      },
+    };
+  });
+
+  rows.sort((a, b) => a.employee_code.localeCompare(b.employee_code, undefined, { numeric: true }));
+  return { month: monthStart, days, holidays: holidayNames, rows };
+}
+
+/**
+ * Load employees, the month's attendance and holidays, and build the register
+ */
+export async function loadMusterRoll(month: Date): Promise<MusterRoll> {
+  const [employees, records, holidays] = await Promise.all([
+    fetchAllPages((page) => apiClient.getEmployees({ page })),
+    fetchAllPages((page) =>
+      apiClient.getAttendanceRecords({ month: month.getMonth() + 1, year: month.getFullYear(), page })
+    ),
+    fetchAllPages((page) => apiClient.getHolidays({ year: month.getFullYear(), page })),
+  ]);
+  // Optional holidays are working days for everyone who doesn't take them as leave
+  const companyHolidays = new Set(getCompanyHolidayDates(holidays));
+  const dayOffHolidays = holidays.filter((holiday) => companyHolidays.has(holiday.date.slice(0, 10)));
+  return buildMusterRoll(month, employees, records, dayOffHolidays);
+}
+
+/**
+ * Contract workers currently deployed on a project, with the details Form XIII needs
+ */
+export async function loadProjectWorkmen(projectId: number): Promise<ContractWorkerDetail[]> {
+  const workers = await fetchAllPages((page) => apiClient.getContractWorkers({ page }));
+  const assigned = workers.filter((worker) => worker.project === projectId);
+  const details = await fetchInBatches(assigned, (worker) => apiClient.getContractWorker(worker.id));
+  return details.sort((a, b) => (a.full_name || "").localeCompare(b.full_name || ""));
+}
+
+/**
+ * One Form XII entry per project that has contract workers deployed
+ */
+export async function loadContractorRegister(): Promise<ContractorRegisterEntry[]> {
+  const [projects, workers] = await Promise.all([
+    fetchAllPages((page) => apiClient.getProjects({ page })),
+    fetchAllPages((page) => apiClient.getContractWorkers({ page })),
+  ]);
+
+  const workmenByProject = new Map<number, number>();
+  workers.forEach((worker) => {
+    if (worker.project) workmenByProject.set(worker.project, (workmenByProject.get(worker.project) || 0) + 1);
+  });
+
+  return projects
+    .filter((project) => workmenByProject.has(project.id))
+    .map((project) => ({
+      project_id: project.id,
+      work_nature: project.name,
+      work_location: project.tender_name,
+      period_from: project.start_date,
+      period_to: project.end_date,
+      max_workmen: workmenByProject.get(project.id) || 0,
+    }));
+}
+
+const REGISTER_STYLES = `
+  @page { size: A4 landscape; margin: 10mm; }
+  * { box-sizing: border-box; }
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 10px; color: #111827; margin: 0; }
+  .form-no { text-align: center; font-weight: bold; font-size: 12px; }
+  .rule { text-align: center; font-size: 10px; margin-bottom: 4px; }
+  h1 { font-size: 14px; text-align: center; margin: 0 0 10px; letter-spacing: 1px; }
+  .header { width: 100%; margin-bottom: 8px; border-collapse: collapse; }
+  .header td { padding: 2px 0; vertical-align: top; }
+  .header td.label { width: 45%; }
+  table.register { width: 100%; border-collapse: collapse; }
+  table.register th, table.register td { border: 1px solid #6b7280; padding: 3px; text-align: center; }
+  table.register th { background: #f3f4f6; font-size: 9px; }
+  table.register td.left { text-align: left; }
+  .holiday { background: #e5e7eb; }
+  .absent { color: #b91c1c; font-weight: bold; }
+  .legend { margin-top: 8px; }
+  .signature { margin-top: 32px; text-align: right; }
+  .signature .line { display: inline-block; min-width: 220px; border-top: 1px solid #111827; padding-top: 4px; text-align: center; }
+`;
+
+function headerHtml(establishment: RegisterEstablishment, extraRows: [string, string][] = []): string {
+  const rows: [string, string | undefined][] = [
+    ["Name and address of contractor", [establishment.contractor_name, establishment.contractor_address].filter(Boolean).join(", ")],
+    ["Name and address of establishment in/under which contract is carried on", establishment.establishment],
+    ["Nature and location of work", [establishment.work_nature, establishment.work_location].filter(Boolean).join(", ")],
+    [
+      "Name and address of principal employer",
+      [establishment.principal_employer, establishment.principal_employer_address].filter(Boolean).join(", "),
+    ],
+    ...extraRows,
+  ];
+  return `
+    <table class="header">
+      ${rows
+        .map(([label, value]) => `<tr><td class="label">${escapeHtml(label)}</td><td>: ${escapeHtml(value) || "-"}</td></tr>`)
+        .join("")}
+    </table>`;
+}
+
+function signatureHtml(establishment: RegisterEstablishment): string {
+  return `
+    <div class="signature">
+      <div class="line">Signature of Contractor<br>For ${escapeHtml(establishment.contractor_name)}</div>
+    </div>`;
+}
+
+/**
+ * Build the monthly muster roll HTML body
+ */
+export function buildMusterRollHtml(roll: MusterRoll, establishment: RegisterEstablishment): string {
+  const dayHeaders = roll.days
+    .map((day) => {
+      const key = dateKey(day);
+      return `<th class="${roll.holidays[key] ? "holiday" : ""}">${format(day, "d")}<br>${format(day, "EEEEE")}</th>`;
+    })
+    .join("");
+
+  const bodyRows = roll.rows
+    .map(
+      (row, index) => `
+        <tr>
+          <td>${index + 1}</td>
+          <td class="left">${escapeHtml(row.name)}<br>${escapeHtml(row.employee_code)}</td>
+          <td class="left">${escapeHtml(row.designation) || "-"}</td>
+          ${row.days
+            .map((code) => `<td class="${code === "H" ? "holiday" : code === "A" ? "absent" : ""}">${code}</td>`)
+            .join("")}
+          <td>${row.totals.present}</td>
+          <td>${row.totals.absent}</td>
+          <td>${row.totals.half_days}</td>
+          <td>${row.totals.leaves}</td>
+          <td>${row.totals.holidays}</td>
+          <td><strong>${row.totals.days_worked}</strong></td>
+        </tr>`
+    )
+    .join("");
+
+  const holidayList = Object.entries(roll.holidays)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, name]) => `${format(parseISO(key), "dd MMM")}: ${escapeHtml(name)}`)
+    .join("; ");
+
+  return `
+    <div class="form-no">FORM XVI</div>
+    <div class="rule">[See Rule 78(1)(a)(i)]</div>
+    <h1>MUSTER ROLL</h1>
+    ${headerHtml(establishment, [["For the month of", format(roll.month, "MMMM yyyy")], ["Wage period", `${format(roll.days[0], "dd MMM yyyy")} to ${format(roll.days[roll.days.length - 1], "dd MMM yyyy")}`]])}
+    <table class="register">
+      <thead>
+        <tr>
+          <th>Sl. No.</th>
+          <th>Name of Workman</th>
+          <th>Designation</th>
+          ${dayHeaders}
+          <th>P</th>
+          <th>A</th>
+          <th>HD</th>
+          <th>L</th>
+          <th>H</th>
+          <th>Days Worked</th>
+        </tr>
+      </thead>
+      <tbody>${bodyRows || `<tr><td colspan="${roll.days.length + 9}">No workmen</td></tr>`}</tbody>
+    </table>
+    <div class="legend">
+      ${Object.entries(MUSTER_CODE_LABELS)
+        .map(([code, label]) => `${code} = ${label}`)
+        .join(", ")}
+      ${holidayList ? `<br>Holidays: ${holidayList}` : ""}
+    </div>
+    ${signatureHtml(establishment)}`;
+}
+
+function formatRegisterDate(value: string | null | undefined): string {
+  if (!value) return "";
+  const date = parseISO(value);
+  return isValid(date) ? format(date, "dd/MM/yyyy") : value;
+}
+
+/**
+ * Build the register of workmen employed by contractor (Form XIII) HTML body
+ */
+export function buildWorkmenRegisterHtml(
+  workers: ContractWorkerDetail[],
+  establishment: RegisterEstablishment,
+  asOf: Date = new Date()
+): string {
+  const bodyRows = workers
+    .map((worker, index) => {
+      const birthDate = worker.date_of_birth ? parseISO(worker.date_of_birth) : null;
+      const age = birthDate && isValid(birthDate) ? differenceInYears(asOf, birthDate) : null;
+      const sex = worker.gender ? worker.gender.charAt(0).toUpperCase() : "";
+      const address = [worker.address, worker.city, worker.state, worker.pin_code].filter(Boolean).join(", ");
+      return `
+        <tr>
+          <td>${index + 1}</td>
+          <td class="left">${escapeHtml(worker.full_name)}</td>
+          <td>${[age, sex].filter((part) => part !== null && part !== "").join(" / ")}</td>
+          <td class="left">${escapeHtml(worker.father_name)}</td>
+          <td class="left">${escapeHtml(worker.worker_type)}${worker.department ? `, ${escapeHtml(worker.department)}` : ""}</td>
+          <td class="left">${escapeHtml(address)}</td>
+          <td class="left">${escapeHtml(address)}</td>
+          <td>${formatRegisterDate(worker.created_at)}</td>
+          <td></td>
+          <td></td>
+          <td></td>
+          <td class="left">${worker.uan_number ? `UAN ${escapeHtml(worker.uan_number)}` : ""}${
+            worker.esi ? `${worker.uan_number ? "<br>" : ""}ESI ${escapeHtml(worker.esi)}` : ""
+          }</td>
+        </tr>`;
+    })
+    .join("");
+
+  return `
+    <div class="form-no">FORM XIII</div>
+    <div class="rule">[See Rule 75]</div>
+    <h1>REGISTER OF WORKMEN EMPLOYED BY CONTRACTOR</h1>
+    ${headerHtml(establishment)}
+    <table class="register">
+      <thead>
+        <tr>
+          <th>Sl. No.</th>
+          <th>Name and surname of workman</th>
+          <th>Age and sex</th>
+          <th>Father's / Husband's name</th>
+          <th>Nature of employment / Designation</th>
+          <th>Permanent home address of workman</th>
+          <th>Local address</th>
+          <th>Date of commencement of employment</th>
+          <th>Signature or thumb impression of workman</th>
+          <th>Date of termination of employment</th>
+          <th>Reasons for termination</th>
+          <th>Remarks</th>
+        </tr>
+      </thead>
+      <tbody>${bodyRows || `<tr><td colspan="12">No contract workers deployed</td></tr>`}</tbody>
+    </table>
+    ${signatureHtml(establishment)}`;
+}
+
+/**
+ * Build the register of contractors (Form XII) HTML body
+ */
+export function buildContractorRegisterHtml(
+  entries: ContractorRegisterEntry[],
+  establishment: RegisterEstablishment
+): string {
+  const contractor = [establishment.contractor_name, establishment.contractor_address].filter(Boolean).join(", ");
+  const bodyRows = entries
+    .map(
+      (entry, index) => `
+        <tr>
+          <td>${index + 1}</td>
+          <td class="left">${escapeHtml(contractor)}</td>
+          <td class="left">${escapeHtml(entry.work_nature)}</td>
+          <td class="left">${escapeHtml(entry.work_location)}</td>
+          <td>${formatRegisterDate(entry.period_from)}</td>
+          <td>${formatRegisterDate(entry.period_to)}</td>
+          <td>${entry.max_workmen}</td>
+        </tr>`
+    )
+    .join("");
+
+  return `
+    <div class="form-no">FORM XII</div>
+    <div class="rule">[See Rule 74]</div>
+    <h1>REGISTER OF CONTRACTORS</h1>
+    <table class="header">
+      <tr><td class="label">Name and address of principal employer</td><td>: ${
+        escapeHtml([establishment.principal_employer, establishment.principal_employer_address].filter(Boolean).join(", ")) || "-"
+      }</td></tr>
+      <tr><td class="label">Name and address of establishment</td><td>: ${escapeHtml(establishment.establishment) || "-"}</td></tr>
+    </table>
+    <table class="register">
+      <thead>
+        <tr>
+          <th rowspan="2">Sl. No.</th>
+          <th rowspan="2">Name and address of contractor</th>
+          <th rowspan="2">Nature of work on contract</th>
+          <th rowspan="2">Location of contract work</th>
+          <th colspan="2">Period of contract</th>
+          <th rowspan="2">Maximum number of workmen employed by contractor</th>
+        </tr>
+        <tr>
+          <th>From</th>
+          <th>To</th>
+        </tr>
+      </thead>
+      <tbody>${bodyRows || `<tr><td colspan="7">No contract work in progress</td></tr>`}</tbody>
+    </table>
+    ${signatureHtml(establishment)}`;
+}
+
+/**
+ * Open the print dialog for a muster roll (print or save as PDF)
+ */
+export function printMusterRoll(roll: MusterRoll, establishment: RegisterEstablishment): Promise<void> {
+  return printHtmlDocument(
+    `Muster-Roll-${format(roll.month, "yyyy-MM")}`,
+    buildMusterRollHtml(roll, establishment),
+    REGISTER_STYLES
+  );
+}
+
+/**
+ * Open the print dialog for the Form XII register
+ */
+export function printContractorRegister(
+  entries: ContractorRegisterEntry[],
+  establishment: RegisterEstablishment
+): Promise<void> {
+  return printHtmlDocument(
+    `Register-of-Contractors-${format(new Date(), "yyyy-MM-dd")}`,
+    buildContractorRegisterHtml(entries, establishment),
+    REGISTER_STYLES
+  );
+}
+
+/**
+ * Open the print dialog for a project's Form XIII register
+ */
+export function printWorkmenRegister(
+  workers: ContractWorkerDetail[],
+  establishment: RegisterEstablishment,
+  fileName: string
+): Promise<void> {
+  return printHtmlDocument(fileName, buildWorkmenRegisterHtml(workers, establishment), REGISTER_STYLES);
+}
@@ -0,0 +1,132 @@
+/**
+ * Offline request queue
+ * Mutating API requests made without a connection are persisted in IndexedDB (including FormData files)
+ * and replayed in order by ApiClient once the connection returns.
+ * Offline mode is opt-in per browser; when disabled, requests fail as before.
+ */
+
+export type QueuedRequestStatus = 'pending' | 'failed';
+
+// FormData cannot be stored in IndexedDB directly; its entries (strings and Files) can
+export type QueuedRequestBody =
+  | { kind: 'json'; value: string }
+  | { kind: 'form'; entries: [string, FormDataEntryValue][] };
+
+export interface QueuedRequest {
+  id: number;
+  endpoint: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: QueuedRequestBody;
+  queued_at: string; // ISO timestamp
+  status: QueuedRequestStatus;
+  error?: string; // Why the last replay was rejected (e.g. a conflict)
+}
+
+export type NewQueuedRequest = Omit<QueuedRequest, 'id' | 'queued_at' | 'status' | 'error'>;
+
+const DB_NAME = 'electrocom-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'requests';
+const OFFLINE_MODE_KEY = 'offline-mode-enabled';
+
+// Dispatched on window whenever the queue changes, so indicators can refresh
+export const OFFLINE_QUEUE_EVENT = 'offline-queue-change';
+
+export function isOfflineQueueSupported(): boolean {
+  return typeof window !== 'undefined' && typeof indexedDB !== 'undefined';
+}
+
+export function isOfflineModeEnabled(): boolean {
+  return isOfflineQueueSupported() && localStorage.getItem(OFFLINE_MODE_KEY) === 'true';
+}
+
+export function setOfflineModeEnabled(enabled: boolean): void {
+  localStorage.setItem(OFFLINE_MODE_KEY, enabled ? 'true' : 'false');
+  notifyQueueChange();
+}
+
+function notifyQueueChange(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(OFFLINE_QUEUE_EVENT));
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run a single operation against the requests store
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Convert a fetch body into a storable form
+ * Returns null for bodies that cannot be persisted (streams, blobs, etc.)
+ */
+export function serializeRequestBody(body: BodyInit | null | undefined): QueuedRequestBody | undefined | null {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === 'string') return { kind: 'json', value: body };
+  if (body instanceof FormData) return { kind: 'form', entries: Array.from(body.entries()) };
+  return null;
+}
+
+export function deserializeRequestBody(body: QueuedRequestBody | undefined): BodyInit | undefined {
+  if (!body) return undefined;
+  if (body.kind === 'json') return body.value;
+  const formData = new FormData();
+  body.entries.forEach(([key, value]) => formData.append(key, value));
+  return formData;
+}
+
+export async function enqueueRequest(request: NewQueuedRequest): Promise<void> {
+  await withStore('readwrite', (store) =>
+    store.add({ ...request, queued_at: new Date().toISOString(), status: 'pending' })
+  );
+  notifyQueueChange();
+}
+
+/**
+ * All queued requests in the order they were made
+ */
+export async function getQueuedRequests(): Promise<QueuedRequest[]> {
+  if (!isOfflineQueueSupported()) return [];
+  const requests = await withStore<QueuedRequest[]>('readonly', (store) => store.getAll());
+  return requests.sort((a, b) => a.id - b.id);
+}
+
+export async function updateQueuedRequest(request: QueuedRequest): Promise<void> {
+  await withStore('readwrite', (store) => store.put(request));
+  notifyQueueChange();
+}
+
+export async function removeQueuedRequest(id: number): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+  notifyQueueChange();
+}
@@ -0,0 +1,286 @@
+/**
+ * Payment reminders for unpaid AMC bills
+ * A bill falls due a configured number of days after its bill date. Reminders escalate through stages
+ * (before due, on the due date, then 7/15/30 days overdue), each sent with its own email template.
+ * Only the latest stage a bill has reached is sent, and only once: every send is recorded as a
+ * 'Reminder Sent' entry in the AMC's activity history, which is also what marks the stage done.
+ */
+
+import { addDays, differenceInCalendarDays, format, isValid, parseISO } from "date-fns";
+import {
+  apiClient,
+  fetchAllPages,
+  BackendAMCBilling,
+  BackendAMCListItem,
+  BackendClientDetail,
+  EmailTemplateDetail,
+} from "@/lib/api";
+import { fetchAMCsWithBillings } from "@/lib/reports";
+import { extractPlaceholders, findMissingPlaceholders } from "@/lib/email-templates";
+import { PlaceholderContext, resolvePlaceholders } from "@/lib/email-placeholders";
+
+export type ReminderStage = "before_due" | "on_due" | "overdue_7" | "overdue_15" | "overdue_30";
+
+export const REMINDER_STAGES: { key: ReminderStage; label: string }[] = [
+  { key: "before_due", label: "Before due" },
+  { key: "on_due", label: "On due date" },
+  { key: "overdue_7", label: "7 days overdue" },
+  { key: "overdue_15", label: "15 days overdue" },
+  { key: "overdue_30", label: "30 days overdue" },
+];
+
+export interface PaymentReminderConfig {
+  paymentTermsDays: number; // A bill is due this many days after its bill date
+  templates: Partial<Record<ReminderStage, number | null>>; // Email template per stage; stages without one are not sent
+  autoSend: boolean; // Send due reminders once a day, on the first dashboard visit of the day
+}
+
+export const DEFAULT_PAYMENT_REMINDER_CONFIG: PaymentReminderConfig = {
+  paymentTermsDays: 15,
+  templates: {},
+  autoSend: false,
+};
+
+export interface DueReminder {
+  amc: BackendAMCListItem;
+  bill: BackendAMCBilling;
+  stage: ReminderStage;
+  template_id: number;
+  due_date: string; // YYYY-MM-DD
+  days_overdue: number; // Negative before the due date
+}
+
+export interface ReminderRunResult {
+  sent: number;
+  failed: string[]; // Bill numbers with the reason they were not sent
+}
+
+/**
+ * Fill in missing parts of a saved reminder configuration with the defaults
+ */
+export function resolvePaymentReminderConfig(saved?: Partial<PaymentReminderConfig> | null): PaymentReminderConfig {
+  return {
+    ...DEFAULT_PAYMENT_REMINDER_CONFIG,
+    ...saved,
+    templates: { ...saved?.templates },
+  };
+}
+
+/**
+ * Days from the due date at which each stage is sent
+ * The before-due reminder follows the "reminder days before" system setting
+ */
+export function getStageOffsets(reminderDaysBefore: number): Record<ReminderStage, number> {
+  return {
+    before_due: -Math.max(reminderDaysBefore, 1),
+    on_due: 0,
+    overdue_7: 7,
+    overdue_15: 15,
+    overdue_30: 30,
+  };
+}
+
+export function getBillDueDate(bill: BackendAMCBilling, paymentTermsDays: number): Date | null {
+  const billDate = parseISO((bill.bill_date || bill.period_from || "").slice(0, 10));
+  return isValid(billDate) ? addDays(billDate, paymentTermsDays) : null;
+}
+
+/**
+ * Stages already sent for each bill, from the AMC activity history
+ */
+export async function loadSentReminderStages(): Promise<Map<number, Set<ReminderStage>>> {
+  const activities = await fetchAllPages((page) => apiClient.getAMCActivities({ type: "Reminder Sent", page }));
+  const sent = new Map<number, Set<ReminderStage>>();
+  activities.forEach((activity) => {
+    if (!activity.billing || !activity.reminder_stage) return;
+    const stages = sent.get(activity.billing) || new Set<ReminderStage>();
+    stages.add(activity.reminder_stage);
+    sent.set(activity.billing, stages);
+  });
+  return sent;
+}
+
+/**
+ * Reminders to send today: for every unpaid bill, the latest configured stage it has reached,
+ * unless that stage (or a later one) has already been sent
+ */
+export function findDueReminders(
+  amcs: { amc: BackendAMCListItem; billings: BackendAMCBilling[] }[],
+  sentStages: Map<number, Set<ReminderStage>>,
+  config: PaymentReminderConfig,
+  reminderDaysBefore: number,
+  today: Date = new Date()
+): DueReminder[] {
+  const offsets = getStageOffsets(reminderDaysBefore);
+  const configured = REMINDER_STAGES.filter(({ key }) => !!config.templates[key]);
+  const due: DueReminder[] = [];
+
+  amcs
+    .filter(({ amc }) => amc.status !== "Canceled")
+    .forEach(({ amc, billings }) => {
+      billings
+        .filter((bill) => !bill.paid)
+        .forEach((bill) => {
+          const dueDate = getBillDueDate(bill, config.paymentTermsDays);
+          if (!dueDate) return;
+          const daysOverdue = differenceInCalendarDays(today, dueDate);
+          const reached = configured.filter(({ key }) => offsets[key] <= daysOverdue);
+          if (reached.length === 0) return;
+
+          const stage = reached[reached.length - 1].key;
+          const sent = sentStages.get(bill.id);
+          const stageIndex = REMINDER_STAGES.findIndex(({ key }) => key === stage);
+          if (sent && REMINDER_STAGES.slice(stageIndex).some(({ key }) => sent.has(key))) return;
+
+          due.push({
+            amc,
+            bill,
+            stage,
+            template_id: config.templates[stage]!,
+            due_date: format(dueDate, "yyyy-MM-dd"),
+            days_overdue: daysOverdue,
+          });
+        });
+    });
+
+  return due.sort((a, b) => b.days_overdue - a.days_overdue);
+}
+
+function formatAmount(value: string | number): string {
+  const amount = typeof value === "number" ? value : parseFloat(value) || 0;
+  return amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatReminderDate(value: string): string {
+  const date = parseISO(value);
+  return isValid(date) ? format(date, "dd MMM yyyy") : value;
+}
+
+/**
+ * Placeholder values for a reminder, keyed by lower-case placeholder name
+ */
+export function getReminderPlaceholderValues(
+  reminder: DueReminder,
+  client: BackendClientDetail | null,
+  companyName: string
+): Record<string, string> {
+  const clientName = client?.full_name || reminder.amc.client_name;
+  return {
+    name: clientName,
+    client_name: clientName,
+    clientname: clientName,
+    email: client?.email || "",
+    client_email: client?.email || "",
+    amc_number: reminder.amc.amc_number,
+    bill_number: reminder.bill.bill_number,
+    bill_date: formatReminderDate(reminder.bill.bill_date || reminder.bill.period_from),
+    period: reminder.bill.period,
+    amount: formatAmount(reminder.bill.amount),
+    outstanding_amount: formatAmount(reminder.bill.amount),
+    due_date: formatReminderDate(reminder.due_date),
+    days_overdue: String(Math.max(reminder.days_overdue, 0)),
+    company_name: companyName,
+  };
+}
+
+/**
+ * Values for the placeholders a template actually uses: the reminder's own values matched
+ * case-insensitively, then catalogue fields such as {{bill.amount|inr}} from the reminder's records.
+ * Throws when the template uses a placeholder a reminder cannot fill, rather than sending it unfilled.
+ */
+function fillTemplatePlaceholders(
+  template: EmailTemplateDetail,
+  values: Record<string, string>,
+  context: PlaceholderContext
+): Record<string, string> {
+  const names = extractPlaceholders(template.subject, template.body);
+  const resolved = resolvePlaceholders(names, context);
+  const filled = Object.fromEntries(names.map((name) => [name, values[name.toLowerCase()] ?? resolved[name] ?? ""]));
+  const missing = findMissingPlaceholders(template, filled);
+  if (missing.length > 0) {
+    throw new Error(`template "${template.name}" has no value for ${missing.map((name) => `{{${name}}}`).join(", ")}`);
+  }
+  return filled;
+}
+
+/**
+ * Send reminders one at a time, recording each in the AMC activity history
+ */
+export async function sendReminders(
+  reminders: DueReminder[],
+  onProgress?: (done: number) => void
+): Promise<ReminderRunResult> {
+  const settings = await apiClient.getSystemSettings();
+  const templates = new Map<number, EmailTemplateDetail>();
+  const clients = new Map<number, BackendClientDetail | null>();
+  const result: ReminderRunResult = { sent: 0, failed: [] };
+
+  for (const [index, reminder] of reminders.entries()) {
+    try {
+      if (!clients.has(reminder.amc.client_id)) {
+        clients.set(reminder.amc.client_id, await apiClient.getClient(reminder.amc.client_id).catch(() => null));
+      }
+      const client = clients.get(reminder.amc.client_id) || null;
+      if (!client?.email) {
+        throw new Error("client has no email address");
+      }
+      if (!templates.has(reminder.template_id)) {
+        templates.set(reminder.template_id, await apiClient.getEmailTemplate(reminder.template_id));
+      }
+      const template = templates.get(reminder.template_id)!;
+      const values = getReminderPlaceholderValues(reminder, client, settings.company_name);
+
+      await apiClient.sendEmailUsingTemplate(template.id, {
+        recipients: client.email,
+        placeholder_values: fillTemplatePlaceholders(template, values, {
+          client,
+          amc: reminder.amc,
+          bill: reminder.bill,
+          company: settings,
+        }),
+        client: client.id,
+      });
+      const stageLabel = REMINDER_STAGES.find(({ key }) => key === reminder.stage)?.label || reminder.stage;
+      await apiClient.createAMCActivity({
+        amc: reminder.amc.id,
+        billing: reminder.bill.id,
+        type: "Reminder Sent",
+        reminder_stage: reminder.stage,
+        description: `${stageLabel} reminder for ${reminder.bill.bill_number} sent to ${client.email}`,
+      });
+      result.sent += 1;
+    } catch (err: any) {
+      console.error(`Failed to send reminder for ${reminder.bill.bill_number}:`, err);
+      result.failed.push(`${reminder.bill.bill_number}: ${err.message || "failed to send"}`);
+    }
+    onProgress?.(index + 1);
+  }
+
+  return result;
+}
+
+/**
+ * Load every unpaid bill and work out which reminders are due today
+ */
+export async function loadDueReminders(config: PaymentReminderConfig, reminderDaysBefore: number): Promise<DueReminder[]> {
+  const [amcs, sentStages] = await Promise.all([fetchAMCsWithBillings(), loadSentReminderStages()]);
+  return findDueReminders(amcs, sentStages, config, reminderDaysBefore);
+}
+
+/**
+ * Daily automatic run: sends the due reminders at most once per day when auto-send is on
+ * Returns null when nothing ran
+ */
+export async function runScheduledReminders(): Promise<ReminderRunResult | null> {
+  const settings = await apiClient.getSystemSettings();
+  const config = resolvePaymentReminderConfig(settings.payment_reminder_config);
+  const today = format(new Date(), "yyyy-MM-dd");
+  if (!config.autoSend || settings.payment_reminder_last_run === today) return null;
+
+  // The server grants today's run to one caller only, so sessions opened at the same time send once
+  const { claimed } = await apiClient.claimPaymentReminderRun(today);
+  if (!claimed) return null;
+
+  const reminders = await loadDueReminders(config, settings.reminder_days_before);
+  return reminders.length > 0 ? sendReminders(reminders) : { sent: 0, failed: [] };
+}
@@ -0,0 +1,325 @@
+/**
+ * Payroll draft computation
+ * Builds a draft payroll for a pay period from approved attendance and the holiday calendar.
+ * Working days exclude Sundays and company-wide holidays (optional holidays are working days); Half-Day counts
+ * as 0.5 day. Leave from approved requests is paid up to the employee's leave balance, other Leave per the
+ * leave policy.
+ * Overtime from check-in/check-out times against each employee's shift is added as an allowance.
+ */
+
+import { format, parseISO } from "date-fns";
+import { PayrollComputation } from "@/types";
+import { apiClient, fetchAllPages, fetchInBatches, BackendAttendanceListItem, ContractWorkerDetail } from "@/lib/api";
+import {
+  DEFAULT_STATUTORY_CONFIG,
+  StatutoryConfig,
+  StatutoryPayee,
+  computeStatutoryDeductions,
+  resolveStatutoryConfig,
+} from "@/lib/statutory";
+import { ShiftConfig, computeOvertimeAllowance, getEmployeeShift, summarizeShiftAttendance } from "@/lib/shifts";
+import { getCompanyHolidayDates, getWorkingDates } from "@/lib/working-days";
+import { splitPaidLeaveDates } from "@/lib/leave";
+
+export type LeaveType = "paid" | "unpaid";
+
+export interface LeavePolicy {
+  leaveType: LeaveType;
+  maxPaidLeaveDays?: number | null; // Paid days per period for leave without an approved request (unlimited when empty)
+}
+
+export const DEFAULT_LEAVE_POLICY: LeavePolicy = { leaveType: "paid", maxPaidLeaveDays: 2 };
+
+export interface AttendanceSummary {
+  present_days: number;
+  half_days: number;
+  leave_days: number;
+  paid_leave_days: number;
+  absent_days: number; // Working days without a paid attendance record
+  overtime_minutes?: number;
+  late_days?: number;
+  early_exit_days?: number;
+}
+
+export interface PayrollDraft {
+  payee_type: "Employee" | "Contract Worker";
+  employee_id: number; // Employee or contract worker id, per payee_type
+  employee_name: string;
+  employee_code: string;
+  period_from: string;
+  period_to: string;
+  computation: PayrollComputation;
+  summary: AttendanceSummary;
+  has_existing_payroll: boolean;
+  worker?: ContractWorkerDetail; // Contract worker details for the payment sheet
+}
+
+type AttendanceEntry = Pick<BackendAttendanceListItem, "attendance_date" | "attendance_status" | "approval_status">;
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Compute the payroll breakdown of one employee for a pay period
+ * Only approved attendance on working days is counted; statutory deductions are added when a payee is given.
+ * Leave from approved requests is paid as far as the leave balance covers it (approvedLeave); other leave
+ * records are paid up to the policy's maxPaidLeaveDays.
+ */
+export function computePayrollDraft(input: {
+  monthlySalary: number;
+  periodFrom: string;
+  periodTo: string;
+  attendance: AttendanceEntry[];
+  holidays?: string[];
+  leavePolicy?: LeavePolicy;
+  approvedLeave?: { paid: string[]; unpaid: string[] };
+  allowances?: { name: string; amount: number }[];
+  deductions?: { name: string; amount: number }[];
+  statutory?: { payee: StatutoryPayee; config?: StatutoryConfig };
+}): { computation: PayrollComputation; summary: AttendanceSummary } {
+  const policy = input.leavePolicy || DEFAULT_LEAVE_POLICY;
+  const workingDates = new Set(getWorkingDates(input.periodFrom, input.periodTo, input.holidays));
+
+  // One record per date; the latest approved entry wins if the backend returns duplicates
+  const statusByDate = new Map<string, BackendAttendanceListItem["attendance_status"]>();
+  input.attendance.forEach((record) => {
+    const date = record.attendance_date.slice(0, 10);
+    if (record.approval_status === "Approved" && workingDates.has(date)) {
+      statusByDate.set(date, record.attendance_status);
+    }
+  });
+
+  const statuses = Array.from(statusByDate.values());
+  const presentDays = statuses.filter((status) => status === "Present").length;
+  const halfDays = statuses.filter((status) => status === "Half-Day").length;
+  const leaveDates = Array.from(statusByDate.entries())
+    .filter(([, status]) => status === "Leave")
+    .map(([date]) => date);
+  const leaveDays = leaveDates.length;
+  const paidRequested = new Set(input.approvedLeave?.paid);
+  const unpaidRequested = new Set(input.approvedLeave?.unpaid);
+  const coveredLeaveDays = leaveDates.filter((date) => paidRequested.has(date)).length;
+  const otherLeaveDays = leaveDates.filter((date) => !paidRequested.has(date) && !unpaidRequested.has(date)).length;
+  const paidLeaveDays =
+    policy.leaveType === "unpaid"
+      ? 0
+      : coveredLeaveDays +
+        (policy.maxPaidLeaveDays != null ? Math.min(otherLeaveDays, policy.maxPaidLeaveDays) : otherLeaveDays);
+
+  const workingDays = workingDates.size;
+  const daysPresent = presentDays + halfDays * 0.5 + paidLeaveDays;
+  const perDayRate = workingDays > 0 ? roundAmount(input.monthlySalary / workingDays) : 0;
+  const earnedSalary = workingDays > 0 ? roundAmount((input.monthlySalary * daysPresent) / workingDays) : 0;
+  const allowances = input.allowances || [];
+  const grossAmount = roundAmount(earnedSalary + allowances.reduce((sum, item) => sum + item.amount, 0));
+  const deductions = [
+    ...(input.deductions || []),
+    ...(input.statutory
+      ? computeStatutoryDeductions(
+          { pfWages: earnedSalary, grossWages: grossAmount, month: parseISO(input.periodFrom).getMonth() + 1 },
+          input.statutory.payee,
+          input.statutory.config || DEFAULT_STATUTORY_CONFIG
+        )
+      : []),
+  ];
+  const totalDeductions = roundAmount(deductions.reduce((sum, item) => sum + item.amount, 0));
+
+  return {
+    computation: {
+      base_salary: input.monthlySalary,
+      working_days: workingDays,
+      days_present: daysPresent,
+      per_day_rate: perDayRate,
+      earned_salary: earnedSalary,
+      allowances,
+      gross_amount: grossAmount,
+      deductions,
+      total_deductions: totalDeductions,
+      net_amount: roundAmount(grossAmount - totalDeductions),
+    },
+    summary: {
+      present_days: presentDays,
+      half_days: halfDays,
+      leave_days: leaveDays,
+      paid_leave_days: paidLeaveDays,
+      absent_days: workingDays - daysPresent,
+    },
+  };
+}
+
+function getMonthPeriod(month: number, year: number): { periodFrom: string; periodTo: string } {
+  return {
+    periodFrom: format(new Date(year, month - 1, 1), "yyyy-MM-dd"),
+    periodTo: format(new Date(year, month, 0), "yyyy-MM-dd"),
+  };
+}
+
+/**
+ * Load the statutory rules saved in system settings, falling back to the defaults
+ */
+export async function fetchStatutoryConfig(): Promise<StatutoryConfig> {
+  try {
+    const settings = await apiClient.getSystemSettings();
+    return resolveStatutoryConfig(settings.statutory_config);
+  } catch (err) {
+    console.error("Error fetching statutory rules, using defaults:", err);
+    return DEFAULT_STATUTORY_CONFIG;
+  }
+}
+
+function getPeriodKey(month: number, year: number): string {
+  return `${year}-${String(month).padStart(2, "0")}`;
+}
+
+/**
+ * Fetch attendance, holidays, approved leave and salaries and compute payroll drafts for the given employees
+ * Employees that already have a payroll entry for the month are flagged so they can be skipped
+ * With a shift configuration, overtime is paid as an allowance and late arrivals are counted
+ */
+export async function generatePayrollDrafts(
+  employeeIds: number[],
+  month: number,
+  year: number,
+  leavePolicy: LeavePolicy = DEFAULT_LEAVE_POLICY,
+  statutoryConfig: StatutoryConfig = DEFAULT_STATUTORY_CONFIG,
+  shiftConfig?: ShiftConfig
+): Promise<PayrollDraft[]> {
+  const { periodFrom, periodTo } = getMonthPeriod(month, year);
+
+  const [attendance, holidays, existingPayroll, employees, leaveTypes, leaveRequests, previousLeaveRequests] =
+    await Promise.all([
+      fetchAllPages((page) =>
+        apiClient.getAttendanceRecords({ approval_status: "Approved", date_from: periodFrom, date_to: periodTo, page })
+      ),
+      fetchAllPages((page) => apiClient.getHolidays({ year, page })),
+      fetchAllPages((page) => apiClient.getPayrollRecords({ month, year, page })),
+      fetchInBatches(employeeIds, (id) => apiClient.getEmployee(id)),
+      fetchAllPages((page) => apiClient.getLeaveTypes({ page })),
+      // The previous year is needed for carry-forward
+      fetchAllPages((page) => apiClient.getLeaveRequests({ status: "Approved", year, page })),
+      fetchAllPages((page) => apiClient.getLeaveRequests({ status: "Approved", year: year - 1, page })),
+    ]);
+
+  const holidayDates = getCompanyHolidayDates(holidays);
+  const workingDates = new Set(getWorkingDates(periodFrom, periodTo, holidayDates));
+  const employeesWithPayroll = new Set(existingPayroll.map((payroll) => payroll.employee));
+
+  return employees.map((employee) => {
+    const monthlySalary = parseFloat(employee.monthly_salary) || 0;
+    const employeeAttendance = attendance.filter((record) => record.employee === employee.id);
+    const approvedLeave = splitPaidLeaveDates(
+      leaveTypes,
+      [...leaveRequests, ...previousLeaveRequests].filter((request) => request.employee === employee.id),
+      year,
+      holidayDates,
+      employee.joining_date,
+      parseISO(periodTo)
+    );
+
+    const shift = shiftConfig ? getEmployeeShift(shiftConfig, employee.id) : null;
+    const shiftSummary =
+      shiftConfig && shift ? summarizeShiftAttendance(employeeAttendance, shift, shiftConfig.overtime, workingDates) : null;
+    const overtime =
+      shiftConfig && shift && shiftSummary
+        ? computeOvertimeAllowance(shiftSummary.overtime_minutes, monthlySalary, workingDates.size, shift, shiftConfig.overtime)
+        : null;
+
+    const { computation, summary } = computePayrollDraft({
+      monthlySalary,
+      periodFrom,
+      periodTo,
+      attendance: employeeAttendance,
+      holidays: holidayDates,
+      leavePolicy,
+      approvedLeave,
+      allowances: overtime ? [overtime] : [],
+      statutory: {
+        payee: { state: employee.state, pfApplicable: true, esiApplicable: true },
+        config: statutoryConfig,
+      },
+    });
+    if (shiftSummary) {
+      summary.overtime_minutes = shiftSummary.overtime_minutes;
+      summary.late_days = shiftSummary.late_days;
+      summary.early_exit_days = shiftSummary.early_exit_days;
+    }
+
+    return {
+      payee_type: "Employee",
+      employee_id: employee.id,
+      employee_name: employee.full_name || employee.employee_code,
+      employee_code: employee.employee_code,
+      period_from: periodFrom,
+      period_to: periodTo,
+      computation,
+      summary,
+      has_existing_payroll: employeesWithPayroll.has(employee.id),
+    };
+  });
+}
+
+/**
+ * Compute full-month payroll drafts for contract workers
+ * Contract workers have no attendance records, so every working day is paid; PF and ESI apply only to
+ * workers registered with a UAN and ESI number. Workers already on an exported sheet for the month are
+ * flagged so they can be skipped.
+ */
+export async function generateContractWorkerDrafts(
+  month: number,
+  year: number,
+  statutoryConfig: StatutoryConfig = DEFAULT_STATUTORY_CONFIG
+): Promise<PayrollDraft[]> {
+  const { periodFrom, periodTo } = getMonthPeriod(month, year);
+
+  const [workerList, holidays, paymentSheet] = await Promise.all([
+    fetchAllPages((page) => apiClient.getContractWorkers({ page })),
+    fetchAllPages((page) => apiClient.getHolidays({ year, page })),
+    apiClient.getContractWorkerPaymentSheet(getPeriodKey(month, year)),
+  ]);
+  const workers = await fetchInBatches(
+    workerList.map((worker) => worker.id),
+    (id) => apiClient.getContractWorker(id)
+  );
+  const workersWithPayroll = new Set(paymentSheet.contract_workers);
+  const holidayDates = getCompanyHolidayDates(holidays);
+  const fullAttendance: AttendanceEntry[] = getWorkingDates(periodFrom, periodTo, holidayDates).map((date) => ({
+    attendance_date: date,
+    attendance_status: "Present",
+    approval_status: "Approved",
+  }));
+
+  return workers.map((worker) => {
+    const { computation, summary } = computePayrollDraft({
+      monthlySalary: parseFloat(worker.monthly_salary) || 0,
+      periodFrom,
+      periodTo,
+      attendance: fullAttendance,
+      holidays: holidayDates,
+      statutory: {
+        payee: { state: worker.state, pfApplicable: !!worker.uan_number, esiApplicable: !!worker.esi },
+        config: statutoryConfig,
+      },
+    });
+
+    return {
+      payee_type: "Contract Worker",
+      employee_id: worker.id,
+      employee_name: worker.full_name || "",
+      employee_code: "",
+      period_from: periodFrom,
+      period_to: periodTo,
+      computation,
+      summary,
+      has_existing_payroll: workersWithPayroll.has(worker.id),
+      worker,
+    };
+  });
+}
+
+/**
+ * Record that contract workers were paid for a month from an exported payment sheet
+ */
+export async function recordContractWorkerPayroll(month: number, year: number, workerIds: number[]): Promise<void> {
+  await apiClient.recordContractWorkerPaymentSheet(getPeriodKey(month, year), workerIds);
+}
@@ -0,0 +1,429 @@
+/**
+ * Best-effort text extraction from PDF files, used to compare document template versions
+ * The page tree is walked so text comes out in page order. Each page's content streams are inflated
+ * with the browser's DecompressionStream and their text-showing operators (Tj, TJ, ' and ") are read
+ * line by line, mapping character codes through the ToUnicode CMap of the font selected with Tf.
+ * Scanned PDFs, text inside form XObjects and fonts without a Unicode mapping yield little or no text.
+ */
+
+interface PdfObject {
+  dictionary: string; // The whole object for objects that are not streams
+  data?: Uint8Array; // Raw stream data
+  content?: string | null; // Decoded stream data, filled in once the file is read
+}
+
+interface FontCMap {
+  map: Map<string, string>; // Source code hex -> text
+  bytes: number; // Bytes per character code
+}
+
+function toBinaryString(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return binary;
+}
+
+async function inflate(data: Uint8Array): Promise<string | null> {
+  try {
+    const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(new DecompressionStream("deflate"));
+    return toBinaryString(new Uint8Array(await new Response(stream).arrayBuffer()));
+  } catch {
+    return null;
+  }
+}
+
+async function decodeStream(stream: PdfObject): Promise<string | null> {
+  if (!stream.data || /\/Subtype\s*\/Image/.test(stream.dictionary)) return null;
+  const filters = stream.dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] || "";
+  if (!filters) return toBinaryString(stream.data);
+  // Only Flate-compressed streams hold text; image filters (DCT, JPX, CCITT) are skipped
+  return filters.replace(/[\[\]\s]/g, "") === "/FlateDecode" ? inflate(stream.data) : null;
+}
+
+/**
+ * Indirect objects by object number; a later definition (an incremental update) replaces an earlier one
+ */
+function readObjects(bytes: Uint8Array, binary: string): Map<number, PdfObject> {
+  const objects = new Map<number, PdfObject>();
+  const pattern = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(binary))) {
+    const start = match.index + match[0].length;
+    let end = binary.indexOf("endobj", start);
+    if (end === -1) end = binary.length;
+
+    const streamMatch = /stream\r?\n/.exec(binary.slice(start, end));
+    if (streamMatch && binary.slice(start + streamMatch.index - 3, start + streamMatch.index) !== "end") {
+      const dataStart = start + streamMatch.index + streamMatch[0].length;
+      let dataEnd = binary.indexOf("endstream", dataStart);
+      if (dataEnd === -1) break;
+      end = binary.indexOf("endobj", dataEnd);
+      if (end === -1) end = binary.length;
+      while (dataEnd > dataStart && (binary[dataEnd - 1] === "\n" || binary[dataEnd - 1] === "\r")) dataEnd--;
+      objects.set(Number(match[1]), {
+        dictionary: binary.slice(start, start + streamMatch.index),
+        data: bytes.subarray(dataStart, dataEnd),
+      });
+    } else {
+      objects.set(Number(match[1]), { dictionary: binary.slice(start, end) });
+    }
+    pattern.lastIndex = end;
+  }
+  return objects;
+}
+
+/**
+ * Add the objects packed into compressed object streams (PDF 1.5+), unless defined directly
+ */
+function readObjectStreams(objects: Map<number, PdfObject>): void {
+  Array.from(objects.values())
+    .filter((object) => /\/Type\s*\/ObjStm\b/.test(object.dictionary) && object.content)
+    .forEach((object) => {
+      const content = object.content!;
+      const first = parseInt(readEntry(object.dictionary, "First") || "", 10);
+      if (isNaN(first)) return;
+      const header = (content.slice(0, first).match(/\d+/g) || []).map(Number);
+      for (let i = 0; i + 1 < header.length; i += 2) {
+        const end = i + 3 < header.length ? first + header[i + 3] : content.length;
+        if (!objects.has(header[i])) objects.set(header[i], { dictionary: content.slice(first + header[i + 1], end) });
+      }
+    });
+}
+
+/**
+ * Raw value of a dictionary entry: a reference ("12 0 R"), a nested dictionary or array, or a single token
+ */
+function readEntry(dictionary: string, key: string): string | null {
+  const match = new RegExp(`/${key}(?![^\\s/\\[\\]()<>{}%])\\s*`).exec(dictionary);
+  if (!match) return null;
+  const rest = dictionary.slice(match.index + match[0].length);
+
+  const reference = rest.match(/^\d+\s+\d+\s+R\b/);
+  if (reference) return reference[0];
+  if (rest.startsWith("<<") || rest.startsWith("[")) {
+    let depth = 0;
+    for (let i = 0; i < rest.length; i++) {
+      if (rest.startsWith("<<", i) || rest[i] === "[") {
+        depth++;
+        if (rest[i] === "<") i++;
+      } else if (rest.startsWith(">>", i) || rest[i] === "]") {
+        depth--;
+        if (rest[i] === ">") i++;
+        if (depth === 0) return rest.slice(0, i + 1);
+      }
+    }
+    return rest;
+  }
+  return rest.match(/^(\/[^\s/[\]()<>{}%]*|[^\s/[\]()<>{}%]+)/)?.[0] || null;
+}
+
+function referencedNumbers(value: string | null): number[] {
+  return Array.from((value || "").matchAll(/(\d+)\s+\d+\s+R\b/g), (match) => Number(match[1]));
+}
+
+// An entry's value as an object: the referenced object, or the inline value itself
+function resolve(objects: Map<number, PdfObject>, value: string | null): PdfObject | null {
+  if (!value) return null;
+  return /^\d+\s+\d+\s+R$/.test(value) ? objects.get(referencedNumbers(value)[0]) || null : { dictionary: value };
+}
+
+function hexToString(hex: string): string {
+  let text = "";
+  for (let i = 0; i + 4 <= hex.length; i += 4) text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  return text;
+}
+
+/**
+ * Mappings of one ToUnicode CMap
+ */
+function readCMap(source: string): FontCMap {
+  const map = new Map<string, string>();
+  const codespace = source.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+  let codeLength = codespace ? codespace[1].length : 0;
+  for (const block of source.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const entry of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(entry[1].toUpperCase(), hexToString(entry[2]));
+      codeLength = codeLength || entry[1].length;
+    }
+  }
+  for (const block of source.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const entry of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      const low = parseInt(entry[1], 16);
+      const high = parseInt(entry[2], 16);
+      const width = entry[1].length;
+      codeLength = codeLength || width;
+      if (entry[3].startsWith("[")) {
+        Array.from(entry[3].matchAll(/<([0-9a-fA-F]*)>/g)).forEach((target, i) => {
+          map.set((low + i).toString(16).toUpperCase().padStart(width, "0"), hexToString(target[1]));
+        });
+      } else {
+        const base = entry[3].slice(1, -1);
+        const prefix = base.slice(0, -4);
+        const last = parseInt(base.slice(-4) || "0", 16);
+        for (let code = low; code <= high && code - low < 0x10000; code++) {
+          map.set(
+            code.toString(16).toUpperCase().padStart(width, "0"),
+            hexToString(prefix + (last + code - low).toString(16).padStart(4, "0"))
+          );
+        }
+      }
+    }
+  }
+  return { map, bytes: Math.max(Math.floor(codeLength / 2), 1) };
+}
+
+/**
+ * Text of a string operand (as raw bytes) shown in the given font
+ * Without a CMap the bytes are taken as characters; codes missing from a single-byte CMap are too.
+ */
+function decodeText(raw: string, font: FontCMap | null): string {
+  if (!font || font.map.size === 0) return raw;
+  let text = "";
+  for (let i = 0; i + font.bytes <= raw.length; i += font.bytes) {
+    let hex = "";
+    for (let k = 0; k < font.bytes; k++) hex += raw.charCodeAt(i + k).toString(16).toUpperCase().padStart(2, "0");
+    const mapped = font.map.get(hex);
+    text += mapped ?? (font.bytes === 1 ? raw[i] : "");
+  }
+  return text;
+}
+
+function decodeLiteral(body: string): string {
+  return body.replace(/\\(\r\n|\r|\n|[0-7]{1,3}|.)/g, (_, escape: string) => {
+    if (/^[0-7]+$/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+    switch (escape) {
+      case "n":
+        return "\n";
+      case "r":
+        return "\r";
+      case "t":
+        return "\t";
+      case "b":
+      case "f":
+      case "\r\n":
+      case "\r":
+      case "\n":
+        return "";
+      default:
+        return escape;
+    }
+  });
+}
+
+type Token = {
+  kind: "string" | "number" | "operator" | "arrayStart" | "arrayEnd" | "array" | "other";
+  value: string;
+  items?: Token[]; // Elements of an array operand
+};
+
+function* tokenize(content: string): Generator<Token> {
+  let i = 0;
+  while (i < content.length) {
+    const char = content[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "%") {
+      while (i < content.length && content[i] !== "\n" && content[i] !== "\r") i++;
+    } else if (char === "(") {
+      let depth = 1;
+      let j = i + 1;
+      while (j < content.length && depth > 0) {
+        if (content[j] === "\\") j++;
+        else if (content[j] === "(") depth++;
+        else if (content[j] === ")") depth--;
+        j++;
+      }
+      yield { kind: "string", value: decodeLiteral(content.slice(i + 1, j - 1)) };
+      i = j;
+    } else if (char === "<" && content[i + 1] !== "<") {
+      const end = content.indexOf(">", i);
+      yield { kind: "other", value: `<${content.slice(i + 1, end === -1 ? content.length : end)}>` };
+      i = end === -1 ? content.length : end + 1;
+    } else if (char === "[" || char === "]") {
+      yield { kind: char === "[" ? "arrayStart" : "arrayEnd", value: char };
+      i++;
+    } else if (/[-+.\d]/.test(char)) {
+      const match = content.slice(i).match(/^[-+]?\d*\.?\d+/);
+      yield { kind: "number", value: match ? match[0] : char };
+      i += match ? match[0].length : 1;
+    } else if (/[A-Za-z'"*]/.test(char)) {
+      const match = content.slice(i).match(/^[A-Za-z'"*]+/)!;
+      yield { kind: "operator", value: match[0] };
+      i += match[0].length;
+    } else {
+      // Names, dictionaries and inline image data are not needed
+      const match = content.slice(i).match(/^(\/[^\s/[\]()<>{}%]*|<<|>>|.)/)!;
+      yield { kind: "other", value: match[0] };
+      i += match[0].length;
+    }
+  }
+}
+
+function hexToBytes(hex: string): string {
+  const digits = hex.length % 2 ? `${hex}0` : hex;
+  let bytes = "";
+  for (let i = 0; i < digits.length; i += 2) bytes += String.fromCharCode(parseInt(digits.slice(i, i + 2), 16));
+  return bytes;
+}
+
+/**
+ * Lines of text in a page's content, with fonts keyed by their resource name (e.g. "F1")
+ */
+function extractLines(content: string, fonts: Record<string, FontCMap | null>): string[] {
+  const lines: string[] = [];
+  let line = "";
+  let operands: Token[] = [];
+  let array: Token[] | null = null;
+  let lastY: string | null = null;
+  let font: FontCMap | null = null;
+
+  const newLine = () => {
+    if (line.trim()) lines.push(line.replace(/\s+/g, " ").trim());
+    line = "";
+  };
+  const show = (token: Token) => {
+    if (token.kind === "string") line += decodeText(token.value, font);
+    else if (token.value.startsWith("<")) line += decodeText(hexToBytes(token.value.slice(1, -1).replace(/\s/g, "")), font);
+  };
+
+  for (const token of tokenize(content)) {
+    if (token.kind === "arrayStart") {
+      array = [];
+    } else if (token.kind === "arrayEnd") {
+      operands.push({ kind: "array", value: "", items: array || [] });
+      array = null;
+    } else if (array && token.kind !== "operator") {
+      array.push(token);
+    } else if (token.kind !== "operator") {
+      operands.push(token);
+    } else {
+      switch (token.value) {
+        case "BT":
+          lastY = null;
+          break;
+        case "ET":
+          newLine();
+          break;
+        case "Tf":
+          font = fonts[(operands[operands.length - 2]?.value || "").slice(1)] || null;
+          break;
+        case "Tj":
+          if (operands.length > 0) show(operands[operands.length - 1]);
+          break;
+        case "'":
+        case '"':
+          newLine();
+          if (operands.length > 0) show(operands[operands.length - 1]);
+          break;
+        case "TJ":
+          (operands[operands.length - 1]?.items || []).forEach((item) => {
+            // Large negative adjustments are the gaps between words
+            if (item.kind === "number") {
+              if (parseFloat(item.value) < -200 && !line.endsWith(" ")) line += " ";
+            } else show(item);
+          });
+          break;
+        case "Td":
+        case "TD": {
+          const ty = parseFloat(operands[operands.length - 1]?.value || "0");
+          if (ty !== 0) newLine();
+          else if (line && !line.endsWith(" ")) line += " ";
+          break;
+        }
+        case "Tm": {
+          const y = operands[operands.length - 1]?.value || null;
+          if (lastY !== null && y !== lastY) newLine();
+          else if (line && !line.endsWith(" ")) line += " ";
+          lastY = y;
+          break;
+        }
+        case "T*":
+          newLine();
+          break;
+      }
+      operands = [];
+    }
+  }
+  newLine();
+  return lines;
+}
+
+interface PdfPage {
+  contents: PdfObject[];
+  fonts: Record<string, FontCMap | null>;
+}
+
+/**
+ * Pages in order, from the page tree under the document catalog
+ */
+function readPages(objects: Map<number, PdfObject>): PdfPage[] {
+  const catalog = Array.from(objects.values()).find((object) => /\/Type\s*\/Catalog\b/.test(object.dictionary));
+  const pages: PdfPage[] = [];
+  const visited = new Set<PdfObject>();
+  const cmaps = new Map<PdfObject, FontCMap | null>();
+
+  const readFonts = (resources: string | null): Record<string, FontCMap | null> => {
+    const fontDictionary = resolve(objects, readEntry(resolve(objects, resources)?.dictionary || "", "Font"));
+    const fonts: Record<string, FontCMap | null> = {};
+    for (const entry of (fontDictionary?.dictionary || "").matchAll(/\/([^\s/[\]()<>{}%]+)\s+(\d+)\s+\d+\s+R\b/g)) {
+      const font = objects.get(Number(entry[2]));
+      const toUnicode = font && resolve(objects, readEntry(font.dictionary, "ToUnicode"));
+      if (toUnicode && !cmaps.has(toUnicode)) cmaps.set(toUnicode, toUnicode.content ? readCMap(toUnicode.content) : null);
+      fonts[entry[1]] = (toUnicode && cmaps.get(toUnicode)) || null;
+    }
+    return fonts;
+  };
+
+  // Resources may be inherited from an ancestor Pages node
+  const walk = (node: PdfObject | null, inheritedResources: string | null) => {
+    if (!node || visited.has(node)) return;
+    visited.add(node);
+    const resources = readEntry(node.dictionary, "Resources") || inheritedResources;
+    const kids = readEntry(node.dictionary, "Kids");
+    if (kids) {
+      referencedNumbers(resolve(objects, kids)?.dictionary || null).forEach((kid) => walk(objects.get(kid) || null, resources));
+      return;
+    }
+
+    // Contents is a stream, an array of streams or a reference to such an array
+    const contentsEntry = readEntry(node.dictionary, "Contents");
+    const contentsObject = resolve(objects, contentsEntry);
+    const streamNumbers = contentsObject?.data ? referencedNumbers(contentsEntry) : referencedNumbers(contentsObject?.dictionary || null);
+    pages.push({
+      contents: streamNumbers.map((number) => objects.get(number)).filter((stream): stream is PdfObject => !!stream),
+      fonts: readFonts(resources),
+    });
+  };
+
+  walk(resolve(objects, readEntry(catalog?.dictionary || "", "Pages")), null);
+  return pages;
+}
+
+/**
+ * Lines of text in a PDF, in page order
+ * Files whose page tree can't be read fall back to their content streams in file order, without CMaps.
+ */
+export async function extractPdfParagraphs(data: ArrayBuffer): Promise<string[]> {
+  const bytes = new Uint8Array(data);
+  const binary = toBinaryString(bytes);
+  if (!binary.startsWith("%PDF")) throw new Error("The file is not a valid PDF document.");
+
+  const objects = readObjects(bytes, binary);
+  for (const object of Array.from(objects.values())) {
+    if (object.data) object.content = await decodeStream(object);
+  }
+  readObjectStreams(objects);
+
+  const pages = readPages(objects);
+  if (pages.length === 0) {
+    return Array.from(objects.values())
+      .map((object) => object.content || "")
+      .filter((content) => /\bBT\b/.test(content) && /T[Jj]|'|"/.test(content))
+      .flatMap((content) => extractLines(content, {}));
+  }
+  return pages.flatMap((page) =>
+    extractLines(page.contents.map((stream) => stream.content || "").join("\n"), page.fonts)
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * Print helpers for generated documents (invoices, registers)
+ * Documents are rendered into a hidden iframe and sent to the browser print dialog,
+ * where they can be printed or saved as PDF.
+ */
+
+/**
+ * Escape a value for safe interpolation into generated HTML
+ */
+export function escapeHtml(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Print an HTML document through a hidden iframe
+ * The document title becomes the default file name when saving as PDF
+ */
+export function printHtmlDocument(title: string, bodyHtml: string, styles: string = ""): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const iframe = document.createElement("iframe");
+    iframe.style.position = "fixed";
+    iframe.style.right = "0";
+    iframe.style.bottom = "0";
+    iframe.style.width = "0";
+    iframe.style.height = "0";
+    iframe.style.border = "0";
+    document.body.appendChild(iframe);
+
+    const frameDocument = iframe.contentDocument;
+    const frameWindow = iframe.contentWindow;
+    if (!frameDocument || !frameWindow) {
+      document.body.removeChild(iframe);
+      reject(new Error("Unable to open the print preview"));
+      return;
+    }
+
+    frameDocument.open();
+    frameDocument.write(
+      `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>` +
+        `<style>${styles}</style></head><body>${bodyHtml}</body></html>`
+    );
+    frameDocument.close();
+
+    // Give the iframe a tick to lay out before opening the dialog
+    setTimeout(() => {
+      try {
+        frameWindow.focus();
+        frameWindow.print();
+        resolve();
+      } catch (err) {
+        reject(err);
+      } finally {
+        // Remove after the dialog has had time to snapshot the document
+        setTimeout(() => document.body.removeChild(iframe), 1000);
+      }
+    }, 250);
+  });
+}
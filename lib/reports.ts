@@ -0,0 +1,448 @@
+/**
+ * Report generation engine
+ * Computes the pre-built reports from the existing list/detail APIs
+ */
+
+import {
+  format,
+  parseISO,
+  isValid,
+  startOfMonth,
+  endOfMonth,
+  startOfQuarter,
+  endOfQuarter,
+  startOfYear,
+  endOfYear,
+  subMonths,
+  subQuarters,
+  eachMonthOfInterval,
+  differenceInDays,
+} from "date-fns";
+import {
+  apiClient,
+  fetchAllPages,
+  fetchInBatches,
+  BackendAMCListItem,
+  BackendAMCBilling,
+} from "@/lib/api";
+import { formatDate } from "@/lib/date-utils";
+import { AppModule } from "@/lib/auth";
+import { Report, ReportType } from "@/types";
+
+export type ReportColumnType = "text" | "number" | "currency" | "date" | "percent";
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  type: ReportColumnType;
+  total?: boolean; // Include this column in the totals row
+}
+
+export type ReportDateRange =
+  | "this-month"
+  | "last-month"
+  | "this-quarter"
+  | "last-quarter"
+  | "this-year"
+  | "custom";
+
+export interface ReportFilters {
+  dateRange: ReportDateRange;
+  dateFrom?: string; // YYYY-MM-DD, used when dateRange is "custom"
+  dateTo?: string; // YYYY-MM-DD, used when dateRange is "custom"
+  clientId?: number;
+  firmId?: number;
+}
+
+export type ReportFilterKey = "client" | "firm";
+
+export interface ReportDefinition {
+  type: Exclude<ReportType, "Custom">;
+  description: string;
+  filters: ReportFilterKey[];
+  module: AppModule; // Module the user needs read access to
+}
+
+export type GeneratedReport = Report & {
+  columns: ReportColumn[];
+  data: Record<string, any>[];
+  totals: Record<string, number>;
+  period: { from: string; to: string };
+};
+
+export const REPORT_DEFINITIONS: ReportDefinition[] = [
+  {
+    type: "AMC Billing Summary",
+    description: "Overview of AMC billing and outstanding receivables",
+    filters: ["client"],
+    module: "amcs",
+  },
+  {
+    type: "Payroll Summary",
+    description: "Monthly payroll costs and employee payments",
+    filters: [],
+    module: "payroll",
+  },
+  {
+    type: "Tasks by Employee",
+    description: "Employee productivity and task completion metrics",
+    filters: [],
+    module: "tasks",
+  },
+  {
+    type: "Tender Pipeline",
+    description: "Tender status, success rate, and bid analysis",
+    filters: ["firm"],
+    module: "tenders",
+  },
+  {
+    type: "Outstanding Receivables",
+    description: "Pending payments and aging analysis",
+    filters: ["client"],
+    module: "amcs",
+  },
+];
+
+export const REPORT_DATE_RANGE_OPTIONS: { value: ReportDateRange; label: string }[] = [
+  { value: "this-month", label: "This Month" },
+  { value: "last-month", label: "Last Month" },
+  { value: "this-quarter", label: "This Quarter" },
+  { value: "last-quarter", label: "Last Quarter" },
+  { value: "this-year", label: "This Year" },
+  { value: "custom", label: "Custom Range" },
+];
+
+/**
+ * Resolve a date range preset (or custom dates) to a concrete interval
+ */
+export function resolveDateRange(filters: ReportFilters, today: Date = new Date()): { from: Date; to: Date } {
+  switch (filters.dateRange) {
+    case "last-month": {
+      const lastMonth = subMonths(today, 1);
+      return { from: startOfMonth(lastMonth), to: endOfMonth(lastMonth) };
+    }
+    case "this-quarter":
+      return { from: startOfQuarter(today), to: endOfQuarter(today) };
+    case "last-quarter": {
+      const lastQuarter = subQuarters(today, 1);
+      return { from: startOfQuarter(lastQuarter), to: endOfQuarter(lastQuarter) };
+    }
+    case "this-year":
+      return { from: startOfYear(today), to: endOfYear(today) };
+    case "custom": {
+      const from = filters.dateFrom ? parseISO(filters.dateFrom) : startOfMonth(today);
+      const to = filters.dateTo ? parseISO(filters.dateTo) : endOfMonth(today);
+      // Include the whole end day
+      to.setHours(23, 59, 59, 999);
+      return { from, to };
+    }
+    case "this-month":
+    default:
+      return { from: startOfMonth(today), to: endOfMonth(today) };
+  }
+}
+
+function isInRange(dateString: string | null | undefined, range: { from: Date; to: Date }): boolean {
+  if (!dateString) return false;
+  const date = parseISO(dateString);
+  if (!isValid(date)) return false;
+  return date >= range.from && date <= range.to;
+}
+
+function toAmount(value: string | number | null | undefined): number {
+  if (value === null || value === undefined) return 0;
+  const amount = typeof value === "number" ? value : parseFloat(value);
+  return isNaN(amount) ? 0 : amount;
+}
+
+function computeTotals(columns: ReportColumn[], data: Record<string, any>[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  columns
+    .filter((column) => column.total)
+    .forEach((column) => {
+      totals[column.key] = data.reduce((sum, row) => sum + toAmount(row[column.key]), 0);
+    });
+  return totals;
+}
+
+/**
+ * Format a report cell for display according to its column type
+ */
+export function formatReportValue(value: any, type: ReportColumnType): string {
+  if (value === null || value === undefined || value === "") return "-";
+  switch (type) {
+    case "currency":
+      return `₹${toAmount(value).toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+    case "number":
+      return toAmount(value).toLocaleString("en-IN", { maximumFractionDigits: 2 });
+    case "percent":
+      return `${toAmount(value).toFixed(1)}%`;
+    case "date":
+      return formatDate(String(value));
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Fetch every AMC (optionally for a single client) together with its billing rows
+ * The list endpoint does not include billings, so details are loaded in small batches
+ */
+export async function fetchAMCsWithBillings(
+  clientId?: number
+): Promise<{ amc: BackendAMCListItem; billings: BackendAMCBilling[] }[]> {
+  const amcs = (await fetchAllPages((page) => apiClient.getAMCs({ page }))).filter(
+    (amc) => !clientId || amc.client_id === clientId
+  );
+
+  return fetchInBatches(amcs, async (amc) => {
+    const detail = await apiClient.getAMC(amc.id);
+    return { amc, billings: detail.billings || [] };
+  });
+}
+
+async function buildAMCBillingSummary(filters: ReportFilters, range: { from: Date; to: Date }) {
+  const columns: ReportColumn[] = [
+    { key: "amc_number", label: "AMC Number", type: "text" },
+    { key: "client_name", label: "Client", type: "text" },
+    { key: "billing_cycle", label: "Billing Cycle", type: "text" },
+    { key: "bills", label: "Bills", type: "number", total: true },
+    { key: "billed", label: "Billed", type: "currency", total: true },
+    { key: "paid", label: "Paid", type: "currency", total: true },
+    { key: "outstanding", label: "Outstanding", type: "currency", total: true },
+  ];
+
+  const amcs = await fetchAMCsWithBillings(filters.clientId);
+  const data = amcs
+    .map(({ amc, billings }) => {
+      const inRange = billings.filter((bill) => isInRange(bill.bill_date || bill.period_from, range));
+      const billed = inRange.reduce((sum, bill) => sum + toAmount(bill.amount), 0);
+      const paid = inRange.filter((bill) => bill.paid).reduce((sum, bill) => sum + toAmount(bill.amount), 0);
+      return {
+        amc_number: amc.amc_number,
+        client_name: amc.client_name,
+        billing_cycle: amc.billing_cycle,
+        bills: inRange.length,
+        billed,
+        paid,
+        outstanding: billed - paid,
+      };
+    })
+    .filter((row) => row.bills > 0);
+
+  return { columns, data };
+}
+
+async function buildOutstandingReceivables(filters: ReportFilters, range: { from: Date; to: Date }) {
+  const columns: ReportColumn[] = [
+    { key: "client_name", label: "Client", type: "text" },
+    { key: "unpaid_bills", label: "Unpaid Bills", type: "number", total: true },
+    { key: "outstanding", label: "Outstanding", type: "currency", total: true },
+    { key: "oldest_bill_date", label: "Oldest Bill", type: "date" },
+    { key: "days_outstanding", label: "Days Outstanding", type: "number" },
+  ];
+
+  const amcs = await fetchAMCsWithBillings(filters.clientId);
+  const byClient = new Map<number, { client_name: string; unpaid_bills: number; outstanding: number; oldest_bill_date: string | null }>();
+
+  amcs.forEach(({ amc, billings }) => {
+    billings
+      .filter((bill) => !bill.paid && isInRange(bill.bill_date || bill.period_from, range))
+      .forEach((bill) => {
+        const billDate = bill.bill_date || bill.period_from;
+        const entry = byClient.get(amc.client_id) || {
+          client_name: amc.client_name,
+          unpaid_bills: 0,
+          outstanding: 0,
+          oldest_bill_date: null,
+        };
+        entry.unpaid_bills += 1;
+        entry.outstanding += toAmount(bill.amount);
+        if (!entry.oldest_bill_date || billDate < entry.oldest_bill_date) {
+          entry.oldest_bill_date = billDate;
+        }
+        byClient.set(amc.client_id, entry);
+      });
+  });
+
+  const today = new Date();
+  const data = Array.from(byClient.values())
+    .map((entry) => ({
+      ...entry,
+      days_outstanding: entry.oldest_bill_date ? Math.max(0, differenceInDays(today, parseISO(entry.oldest_bill_date))) : 0,
+    }))
+    .sort((a, b) => b.outstanding - a.outstanding);
+
+  return { columns, data };
+}
+
+async function buildPayrollSummary(_filters: ReportFilters, range: { from: Date; to: Date }) {
+  const columns: ReportColumn[] = [
+    { key: "month", label: "Month", type: "text" },
+    { key: "employees", label: "Employees", type: "number", total: true },
+    { key: "employee_payroll", label: "Employee Payroll", type: "currency", total: true },
+    { key: "workers", label: "Contract Workers", type: "number", total: true },
+    { key: "contract_payroll", label: "Contract Payroll", type: "currency", total: true },
+    { key: "paid", label: "Paid", type: "currency", total: true },
+    { key: "pending", label: "Pending", type: "currency", total: true },
+    { key: "total", label: "Total", type: "currency", total: true },
+  ];
+
+  const months = eachMonthOfInterval({ start: range.from, end: range.to });
+  const data = [];
+  for (const monthDate of months) {
+    const month = monthDate.getMonth() + 1;
+    const year = monthDate.getFullYear();
+    const [payroll, payments] = await Promise.all([
+      fetchAllPages((page) => apiClient.getPayrollRecords({ month, year, page })),
+      fetchAllPages((page) => apiClient.getPaymentTrackerRecords({ month, year, page })),
+    ]);
+
+    const employeePayroll = payroll.reduce((sum, record) => sum + toAmount(record.net_amount), 0);
+    const contractPayroll = payments.reduce((sum, record) => sum + toAmount(record.net_salary), 0);
+    const paid =
+      payroll.filter((record) => record.payroll_status === "Paid").reduce((sum, record) => sum + toAmount(record.net_amount), 0) +
+      payments.filter((record) => record.payment_status === "Paid").reduce((sum, record) => sum + toAmount(record.net_salary), 0);
+    const total = employeePayroll + contractPayroll;
+
+    data.push({
+      month: format(monthDate, "MMM yyyy"),
+      employees: payroll.length,
+      employee_payroll: employeePayroll,
+      workers: payments.length,
+      contract_payroll: contractPayroll,
+      paid,
+      pending: total - paid,
+      total,
+    });
+  }
+
+  return { columns, data };
+}
+
+async function buildTasksByEmployee(_filters: ReportFilters, range: { from: Date; to: Date }) {
+  const columns: ReportColumn[] = [
+    { key: "employee_name", label: "Employee", type: "text" },
+    { key: "total", label: "Tasks", type: "number", total: true },
+    { key: "in_progress", label: "In Progress", type: "number", total: true },
+    { key: "completed", label: "Completed", type: "number", total: true },
+    { key: "pending_approval", label: "Pending Approval", type: "number", total: true },
+    { key: "approved", label: "Approved", type: "number", total: true },
+    { key: "rejected", label: "Rejected", type: "number", total: true },
+    { key: "hours", label: "Hours Logged", type: "number", total: true },
+    { key: "completion_rate", label: "Completion Rate", type: "percent" },
+  ];
+
+  const tasks = (await fetchAllPages((page) => apiClient.getTasks({ date_filter: "all", page }))).filter((task) =>
+    isInRange(task.deadline || task.created_at, range)
+  );
+
+  type EmployeeTaskRow = {
+    employee_name: string;
+    total: number;
+    in_progress: number;
+    completed: number;
+    pending_approval: number;
+    approved: number;
+    rejected: number;
+    hours: number;
+  };
+  const byEmployee = new Map<string, EmployeeTaskRow>();
+  tasks.forEach((task) => {
+    const name = task.employee_name || "Unassigned";
+    const entry: EmployeeTaskRow = byEmployee.get(name) || {
+      employee_name: name,
+      total: 0,
+      in_progress: 0,
+      completed: 0,
+      pending_approval: 0,
+      approved: 0,
+      rejected: 0,
+      hours: 0,
+    };
+    entry.total += 1;
+    if (task.status === "In Progress") entry.in_progress += 1;
+    if (task.status === "Completed") entry.completed += 1;
+    if (task.status === "Completed" && task.approval_status === "pending") entry.pending_approval += 1;
+    if (task.approval_status === "approved") entry.approved += 1;
+    if (task.approval_status === "rejected") entry.rejected += 1;
+    entry.hours += toAmount(task.time_taken_hours);
+    byEmployee.set(name, entry);
+  });
+
+  const data = Array.from(byEmployee.values())
+    .map((entry) => ({
+      ...entry,
+      hours: Math.round(entry.hours * 100) / 100,
+      completion_rate: entry.total > 0 ? (entry.completed / entry.total) * 100 : 0,
+    }))
+    .sort((a, b) => b.total - a.total);
+
+  return { columns, data };
+}
+
+async function buildTenderPipeline(filters: ReportFilters, range: { from: Date; to: Date }) {
+  const columns: ReportColumn[] = [
+    { key: "status", label: "Status", type: "text" },
+    { key: "tenders", label: "Tenders", type: "number", total: true },
+    { key: "estimated_value", label: "Estimated Value", type: "currency", total: true },
+    { key: "pending_emd", label: "Pending EMD", type: "currency", total: true },
+    { key: "share", label: "Share of Pipeline", type: "percent" },
+  ];
+
+  const tenders = (
+    await fetchAllPages((page) => apiClient.getTenders({ firm: filters.firmId, page }))
+  ).filter((tender) => isInRange(tender.filed_date || tender.start_date || tender.created_at, range));
+
+  const statuses = ["Draft", "Filed", "Awarded", "Lost", "Closed"] as const;
+  const data = statuses.map((status) => {
+    const matching = tenders.filter((tender) => tender.status === status);
+    return {
+      status,
+      tenders: matching.length,
+      estimated_value: matching.reduce((sum, tender) => sum + toAmount(tender.estimated_value), 0),
+      pending_emd: matching.reduce((sum, tender) => sum + toAmount(tender.pending_emd_amount), 0),
+      share: tenders.length > 0 ? (matching.length / tenders.length) * 100 : 0,
+    };
+  });
+
+  return { columns, data };
+}
+
+const REPORT_BUILDERS: Record<
+  ReportDefinition["type"],
+  (filters: ReportFilters, range: { from: Date; to: Date }) => Promise<{ columns: ReportColumn[]; data: Record<string, any>[] }>
+> = {
+  "AMC Billing Summary": buildAMCBillingSummary,
+  "Outstanding Receivables": buildOutstandingReceivables,
+  "Payroll Summary": buildPayrollSummary,
+  "Tasks by Employee": buildTasksByEmployee,
+  "Tender Pipeline": buildTenderPipeline,
+};
+
+/**
+ * Generate a report for the given type and filters
+ */
+export async function generateReport(
+  type: ReportDefinition["type"],
+  filters: ReportFilters,
+  createdBy: string
+): Promise<GeneratedReport> {
+  const range = resolveDateRange(filters);
+  const { columns, data } = await REPORT_BUILDERS[type](filters, range);
+  const definition = REPORT_DEFINITIONS.find((d) => d.type === type);
+
+  return {
+    id: Date.now(),
+    name: `${type} (${format(range.from, "dd MMM yyyy")} - ${format(range.to, "dd MMM yyyy")})`,
+    type,
+    description: definition?.description,
+    filters: { ...filters },
+    data,
+    columns,
+    totals: computeTotals(columns, data),
+    period: { from: format(range.from, "yyyy-MM-dd"), to: format(range.to, "yyyy-MM-dd") },
+    created_at: new Date().toISOString(),
+    created_by: createdBy,
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * Shifts and overtime
+ * Each employee works one configured shift (start, end, grace period). Check-in/check-out times are compared
+ * against the shift to flag late arrivals and early exits, and time worked beyond the shift length is overtime,
+ * paid at a configurable multiple of the hourly rate. Work on Sundays and holidays is overtime in full.
+ */
+
+import { addDays, differenceInMinutes, isValid, parseISO } from "date-fns";
+import { apiClient, BackendAttendanceListItem } from "@/lib/api";
+
+export interface Shift {
+  id: string;
+  name: string;
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm; earlier than startTime for overnight shifts
+  graceMinutes: number; // Allowed late arrival / early exit before it is flagged
+}
+
+export interface OvertimeRules {
+  enabled: boolean;
+  multiplier: number; // Times the ordinary hourly rate
+  minimumMinutes: number; // Daily overtime below this is ignored
+}
+
+export interface ShiftConfig {
+  shifts: Shift[];
+  defaultShiftId: string;
+  employeeShifts: Record<string, string>; // Employee id -> shift id
+  overtime: OvertimeRules;
+}
+
+export const DEFAULT_SHIFT_CONFIG: ShiftConfig = {
+  shifts: [{ id: "general", name: "General", startTime: "09:30", endTime: "18:30", graceMinutes: 15 }],
+  defaultShiftId: "general",
+  employeeShifts: {},
+  overtime: { enabled: true, multiplier: 2, minimumMinutes: 30 },
+};
+
+export interface DailyHours {
+  worked_minutes: number | null; // Null until the employee checks out
+  late_minutes: number; // Minutes after shift start, when beyond the grace period
+  early_exit_minutes: number; // Minutes before shift end, when beyond the grace period
+  overtime_minutes: number;
+}
+
+export interface ShiftSummary {
+  worked_minutes: number;
+  late_days: number;
+  late_minutes: number;
+  early_exit_days: number;
+  overtime_minutes: number;
+}
+
+type AttendanceTimes = Pick<
+  BackendAttendanceListItem,
+  "attendance_date" | "attendance_status" | "check_in_time" | "check_out_time"
+>;
+
+/**
+ * Fill in missing parts of a saved shift configuration with the defaults
+ */
+export function resolveShiftConfig(saved?: Partial<ShiftConfig> | null): ShiftConfig {
+  const shifts = saved?.shifts?.length ? saved.shifts : DEFAULT_SHIFT_CONFIG.shifts;
+  return {
+    shifts,
+    defaultShiftId: shifts.some((shift) => shift.id === saved?.defaultShiftId) ? saved!.defaultShiftId! : shifts[0].id,
+    employeeShifts: { ...saved?.employeeShifts },
+    overtime: { ...DEFAULT_SHIFT_CONFIG.overtime, ...saved?.overtime },
+  };
+}
+
+/**
+ * Load the shift configuration saved in system settings, falling back to the defaults
+ */
+export async function fetchShiftConfig(): Promise<ShiftConfig> {
+  try {
+    const settings = await apiClient.getSystemSettings();
+    return resolveShiftConfig(settings.shift_config);
+  } catch (err) {
+    console.error("Error fetching shift configuration, using defaults:", err);
+    return DEFAULT_SHIFT_CONFIG;
+  }
+}
+
+export function getEmployeeShift(config: ShiftConfig, employeeId: number): Shift {
+  const shiftId = config.employeeShifts[String(employeeId)] || config.defaultShiftId;
+  return (
+    config.shifts.find((shift) => shift.id === shiftId) ||
+    config.shifts.find((shift) => shift.id === config.defaultShiftId) ||
+    config.shifts[0]
+  );
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map((part) => parseInt(part, 10) || 0);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Scheduled length of a shift in minutes
+ */
+export function getShiftMinutes(shift: Pick<Shift, "startTime" | "endTime">): number {
+  const length = toMinutes(shift.endTime) - toMinutes(shift.startTime);
+  return length > 0 ? length : length + 24 * 60;
+}
+
+/**
+ * Hours worked, lateness and overtime of one attendance record
+ * isWorkingDay is false on Sundays and holidays, where all time worked counts as overtime
+ */
+export function computeDailyHours(
+  record: AttendanceTimes,
+  shift: Shift,
+  rules: OvertimeRules = DEFAULT_SHIFT_CONFIG.overtime,
+  isWorkingDay: boolean = true
+): DailyHours {
+  const none: DailyHours = { worked_minutes: null, late_minutes: 0, early_exit_minutes: 0, overtime_minutes: 0 };
+  if (!record.check_in_time || (record.attendance_status !== "Present" && record.attendance_status !== "Half-Day")) {
+    return none;
+  }
+  const checkIn = parseISO(record.check_in_time);
+  const checkOut = record.check_out_time ? parseISO(record.check_out_time) : null;
+  const shiftStart = parseISO(`${record.attendance_date.slice(0, 10)}T${shift.startTime}`);
+  if (!isValid(checkIn) || !isValid(shiftStart)) return none;
+
+  // A half day is expected to cover the first half of the shift
+  const expectedMinutes = getShiftMinutes(shift) / (record.attendance_status === "Half-Day" ? 2 : 1);
+  const shiftEnd = new Date(shiftStart.getTime() + expectedMinutes * 60000);
+
+  const lateBy = isWorkingDay ? differenceInMinutes(checkIn, shiftStart) : 0;
+  const late_minutes = lateBy > shift.graceMinutes ? lateBy : 0;
+
+  if (!checkOut || !isValid(checkOut)) {
+    return { ...none, late_minutes };
+  }
+  // Check-out before check-in on an overnight shift means it happened the next day
+  const end = checkOut < checkIn ? addDays(checkOut, 1) : checkOut;
+  const worked_minutes = Math.max(0, differenceInMinutes(end, checkIn));
+
+  const leftEarlyBy = isWorkingDay ? differenceInMinutes(shiftEnd, end) : 0;
+  const early_exit_minutes = leftEarlyBy > shift.graceMinutes ? leftEarlyBy : 0;
+
+  const extra = isWorkingDay ? worked_minutes - expectedMinutes : worked_minutes;
+  const overtime_minutes = rules.enabled && extra >= rules.minimumMinutes ? Math.round(extra) : 0;
+
+  return { worked_minutes, late_minutes, early_exit_minutes, overtime_minutes };
+}
+
+/**
+ * Totals of an employee's attendance for a period
+ */
+export function summarizeShiftAttendance(
+  records: AttendanceTimes[],
+  shift: Shift,
+  rules: OvertimeRules,
+  workingDates?: Set<string>
+): ShiftSummary {
+  return records.reduce<ShiftSummary>(
+    (summary, record) => {
+      const isWorkingDay = workingDates ? workingDates.has(record.attendance_date.slice(0, 10)) : true;
+      const hours = computeDailyHours(record, shift, rules, isWorkingDay);
+      return {
+        worked_minutes: summary.worked_minutes + (hours.worked_minutes || 0),
+        late_days: summary.late_days + (hours.late_minutes > 0 ? 1 : 0),
+        late_minutes: summary.late_minutes + hours.late_minutes,
+        early_exit_days: summary.early_exit_days + (hours.early_exit_minutes > 0 ? 1 : 0),
+        overtime_minutes: summary.overtime_minutes + hours.overtime_minutes,
+      };
+    },
+    { worked_minutes: 0, late_days: 0, late_minutes: 0, early_exit_days: 0, overtime_minutes: 0 }
+  );
+}
+
+/**
+ * Overtime pay for a period: hourly rate (monthly salary / working days / shift hours) x hours x multiplier
+ */
+export function computeOvertimeAllowance(
+  overtimeMinutes: number,
+  monthlySalary: number,
+  workingDays: number,
+  shift: Shift,
+  rules: OvertimeRules
+): { name: string; amount: number } | null {
+  if (!rules.enabled || overtimeMinutes <= 0 || workingDays <= 0) return null;
+  const hourlyRate = monthlySalary / workingDays / (getShiftMinutes(shift) / 60);
+  const hours = overtimeMinutes / 60;
+  return {
+    name: `Overtime (${formatMinutes(overtimeMinutes)} @ ${rules.multiplier}x)`,
+    amount: Math.round(hourlyRate * hours * rules.multiplier * 100) / 100,
+  };
+}
+
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const remainder = Math.round(minutes % 60);
+  if (hours === 0) return `${remainder}m`;
+  return remainder ? `${hours}h ${remainder}m` : `${hours}h`;
+}
+
+export function formatShiftTime(time: string): string {
+  const [hours, minutes] = time.split(":").map((part) => parseInt(part, 10) || 0);
+  const suffix = hours >= 12 ? "PM" : "AM";
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, "0")} ${suffix}`;
+}
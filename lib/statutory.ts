@@ -0,0 +1,210 @@
+/**
+ * Statutory payroll deductions
+ * Employee-side PF, ESI, state Professional Tax and monthly TDS (new tax regime) for a month's wages.
+ * Rates and thresholds are configurable; defaults follow the current central rules.
+ */
+
+export interface StatutoryConfig {
+  pf: {
+    enabled: boolean;
+    employeeRate: number; // % of PF wages
+    wageCeiling: number; // Monthly PF wage ceiling
+    restrictToCeiling: boolean; // Compute on min(wages, ceiling)
+  };
+  esi: {
+    enabled: boolean;
+    employeeRate: number; // % of gross wages
+    wageThreshold: number; // ESI applies only when monthly gross is at or below this
+  };
+  professionalTax: {
+    enabled: boolean;
+    defaultState: string; // Used when the payee has no state on record
+  };
+  tds: {
+    enabled: boolean;
+    standardDeduction: number; // Annual
+  };
+}
+
+export const DEFAULT_STATUTORY_CONFIG: StatutoryConfig = {
+  pf: { enabled: true, employeeRate: 12, wageCeiling: 15000, restrictToCeiling: true },
+  esi: { enabled: true, employeeRate: 0.75, wageThreshold: 21000 },
+  professionalTax: { enabled: true, defaultState: "Maharashtra" },
+  tds: { enabled: true, standardDeduction: 75000 },
+};
+
+interface ProfessionalTaxSlab {
+  min: number; // Monthly gross lower bound (inclusive)
+  amount: number;
+  februaryAmount?: number; // Maharashtra collects the annual balance in February
+}
+
+/**
+ * Monthly Professional Tax slabs by state
+ * States without PT (e.g. Delhi, Uttar Pradesh) are not listed and deduct nothing
+ */
+export const PROFESSIONAL_TAX_SLABS: Record<string, ProfessionalTaxSlab[]> = {
+  Maharashtra: [
+    { min: 0, amount: 0 },
+    { min: 7501, amount: 175 },
+    { min: 10001, amount: 200, februaryAmount: 300 },
+  ],
+  Karnataka: [
+    { min: 0, amount: 0 },
+    { min: 25000, amount: 200 },
+  ],
+  "West Bengal": [
+    { min: 0, amount: 0 },
+    { min: 10001, amount: 110 },
+    { min: 15001, amount: 130 },
+    { min: 25001, amount: 150 },
+    { min: 40001, amount: 200 },
+  ],
+  Gujarat: [
+    { min: 0, amount: 0 },
+    { min: 12000, amount: 200 },
+  ],
+  "Andhra Pradesh": [
+    { min: 0, amount: 0 },
+    { min: 15001, amount: 150 },
+    { min: 20001, amount: 200 },
+  ],
+  Telangana: [
+    { min: 0, amount: 0 },
+    { min: 15001, amount: 150 },
+    { min: 20001, amount: 200 },
+  ],
+  // Tamil Nadu levies PT half-yearly; amounts are the monthly equivalent
+  "Tamil Nadu": [
+    { min: 0, amount: 0 },
+    { min: 3501, amount: 23 },
+    { min: 5001, amount: 53 },
+    { min: 7501, amount: 115 },
+    { min: 10001, amount: 171 },
+    { min: 12501, amount: 208 },
+  ],
+  "Madhya Pradesh": [
+    { min: 0, amount: 0 },
+    { min: 18751, amount: 125 },
+    { min: 25001, amount: 167 },
+    { min: 33334, amount: 208 },
+  ],
+};
+
+// New regime annual slabs (FY 2025-26)
+const TDS_SLABS: { upTo: number; rate: number }[] = [
+  { upTo: 400000, rate: 0 },
+  { upTo: 800000, rate: 5 },
+  { upTo: 1200000, rate: 10 },
+  { upTo: 1600000, rate: 15 },
+  { upTo: 2000000, rate: 20 },
+  { upTo: 2400000, rate: 25 },
+  { upTo: Infinity, rate: 30 },
+];
+const TDS_REBATE_LIMIT = 1200000; // Section 87A: no tax up to this taxable income, with marginal relief above it
+const HEALTH_EDUCATION_CESS = 4; // %
+
+export interface StatutoryPayee {
+  state?: string | null;
+  pfApplicable: boolean; // Employees are always covered; contract workers only with a UAN / PF number
+  esiApplicable: boolean;
+}
+
+export interface StatutoryDeduction {
+  name: string;
+  amount: number;
+}
+
+/**
+ * Merge a saved (possibly partial) configuration over the defaults
+ */
+export function resolveStatutoryConfig(saved?: Partial<StatutoryConfig> | null): StatutoryConfig {
+  return {
+    pf: { ...DEFAULT_STATUTORY_CONFIG.pf, ...saved?.pf },
+    esi: { ...DEFAULT_STATUTORY_CONFIG.esi, ...saved?.esi },
+    professionalTax: { ...DEFAULT_STATUTORY_CONFIG.professionalTax, ...saved?.professionalTax },
+    tds: { ...DEFAULT_STATUTORY_CONFIG.tds, ...saved?.tds },
+  };
+}
+
+function findStateSlabs(state: string): ProfessionalTaxSlab[] | undefined {
+  const normalized = state.trim().toLowerCase();
+  const key = Object.keys(PROFESSIONAL_TAX_SLABS).find((name) => name.toLowerCase() === normalized);
+  return key ? PROFESSIONAL_TAX_SLABS[key] : undefined;
+}
+
+/**
+ * Monthly Professional Tax for a state (month is 1-12)
+ */
+export function computeProfessionalTax(monthlyGross: number, state: string, month: number): number {
+  const slabs = findStateSlabs(state);
+  if (!slabs) return 0;
+  const slab = [...slabs].reverse().find((s) => monthlyGross >= s.min);
+  if (!slab) return 0;
+  return month === 2 && slab.februaryAmount !== undefined ? slab.februaryAmount : slab.amount;
+}
+
+/**
+ * Monthly TDS on salary under the new regime, projecting the month's gross over the year
+ */
+export function computeMonthlyTDS(monthlyGross: number, standardDeduction: number): number {
+  const taxableIncome = Math.max(0, monthlyGross * 12 - standardDeduction);
+  if (taxableIncome <= TDS_REBATE_LIMIT) return 0;
+
+  let tax = 0;
+  let lowerBound = 0;
+  for (const slab of TDS_SLABS) {
+    if (taxableIncome > lowerBound) {
+      tax += ((Math.min(taxableIncome, slab.upTo) - lowerBound) * slab.rate) / 100;
+    }
+    lowerBound = slab.upTo;
+  }
+  // Marginal relief: tax may not exceed the income above the rebate limit
+  const annualTax = Math.min(tax, taxableIncome - TDS_REBATE_LIMIT);
+  return Math.round((annualTax * (1 + HEALTH_EDUCATION_CESS / 100)) / 12);
+}
+
+/**
+ * Statutory deduction line items for one payee's month
+ * pfWages is the wage base for PF (earned basic); grossWages drives ESI, PT and TDS
+ */
+export function computeStatutoryDeductions(
+  wages: { pfWages: number; grossWages: number; month: number },
+  payee: StatutoryPayee,
+  config: StatutoryConfig = DEFAULT_STATUTORY_CONFIG
+): StatutoryDeduction[] {
+  const deductions: StatutoryDeduction[] = [];
+
+  if (config.pf.enabled && payee.pfApplicable && wages.pfWages > 0) {
+    const base = config.pf.restrictToCeiling ? Math.min(wages.pfWages, config.pf.wageCeiling) : wages.pfWages;
+    deductions.push({
+      name: `Provident Fund (${config.pf.employeeRate}%)`,
+      amount: Math.round((base * config.pf.employeeRate) / 100),
+    });
+  }
+
+  if (config.esi.enabled && payee.esiApplicable && wages.grossWages > 0 && wages.grossWages <= config.esi.wageThreshold) {
+    deductions.push({
+      name: `ESI (${config.esi.employeeRate}%)`,
+      // ESIC rounds contributions up to the next rupee
+      amount: Math.ceil((wages.grossWages * config.esi.employeeRate) / 100),
+    });
+  }
+
+  if (config.professionalTax.enabled) {
+    const state = payee.state || config.professionalTax.defaultState;
+    const amount = computeProfessionalTax(wages.grossWages, state, wages.month);
+    if (amount > 0) {
+      deductions.push({ name: `Professional Tax (${state})`, amount });
+    }
+  }
+
+  if (config.tds.enabled) {
+    const amount = computeMonthlyTDS(wages.grossWages, config.tds.standardDeduction);
+    if (amount > 0) {
+      deductions.push({ name: "TDS on Salary", amount });
+    }
+  }
+
+  return deductions;
+}
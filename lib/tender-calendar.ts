@@ -0,0 +1,224 @@
+/**
+ * Tender deadline and deposit calendar
+ * Collects submission deadlines, EMD refunds, security deposit refunds and DD dates across tenders,
+ * and totals the money still locked in deposits per firm.
+ */
+
+import { addDays, differenceInCalendarDays, format, parseISO, isValid } from "date-fns";
+import { apiClient, fetchAllPages, fetchInBatches, BackendTenderDeposit, BackendTenderListItem } from "@/lib/api";
+
+// EMD is expected back this many days after the tender closes (lost, closed or converted on award)
+export const EMD_REFUND_DAYS = 30;
+// Events due within this window are flagged as due soon
+export const DUE_SOON_DAYS = 7;
+
+export type TenderEventType = "submission" | "emd-refund" | "sd-refund" | "dd";
+export type TenderEventStatus = "upcoming" | "due-soon" | "overdue" | "done";
+
+export interface TenderCalendarEvent {
+  key: string;
+  tender_id: number;
+  tender_name: string;
+  reference_number: string;
+  firm_name: string;
+  type: TenderEventType;
+  date: string; // YYYY-MM-DD
+  label: string;
+  amount?: number;
+  status: TenderEventStatus;
+}
+
+export interface FirmDepositSummary {
+  firm_id: number | null;
+  firm_name: string;
+  tender_count: number;
+  emd_locked: number;
+  sd_locked: number;
+  total_locked: number;
+  overdue_amount: number;
+}
+
+export interface TenderCalendarData {
+  events: TenderCalendarEvent[];
+  firms: FirmDepositSummary[];
+}
+
+type TenderWithDeposits = BackendTenderListItem & { deposits: BackendTenderDeposit[] };
+
+const CLOSED_STATUSES: BackendTenderListItem["status"][] = ["Awarded", "Lost", "Closed"];
+
+const DEPOSIT_LABELS: Record<BackendTenderDeposit["deposit_type"], string> = {
+  EMD_Security1: "SD1",
+  EMD_Security2: "SD2",
+};
+
+function toDateString(value: string | undefined | null): string | null {
+  if (!value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? format(date, "yyyy-MM-dd") : null;
+}
+
+function getStatus(date: string, done: boolean, today: Date): TenderEventStatus {
+  if (done) return "done";
+  const daysLeft = differenceInCalendarDays(parseISO(date), today);
+  if (daysLeft < 0) return "overdue";
+  return daysLeft <= DUE_SOON_DAYS ? "due-soon" : "upcoming";
+}
+
+/**
+ * Expected EMD refund date of a tender, or null while the tender is still open
+ */
+export function getEMDRefundDueDate(tender: Pick<BackendTenderListItem, "status" | "end_date">): string | null {
+  if (!CLOSED_STATUSES.includes(tender.status)) return null;
+  const endDate = toDateString(tender.end_date);
+  return endDate ? format(addDays(parseISO(endDate), EMD_REFUND_DAYS), "yyyy-MM-dd") : null;
+}
+
+/**
+ * Build calendar events for a set of tenders
+ */
+export function buildTenderEvents(tenders: TenderWithDeposits[], today: Date = new Date()): TenderCalendarEvent[] {
+  const events: TenderCalendarEvent[] = [];
+
+  tenders.forEach((tender) => {
+    const base = {
+      tender_id: tender.id,
+      tender_name: tender.name,
+      reference_number: tender.reference_number,
+      firm_name: tender.firm_name || "No Firm",
+    };
+
+    // Submission deadline while the tender is being prepared or under evaluation
+    const endDate = toDateString(tender.end_date);
+    if (endDate && (tender.status === "Draft" || tender.status === "Filed")) {
+      events.push({
+        ...base,
+        key: `submission-${tender.id}`,
+        type: "submission",
+        date: endDate,
+        label: tender.status === "Draft" ? "Submission deadline" : "Tender closes",
+        status: getStatus(endDate, tender.status === "Filed", today),
+      });
+    }
+
+    // EMD refund
+    if (tender.total_emd_cost > 0) {
+      const collectedDate = toDateString(tender.emd_collected_date);
+      const dueDate = getEMDRefundDueDate(tender);
+      if (tender.emd_collected && collectedDate) {
+        events.push({
+          ...base,
+          key: `emd-${tender.id}`,
+          type: "emd-refund",
+          date: collectedDate,
+          label: "EMD collected",
+          amount: tender.total_emd_cost,
+          status: "done",
+        });
+      } else if (!tender.emd_collected && dueDate) {
+        events.push({
+          ...base,
+          key: `emd-${tender.id}`,
+          type: "emd-refund",
+          date: dueDate,
+          label: "EMD refund due",
+          amount: tender.pending_emd_amount || tender.total_emd_cost,
+          status: getStatus(dueDate, false, today),
+        });
+      }
+    }
+
+    // Demand drafts and security deposit refunds
+    tender.deposits.forEach((deposit) => {
+      const amount = parseFloat(deposit.dd_amount) || 0;
+      const label = DEPOSIT_LABELS[deposit.deposit_type] || "Deposit";
+      const ddDate = toDateString(deposit.dd_date);
+      if (ddDate) {
+        events.push({
+          ...base,
+          key: `dd-${deposit.id}`,
+          type: "dd",
+          date: ddDate,
+          label: `${label} DD ${deposit.dd_number}`,
+          amount,
+          status: "done",
+        });
+      }
+      const refundDate = toDateString(deposit.refund_date);
+      if (refundDate) {
+        events.push({
+          ...base,
+          key: `sd-${deposit.id}`,
+          type: "sd-refund",
+          date: refundDate,
+          label: deposit.is_refunded ? `${label} refunded` : `${label} refund due`,
+          amount,
+          status: getStatus(refundDate, deposit.is_refunded, today),
+        });
+      }
+    });
+  });
+
+  return events.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Money locked in EMD and unrefunded security deposits, per firm
+ */
+export function summarizeLockedDeposits(tenders: TenderWithDeposits[], today: Date = new Date()): FirmDepositSummary[] {
+  const summaries = new Map<string, FirmDepositSummary>();
+
+  tenders.forEach((tender) => {
+    const emdLocked = tender.has_pending_emd ? tender.pending_emd_amount : 0;
+    const pendingDeposits = tender.deposits.filter((deposit) => !deposit.is_refunded);
+    const sdLocked = pendingDeposits.reduce((sum, deposit) => sum + (parseFloat(deposit.dd_amount) || 0), 0);
+    if (emdLocked === 0 && sdLocked === 0) return;
+
+    const emdDueDate = getEMDRefundDueDate(tender);
+    const emdOverdue = emdLocked > 0 && !!emdDueDate && differenceInCalendarDays(parseISO(emdDueDate), today) < 0;
+    const sdOverdue = pendingDeposits
+      .filter((deposit) => {
+        const refundDate = toDateString(deposit.refund_date);
+        return !!refundDate && differenceInCalendarDays(parseISO(refundDate), today) < 0;
+      })
+      .reduce((sum, deposit) => sum + (parseFloat(deposit.dd_amount) || 0), 0);
+
+    const key = String(tender.firm ?? "none");
+    const summary = summaries.get(key) || {
+      firm_id: tender.firm ?? null,
+      firm_name: tender.firm_name || "No Firm",
+      tender_count: 0,
+      emd_locked: 0,
+      sd_locked: 0,
+      total_locked: 0,
+      overdue_amount: 0,
+    };
+    summary.tender_count += 1;
+    summary.emd_locked += emdLocked;
+    summary.sd_locked += sdLocked;
+    summary.total_locked += emdLocked + sdLocked;
+    summary.overdue_amount += (emdOverdue ? emdLocked : 0) + sdOverdue;
+    summaries.set(key, summary);
+  });
+
+  return Array.from(summaries.values()).sort((a, b) => b.total_locked - a.total_locked);
+}
+
+/**
+ * Fetch every tender with its deposits and build the calendar
+ */
+export async function fetchTenderCalendarData(): Promise<TenderCalendarData> {
+  const tenders = await fetchAllPages((page) => apiClient.getTenders({ page }));
+  // Deposits are only on the detail endpoint; drafts have none yet
+  const withDeposits: TenderWithDeposits[] = await fetchInBatches(tenders, async (tender) => {
+    if (tender.status === "Draft") return { ...tender, deposits: [] };
+    const detail = await apiClient.getTender(tender.id);
+    return { ...tender, deposits: detail.deposits || [] };
+  });
+
+  const today = new Date();
+  return {
+    events: buildTenderEvents(withDeposits, today),
+    firms: summarizeLockedDeposits(withDeposits, today),
+  };
+}
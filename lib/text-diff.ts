@@ -0,0 +1,170 @@
+/**
+ * Paragraph-level text diff for comparing document template versions
+ * Paragraphs are aligned with a longest-common-subsequence diff. Where a removed paragraph is
+ * followed by a similar inserted one it is reported as changed, with a word-level diff of the two.
+ */
+
+export type DiffOp = "equal" | "insert" | "delete";
+
+export interface WordDiffPart {
+  type: DiffOp;
+  text: string;
+}
+
+export interface ParagraphDiff {
+  type: DiffOp | "change";
+  oldText?: string; // Absent for inserted paragraphs
+  newText?: string; // Absent for removed paragraphs
+  parts?: WordDiffPart[]; // Word-level diff of a changed paragraph
+}
+
+export interface DiffSummary {
+  inserted: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+}
+
+// Changed paragraphs must share at least this share of their words
+const CHANGE_SIMILARITY = 0.5;
+
+// Largest LCS table built (4 bytes a cell, so about 8 MB); bigger alignments are not attempted
+const MAX_DIFF_CELLS = 2_000_000;
+
+/**
+ * Longest-common-subsequence alignment of two sequences, or null when the differing middle parts are
+ * too long to align within MAX_DIFF_CELLS
+ */
+function diffSequences(a: string[], b: string[]): { type: DiffOp; value: string }[] | null {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const head = a.slice(0, prefix).map((value) => ({ type: "equal" as DiffOp, value }));
+  const tail = a.slice(a.length - suffix).map((value) => ({ type: "equal" as DiffOp, value }));
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+
+  if (rows * cols > MAX_DIFF_CELLS) return null;
+
+  // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+  const lengths = new Uint32Array(rows * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] =
+        midA[i] === midB[j]
+          ? lengths[(i + 1) * cols + j + 1] + 1
+          : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const middle: { type: DiffOp; value: string }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: "equal", value: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      middle.push({ type: "delete", value: midA[i++] });
+    } else {
+      middle.push({ type: "insert", value: midB[j++] });
+    }
+  }
+  while (i < midA.length) middle.push({ type: "delete", value: midA[i++] });
+  while (j < midB.length) middle.push({ type: "insert", value: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+}
+
+/**
+ * Word-level diff of two paragraphs; whitespace is kept with the preceding word
+ * Paragraphs too long to align are reported as wholly replaced.
+ */
+export function diffWords(oldText: string, newText: string): WordDiffPart[] {
+  const split = (text: string) => text.match(/\S+\s*/g) || [];
+  const parts: WordDiffPart[] = [];
+  const ops = diffSequences(split(oldText), split(newText)) || [
+    { type: "delete" as DiffOp, value: oldText },
+    { type: "insert" as DiffOp, value: newText },
+  ];
+  ops.forEach(({ type, value }) => {
+    const previous = parts[parts.length - 1];
+    if (previous && previous.type === type) previous.text += value;
+    else parts.push({ type, text: value });
+  });
+  return parts;
+}
+
+function similarity(parts: WordDiffPart[]): number {
+  const words = (type: DiffOp) =>
+    parts.filter((part) => part.type === type).reduce((sum, part) => sum + (part.text.match(/\S+/g) || []).length, 0);
+  const equal = words("equal");
+  const total = equal * 2 + words("insert") + words("delete");
+  return total === 0 ? 1 : (equal * 2) / total;
+}
+
+/**
+ * Diff two documents given as lists of paragraphs
+ * Throws when the documents differ in too many paragraphs to be aligned in the browser.
+ */
+export function diffParagraphs(oldParagraphs: string[], newParagraphs: string[]): ParagraphDiff[] {
+  const normalize = (paragraphs: string[]) => paragraphs.map((text) => text.replace(/\s+/g, " ").trim());
+  const ops = diffSequences(normalize(oldParagraphs), normalize(newParagraphs));
+  if (!ops) {
+    throw new Error("These versions differ in too many paragraphs to compare. Download both to compare them side by side.");
+  }
+  const result: ParagraphDiff[] = [];
+
+  let index = 0;
+  while (index < ops.length) {
+    if (ops[index].type === "equal") {
+      result.push({ type: "equal", oldText: ops[index].value, newText: ops[index].value });
+      index++;
+      continue;
+    }
+
+    // A block of removals and insertions between two unchanged paragraphs
+    const removed: string[] = [];
+    const inserted: string[] = [];
+    while (index < ops.length && ops[index].type !== "equal") {
+      (ops[index].type === "delete" ? removed : inserted).push(ops[index].value);
+      index++;
+    }
+
+    const count = Math.max(removed.length, inserted.length);
+    for (let k = 0; k < count; k++) {
+      const oldText = removed[k];
+      const newText = inserted[k];
+      if (oldText !== undefined && newText !== undefined) {
+        const parts = diffWords(oldText, newText);
+        if (similarity(parts) >= CHANGE_SIMILARITY) {
+          result.push({ type: "change", oldText, newText, parts });
+          continue;
+        }
+      }
+      if (oldText !== undefined) result.push({ type: "delete", oldText });
+      if (newText !== undefined) result.push({ type: "insert", newText });
+    }
+  }
+  return result;
+}
+
+export function summarizeDiff(diff: ParagraphDiff[]): DiffSummary {
+  return {
+    inserted: diff.filter((entry) => entry.type === "insert").length,
+    removed: diff.filter((entry) => entry.type === "delete").length,
+    changed: diff.filter((entry) => entry.type === "change").length,
+    unchanged: diff.filter((entry) => entry.type === "equal").length,
+  };
+}
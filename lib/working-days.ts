@@ -0,0 +1,38 @@
+/**
+ * Working-day calendar shared by payroll, leave and the muster roll
+ * Sundays and company-wide holidays are days off; optional holidays are working days for everyone
+ * who doesn't take them as leave.
+ */
+
+import { eachDayOfInterval, format, getDay, isValid, parseISO } from "date-fns";
+import { BackendHolidayCalendarListItem } from "@/lib/api";
+
+/**
+ * Optional holidays count against the optional-holiday quota instead of being a day off for everyone
+ * Older holiday records without the flag use the Festival type, shown as "Optional" in the calendar
+ */
+export function isOptionalHoliday(holiday: Pick<BackendHolidayCalendarListItem, "is_optional" | "type">): boolean {
+  return holiday.is_optional ?? holiday.type === "Festival";
+}
+
+/**
+ * Holiday dates that are days off for everyone (optional holidays excluded)
+ */
+export function getCompanyHolidayDates(holidays: BackendHolidayCalendarListItem[]): string[] {
+  return holidays.filter((holiday) => !isOptionalHoliday(holiday)).map((holiday) => holiday.date.slice(0, 10));
+}
+
+/**
+ * Working dates (YYYY-MM-DD) in a period, excluding Sundays and holidays
+ */
+export function getWorkingDates(periodFrom: string, periodTo: string, holidayDates: string[] = []): string[] {
+  const start = parseISO(periodFrom);
+  const end = parseISO(periodTo);
+  if (!isValid(start) || !isValid(end) || end < start) return [];
+
+  const holidays = new Set(holidayDates.map((date) => date.slice(0, 10)));
+  return eachDayOfInterval({ start, end })
+    .filter((date) => getDay(date) !== 0)
+    .map((date) => format(date, "yyyy-MM-dd"))
+    .filter((date) => !holidays.has(date));
+}
@@ -7,6 +7,9 @@ export type Client = {
   state: string;
   pin_code: string;
   country: string;
+  site_latitude?: string; // Site geofence for attendance
+  site_longitude?: string;
+  site_radius_meters?: number;
   primary_contact_name: string;
   primary_contact_email: string;
   primary_contact_phone: string;
@@ -24,10 +27,11 @@ export type Client = {
 export type ClientActivity = {
   id: number;
   client_id: number;
-  type: "Task Created" | "Bill Generated" | "Email Sent" | "Project Started" | "AMC Created" | "Payment Received";
+  type: "Task Created" | "Bill Generated" | "Email Sent" | "Project Started" | "AMC Created" | "Payment Received" | "AMC Renewed";
   description: string;
   performed_by: string;
   timestamp: string;
+  link?: string; // Page the activity's record is shown on
 };
 
 export type AMC = {
@@ -167,6 +171,9 @@ export type Project = {
   start_date: string;
   end_date: string;
   status: "Planned" | "In Progress" | "On Hold" | "Completed" | "Canceled";
+  site_latitude?: string; // Site geofence for attendance
+  site_longitude?: string;
+  site_radius_meters?: number;
   created_at: string;
   updated_at: string;
 };